@@ -14,6 +14,28 @@ const pool = mysql.createPool({
   charset: 'utf8mb4'
 });
 
+/**
+ * Columns added after the initial release.
+ * CREATE TABLE IF NOT EXISTS won't touch existing tables, so databases created
+ * by an older version get these columns added on startup instead.
+ */
+const COLUMN_MIGRATIONS: { table: string; column: string; definition: string }[] = [
+  { table: 'tags', column: 'category', definition: "VARCHAR(16) NOT NULL DEFAULT 'general' AFTER name, ADD INDEX idx_category (category)" },
+  { table: 'duplicate_groups', column: 'reviewed', definition: 'BOOLEAN NOT NULL DEFAULT FALSE AFTER prime_id' },
+  { table: 'images', column: 'video_hashes', definition: 'VARCHAR(255) NULL AFTER content_hash_1400' },
+  { table: 'images', column: 'duration', definition: 'FLOAT NULL AFTER height, ADD INDEX idx_duration (duration)' },
+  { table: 'images', column: 'fps', definition: 'FLOAT NULL AFTER duration' },
+  { table: 'images', column: 'video_codec', definition: 'VARCHAR(32) NULL AFTER fps' },
+  { table: 'images', column: 'has_audio', definition: 'BOOLEAN NULL AFTER video_codec' },
+  { table: 'folders', column: 'sidecars', definition: "VARCHAR(8) NOT NULL DEFAULT 'read' AFTER do_recurse" },
+  { table: 'folders', column: 'default_tags', definition: 'JSON NOT NULL DEFAULT (JSON_ARRAY()) AFTER sidecars' },
+  { table: 'folders', column: 'default_rating', definition: 'TINYINT NULL AFTER default_tags' },
+  { table: 'folders', column: 'include_patterns', definition: 'JSON NOT NULL DEFAULT (JSON_ARRAY()) AFTER default_rating' },
+  { table: 'folders', column: 'exclude_patterns', definition: 'JSON NOT NULL DEFAULT (JSON_ARRAY()) AFTER include_patterns' },
+  { table: 'folders', column: 'read_only', definition: 'BOOLEAN NOT NULL DEFAULT FALSE AFTER exclude_patterns' },
+  { table: 'jobs', column: 'params', definition: 'JSON NULL AFTER folder_id' },
+];
+
 export async function initializeDatabase() {
   console.log('Initializing database...');
 
@@ -36,6 +58,19 @@ export async function initializeDatabase() {
       await connection.query(statement);
     }
 
+    // Bring existing tables up to date with the current schema
+    for (const { table, column, definition } of COLUMN_MIGRATIONS) {
+      const [rows] = await connection.query<any[]>(
+        `SELECT 1 FROM information_schema.COLUMNS
+         WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND COLUMN_NAME = ?`,
+        [table, column]
+      );
+      if (rows.length === 0) {
+        console.log(`Adding column ${table}.${column}`);
+        await connection.query(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+      }
+    }
+
     console.log('Database schema initialized');
     connection.release();
   } catch (error) {
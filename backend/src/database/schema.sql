@@ -3,6 +3,12 @@ CREATE TABLE IF NOT EXISTS folders (
     id INT AUTO_INCREMENT PRIMARY KEY,
     path VARCHAR(512) NOT NULL UNIQUE,
     do_recurse BOOLEAN NOT NULL DEFAULT TRUE,
+    sidecars VARCHAR(8) NOT NULL DEFAULT 'read',
+    default_tags JSON NOT NULL DEFAULT (JSON_ARRAY()),
+    default_rating TINYINT NULL,
+    include_patterns JSON NOT NULL DEFAULT (JSON_ARRAY()),
+    exclude_patterns JSON NOT NULL DEFAULT (JSON_ARRAY()),
+    read_only BOOLEAN NOT NULL DEFAULT FALSE,
     enabled BOOLEAN NOT NULL DEFAULT TRUE,
     last_scanned_at DATETIME NULL,
     created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
@@ -21,8 +27,13 @@ CREATE TABLE IF NOT EXISTS images (
     content_hash_600 CHAR(16) NULL,
     content_hash_800 CHAR(16) NULL,
     content_hash_1400 CHAR(16) NULL,
+    video_hashes VARCHAR(255) NULL,
     width INT NOT NULL DEFAULT 0,
     height INT NOT NULL DEFAULT 0,
+    duration FLOAT NULL,
+    fps FLOAT NULL,
+    video_codec VARCHAR(32) NULL,
+    has_audio BOOLEAN NULL,
     artist VARCHAR(255) NULL,
     rating TINYINT NULL,
     source VARCHAR(255) NULL,
@@ -37,6 +48,7 @@ CREATE TABLE IF NOT EXISTS images (
     INDEX idx_updated_at (updated_at),
     INDEX idx_artist (artist),
     INDEX idx_rating (rating),
+    INDEX idx_duration (duration),
     FULLTEXT INDEX idx_filename (filename)
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
 
@@ -44,11 +56,32 @@ CREATE TABLE IF NOT EXISTS images (
 CREATE TABLE IF NOT EXISTS tags (
     id INT AUTO_INCREMENT PRIMARY KEY,
     name VARCHAR(255) NOT NULL UNIQUE,
+    category VARCHAR(16) NOT NULL DEFAULT 'general',
     count INT NOT NULL DEFAULT 0,
     INDEX idx_name (name),
+    INDEX idx_category (category),
     INDEX idx_count (count)
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
 
+-- Tag aliases (alias name resolves to a canonical tag name)
+CREATE TABLE IF NOT EXISTS tag_aliases (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    alias VARCHAR(255) NOT NULL UNIQUE,
+    target VARCHAR(255) NOT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    INDEX idx_target (target)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Tag implications (images with tag automatically get implied_tag too)
+CREATE TABLE IF NOT EXISTS tag_implications (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    tag VARCHAR(255) NOT NULL,
+    implied_tag VARCHAR(255) NOT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE KEY uniq_implication (tag, implied_tag),
+    INDEX idx_implied_tag (implied_tag)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
 -- Image-Tag junction table
 CREATE TABLE IF NOT EXISTS image_tags (
     image_id INT NOT NULL,
@@ -64,7 +97,117 @@ CREATE TABLE IF NOT EXISTS image_tags (
 CREATE TABLE IF NOT EXISTS duplicate_groups (
     image_id INT NOT NULL PRIMARY KEY,
     prime_id INT NOT NULL,
+    reviewed BOOLEAN NOT NULL DEFAULT FALSE,
     FOREIGN KEY (image_id) REFERENCES images(id) ON DELETE CASCADE,
     FOREIGN KEY (prime_id) REFERENCES images(id),
     INDEX idx_prime_id (prime_id)
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Pools (ordered collections of images, e.g. comic pages or photo series)
+CREATE TABLE IF NOT EXISTS pools (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    name VARCHAR(255) NOT NULL UNIQUE,
+    description TEXT,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Pool-Image junction table (position is 1-based and contiguous within a pool)
+CREATE TABLE IF NOT EXISTS pool_images (
+    pool_id INT NOT NULL,
+    image_id INT NOT NULL,
+    position INT NOT NULL,
+    PRIMARY KEY (pool_id, image_id),
+    FOREIGN KEY (pool_id) REFERENCES pools(id) ON DELETE CASCADE,
+    FOREIGN KEY (image_id) REFERENCES images(id) ON DELETE CASCADE,
+    INDEX idx_pool_position (pool_id, position),
+    INDEX idx_image_id (image_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Users (roles: viewer < editor < admin)
+CREATE TABLE IF NOT EXISTS users (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    username VARCHAR(64) NOT NULL UNIQUE,
+    password_hash VARCHAR(255) NOT NULL,
+    role VARCHAR(16) NOT NULL DEFAULT 'viewer',
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Login sessions (only a SHA-256 of the cookie token is stored)
+CREATE TABLE IF NOT EXISTS sessions (
+    token_hash CHAR(64) NOT NULL PRIMARY KEY,
+    user_id INT NOT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    expires_at DATETIME NOT NULL,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    INDEX idx_user_id (user_id),
+    INDEX idx_expires_at (expires_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Per-user favorites
+CREATE TABLE IF NOT EXISTS favorites (
+    user_id INT NOT NULL,
+    image_id INT NOT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (user_id, image_id),
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+    FOREIGN KEY (image_id) REFERENCES images(id) ON DELETE CASCADE,
+    INDEX idx_image_id (image_id)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Tag/rating change history (source: user, plugin or scanner)
+CREATE TABLE IF NOT EXISTS image_history (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    image_id INT NOT NULL,
+    source VARCHAR(16) NOT NULL,
+    source_name VARCHAR(255) NULL,
+    user_id INT NULL,
+    added_tags JSON NOT NULL,
+    removed_tags JSON NOT NULL,
+    rating_changed BOOLEAN NOT NULL DEFAULT FALSE,
+    rating_before TINYINT NULL,
+    rating_after TINYINT NULL,
+    reverted_from INT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (image_id) REFERENCES images(id) ON DELETE CASCADE,
+    FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL,
+    INDEX idx_image_created (image_id, created_at)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Background jobs (folder scans, cleanup, thumbnail regeneration, duplicate rescans)
+CREATE TABLE IF NOT EXISTS jobs (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    type VARCHAR(32) NOT NULL,
+    status VARCHAR(16) NOT NULL DEFAULT 'queued',
+    folder_id INT NULL,
+    params JSON NULL,
+    total INT NOT NULL DEFAULT 0,
+    processed INT NOT NULL DEFAULT 0,
+    failed INT NOT NULL DEFAULT 0,
+    error TEXT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    started_at DATETIME NULL,
+    finished_at DATETIME NULL,
+    FOREIGN KEY (folder_id) REFERENCES folders(id) ON DELETE CASCADE,
+    INDEX idx_status (status)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- A queued metadata import's planned changes, one row per image (kept out of jobs.params, which would get too big)
+CREATE TABLE IF NOT EXISTS import_changes (
+    job_id INT NOT NULL,
+    position INT NOT NULL,
+    data JSON NOT NULL,
+    PRIMARY KEY (job_id, position),
+    FOREIGN KEY (job_id) REFERENCES jobs(id) ON DELETE CASCADE
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
+
+-- Image pairs marked "not a duplicate" in the duplicate review, so rescans don't group them again (image_a < image_b)
+CREATE TABLE IF NOT EXISTS duplicate_exclusions (
+    image_a INT NOT NULL,
+    image_b INT NOT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (image_a, image_b),
+    FOREIGN KEY (image_a) REFERENCES images(id) ON DELETE CASCADE,
+    FOREIGN KEY (image_b) REFERENCES images(id) ON DELETE CASCADE,
+    INDEX idx_image_b (image_b)
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
@@ -4,16 +4,32 @@ import dotenv from 'dotenv';
 import path from 'path';
 import rateLimit from 'express-rate-limit';
 import { initializeDatabase } from './database/connection';
-import { scanAllFolders, cleanupDeletedFiles } from './services/scanner';
+import { enqueueJob, hasPendingJob, resumeJobs } from './services/jobs';
+import { buildSimilarityIndex } from './services/similarity';
+import { startWatchers, stopWatchers } from './services/watcher';
 import { cleanup as cleanupExif } from './services/exif';
-import { addSecurityContext } from './middleware/security';
+import { loadSessionUser } from './middleware/security';
+import { ensureAdminUser } from './services/auth';
+import { ensureUploadFolder } from './services/upload';
 
 // Routes
 import foldersRouter from './routes/folders';
+import directoriesRouter from './routes/directories';
 import searchRouter from './routes/search';
 import imagesRouter from './routes/images';
+import bulkRouter from './routes/bulk';
 import statsRouter from './routes/stats';
+import tagsRouter from './routes/tags';
+import poolsRouter from './routes/pools';
+import authRouter from './routes/auth';
+import usersRouter from './routes/users';
+import jobsRouter from './routes/jobs';
+import duplicatesRouter from './routes/duplicates';
+import uploadRouter from './routes/upload';
+import exportRouter from './routes/export';
+import importRouter from './routes/import';
 import liteRouter from './routes/lite';
+import booruRouter from './routes/booru';
 
 // Plugin system
 import { PluginLoader, PluginRegistry, createPluginRoutes } from './plugins';
@@ -24,6 +40,8 @@ dotenv.config();
 const app = express();
 const PORT = parseInt(process.env.PORT || '4000');
 const SCAN_INTERVAL_MINUTES = parseInt(process.env.SCAN_INTERVAL_MINUTES || '15');
+// Used when periodic scanning is off but a folder can't be watched
+const FALLBACK_SCAN_INTERVAL_MINUTES = 15;
 const PLUGINS_DIR = process.env.PLUGINS_DIR || '/app/plugins';
 
 // Initialize plugin system
@@ -41,7 +59,7 @@ app.set('views', path.join(__dirname, 'templates'));
 app.use(cors());
 app.use(express.json({ limit: '10mb' })); // Parse JSON bodies
 app.use(express.urlencoded({ extended: true, limit: '10mb' })); // Parse URL-encoded bodies
-app.use(addSecurityContext);
+app.use(loadSessionUser);
 
 // Rate limiting for API endpoints
 const RATE_LIMIT_MAX = parseInt(process.env.RATE_LIMIT_MAX || '120');
@@ -51,11 +69,11 @@ const apiLimiter = rateLimit({
   max: RATE_LIMIT_MAX,
   message: 'Too many requests from this IP, please try again later.',
   skip: (req) => {
-    // Skip rate limiting for thumbnails and tag suggestions
-    // These get hit frequently during normal browsing
+    // Skip rate limiting for thumbnails, media streams and tag suggestions
+    // These get hit frequently during normal browsing (seeking a video makes a request per jump)
     // Note: req.path doesn't include /api since middleware is mounted there
     return (
-      req.path.match(/^\/image\/\d+\/thumbnail/) !== null ||
+      req.path.match(/^\/image\/\d+\/(thumbnail|preview|file|hls\/)/) !== null ||
       req.path === '/search/tags/suggest'
     );
   }
@@ -70,11 +88,23 @@ app.get('/health', (req, res) => {
 
 // Routes
 app.use('/api/folders', foldersRouter);
+app.use('/api/directories', directoriesRouter);
 app.use('/api/search', searchRouter);
 app.use('/api/image', imagesRouter);
+app.use('/api/images', bulkRouter);
 app.use('/api/stats', statsRouter);
+app.use('/api/tags', tagsRouter);
+app.use('/api/pools', poolsRouter);
+app.use('/api/auth', authRouter);
+app.use('/api/users', usersRouter);
+app.use('/api/jobs', jobsRouter);
+app.use('/api/duplicates', duplicatesRouter);
+app.use('/api/upload', uploadRouter);
+app.use('/api/export', exportRouter);
+app.use('/api/import', importRouter);
 app.use('/api/plugins', createPluginRoutes(pluginRegistry, PLUGINS_DIR, app));
 app.use('/lite', liteRouter);
+app.use('/booru', apiLimiter, booruRouter); // Danbooru/Moebooru/Gelbooru-compatible API for booru apps
 
 // Error handling
 app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -85,17 +115,29 @@ app.use((err: any, req: express.Request, res: express.Response, next: express.Ne
 // Periodic scanning
 let scanInterval: NodeJS.Timeout | null = null;
 
+// Queue a full scan and cleanup, unless the previous ones are still waiting or running
 async function performPeriodicScan() {
-  console.log('Starting periodic scan...');
   try {
-    await scanAllFolders();
-    await cleanupDeletedFiles();
-    console.log('Periodic scan completed successfully');
+    for (const type of ['scan', 'cleanup'] as const) {
+      if (!(await hasPendingJob(type))) {
+        await enqueueJob(type);
+      }
+    }
+    console.log('Periodic scan queued');
   } catch (error) {
-    console.error('Periodic scan failed:', error);
+    console.error('Failed to queue periodic scan:', error);
   }
 }
 
+// Also called by the watcher when it can't watch a folder, so that folder is still picked up
+function ensurePeriodicScan() {
+  if (scanInterval) return;
+
+  const minutes = SCAN_INTERVAL_MINUTES > 0 ? SCAN_INTERVAL_MINUTES : FALLBACK_SCAN_INTERVAL_MINUTES;
+  scanInterval = setInterval(performPeriodicScan, minutes * 60 * 1000);
+  console.log(`Periodic scanning enabled: every ${minutes} minutes`);
+}
+
 // Startup
 async function start() {
   try {
@@ -105,6 +147,15 @@ async function start() {
     await initializeDatabase();
     console.log('Database initialized');
 
+    // Create the first admin account on a fresh install
+    await ensureAdminUser();
+
+    // Load content hashes for near-duplicate detection and similar: searches
+    await buildSimilarityIndex();
+
+    // Create the upload inbox and add it to the library
+    await ensureUploadFolder();
+
     // Load plugins
     await pluginRegistry.loadPlugins();
     await pluginRegistry.registerRoutes(app);
@@ -125,18 +176,18 @@ async function start() {
 	  console.log("################################################################\n\n");
     });
 
-    // Run initial scan
-    console.log('Running initial scan...');
+    // Watch folders for changes (started before the initial scan so nothing is missed meanwhile)
+    await startWatchers(ensurePeriodicScan);
+
+    // Continue jobs interrupted by a restart, then queue the initial scan
+    await resumeJobs();
+    console.log('Queueing initial scan...');
     await performPeriodicScan();
 
     // Setup periodic scanning
     if (SCAN_INTERVAL_MINUTES > 0) {
-      scanInterval = setInterval(
-        performPeriodicScan,
-        SCAN_INTERVAL_MINUTES * 60 * 1000
-      );
-      console.log(`Periodic scanning enabled: every ${SCAN_INTERVAL_MINUTES} minutes`);
-    } else {
+      ensurePeriodicScan();
+    } else if (!scanInterval) {
       console.log('Periodic scanning disabled');
     }
   } catch (error) {
@@ -150,6 +201,7 @@ async function shutdown() {
   if (scanInterval) {
     clearInterval(scanInterval);
   }
+  stopWatchers();
 
   await pluginRegistry.shutdown();
   await cleanupExif();
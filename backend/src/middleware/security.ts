@@ -1,77 +1,103 @@
 import { Request, Response, NextFunction } from 'express';
+import { SessionUser, UserRole } from '../types';
+import { SESSION_COOKIE, getSessionUser, isUserRole, roleAtLeast } from '../services/auth';
 
-const EDIT_PASSWORD = process.env.EDIT_PASSWORD || 'alter';
-const REQUIRE_EDIT_PASSWORD = process.env.REQUIRE_EDIT_PASSWORD !== 'false';
+declare global {
+  namespace Express {
+    interface Request {
+      user?: SessionUser;
+    }
+  }
+}
 
 /**
- * Check if request is from localhost
- *
- * Security Note: This checks the Host header to determine if the user is accessing
- * via localhost. While Host headers can be spoofed, this provides reasonable protection
- * for a trusted LAN environment where physical network access is controlled.
- *
- * Works in Docker by checking the hostname in the Host header, since Docker routing
- * makes IP-based checks unreliable (all requests appear as 172.x.0.1 gateway IP).
+ * Role granted to visitors who aren't logged in (GUEST_ROLE env var).
+ * Unset means guests can only browse. For older setups, REQUIRE_EDIT_PASSWORD=false
+ * still lets guests edit.
  */
-export function isLocalhost(req: Request): boolean {
-  const host = req.headers.host || '';
+const GUEST_ROLE: UserRole | null = isUserRole(process.env.GUEST_ROLE)
+  ? process.env.GUEST_ROLE
+  : process.env.REQUIRE_EDIT_PASSWORD === 'false' ? 'editor' : null;
+
+export function getGuestRole(): UserRole | null {
+  return GUEST_ROLE;
+}
 
-  // Extract hostname (remove port if present)
-  const hostname = host.split(':')[0];
+// Read cookies from the Cookie header
+export function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) return cookies;
 
-  // Check if accessing via localhost/127.0.0.1
-  return (
-    hostname === 'localhost' ||
-    hostname === '127.0.0.1' ||
-    hostname === '::1' ||
-    hostname.startsWith('127.')
-  );
+  for (const part of header.split(';')) {
+    const index = part.indexOf('=');
+    if (index === -1) continue;
+    const name = part.slice(0, index).trim();
+    const value = part.slice(index + 1).trim();
+    try {
+      cookies[name] = decodeURIComponent(value);
+    } catch {
+      cookies[name] = value;
+    }
+  }
+  return cookies;
 }
 
-// Middleware to restrict routes to localhost only
-export function localhostOnly(req: Request, res: Response, next: NextFunction) {
-  if (!isLocalhost(req)) {
-    return res.status(403).json({
-      error: 'Forbidden',
-      message: 'This endpoint is only accessible from localhost'
-    });
+export function getSessionToken(req: Request): string | undefined {
+  return parseCookies(req.headers.cookie)[SESSION_COOKIE];
+}
+
+// Middleware to attach the logged-in user (if any) to the request
+export async function loadSessionUser(req: Request, res: Response, next: NextFunction) {
+  const token = getSessionToken(req);
+  if (token) {
+    try {
+      req.user = (await getSessionUser(token)) || undefined;
+    } catch (error) {
+      console.error('Failed to load session:', error);
+    }
   }
   next();
 }
 
-// Middleware to add security context to request
-export function addSecurityContext(req: Request, res: Response, next: NextFunction) {
-  (req as any).isLocalhost = isLocalhost(req);
-  next();
+/**
+ * Check if the request's user (or a guest, if not logged in) has at least the given role
+ */
+export function hasRole(req: Request, role: UserRole): boolean {
+  const effectiveRole = req.user?.role ?? GUEST_ROLE;
+  return effectiveRole !== null && roleAtLeast(effectiveRole, role);
 }
 
 /**
- * Middleware to require edit password for protected routes.
- * Password is sent via X-Edit-Password header.
- * Default password is 'alter' if EDIT_PASSWORD env var is not set.
- * Can be disabled entirely by setting REQUIRE_EDIT_PASSWORD=false.
+ * Middleware to require a minimum role for protected routes.
+ * Responds 401 if the visitor needs to log in, 403 if their account's role is too low.
  */
-export function requireEditPassword(req: Request, res: Response, next: NextFunction) {
-  // Skip password check if disabled
-  if (!REQUIRE_EDIT_PASSWORD) {
-    return next();
-  }
+export function requireRole(role: UserRole) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (hasRole(req, role)) {
+      return next();
+    }
 
-  const providedPassword = req.headers['x-edit-password'];
+    if (!req.user) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+        message: 'You need to log in to do that'
+      });
+    }
 
-  if (!providedPassword || providedPassword !== EDIT_PASSWORD) {
+    return res.status(403).json({
+      error: 'Forbidden',
+      message: `This requires the ${role} role`
+    });
+  };
+}
+
+// Middleware for per-user features (favorites, changing your own password)
+export function requireLogin(req: Request, res: Response, next: NextFunction) {
+  if (!req.user) {
     return res.status(401).json({
       error: 'Unauthorized',
-      message: 'Invalid or missing edit password'
+      message: 'You need to log in to do that'
     });
   }
-
   next();
 }
-
-/**
- * Check if edit password is required
- */
-export function isEditPasswordRequired(): boolean {
-  return REQUIRE_EDIT_PASSWORD;
-}
\ No newline at end of file
@@ -16,6 +16,7 @@ import type {
   HookContext,
   PluginHooks,
   ImageUpdates,
+  SourceInfo,
 } from './types';
 import { PluginLoader } from './loader';
 import {
@@ -31,7 +32,8 @@ import {
   removePluginImage,
 } from './container';
 import { query, queryOne, execute } from '../database/connection';
-import { addTagsToImage, removeTagsFromImage } from '../services/scanner';
+import { setImageTags } from '../services/scanner';
+import { withHistory } from '../services/history';
 
 export class PluginRegistry {
   private plugins: Map<string, LoadedPlugin> = new Map();
@@ -164,6 +166,7 @@ export class PluginRegistry {
         'onAfterTagUpdate',
         'onImageDeleted',
         'onRouteRegister',
+        'onExtractSource',
       ];
 
       for (const hookName of hookNames) {
@@ -190,37 +193,20 @@ export class PluginRegistry {
 
   /**
    * Update an image's metadata. Available to plugins via HookContext.
+   * Tag and rating changes are recorded in the image's history under the plugin's id.
    */
-  private async updateImage(imageId: number, updates: ImageUpdates): Promise<void> {
+  private async updateImage(pluginId: string, imageId: number, updates: ImageUpdates): Promise<void> {
+    await withHistory(imageId, { source: 'plugin', name: pluginId }, () => this.applyImageUpdates(imageId, updates));
+  }
+
+  private async applyImageUpdates(imageId: number, updates: ImageUpdates): Promise<void> {
     // Handle tag updates
     if (updates.tags !== undefined) {
-      // Normalize tags
+      // Normalize tags, then diff against the stored tags
       const newTags = [...new Set(
         updates.tags.map(t => String(t).trim().toLowerCase()).filter(t => t.length > 0)
       )];
-      const newTagSet = new Set(newTags);
-
-      // Get existing tags
-      const existingTagRows = await query<{ name: string }>(
-        `SELECT t.name FROM tags t
-         JOIN image_tags it ON t.id = it.tag_id
-         WHERE it.image_id = ?`,
-        [imageId]
-      );
-      const existingTagsNorm = new Set(existingTagRows.map(t => t.name.toLowerCase()));
-
-      // Compute diff and apply (compare lowercase to lowercase)
-      const tagsToAdd = newTags.filter(t => !existingTagsNorm.has(t));
-      const tagsToRemove = existingTagRows
-        .map(t => t.name)
-        .filter(t => !newTagSet.has(t.toLowerCase()));
-
-      if (tagsToAdd.length > 0) {
-        await addTagsToImage(imageId, tagsToAdd);
-      }
-      if (tagsToRemove.length > 0) {
-        await removeTagsFromImage(imageId, tagsToRemove);
-      }
+      await setImageTags(imageId, newTags);
     }
 
     // Handle simple field updates
@@ -266,7 +252,7 @@ export class PluginRegistry {
       const context: HookContext = {
         pluginId,
         config: plugin.config,
-        updateImage: this.updateImage.bind(this),
+        updateImage: (imageId, updates) => this.updateImage(pluginId, imageId, updates),
         db: { query, queryOne },
       };
 
@@ -304,7 +290,7 @@ export class PluginRegistry {
       const context: HookContext = {
         pluginId,
         config: plugin.config,
-        updateImage: this.updateImage.bind(this),
+        updateImage: (imageId, updates) => this.updateImage(pluginId, imageId, updates),
         db: { query, queryOne },
       };
 
@@ -322,6 +308,41 @@ export class PluginRegistry {
     return value;
   }
 
+  /**
+   * Ask source extractor plugins about a URL being imported.
+   * Tags from every extractor are combined, the first one to give a file URL or artist wins.
+   */
+  async extractSource(url: string): Promise<SourceInfo> {
+    const handlers = this.hooks.get('onExtractSource') || [];
+    const info: SourceInfo = { tags: [] };
+
+    for (const { pluginId, fn } of handlers) {
+      const plugin = this.plugins.get(pluginId);
+      if (!plugin || !plugin.enabled || plugin.status === 'error') {
+        continue;
+      }
+
+      const context: HookContext = {
+        pluginId,
+        config: plugin.config,
+        updateImage: (imageId, updates) => this.updateImage(pluginId, imageId, updates),
+        db: { query, queryOne },
+      };
+
+      try {
+        const result: SourceInfo | null | undefined = await fn(context, url);
+        if (!result) continue;
+        if (Array.isArray(result.tags)) info.tags!.push(...result.tags.map(t => String(t)));
+        if (result.fileUrl && !info.fileUrl) info.fileUrl = String(result.fileUrl);
+        if (result.artist && !info.artist) info.artist = String(result.artist);
+      } catch (error) {
+        console.error(`Hook onExtractSource failed for plugin ${pluginId}:`, error);
+      }
+    }
+
+    return info;
+  }
+
   /**
    * Proxy a request to a plugin's service
    */
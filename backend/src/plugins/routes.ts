@@ -10,7 +10,7 @@ import { Router, Request, Response, NextFunction, Application } from 'express';
 import multer from 'multer';
 import type { PluginRegistry } from './registry';
 import type { PluginConfig } from './types';
-import { localhostOnly } from '../middleware/security';
+import { requireRole } from '../middleware/security';
 
 // Max plugin upload size in MB (default 500MB for AI model support)
 const MAX_PLUGIN_SIZE_MB = parseInt(process.env.MAX_PLUGIN_SIZE_MB || '500', 10);
@@ -56,9 +56,9 @@ export function createPluginRoutes(registry: PluginRegistry, pluginsDir: string,
   /**
    * POST /api/plugins/upload
    * Upload and install a new plugin
-   * Localhost only - prevents remote installation
+   * Admin only
    */
-  router.post('/upload', localhostOnly, upload.single('plugin'), async (req: Request, res: Response) => {
+  router.post('/upload', requireRole('admin'), upload.single('plugin'), async (req: Request, res: Response) => {
     if (!req.file) {
       res.status(400).json({ error: 'No plugin file uploaded' });
       return;
@@ -114,9 +114,9 @@ export function createPluginRoutes(registry: PluginRegistry, pluginsDir: string,
   /**
    * PATCH /api/plugins/:pluginId
    * Update plugin settings (enabled state and/or config)
-   * Localhost only - prevents remote configuration changes
+   * Admin only
    */
-  router.patch('/:pluginId', localhostOnly, async (req: Request, res: Response) => {
+  router.patch('/:pluginId', requireRole('admin'), async (req: Request, res: Response) => {
     const { pluginId } = req.params;
     const { enabled, config } = req.body as {
       enabled?: boolean;
@@ -150,9 +150,9 @@ export function createPluginRoutes(registry: PluginRegistry, pluginsDir: string,
   /**
    * DELETE /api/plugins/:pluginId
    * Uninstall a plugin completely
-   * Localhost only - prevents remote uninstallation
+   * Admin only
    */
-  router.delete('/:pluginId', localhostOnly, async (req: Request, res: Response) => {
+  router.delete('/:pluginId', requireRole('admin'), async (req: Request, res: Response) => {
     const { pluginId } = req.params;
 
     const result = await registry.uninstall(pluginId);
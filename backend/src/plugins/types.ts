@@ -156,7 +156,8 @@ export type HookName =
   | 'onBeforeTagUpdate'
   | 'onAfterTagUpdate'
   | 'onImageDeleted'
-  | 'onRouteRegister';
+  | 'onRouteRegister'
+  | 'onExtractSource';
 
 /** Fields that can be updated via updateImage */
 export interface ImageUpdates {
@@ -166,6 +167,14 @@ export interface ImageUpdates {
   source?: string;
 }
 
+/** What a source extractor found on a web page being imported */
+export interface SourceInfo {
+  /** Direct link to the image or video, when the imported URL is a page */
+  fileUrl?: string;
+  tags?: string[];
+  artist?: string;
+}
+
 /** Database query helpers available to plugins */
 export interface PluginDbHelpers {
   /** Execute a SELECT query and return results */
@@ -210,6 +219,9 @@ export interface PluginHooks {
 
   // Transform hooks (value is first arg after context, return modified value)
   onBeforeTagUpdate?: TransformHook<string[], [number]>; // (ctx, tags, imageId) => tags
+
+  // Source extractors (return what they know about the URL, or nothing to pass)
+  onExtractSource?: HookFunction<[string], SourceInfo | null | void>; // (ctx, url) => info
 }
 
 // ============================================================================
@@ -0,0 +1,105 @@
+import { Router } from 'express';
+import { queryOne, execute } from '../database/connection';
+import { User } from '../types';
+import { getGuestRole, getSessionToken, requireLogin } from '../middleware/security';
+import {
+  SESSION_COOKIE,
+  SESSION_MAX_AGE_MS,
+  MIN_PASSWORD_LENGTH,
+  createSession,
+  deleteSession,
+  deleteUserSessions,
+  hashPassword,
+  verifyPassword,
+} from '../services/auth';
+
+const router = Router();
+
+/**
+ * GET /api/auth/me
+ * Get the logged-in user (null if not logged in) and the role guests get
+ */
+router.get('/me', (req, res) => {
+  res.json({ user: req.user || null, guest_role: getGuestRole() });
+});
+
+/**
+ * POST /api/auth/login
+ * Log in and set the session cookie
+ * Body: { "username": "alice", "password": "..." }
+ */
+router.post('/login', async (req, res) => {
+  try {
+    const { username, password } = req.body;
+
+    if (typeof username !== 'string' || typeof password !== 'string' || !username || !password) {
+      return res.status(400).json({ success: false, error: 'Username and password are required' });
+    }
+
+    const user = await queryOne<User>('SELECT * FROM users WHERE username = ?', [username.trim()]);
+    if (!user || !(await verifyPassword(password, user.password_hash))) {
+      return res.status(401).json({ success: false, error: 'Invalid username or password' });
+    }
+
+    const token = await createSession(user.id);
+    res.cookie(SESSION_COOKIE, token, {
+      httpOnly: true,
+      sameSite: 'lax',
+      maxAge: SESSION_MAX_AGE_MS,
+      path: '/',
+    });
+
+    res.json({ success: true, user: { id: user.id, username: user.username, role: user.role } });
+  } catch (error) {
+    console.error('Failed to log in:', error);
+    res.status(500).json({ success: false, error: 'Failed to log in' });
+  }
+});
+
+/**
+ * POST /api/auth/logout
+ * End the current session
+ */
+router.post('/logout', async (req, res) => {
+  try {
+    const token = getSessionToken(req);
+    if (token) {
+      await deleteSession(token);
+    }
+    res.clearCookie(SESSION_COOKIE, { path: '/' });
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Failed to log out:', error);
+    res.status(500).json({ success: false, error: 'Failed to log out' });
+  }
+});
+
+/**
+ * POST /api/auth/password
+ * Change your own password (other sessions are logged out)
+ * Body: { "current_password": "...", "new_password": "..." }
+ */
+router.post('/password', requireLogin, async (req, res) => {
+  try {
+    const { current_password, new_password } = req.body;
+
+    if (typeof new_password !== 'string' || new_password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ success: false, error: `New password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
+
+    const user = await queryOne<User>('SELECT * FROM users WHERE id = ?', [req.user!.id]);
+    if (!user || typeof current_password !== 'string' || !(await verifyPassword(current_password, user.password_hash))) {
+      return res.status(400).json({ success: false, error: 'Current password is incorrect' });
+    }
+
+    await execute('UPDATE users SET password_hash = ? WHERE id = ?', [await hashPassword(new_password), user.id]);
+    await deleteUserSessions(user.id, getSessionToken(req));
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Failed to change password:', error);
+    res.status(500).json({ success: false, error: 'Failed to change password' });
+  }
+});
+
+export default router;
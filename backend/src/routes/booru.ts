@@ -0,0 +1,241 @@
+import { Router, Request, Response } from 'express';
+import { query } from '../database/connection';
+import { searchImages, getTags, TagsResult } from '../services/search';
+import {
+  translateBooruQuery,
+  buildBooruPosts,
+  toDanbooruPost,
+  toDanbooruTag,
+  toMoebooruPost,
+  toMoebooruTag,
+  toGelbooruPost,
+  toGelbooruTag,
+  toGelbooruXml,
+} from '../services/booru';
+
+const MAX_POSTS_PER_QUERY = parseInt(process.env.MAX_RESULTS_PER_PAGE || '100');
+const DEFAULT_LIMIT = 20;
+const router = Router();
+
+/**
+ * Origin the client used, for the absolute file and preview URLs booru clients expect
+ */
+function getBaseUrl(req: Request): string {
+  const protocol = String(req.get('x-forwarded-proto') || req.protocol).split(',')[0].trim();
+  return `${protocol}://${req.get('host')}`;
+}
+
+function parseLimit(value: unknown): number {
+  const limit = parseInt(String(value));
+  return Math.min(Number.isNaN(limit) || limit < 1 ? DEFAULT_LIMIT : limit, MAX_POSTS_PER_QUERY);
+}
+
+// Danbooru also accepts page cursors (b123, a123), which are read as page 1
+function parsePage(value: unknown): number {
+  return Math.max(1, parseInt(String(value)) || 1);
+}
+
+/**
+ * Search and build booru posts for a client's tag query
+ */
+async function searchPosts(req: Request, tags: unknown, page: number, limit: number) {
+  const result = await searchImages({
+    query: translateBooruQuery(String(tags || '')),
+    page,
+    limit,
+  });
+  return { total: result.total, posts: await buildBooruPosts(result.images, getBaseUrl(req)) };
+}
+
+/**
+ * Find tags by name: "cat" matches exactly, with a * wildcard it matches tags starting with "cat"
+ * (the closest getTags can do, wherever the wildcard is)
+ * @param category Only tags in this category (general, artist, ...)
+ */
+async function findTags(pattern: string, page: number, limit: number, category?: string): Promise<TagsResult['tags']> {
+  const name = pattern.replace(/\*/g, '').toLowerCase();
+
+  if (pattern.includes('*') || name === '') {
+    const result = await getTags({ query: category ? `${category}:${name}` : name, page, limit });
+    return result.tags;
+  }
+
+  if (page > 1) return [];
+  return query<TagsResult['tags'][number]>(
+    `SELECT id, name, category, count FROM tags WHERE name = ?${category ? ' AND category = ?' : ''}`,
+    category ? [name, category] : [name]
+  );
+}
+
+// Category names for the numbers clients filter tags by
+const TAG_TYPE_CATEGORIES: Record<string, string> = {
+  '0': 'general',
+  '1': 'artist',
+  '3': 'copyright',
+  '4': 'character',
+  '5': 'meta',
+};
+
+function sendSearchError(res: Response, error: unknown) {
+  console.error('Booru API search failed:', error);
+  res.status(400).json({
+    success: false,
+    message: error instanceof Error ? error.message : 'Search failed',
+  });
+}
+
+// ============================================================================
+// Danbooru
+// ============================================================================
+
+/**
+ * GET /booru/posts.json?tags=...&page=1&limit=20
+ * Danbooru post search
+ */
+router.get('/posts.json', async (req, res) => {
+  try {
+    const { posts } = await searchPosts(req, req.query.tags, parsePage(req.query.page), parseLimit(req.query.limit));
+    res.json(posts.map(toDanbooruPost));
+  } catch (error) {
+    sendSearchError(res, error);
+  }
+});
+
+/**
+ * GET /booru/posts/:id.json
+ * Danbooru single post
+ */
+router.get('/posts/:id.json', async (req, res) => {
+  try {
+    const { posts } = await searchPosts(req, `id:${parseInt(req.params.id) || 0}`, 1, 1);
+    if (posts.length === 0) {
+      return res.status(404).json({ success: false, message: 'That record was not found.' });
+    }
+    res.json(toDanbooruPost(posts[0]));
+  } catch (error) {
+    sendSearchError(res, error);
+  }
+});
+
+/**
+ * GET /booru/counts/posts.json?tags=...
+ * Danbooru result count
+ */
+router.get('/counts/posts.json', async (req, res) => {
+  try {
+    const { total } = await searchPosts(req, req.query.tags, 1, 1);
+    res.json({ counts: { posts: total } });
+  } catch (error) {
+    sendSearchError(res, error);
+  }
+});
+
+/**
+ * GET /booru/tags.json?search[name_matches]=cat*&search[category]=4&page=1&limit=20
+ * Danbooru tag search, most used first
+ */
+router.get('/tags.json', async (req, res) => {
+  try {
+    const search = (req.query.search || {}) as Record<string, string>;
+    const tags = await findTags(
+      String(search.name_matches ?? search.name ?? '*'),
+      parsePage(req.query.page),
+      parseLimit(req.query.limit),
+      TAG_TYPE_CATEGORIES[String(search.category)]
+    );
+    res.json(tags.map(toDanbooruTag));
+  } catch (error) {
+    console.error('Booru API tag search failed:', error);
+    res.status(500).json({ success: false, message: 'Failed to get tags' });
+  }
+});
+
+// ============================================================================
+// Moebooru
+// ============================================================================
+
+/**
+ * GET /booru/post.json?tags=...&page=1&limit=20 (also /booru/post/index.json)
+ * Moebooru post search
+ */
+router.get(['/post.json', '/post/index.json'], async (req, res) => {
+  try {
+    const { posts } = await searchPosts(req, req.query.tags, parsePage(req.query.page), parseLimit(req.query.limit));
+    res.json(posts.map(toMoebooruPost));
+  } catch (error) {
+    sendSearchError(res, error);
+  }
+});
+
+/**
+ * GET /booru/tag.json?name=cat*&type=4&page=1&limit=20 (also /booru/tag/index.json)
+ * Moebooru tag search, most used first
+ */
+router.get(['/tag.json', '/tag/index.json'], async (req, res) => {
+  try {
+    const tags = await findTags(
+      String(req.query.name ?? '*'),
+      parsePage(req.query.page),
+      parseLimit(req.query.limit),
+      TAG_TYPE_CATEGORIES[String(req.query.type)]
+    );
+    res.json(tags.map(toMoebooruTag));
+  } catch (error) {
+    console.error('Booru API tag search failed:', error);
+    res.status(500).json({ success: false, message: 'Failed to get tags' });
+  }
+});
+
+// ============================================================================
+// Gelbooru
+// ============================================================================
+
+/**
+ * GET /booru/index.php?page=dapi&s=post&q=index&tags=...&pid=0&limit=20[&id=1][&json=1]
+ * GET /booru/index.php?page=dapi&s=tag&q=index&name_pattern=cat%&pid=0&limit=20[&json=1]
+ * Gelbooru posts and tags, as XML unless json=1 (pid is the zero-based page)
+ */
+router.get('/index.php', async (req, res) => {
+  const { page, s, q, json } = req.query;
+  if (page !== 'dapi' || q !== 'index' || (s !== 'post' && s !== 'tag')) {
+    return res.status(404).json({ success: false, message: 'Only page=dapi&q=index for s=post or s=tag is supported' });
+  }
+
+  const asJson = json === '1';
+  const limit = parseLimit(req.query.limit);
+  const pid = Math.max(0, parseInt(String(req.query.pid)) || 0);
+
+  try {
+    if (s === 'post') {
+      const tags = req.query.id ? `id:${parseInt(String(req.query.id)) || 0}` : req.query.tags;
+      const { total, posts } = await searchPosts(req, tags, pid + 1, limit);
+      const attributes = { limit, offset: pid * limit, count: total };
+      const items = posts.map(toGelbooruPost);
+
+      if (asJson) {
+        return res.json({ '@attributes': attributes, post: items });
+      }
+      return res.type('application/xml').send(toGelbooruXml('posts', 'post', attributes, items));
+    }
+
+    // Tags: name and names are exact, name_pattern uses % as the wildcard
+    let tags: TagsResult['tags'];
+    if (req.query.name || req.query.names) {
+      const names = String(req.query.names || req.query.name).split(/\s+/).filter(name => name.length > 0);
+      tags = (await Promise.all(names.map(name => findTags(name, 1, 1)))).flat();
+    } else {
+      tags = await findTags(String(req.query.name_pattern || '').replace(/%/g, '*'), pid + 1, limit);
+    }
+    const attributes = { limit, offset: pid * limit, count: tags.length };
+    const items = tags.map(toGelbooruTag);
+
+    if (asJson) {
+      return res.json({ '@attributes': attributes, tag: items });
+    }
+    res.type('application/xml').send(toGelbooruXml('tags', 'tag', attributes, items));
+  } catch (error) {
+    sendSearchError(res, error);
+  }
+});
+
+export default router;
@@ -0,0 +1,125 @@
+import { Router } from 'express';
+import { query } from '../database/connection';
+import { requireRole } from '../middleware/security';
+import { RATING_MAP, searchImageIds } from '../services/search';
+import { BulkEdit } from '../services/bulk';
+import { enqueueEditJob, getJob, EDIT_JOB_TYPES } from '../services/jobs';
+import { userActor } from '../services/history';
+
+const router = Router();
+
+/**
+ * Normalize a tag list from a request body (trim, lowercase, remove empty)
+ */
+function normalizeTagList(value: unknown): string[] | null {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) return null;
+  return value.map(t => String(t).trim().toLowerCase()).filter(t => t.length > 0);
+}
+
+/**
+ * POST /api/images/bulk
+ * Apply tag and rating changes to many images - requires editor role
+ * Body: {
+ *   ids?: number[], query?: string, all?: boolean, dry_run?: boolean,
+ *   add_tags?: string[], remove_tags?: string[], rating?: number | null
+ * }
+ *   - ids or query selects the images (query uses normal search syntax)
+ *   - an empty query matches the whole library, so it also needs all: true
+ *   - dry_run: only count the matching images ({ success, count }) so the client can confirm
+ *   - add_tags may contain rating:xxx metatags and category:name prefixes, like PATCH /api/image/:id
+ *   - rating: 1=Safe, 2=Questionable, 3=Explicit, null=Undefined (overrides any rating:xxx metatag)
+ * Queued as a job; returns the job to poll with GET /api/images/bulk/:jobId
+ */
+router.post('/bulk', requireRole('editor'), async (req, res) => {
+  try {
+    const { ids, query: searchQuery, rating: rawRating } = req.body;
+
+    const addTags = normalizeTagList(req.body.add_tags);
+    const removeTags = normalizeTagList(req.body.remove_tags);
+    if (!addTags || !removeTags) {
+      return res.status(400).json({ success: false, error: 'Tags must be an array' });
+    }
+
+    const edit: BulkEdit = { add_tags: [], remove_tags: removeTags };
+
+    // Extract rating:xxx metatags
+    for (const tag of addTags) {
+      if (tag.startsWith('rating:')) {
+        const mappedRating = RATING_MAP[tag.slice(7)];
+        if (mappedRating !== undefined) {
+          edit.rating = [1, 2, 3].includes(mappedRating) ? mappedRating : null;
+        }
+      } else {
+        edit.add_tags.push(tag);
+      }
+    }
+
+    if (rawRating !== undefined) {
+      if (rawRating !== null && (typeof rawRating !== 'number' || ![1, 2, 3].includes(rawRating))) {
+        return res.status(400).json({ success: false, error: 'Rating must be 1, 2, 3, or null' });
+      }
+      edit.rating = rawRating;
+    }
+
+    if (edit.add_tags.length === 0 && edit.remove_tags.length === 0 && edit.rating === undefined) {
+      return res.status(400).json({ success: false, error: 'Must provide tags to add or remove, and/or a rating' });
+    }
+
+    // Resolve target images
+    let imageIds: number[];
+    if (Array.isArray(ids)) {
+      const requestedIds = [...new Set(ids.map(id => parseInt(id)).filter(id => !isNaN(id)))];
+      if (requestedIds.length === 0) {
+        return res.status(400).json({ success: false, error: 'No valid image IDs provided' });
+      }
+      const rows = await query<{ id: number }>(
+        `SELECT id FROM images WHERE id IN (${requestedIds.map(() => '?').join(',')})`,
+        requestedIds
+      );
+      imageIds = rows.map(r => r.id);
+    } else if (typeof searchQuery === 'string') {
+      if (searchQuery.trim() === '' && req.body.all !== true) {
+        return res.status(400).json({ success: false, error: 'An empty query edits every image; send all: true to confirm' });
+      }
+      try {
+        imageIds = await searchImageIds(searchQuery);
+      } catch (error) {
+        return res.status(400).json({ success: false, error: 'Invalid search query syntax' });
+      }
+    } else {
+      return res.status(400).json({ success: false, error: 'Must provide ids or query' });
+    }
+
+    if (req.body.dry_run === true) {
+      return res.json({ success: true, count: imageIds.length });
+    }
+
+    const job = await enqueueEditJob('bulk_edit', { image_ids: imageIds, edit, actor: userActor(req.user) });
+    res.status(202).json({ success: true, job });
+  } catch (error) {
+    console.error('Failed to start bulk edit:', error);
+    return res.status(500).json({ success: false, error: 'Failed to start bulk edit' });
+  }
+});
+
+/**
+ * GET /api/images/bulk/:jobId
+ * Get progress of a bulk edit, tag rename or merge, or metadata import
+ */
+router.get('/bulk/:jobId', async (req, res) => {
+  try {
+    const job = await getJob(parseInt(req.params.jobId));
+
+    if (!job || !(EDIT_JOB_TYPES as readonly string[]).includes(job.type)) {
+      return res.status(404).json({ error: 'Bulk edit job not found' });
+    }
+
+    res.json(job);
+  } catch (error) {
+    console.error('Failed to fetch bulk edit job:', error);
+    res.status(500).json({ error: 'Failed to fetch bulk edit job' });
+  }
+});
+
+export default router;
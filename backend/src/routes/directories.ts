@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { getDirectoryTree } from '../services/folders';
+
+const router = Router();
+
+/**
+ * GET /api/directories
+ * Directory tree of every enabled folder with image counts, for the folder browser
+ */
+router.get('/', async (req, res) => {
+  try {
+    res.json(await getDirectoryTree());
+  } catch (error) {
+    console.error('Failed to fetch directories:', error);
+    res.status(500).json({ error: 'Failed to fetch directories' });
+  }
+});
+
+export default router;
@@ -0,0 +1,100 @@
+import { Router } from 'express';
+import { query } from '../database/connection';
+import { requireRole } from '../middleware/security';
+import { userActor } from '../services/history';
+import { getPendingDuplicateGroups, getDuplicateGroupIds, resolveDuplicateGroup } from '../services/duplicates';
+import { getAllFolders, isInReadOnlyFolder } from '../services/folders';
+
+const router = Router();
+
+// Reviewing merges tags and can delete images, like editing from the image page
+router.use(requireRole('editor'));
+
+/**
+ * Parse an image ID list from a request body (drops invalid and repeated IDs)
+ */
+function parseImageIds(value: unknown): number[] | null {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) return null;
+  return [...new Set(value.map(id => parseInt(id)).filter(id => !isNaN(id)))];
+}
+
+/**
+ * GET /api/duplicates?page=1&limit=20
+ * Duplicate groups waiting for review, with each image's resolution, size, format and tags
+ */
+router.get('/', async (req, res) => {
+  try {
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+    res.json(await getPendingDuplicateGroups(page, limit));
+  } catch (error) {
+    console.error('Failed to fetch duplicate groups:', error);
+    res.status(500).json({ error: 'Failed to fetch duplicate groups' });
+  }
+});
+
+/**
+ * POST /api/duplicates/:primeId/resolve
+ * Apply a review decision to a duplicate group
+ * Body: { "prime_id": 12, "not_duplicates"?: [15], "merge_tags"?: true, "delete_ids"?: [13, 14], "delete_files"?: false }
+ *   - prime_id: image to keep as the best version (must stay in the group)
+ *   - not_duplicates: images that aren't copies; they leave the group and won't be regrouped with it
+ *   - merge_tags: give the prime every tag of the images that stay in the group
+ *   - delete_ids: images to remove from the library once tags are merged
+ *   - delete_files: also delete the removed images' files from disk (refused if any is in a read-only folder)
+ */
+router.post('/:primeId/resolve', async (req, res) => {
+  try {
+    const primeId = parseInt(req.params.primeId);
+    const memberIds = new Set(await getDuplicateGroupIds(primeId));
+
+    if (memberIds.size === 0) {
+      return res.status(404).json({ success: false, error: 'Duplicate group not found' });
+    }
+
+    const newPrimeId = parseInt(req.body.prime_id);
+    const notDuplicates = parseImageIds(req.body.not_duplicates);
+    const deleteIds = parseImageIds(req.body.delete_ids);
+
+    if (!notDuplicates || !deleteIds) {
+      return res.status(400).json({ success: false, error: 'not_duplicates and delete_ids must be arrays of image IDs' });
+    }
+    if (![newPrimeId, ...notDuplicates, ...deleteIds].every(id => memberIds.has(id))) {
+      return res.status(400).json({ success: false, error: 'All images must belong to the duplicate group' });
+    }
+    if (notDuplicates.includes(newPrimeId) || deleteIds.includes(newPrimeId)) {
+      return res.status(400).json({ success: false, error: 'The prime image cannot be split off or deleted' });
+    }
+    if (deleteIds.some(id => notDuplicates.includes(id))) {
+      return res.status(400).json({ success: false, error: 'Images marked as not duplicates cannot be deleted here' });
+    }
+    if (req.body.delete_files === true && deleteIds.length > 0) {
+      const folders = await getAllFolders();
+      const images = await query<{ file_path: string }>(
+        `SELECT file_path FROM images WHERE id IN (${deleteIds.map(() => '?').join(',')})`,
+        deleteIds
+      );
+      for (const image of images) {
+        if (await isInReadOnlyFolder(image.file_path, folders)) {
+          return res.status(403).json({ success: false, error: `${image.file_path} is in a read-only folder, so its file can't be deleted` });
+        }
+      }
+    }
+
+    const result = await resolveDuplicateGroup(primeId, {
+      prime_id: newPrimeId,
+      not_duplicates: notDuplicates,
+      merge_tags: req.body.merge_tags === true,
+      delete_ids: deleteIds,
+      delete_files: req.body.delete_files === true,
+    }, userActor(req.user));
+
+    res.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Failed to resolve duplicate group:', error);
+    res.status(500).json({ success: false, error: 'Failed to resolve duplicate group' });
+  }
+});
+
+export default router;
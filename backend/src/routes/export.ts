@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import { requireRole } from '../middleware/security';
+import { writeExport, ExportFormat } from '../services/backup';
+
+const router = Router();
+
+/**
+ * GET /api/export?format=ndjson|csv
+ * Download every image's path, hashes, tags, rating, artist, source, duplicate group and pools - requires admin role
+ * NDJSON (default) has one JSON object per line, CSV one row per image. Re-apply with POST /api/import.
+ */
+router.get('/', requireRole('admin'), async (req, res) => {
+  const format: ExportFormat = req.query.format === 'csv' ? 'csv' : 'ndjson';
+  const date = new Date().toISOString().slice(0, 10);
+
+  res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="lanbooru-export-${date}.${format}"`);
+
+  try {
+    await writeExport(res, format);
+    res.end();
+  } catch (error) {
+    // Headers (and maybe part of the file) are already sent, so cut the download short
+    console.error('Failed to export metadata:', error);
+    res.destroy();
+  }
+});
+
+export default router;
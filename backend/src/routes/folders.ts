@@ -1,21 +1,85 @@
 import { Router } from 'express';
 import { execute, query, queryOne } from '../database/connection';
-import { localhostOnly } from '../middleware/security';
-import { Folder } from '../types';
+import { requireRole } from '../middleware/security';
+import { Folder, SidecarMode } from '../types';
 import {
-  scanFolder,
   deleteImage,
-  cleanupDeletedFiles,
   isFolderBeingDeleted,
   markFolderDeleting,
   unmarkFolderDeleting,
   waitForFolderScanComplete,
 } from '../services/scanner';
+import { refreshWatchers, unwatchFolder } from '../services/watcher';
+import { enqueueJob, enqueueEditJob, cancelFolderJobs } from '../services/jobs';
+import { SIDECAR_MODES } from '../services/sidecar';
+import { findExcludedImages } from '../services/folders';
+import { userActor } from '../services/history';
 
 const router = Router();
 
-// All folder management routes require localhost access
-router.use(localhostOnly);
+// A list from a request body, sent as an array or as one string split on the separator
+function toList(value: unknown, separator: RegExp): string[] | null {
+  const items = typeof value === 'string' ? value.split(separator) : value;
+  if (!Array.isArray(items) || items.some(item => typeof item !== 'string')) return null;
+  return items.map((item: string) => item.trim()).filter(item => item.length > 0);
+}
+
+/**
+ * Read the optional folder settings from a request body
+ * Default tags may be a space-separated string, patterns a string with one per line.
+ * @returns Column values to store (lists as JSON), or an error message
+ */
+function parseFolderSettings(body: Record<string, unknown>): Record<string, unknown> | string {
+  const columns: Record<string, unknown> = {};
+
+  if (body.sidecars !== undefined) {
+    if (!SIDECAR_MODES.includes(body.sidecars as SidecarMode)) {
+      return `sidecars must be one of: ${SIDECAR_MODES.join(', ')}`;
+    }
+    columns.sidecars = body.sidecars;
+  }
+
+  if (body.default_tags !== undefined) {
+    const tags = toList(body.default_tags, /\s+/);
+    if (!tags) return 'default_tags must be a list of tags';
+    columns.default_tags = JSON.stringify([...new Set(tags.map(tag => tag.toLowerCase().replace(/\s+/g, '_')))]);
+  }
+
+  if (body.default_rating !== undefined) {
+    if (body.default_rating !== null && ![1, 2, 3].includes(body.default_rating as number)) {
+      return 'default_rating must be 1, 2, 3, or null';
+    }
+    columns.default_rating = body.default_rating;
+  }
+
+  for (const key of ['include_patterns', 'exclude_patterns']) {
+    if (body[key] !== undefined) {
+      const patterns = toList(body[key], /\r?\n/);
+      if (!patterns) return `${key} must be a list of glob patterns`;
+      columns[key] = JSON.stringify(patterns);
+    }
+  }
+
+  if (body.read_only !== undefined) {
+    if (typeof body.read_only !== 'boolean') return 'read_only must be true or false';
+    columns.read_only = body.read_only;
+  }
+
+  return columns;
+}
+
+// A folder with the include/exclude patterns from parsed settings, saved or not
+function withPatterns(folder: Folder, settings: Record<string, unknown>): Folder {
+  const parse = (value: unknown, current: string[]) => typeof value === 'string' ? JSON.parse(value) as string[] : current;
+  return {
+    ...folder,
+    include_patterns: parse(settings.include_patterns, folder.include_patterns),
+    exclude_patterns: parse(settings.exclude_patterns, folder.exclude_patterns),
+  };
+}
+
+// All folder management routes are admin only
+router.use(requireRole('admin'));
 
 /**
  * GET /api/folders
@@ -34,7 +98,7 @@ router.get('/', async (req, res) => {
 /**
  * POST /api/folders
  * Add a new folder to scan
- * Body: { "path": "/host/path/to/images", "recursive": true }
+ * Body: { "path": "/host/path/to/images", "do_recurse": true, ...optional settings (see PATCH) }
  */
 router.post('/', async (req, res) => {
   try {
@@ -48,6 +112,11 @@ router.post('/', async (req, res) => {
       });
     }
 
+    const settings = parseFolderSettings(req.body);
+    if (typeof settings === 'string') {
+      return res.status(400).json({ error: settings });
+    }
+
     // Verify folder exists on filesystem
     const fs = await import('fs/promises');
     try {
@@ -75,22 +144,18 @@ router.post('/', async (req, res) => {
     }
 
     // Insert folder
+    const columns: Record<string, unknown> = { path, do_recurse, enabled: true, ...settings };
     const result = await execute(
-      'INSERT INTO folders (path, do_recurse, enabled) VALUES (?, ?, TRUE)',
-      [path, do_recurse]
+      `INSERT INTO folders (${Object.keys(columns).join(', ')}) VALUES (${Object.keys(columns).map(() => '?').join(', ')})`,
+      Object.values(columns)
     );
 
-    const folder: Folder = {
-      id: result.insertId,
-      path,
-      do_recurse,
-      enabled: true,
-      created_at: new Date()
-    };
-
-    // Trigger initial scan in background
-    scanFolder(folder).catch(error => {
-      console.error(`Background scan failed for ${path}:`, error);
+    const folder = (await queryOne<Folder>('SELECT * FROM folders WHERE id = ?', [result.insertId]))!;
+
+    // Queue the initial scan
+    await enqueueJob('scan', folder.id);
+    refreshWatchers().catch(error => {
+      console.error(`Failed to watch ${path}:`, error);
     });
 
     res.status(201).json(folder);
@@ -126,9 +191,11 @@ router.delete('/:id', async (req, res) => {
 
     // Mark folder as being deleted to prevent new scans and block re-adding
     markFolderDeleting(folder.path);
+    unwatchFolder(folderId);
 
     try {
-      // Wait for any ongoing scan of this folder to complete
+      // Stop its jobs and wait for any ongoing scan of this folder to complete
+      await cancelFolderJobs(folderId);
       await waitForFolderScanComplete(folder.path);
 
       // Clean up images before deleting folder record
@@ -189,12 +256,33 @@ router.delete('/:id', async (req, res) => {
 /**
  * PATCH /api/folders/:id
  * Update folder settings
+ * Body: {
+ *   "do_recurse"?: boolean, "enabled"?: boolean,
+ *   "sidecars"?: "off" | "read" | "write",
+ *   "default_tags"?: ["screenshot"], "default_rating"?: 1 | 2 | 3 | null,
+ *   "include_patterns"?: ["*.png"], "exclude_patterns"?: [".trash/**"],
+ *   "read_only"?: boolean,
+ *   "remove_excluded"?: boolean
+ * }
+ * Newly added default tags are also added to the folder's existing images, as a bulk edit.
+ * Indexed images the new patterns leave out stay in the library unless remove_excluded is true
+ * (check how many with POST /api/folders/:id/excluded first).
  */
 router.patch('/:id', async (req, res) => {
   try {
     const { id } = req.params;
     const { do_recurse, enabled } = req.body;
 
+    const previous = await queryOne<Folder>('SELECT * FROM folders WHERE id = ?', [parseInt(id)]);
+    if (!previous) {
+      return res.status(404).json({ error: 'Folder not found' });
+    }
+
+    const settings = parseFolderSettings(req.body);
+    if (typeof settings === 'string') {
+      return res.status(400).json({ error: settings });
+    }
+
     const updates: string[] = [];
     const params: any[] = [];
 
@@ -208,6 +296,11 @@ router.patch('/:id', async (req, res) => {
       params.push(enabled);
     }
 
+    for (const [column, value] of Object.entries(settings)) {
+      updates.push(`${column} = ?`);
+      params.push(value);
+    }
+
     if (updates.length === 0) {
       return res.status(400).json({ error: 'No valid updates provided' });
     }
@@ -219,7 +312,40 @@ router.patch('/:id', async (req, res) => {
       params
     );
 
-    const folder = await queryOne<Folder>('SELECT * FROM folders WHERE id = ?', [parseInt(id)]);
+    const folder = (await queryOne<Folder>('SELECT * FROM folders WHERE id = ?', [parseInt(id)]))!;
+
+    if (req.body.remove_excluded === true) {
+      const excluded = await findExcludedImages(folder);
+      for (const image of excluded) {
+        await deleteImage(image.id);
+      }
+      if (excluded.length > 0) {
+        console.log(`Removed ${excluded.length} images excluded by the patterns of ${folder.path}`);
+      }
+    }
+
+    const addedTags = folder.default_tags.filter(tag => !previous.default_tags.includes(tag));
+    if (addedTags.length > 0) {
+      const images = await query<{ id: number }>('SELECT id FROM images WHERE file_path LIKE ?', [`${folder.path}/%`]);
+      if (images.length > 0) {
+        await enqueueEditJob('bulk_edit', {
+          image_ids: images.map(image => image.id),
+          edit: { add_tags: addedTags, remove_tags: [] },
+          actor: userActor(req.user),
+        }, folder.id);
+        console.log(`Adding default tags ${addedTags.join(', ')} to ${images.length} images in ${folder.path}`);
+      }
+    }
+
+    // Images indexed while sidecars were off haven't had theirs read yet
+    if (previous.sidecars === 'off' && folder.sidecars !== 'off') {
+      await enqueueJob('sidecars', folder.id);
+    }
+
+    // Start or stop watching if enabled/do_recurse changed, and give the watcher the new settings
+    refreshWatchers().catch(error => {
+      console.error('Failed to update folder watchers:', error);
+    });
 
     res.json(folder);
   } catch (error) {
@@ -228,9 +354,37 @@ router.patch('/:id', async (req, res) => {
   }
 });
 
+/**
+ * POST /api/folders/:id/excluded
+ * Count the indexed images that include/exclude patterns would leave out, before saving them
+ * Body: { "include_patterns"?: ["*.png"], "exclude_patterns"?: [".trash/**"] } (omitted ones stay as saved)
+ */
+router.post('/:id/excluded', async (req, res) => {
+  try {
+    const folder = await queryOne<Folder>('SELECT * FROM folders WHERE id = ?', [parseInt(req.params.id)]);
+    if (!folder) {
+      return res.status(404).json({ error: 'Folder not found' });
+    }
+
+    const settings = parseFolderSettings({
+      include_patterns: req.body.include_patterns,
+      exclude_patterns: req.body.exclude_patterns,
+    });
+    if (typeof settings === 'string') {
+      return res.status(400).json({ error: settings });
+    }
+
+    const excluded = await findExcludedImages(withPatterns(folder, settings));
+    res.json({ count: excluded.length });
+  } catch (error) {
+    console.error('Failed to count excluded images:', error);
+    res.status(500).json({ error: 'Failed to count excluded images' });
+  }
+});
+
 /**
  * POST /api/folders/:id/scan
- * Trigger a manual scan of a folder
+ * Queue a scan of a folder, followed by a cleanup of its deleted files
  */
 router.post('/:id/scan', async (req, res) => {
   try {
@@ -242,17 +396,9 @@ router.post('/:id/scan', async (req, res) => {
       return res.status(404).json({ error: 'Folder not found' });
     }
 
-    // Trigger scan and cleanup in background
-    (async () => {
-      try {
-        await scanFolder(folder);
-        await cleanupDeletedFiles(folder.path);
-      } catch (error) {
-        console.error(`Manual scan failed for ${folder.path}:`, error);
-      }
-    })();
+    const jobs = [await enqueueJob('scan', folder.id), await enqueueJob('cleanup', folder.id)];
 
-    res.json({ message: 'Scan started' });
+    res.json({ message: 'Scan queued', jobs });
   } catch (error) {
     console.error('Failed to trigger scan:', error);
     res.status(500).json({ error: 'Failed to trigger scan' });
@@ -1,12 +1,19 @@
 import { Router } from 'express';
 import { query, queryOne, execute } from '../database/connection';
-import { getThumbnailPath, resizeThumbnail, calculateFileHash, deleteThumbnail, generateThumbnail } from '../services/thumbnail';
-import { deleteImage, addTagsToImage, removeTagsFromImage } from '../services/scanner';
-import { writeFileMetadata } from '../services/exif';
-import { requireEditPassword } from '../middleware/security';
-import { ImageWithTags } from '../types';
+import { getThumbnailPath, getPreviewPath, generateDisplayImage, generateHlsSegment, resizeThumbnail, probeVideo } from '../services/thumbnail';
+import { streamVideoAsMp4, buildHlsPlaylist, HLS_SEGMENT_SECONDS } from '../services/transcode';
+import { BROWSER_UNSUPPORTED_IMAGE_EXTENSIONS, BROWSER_UNSUPPORTED_VIDEO_EXTENSIONS, HLS_EXTENSIONS } from '../services/formats';
+import { sendFileWithRanges } from '../services/streaming';
+import { deleteImage, setImageTags, writeImageMetadata } from '../services/scanner';
+import { requireRole, requireLogin } from '../middleware/security';
+import { ImageWithTags, TagCategory } from '../types';
 import { pluginRegistry } from '../index';
 import { RATING_MAP } from '../services/search';
+import { getImagePools } from '../services/pools';
+import { addFavorite, removeFavorite, getFavoriteCount, getFavoritedIds } from '../services/favorites';
+import { snapshotImage, recordChangeSince, getImageHistory, getHistoryEntry, computeRevert, userActor } from '../services/history';
+import { findSimilarImages, SIMILAR_DISTANCE } from '../services/similarity';
+import { isInReadOnlyFolder } from '../services/folders';
 import fs from 'fs/promises';
 
 const router = Router();
@@ -29,8 +36,8 @@ router.get('/:id', async (req, res) => {
     }
 
     // Get tags
-    const tags = await query<{ name: string }>(
-      `SELECT t.name
+    const tags = await query<{ name: string; category: TagCategory }>(
+      `SELECT t.name, t.category
        FROM tags t
        JOIN image_tags it ON t.id = it.tag_id
        WHERE it.image_id = ?
@@ -61,7 +68,11 @@ router.get('/:id', async (req, res) => {
     const imageWithTags: ImageWithTags = {
       ...image,
       tags: tags.map(t => t.name),
-      duplicates
+      tag_categories: Object.fromEntries(tags.map(t => [t.name, t.category])),
+      duplicates,
+      pools: await getImagePools(parseInt(id)),
+      favorite_count: await getFavoriteCount(parseInt(id)),
+      is_favorite: req.user ? (await getFavoritedIds(req.user.id, [parseInt(id)])).has(parseInt(id)) : undefined
     };
 
     res.json(imageWithTags);
@@ -74,6 +85,9 @@ router.get('/:id', async (req, res) => {
 /**
  * GET /api/image/:id/file
  * Serve the original image/video file with proper filename
+ * Formats browsers can't show are converted for viewing: HEIC, JPEG XL and TIFF to JPEG,
+ * MKV and MOV to streamed MP4. Downloads are always the original file.
+ * Originals support Range requests (for seeking videos) and are tagged with an ETag of their hash.
  * Query params: download=1 to force download
  */
 router.get('/:id/file', async (req, res) => {
@@ -82,7 +96,7 @@ router.get('/:id/file', async (req, res) => {
     const isDownload = req.query.download === '1';
 
     const image = await queryOne<any>(
-      'SELECT file_path, file_type, file_hash, filename FROM images WHERE id = ?',
+      'SELECT file_path, file_type, file_hash, filename, video_codec FROM images WHERE id = ?',
       [parseInt(id)]
     );
 
@@ -97,6 +111,18 @@ router.get('/:id/file', async (req, res) => {
       return res.status(404).json({ error: 'File not found on disk' });
     }
 
+    const ext = `.${image.file_type}`;
+    if (!isDownload && BROWSER_UNSUPPORTED_IMAGE_EXTENSIONS.includes(ext)) {
+      res.setHeader('Content-Disposition', `inline; filename="${image.file_hash}.jpg"`);
+      res.set('Cache-Control', 'public, max-age=86400');
+      return res.sendFile(await generateDisplayImage(image.file_path, image.file_hash));
+    }
+    if (!isDownload && BROWSER_UNSUPPORTED_VIDEO_EXTENSIONS.includes(ext)) {
+      res.setHeader('Content-Disposition', `inline; filename="${image.file_hash}.mp4"`);
+      res.setHeader('Content-Type', 'video/mp4');
+      return streamVideoAsMp4(image.file_path, image.video_codec, res);
+    }
+
     // Set content-disposition based on download mode
     if (isDownload) {
       // Use generated filename {hash}.{ext} for downloads
@@ -108,7 +134,7 @@ router.get('/:id/file', async (req, res) => {
     }
 
     // Send file
-    res.sendFile(image.file_path);
+    await sendFileWithRanges(req, res, image.file_path, image.file_hash);
   } catch (error) {
     console.error('Failed to serve image file:', error);
     return res.status(500).json({ error: 'Failed to serve image file' });
@@ -161,15 +187,106 @@ router.get('/:id/thumbnail', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/image/:id/preview
+ * Serve the looping preview clip of a video or animated GIF (MP4, 404 if there isn't one)
+ */
+router.get('/:id/preview', async (req, res) => {
+  try {
+    const image = await queryOne<any>(
+      'SELECT file_hash FROM images WHERE id = ?',
+      [parseInt(req.params.id)]
+    );
+
+    if (!image) {
+      return res.status(404).json({ error: 'Image not found' });
+    }
+
+    const previewPath = getPreviewPath(image.file_hash);
+    try {
+      await fs.access(previewPath);
+    } catch {
+      return res.status(404).json({ error: 'Preview not found' });
+    }
+
+    res.set('Cache-Control', 'public, max-age=86400');
+    res.sendFile(previewPath);
+  } catch (error) {
+    console.error('Failed to serve preview:', error);
+    return res.status(500).json({ error: 'Failed to serve preview' });
+  }
+});
+
+/**
+ * Look up a video for HLS streaming, with its duration (probed if the scan didn't record it)
+ */
+async function getHlsVideo(id: string): Promise<{ file_path: string; file_hash: string; duration: number } | null> {
+  const image = await queryOne<any>(
+    'SELECT file_path, file_hash, file_type, duration FROM images WHERE id = ?',
+    [parseInt(id)]
+  );
+  if (!image || !HLS_EXTENSIONS.includes(`.${image.file_type}`)) return null;
+
+  const duration = image.duration ?? (await probeVideo(image.file_path).catch(() => null))?.duration;
+  return duration ? { file_path: image.file_path, file_hash: image.file_hash, duration } : null;
+}
+
+/**
+ * GET /api/image/:id/hls/index.m3u8
+ * HLS playlist of a video, for smooth seeking of large or high-bitrate files (mostly on phones)
+ * Segments are encoded on demand, scaled down to HLS_MAX_HEIGHT, and kept for the next viewer.
+ */
+router.get('/:id/hls/index.m3u8', async (req, res) => {
+  try {
+    const video = await getHlsVideo(req.params.id);
+    if (!video) {
+      return res.status(404).json({ error: 'Video not found' });
+    }
+
+    res.type('application/vnd.apple.mpegurl');
+    res.send(buildHlsPlaylist(video.duration));
+  } catch (error) {
+    console.error('Failed to serve HLS playlist:', error);
+    return res.status(500).json({ error: 'Failed to serve HLS playlist' });
+  }
+});
+
+/**
+ * GET /api/image/:id/hls/:segment.ts
+ * One segment of a video's HLS stream (MPEG-TS)
+ */
+router.get('/:id/hls/:segment.ts', async (req, res) => {
+  try {
+    const video = await getHlsVideo(req.params.id);
+    const segment = parseInt(req.params.segment);
+
+    if (!video) {
+      return res.status(404).json({ error: 'Video not found' });
+    }
+    if (isNaN(segment) || segment < 0 || segment * HLS_SEGMENT_SECONDS >= video.duration) {
+      return res.status(404).json({ error: 'Segment not found' });
+    }
+
+    const segmentPath = await generateHlsSegment(video.file_path, video.file_hash, segment);
+    res.type('video/mp2t');
+    res.set('Cache-Control', 'public, max-age=86400');
+    res.sendFile(segmentPath);
+  } catch (error) {
+    console.error('Failed to serve HLS segment:', error);
+    return res.status(500).json({ error: 'Failed to serve HLS segment' });
+  }
+});
+
 /**
  * PATCH /api/image/:id
- * Update image metadata (tags and/or rating) - requires edit password
+ * Update image metadata (tags and/or rating) - requires editor role
  * Body: { tags?: string[], rating?: number | null }
- *   - tags: Array of tag strings (rating:xxx metatags are extracted and applied)
+ *   - tags: Array of tag strings (rating:xxx metatags are extracted and applied,
+ *           category:name prefixes set the tag's category)
  *   - rating: 1=Safe, 2=Questionable, 3=Explicit, null=Undefined
  *   - Rating in the 'rating' field overrides any rating:xxx metatag
  */
-router.patch('/:id', requireEditPassword, async (req, res) => {
+router.patch('/:id', requireRole('editor'), async (req, res) => {
   try {
     const { id } = req.params;
     const { tags: rawTags, rating: rawRating } = req.body;
@@ -180,9 +297,9 @@ router.patch('/:id', requireEditPassword, async (req, res) => {
     }
 
     const imageId = parseInt(id);
-    const image = await queryOne<{ file_path: string, file_hash: string }>('SELECT file_path, file_hash FROM images WHERE id = ?', [imageId]);
+    const before = await snapshotImage(imageId);
 
-    if (!image) {
+    if (!before) {
       return res.status(404).json({ success: false, error: 'Image not found' });
     }
 
@@ -220,31 +337,8 @@ router.patch('/:id', requireEditPassword, async (req, res) => {
       // Allow plugins to transform tags before saving
       normalizedTags = await pluginRegistry.runTransformHook('onBeforeTagUpdate', normalizedTags, imageId);
 
-      const newTags = new Set(normalizedTags);
-
-      // Get existing tags and calculate diff
-      const existingTagRows = await query<{ name: string }>(
-        `SELECT t.name FROM tags t
-         JOIN image_tags it ON t.id = it.tag_id
-         WHERE it.image_id = ?`,
-        [imageId]
-      );
-      const existingTagsNorm = new Set(existingTagRows.map(t => t.name.toLowerCase()));
-
-      // Compute diff (compare lowercase to lowercase)
-      const tagsToAdd = [...newTags].filter(t => !existingTagsNorm.has(t));
-      const tagsToRemove = existingTagRows
-        .map(t => t.name)
-        .filter(t => !newTags.has(t.toLowerCase()));
-
-      if (tagsToRemove.length > 0) {
-        await removeTagsFromImage(imageId, tagsToRemove);
-      }
-      if (tagsToAdd.length > 0) {
-        await addTagsToImage(imageId, tagsToAdd);
-      }
-
-      finalTags = [...newTags];
+      // Apply aliases/implications and diff against the stored tags
+      finalTags = await setImageTags(imageId, normalizedTags);
     }
 
     // Validate and process rating if provided (overrides any rating:xxx metatag)
@@ -260,36 +354,16 @@ router.patch('/:id', requireEditPassword, async (req, res) => {
       await execute('UPDATE images SET rating = ?, updated_at = NOW() WHERE id = ?', [finalRating, imageId]);
     }
 
+    try {
+      await recordChangeSince(imageId, before, userActor(req.user));
+    } catch (historyError) {
+      console.error('Failed to record image history:', historyError);
+      // Don't fail the request, the edit itself is already saved
+    }
+
     // Write metadata to file
     try {
-      const metadataUpdate: { tags?: string[]; rating?: number | null } = {};
-      if (finalTags !== undefined) metadataUpdate.tags = finalTags;
-      if (finalRating !== undefined) metadataUpdate.rating = finalRating;
-
-      if (Object.keys(metadataUpdate).length > 0) {
-        await writeFileMetadata(image.file_path, metadataUpdate);
-
-        // Rehash the file and update DB so scanner doesn't see it as changed
-        const [newHash, stats] = await Promise.all([
-          calculateFileHash(image.file_path),
-          fs.stat(image.file_path)
-        ]);
-        await execute(
-          'UPDATE images SET file_hash = ?, file_size = ?, updated_at = NOW() WHERE id = ?',
-          [newHash, stats.size, imageId]
-        );
-
-        // Rename thumbnail if hash changed
-        if (newHash !== image.file_hash) {
-          const oldThumbLoc = getThumbnailPath(image.file_hash);
-          try {
-            await fs.rename(oldThumbLoc, oldThumbLoc.slice(0, oldThumbLoc.lastIndexOf('/')) + `/${newHash}.jpg`);
-          } catch {
-            await deleteThumbnail(image.file_hash);
-            generateThumbnail(image.file_path, newHash);
-          }
-        }
-      }
+      await writeImageMetadata(imageId, { tags: finalTags !== undefined, rating: finalRating });
     } catch (fileError) {
       console.error('Failed to write metadata to file:', fileError);
       // Don't fail the request, DB is already updated
@@ -311,12 +385,117 @@ router.patch('/:id', requireEditPassword, async (req, res) => {
   }
 });
 
+/**
+ * GET /api/image/:id/history
+ * Get an image's tag and rating change history, newest first
+ */
+router.get('/:id/history', async (req, res) => {
+  try {
+    const imageId = parseInt(req.params.id);
+    const image = await queryOne<{ id: number }>('SELECT id FROM images WHERE id = ?', [imageId]);
+
+    if (!image) {
+      return res.status(404).json({ error: 'Image not found' });
+    }
+
+    res.json(await getImageHistory(imageId));
+  } catch (error) {
+    console.error('Failed to fetch image history:', error);
+    return res.status(500).json({ error: 'Failed to fetch image history' });
+  }
+});
+
+/**
+ * GET /api/image/:id/similar?distance=10&limit=24
+ * Visually similar images, closest first (empty if the image has no content hashes)
+ *   - distance: max Hamming distance between dHashes, out of 64 (default SIMILAR_DISTANCE)
+ */
+router.get('/:id/similar', async (req, res) => {
+  try {
+    const imageId = parseInt(req.params.id);
+    const image = await queryOne<{ id: number }>('SELECT id FROM images WHERE id = ?', [imageId]);
+
+    if (!image) {
+      return res.status(404).json({ error: 'Image not found' });
+    }
+
+    const distance = parseInt(req.query.distance as string) || SIMILAR_DISTANCE;
+    const limit = Math.min(parseInt(req.query.limit as string) || 24, 100);
+    res.json(findSimilarImages(imageId, distance).slice(0, limit));
+  } catch (error) {
+    console.error('Failed to fetch similar images:', error);
+    return res.status(500).json({ error: 'Failed to fetch similar images' });
+  }
+});
+
+/**
+ * POST /api/image/:id/history/:entryId/revert
+ * Undo one history entry (requires editor role)
+ * Tags the entry added are removed and tags it removed are re-added; later edits are kept.
+ * The rating is restored only if the entry changed it. The revert is itself recorded.
+ */
+router.post('/:id/history/:entryId/revert', requireRole('editor'), async (req, res) => {
+  try {
+    const imageId = parseInt(req.params.id);
+    const entry = await getHistoryEntry(imageId, parseInt(req.params.entryId));
+
+    if (!entry) {
+      return res.status(404).json({ success: false, error: 'History entry not found' });
+    }
+
+    const before = await snapshotImage(imageId);
+    if (!before) {
+      return res.status(404).json({ success: false, error: 'Image not found' });
+    }
+
+    const revert = computeRevert(entry, before);
+    const tagsChanged = entry.added_tags.length > 0 || entry.removed_tags.length > 0;
+
+    let finalTags: string[] | undefined;
+    if (tagsChanged) {
+      const tags = await pluginRegistry.runTransformHook('onBeforeTagUpdate', revert.tags, imageId);
+      finalTags = await setImageTags(imageId, tags);
+    }
+    if (revert.rating !== undefined) {
+      await execute('UPDATE images SET rating = ?, updated_at = NOW() WHERE id = ?', [revert.rating, imageId]);
+    }
+
+    let historyId: number | null = null;
+    try {
+      historyId = await recordChangeSince(imageId, before, userActor(req.user), entry.id);
+    } catch (historyError) {
+      console.error('Failed to record image history:', historyError);
+    }
+
+    try {
+      await writeImageMetadata(imageId, { tags: tagsChanged, rating: revert.rating });
+    } catch (fileError) {
+      console.error('Failed to write metadata to file:', fileError);
+    }
+
+    if (finalTags !== undefined) {
+      pluginRegistry.runHook('onAfterTagUpdate', imageId, finalTags);
+    }
+
+    res.json({
+      success: true,
+      history_id: historyId,
+      ...(finalTags !== undefined && { tags: finalTags }),
+      ...(revert.rating !== undefined && { rating: revert.rating }),
+    });
+  } catch (error) {
+    console.error('Failed to revert image history:', error);
+    return res.status(500).json({ success: false, error: 'Failed to revert image history' });
+  }
+});
+
 /**
  * DELETE /api/image/:id
- * Delete an image (requires edit password)
+ * Delete an image (requires editor role)
  * Query params: deleteFile=true to also delete the file from disk (default: true)
+ * Files in read-only folders are never deleted; asking to is refused with 403.
  */
-router.delete('/:id', requireEditPassword, async (req, res) => {
+router.delete('/:id', requireRole('editor'), async (req, res) => {
   try {
     const { id } = req.params;
     const shouldDeleteFile = req.query.deleteFile !== 'false';
@@ -331,6 +510,10 @@ router.delete('/:id', requireEditPassword, async (req, res) => {
       return res.status(404).json({ success: false, error: 'Image not found' });
     }
 
+    if (shouldDeleteFile && await isInReadOnlyFolder(image.file_path)) {
+      return res.status(403).json({ success: false, error: "The image is in a read-only folder, so its file can't be deleted" });
+    }
+
     // Use existing deleteImage function for clean DB removal
     await deleteImage(imageId);
 
@@ -352,4 +535,41 @@ router.delete('/:id', requireEditPassword, async (req, res) => {
   }
 });
 
+/**
+ * POST /api/image/:id/favorite
+ * Add an image to the logged-in user's favorites
+ */
+router.post('/:id/favorite', requireLogin, async (req, res) => {
+  try {
+    const imageId = parseInt(req.params.id);
+    const image = await queryOne<{ id: number }>('SELECT id FROM images WHERE id = ?', [imageId]);
+
+    if (!image) {
+      return res.status(404).json({ success: false, error: 'Image not found' });
+    }
+
+    await addFavorite(req.user!.id, imageId);
+    res.json({ success: true, is_favorite: true, favorite_count: await getFavoriteCount(imageId) });
+  } catch (error) {
+    console.error('Failed to add favorite:', error);
+    return res.status(500).json({ success: false, error: 'Failed to add favorite' });
+  }
+});
+
+/**
+ * DELETE /api/image/:id/favorite
+ * Remove an image from the logged-in user's favorites
+ */
+router.delete('/:id/favorite', requireLogin, async (req, res) => {
+  try {
+    const imageId = parseInt(req.params.id);
+
+    await removeFavorite(req.user!.id, imageId);
+    res.json({ success: true, is_favorite: false, favorite_count: await getFavoriteCount(imageId) });
+  } catch (error) {
+    console.error('Failed to remove favorite:', error);
+    return res.status(500).json({ success: false, error: 'Failed to remove favorite' });
+  }
+});
+
 export default router;
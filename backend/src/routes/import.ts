@@ -0,0 +1,61 @@
+import { Router } from 'express';
+import multer from 'multer';
+import { requireRole } from '../middleware/security';
+import { planImport, stageImportChanges } from '../services/backup';
+import { enqueueEditJob } from '../services/jobs';
+import { userActor } from '../services/history';
+
+const MAX_IMPORT_SIZE_MB = 200;
+
+const router = Router();
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_IMPORT_SIZE_MB * 1024 * 1024 },
+});
+
+/**
+ * POST /api/import?dry_run=1
+ * Re-apply metadata from a GET /api/export file (NDJSON or CSV) - requires admin role
+ * Body (multipart/form-data): file
+ * Images are matched by file_hash, then by path. Fields missing from the file are left alone,
+ * so a CSV with just path and tags columns only replaces tags.
+ * With dry_run the report of what would change is returned and nothing is changed. Otherwise the
+ * changes are queued as a job; returns the job to poll with GET /api/jobs/:id
+ */
+router.post('/', requireRole('admin'), (req, res) => {
+  upload.single('file')(req, res, async (uploadError: unknown) => {
+    if (uploadError) {
+      const message = uploadError instanceof multer.MulterError && uploadError.code === 'LIMIT_FILE_SIZE'
+        ? `Import files may be at most ${MAX_IMPORT_SIZE_MB} MB`
+        : 'Failed to receive import file';
+      return res.status(400).json({ success: false, error: message });
+    }
+
+    try {
+      if (!req.file) {
+        return res.status(400).json({ success: false, error: 'No file uploaded' });
+      }
+
+      const dryRun = ['1', 'true'].includes(String(req.query.dry_run ?? req.body.dry_run));
+      const { report, changes } = await planImport(req.file.buffer.toString('utf8'));
+
+      if (dryRun || changes.length === 0) {
+        return res.json({ success: true, dry_run: dryRun, report, job: null });
+      }
+
+      const job = await enqueueEditJob(
+        'import',
+        { actor: userActor(req.user) },
+        null,
+        (jobId, connection) => stageImportChanges(jobId, connection, changes)
+      );
+      res.json({ success: true, dry_run: false, report, job });
+    } catch (error) {
+      console.error('Failed to import metadata:', error);
+      res.status(500).json({ success: false, error: 'Failed to import metadata' });
+    }
+  });
+});
+
+export default router;
@@ -0,0 +1,125 @@
+import { Router } from 'express';
+import { queryOne } from '../database/connection';
+import { requireRole } from '../middleware/security';
+import { enqueueJob, cancelJob, getJob, listJobs, subscribeJobs, isJobType, JOB_TYPES } from '../services/jobs';
+
+const router = Router();
+
+// Jobs work on folders, so they're admin only like folder management
+router.use(requireRole('admin'));
+
+/**
+ * GET /api/jobs
+ * List recent jobs, newest first, with progress and ETA for the running one
+ */
+router.get('/', async (req, res) => {
+  try {
+    res.json(await listJobs());
+  } catch (error) {
+    console.error('Failed to fetch jobs:', error);
+    res.status(500).json({ error: 'Failed to fetch jobs' });
+  }
+});
+
+/**
+ * GET /api/jobs/events
+ * Server-Sent Events stream of the job list, sent whenever a job changes
+ */
+router.get('/events', async (req, res) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no', // Don't let nginx hold events back
+  });
+
+  const send = (jobs: unknown) => {
+    res.write(`data: ${JSON.stringify(jobs)}\n\n`);
+  };
+
+  const unsubscribe = subscribeJobs(send);
+  // Comment lines keep proxies from closing an idle connection
+  const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), 30000);
+
+  req.on('close', () => {
+    unsubscribe();
+    clearInterval(keepAlive);
+  });
+
+  try {
+    send(await listJobs());
+  } catch (error) {
+    console.error('Failed to send job list:', error);
+  }
+});
+
+/**
+ * GET /api/jobs/:id
+ * Get one job, with progress and ETA if it's running
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const job = await getJob(parseInt(req.params.id));
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    res.json(job);
+  } catch (error) {
+    console.error('Failed to fetch job:', error);
+    res.status(500).json({ error: 'Failed to fetch job' });
+  }
+});
+
+/**
+ * POST /api/jobs
+ * Queue a job
+ * Body: { "type": "scan" | "cleanup" | "thumbnails" | "duplicates" | "sidecars", "folder_id"?: number }
+ *   - folder_id: limit the job to one folder (omit for all folders)
+ */
+router.post('/', async (req, res) => {
+  try {
+    const { type, folder_id } = req.body;
+
+    if (!isJobType(type)) {
+      return res.status(400).json({ success: false, error: `Job type must be one of: ${JOB_TYPES.join(', ')}` });
+    }
+
+    let folderId: number | null = null;
+    if (folder_id !== undefined && folder_id !== null) {
+      folderId = parseInt(folder_id);
+      const folder = await queryOne<{ id: number }>('SELECT id FROM folders WHERE id = ?', [folderId]);
+      if (!folder) {
+        return res.status(404).json({ success: false, error: 'Folder not found' });
+      }
+    }
+
+    const job = await enqueueJob(type, folderId);
+    res.status(202).json({ success: true, job });
+  } catch (error) {
+    console.error('Failed to queue job:', error);
+    res.status(500).json({ success: false, error: 'Failed to queue job' });
+  }
+});
+
+/**
+ * POST /api/jobs/:id/cancel
+ * Cancel a queued or running job (a running job stops after its current file)
+ */
+router.post('/:id/cancel', async (req, res) => {
+  try {
+    const cancelled = await cancelJob(parseInt(req.params.id));
+
+    if (!cancelled) {
+      return res.status(400).json({ success: false, error: 'Job not found or already finished' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Failed to cancel job:', error);
+    res.status(500).json({ success: false, error: 'Failed to cancel job' });
+  }
+});
+
+export default router;
@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import { searchImages } from '../services/search';
 import { query, queryOne } from '../database/connection';
+import { getImagePools } from '../services/pools';
+import { PoolWithCount } from '../types';
 
 const router = Router();
 const PAGE_SIZE = 24; // Smaller for old browsers
@@ -58,12 +60,12 @@ router.get('/image/:id', async (req, res) => {
     }
 
     // Get tags
-    const tags = await query<{ name: string }>(
-      `SELECT t.name
+    const tags = await query<{ name: string; category: string }>(
+      `SELECT t.name, t.category
        FROM tags t
        JOIN image_tags it ON t.id = it.tag_id
        WHERE it.image_id = ?
-       ORDER BY t.name`,
+       ORDER BY FIELD(t.category, 'artist', 'copyright', 'character', 'general', 'meta'), t.name`,
       [imageId]
     );
 
@@ -137,7 +139,9 @@ router.get('/image/:id', async (req, res) => {
     res.render('image', {
       image: {
         ...image,
-        tags: tags.map(t => t.name)
+        tags: tags.map(t => t.name),
+        tag_categories: Object.fromEntries(tags.map(t => [t.name, t.category])),
+        pools: await getImagePools(imageId)
       },
       query: queryStr,
       page: pageNum,
@@ -154,4 +158,60 @@ router.get('/image/:id', async (req, res) => {
   }
 });
 
+/**
+ * GET /lite/pools
+ * Server-rendered pool listing
+ */
+router.get('/pools', async (req, res) => {
+  try {
+    const pools = await query<PoolWithCount>(
+      `SELECT p.*,
+         (SELECT COUNT(*) FROM pool_images c WHERE c.pool_id = p.id) AS image_count,
+         (SELECT f.image_id FROM pool_images f WHERE f.pool_id = p.id ORDER BY f.position LIMIT 1) AS cover_id
+       FROM pools p
+       ORDER BY p.name`
+    );
+
+    res.render('pools', { pools });
+  } catch (error) {
+    console.error('Lite pools error:', error);
+    res.status(500).render('error', { message: 'Failed to load pools' });
+  }
+});
+
+/**
+ * GET /lite/pool/:id
+ * Server-rendered pool view (images in pool order, paginated)
+ */
+router.get('/pool/:id', async (req, res) => {
+  try {
+    const poolId = parseInt(req.params.id);
+    const { page = '1' } = req.query;
+    const pageNum = Math.max(1, parseInt(String(page)) || 1);
+
+    const pool = await queryOne<PoolWithCount>('SELECT * FROM pools WHERE id = ?', [poolId]);
+    if (!pool) {
+      return res.status(404).render('error', { message: 'Pool not found' });
+    }
+
+    const result = await searchImages({
+      query: `pool:${poolId} sort:pool`,
+      page: pageNum,
+      limit: PAGE_SIZE
+    });
+
+    res.render('pool', {
+      pool,
+      images: result.images,
+      page: pageNum,
+      totalPages: result.total_pages,
+      total: result.total,
+      offset: (pageNum - 1) * PAGE_SIZE
+    });
+  } catch (error) {
+    console.error('Lite pool error:', error);
+    res.status(500).render('error', { message: 'Failed to load pool' });
+  }
+});
+
 export default router;
@@ -0,0 +1,288 @@
+import { Router } from 'express';
+import { execute, query, queryOne } from '../database/connection';
+import { requireRole } from '../middleware/security';
+import { Pool, PoolWithCount } from '../types';
+import {
+  normalizePoolName,
+  findPool,
+  getPoolImageIds,
+  addImagesToPool,
+  setPoolOrder,
+  compactPoolPositions,
+} from '../services/pools';
+
+const router = Router();
+
+/**
+ * Parse an image ID list from a request body (drops invalid and repeated IDs)
+ */
+function parseImageIds(value: unknown): number[] | null {
+  if (!Array.isArray(value)) return null;
+  return [...new Set(value.map(id => parseInt(id)).filter(id => !isNaN(id)))];
+}
+
+/**
+ * Keep only IDs of images that exist, preserving order
+ */
+async function filterExistingImages(imageIds: number[]): Promise<number[]> {
+  if (imageIds.length === 0) return [];
+  const rows = await query<{ id: number }>(
+    `SELECT id FROM images WHERE id IN (${imageIds.map(() => '?').join(',')})`,
+    imageIds
+  );
+  const existing = new Set(rows.map(r => r.id));
+  return imageIds.filter(id => existing.has(id));
+}
+
+/**
+ * GET /api/pools
+ * List pools with image counts and cover image
+ * Query params: q (optional name filter, supports * wildcard)
+ */
+router.get('/', async (req, res) => {
+  try {
+    const { q } = req.query;
+    const params: any[] = [];
+    let where = '';
+
+    if (q && typeof q === 'string' && q.trim()) {
+      const likePattern = q.trim()
+        .replace(/%/g, '\\%')
+        .replace(/_/g, '\\_')
+        .replace(/\*/g, '%');
+      where = `WHERE p.name LIKE ? ESCAPE '\\\\'`;
+      params.push(q.includes('*') ? likePattern : `%${likePattern}%`);
+    }
+
+    const pools = await query<PoolWithCount>(
+      `SELECT p.*,
+         (SELECT COUNT(*) FROM pool_images c WHERE c.pool_id = p.id) AS image_count,
+         (SELECT f.image_id FROM pool_images f WHERE f.pool_id = p.id ORDER BY f.position LIMIT 1) AS cover_id
+       FROM pools p
+       ${where}
+       ORDER BY p.updated_at DESC`,
+      params
+    );
+
+    res.json(pools);
+  } catch (error) {
+    console.error('Failed to fetch pools:', error);
+    res.status(500).json({ error: 'Failed to fetch pools' });
+  }
+});
+
+/**
+ * GET /api/pools/:id
+ * Get a pool (by ID or name) with its image IDs in order
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const pool = await findPool(req.params.id);
+
+    if (!pool) {
+      return res.status(404).json({ error: 'Pool not found' });
+    }
+
+    const imageIds = await getPoolImageIds(pool.id);
+    res.json({ ...pool, image_count: imageIds.length, image_ids: imageIds });
+  } catch (error) {
+    console.error('Failed to fetch pool:', error);
+    res.status(500).json({ error: 'Failed to fetch pool' });
+  }
+});
+
+/**
+ * POST /api/pools
+ * Create a pool - requires editor role
+ * Body: { "name": "my_comic", "description": "...", "image_ids": [1, 2, 3] }
+ */
+router.post('/', requireRole('editor'), async (req, res) => {
+  try {
+    const name = normalizePoolName(req.body.name);
+    const description = typeof req.body.description === 'string' ? req.body.description.trim() || null : null;
+    const imageIds = req.body.image_ids === undefined ? [] : parseImageIds(req.body.image_ids);
+
+    if (!name) {
+      return res.status(400).json({ success: false, error: 'Pool name is required and cannot be a number' });
+    }
+    if (!imageIds) {
+      return res.status(400).json({ success: false, error: 'image_ids must be an array' });
+    }
+
+    const existing = await queryOne<Pool>('SELECT id FROM pools WHERE name = ?', [name]);
+    if (existing) {
+      return res.status(400).json({ success: false, error: 'A pool with that name already exists' });
+    }
+
+    const result = await execute(
+      'INSERT INTO pools (name, description) VALUES (?, ?)',
+      [name, description]
+    );
+    const poolId = result.insertId;
+
+    if (imageIds.length > 0) {
+      await addImagesToPool(poolId, await filterExistingImages(imageIds));
+    }
+
+    const pool = await queryOne<Pool>('SELECT * FROM pools WHERE id = ?', [poolId]);
+    res.status(201).json(pool);
+  } catch (error) {
+    console.error('Failed to create pool:', error);
+    res.status(500).json({ success: false, error: 'Failed to create pool' });
+  }
+});
+
+/**
+ * PATCH /api/pools/:id
+ * Update a pool's name and/or description (pool by ID or name) - requires editor role
+ * Body: { "name"?: string, "description"?: string | null }
+ */
+router.patch('/:id', requireRole('editor'), async (req, res) => {
+  try {
+    const pool = await findPool(req.params.id);
+    if (!pool) {
+      return res.status(404).json({ success: false, error: 'Pool not found' });
+    }
+
+    const updates: string[] = [];
+    const params: any[] = [];
+
+    if (req.body.name !== undefined) {
+      const name = normalizePoolName(req.body.name);
+      if (!name) {
+        return res.status(400).json({ success: false, error: 'Pool name is required and cannot be a number' });
+      }
+      const existing = await queryOne<Pool>('SELECT id FROM pools WHERE name = ? AND id != ?', [name, pool.id]);
+      if (existing) {
+        return res.status(400).json({ success: false, error: 'A pool with that name already exists' });
+      }
+      updates.push('name = ?');
+      params.push(name);
+    }
+
+    if (req.body.description !== undefined) {
+      updates.push('description = ?');
+      params.push(typeof req.body.description === 'string' ? req.body.description.trim() || null : null);
+    }
+
+    if (updates.length === 0) {
+      return res.status(400).json({ success: false, error: 'No valid updates provided' });
+    }
+
+    params.push(pool.id);
+    await execute(`UPDATE pools SET ${updates.join(', ')} WHERE id = ?`, params);
+
+    res.json(await queryOne<Pool>('SELECT * FROM pools WHERE id = ?', [pool.id]));
+  } catch (error) {
+    console.error('Failed to update pool:', error);
+    res.status(500).json({ success: false, error: 'Failed to update pool' });
+  }
+});
+
+/**
+ * DELETE /api/pools/:id
+ * Delete a pool by ID or name (images are kept) - requires editor role
+ */
+router.delete('/:id', requireRole('editor'), async (req, res) => {
+  try {
+    const pool = await findPool(req.params.id);
+    if (!pool) {
+      return res.status(404).json({ success: false, error: 'Pool not found' });
+    }
+
+    await execute('DELETE FROM pools WHERE id = ?', [pool.id]);
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Failed to delete pool:', error);
+    res.status(500).json({ success: false, error: 'Failed to delete pool' });
+  }
+});
+
+/**
+ * POST /api/pools/:id/images
+ * Append images to the end of a pool (by ID or name) - requires editor role
+ * Body: { "image_ids": [4, 5] }
+ */
+router.post('/:id/images', requireRole('editor'), async (req, res) => {
+  try {
+    const imageIds = parseImageIds(req.body.image_ids);
+
+    if (!imageIds || imageIds.length === 0) {
+      return res.status(400).json({ success: false, error: 'image_ids must be a non-empty array' });
+    }
+
+    const pool = await findPool(req.params.id);
+    if (!pool) {
+      return res.status(404).json({ success: false, error: 'Pool not found' });
+    }
+
+    const added = await addImagesToPool(pool.id, await filterExistingImages(imageIds));
+    res.json({ success: true, added, image_ids: await getPoolImageIds(pool.id) });
+  } catch (error) {
+    console.error('Failed to add images to pool:', error);
+    res.status(500).json({ success: false, error: 'Failed to add images to pool' });
+  }
+});
+
+/**
+ * DELETE /api/pools/:id/images/:imageId
+ * Remove an image from a pool (by ID or name) - requires editor role
+ */
+router.delete('/:id/images/:imageId', requireRole('editor'), async (req, res) => {
+  try {
+    const pool = await findPool(req.params.id);
+    if (!pool) {
+      return res.status(404).json({ success: false, error: 'Pool not found' });
+    }
+
+    const result = await execute(
+      'DELETE FROM pool_images WHERE pool_id = ? AND image_id = ?',
+      [pool.id, parseInt(req.params.imageId)]
+    );
+
+    if (result.affectedRows === 0) {
+      return res.status(404).json({ success: false, error: 'Image is not in this pool' });
+    }
+
+    await compactPoolPositions(pool.id);
+    res.json({ success: true, image_ids: await getPoolImageIds(pool.id) });
+  } catch (error) {
+    console.error('Failed to remove image from pool:', error);
+    res.status(500).json({ success: false, error: 'Failed to remove image from pool' });
+  }
+});
+
+/**
+ * PUT /api/pools/:id/order
+ * Reorder a pool (by ID or name) - requires editor role
+ * Body: { "image_ids": [3, 1, 2] } (must contain exactly the pool's images)
+ */
+router.put('/:id/order', requireRole('editor'), async (req, res) => {
+  try {
+    const imageIds = parseImageIds(req.body.image_ids);
+
+    if (!imageIds) {
+      return res.status(400).json({ success: false, error: 'image_ids must be an array' });
+    }
+
+    const pool = await findPool(req.params.id);
+    if (!pool) {
+      return res.status(404).json({ success: false, error: 'Pool not found' });
+    }
+
+    const currentIds = await getPoolImageIds(pool.id);
+    const currentSet = new Set(currentIds);
+    if (imageIds.length !== currentIds.length || !imageIds.every(id => currentSet.has(id))) {
+      return res.status(400).json({ success: false, error: 'image_ids must contain exactly the images in the pool' });
+    }
+
+    await setPoolOrder(pool.id, imageIds);
+    res.json({ success: true, image_ids: imageIds });
+  } catch (error) {
+    console.error('Failed to reorder pool:', error);
+    res.status(500).json({ success: false, error: 'Failed to reorder pool' });
+  }
+});
+
+export default router;
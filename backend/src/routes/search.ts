@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { searchImages, getTags } from '../services/search';
+import { getFavoritedIds } from '../services/favorites';
 
 const MAX_POSTS_PER_QUERY = parseInt(process.env.MAX_RESULTS_PER_PAGE || '100');
 const router = Router();
@@ -19,6 +20,14 @@ router.get('/', async (req, res) => {
       sort: String(sort) as any
     });
 
+    // Mark the logged-in user's favorites for the heart buttons
+    if (req.user) {
+      const favorited = await getFavoritedIds(req.user.id, result.images.map(img => img.id));
+      for (const image of result.images) {
+        image.is_favorite = favorited.has(image.id);
+      }
+    }
+
     res.json(result);
   } catch (error) {
     console.error('Search failed:', error);
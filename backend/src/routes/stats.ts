@@ -1,7 +1,6 @@
 import { Router } from 'express';
 import { queryOne } from '../database/connection';
 import { ScanStats } from '../types';
-import { isEditPasswordRequired } from '../middleware/security';
 
 const router = Router();
 
@@ -27,12 +26,11 @@ router.get('/', async (req, res) => {
       'SELECT last_scanned_at FROM folders ORDER BY last_scanned_at DESC LIMIT 1'
     );
 
-    const stats: ScanStats & { require_edit_password: boolean } = {
+    const stats: ScanStats = {
       total_images: imageCount?.count || 0,
       total_tags: tagCount?.count || 0,
       total_folders: folderCount?.count || 0,
-      last_scan: lastScan?.last_scanned_at,
-      require_edit_password: isEditPasswordRequired()
+      last_scan: lastScan?.last_scanned_at
     };
 
     res.json(stats);
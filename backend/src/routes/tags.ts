@@ -0,0 +1,308 @@
+import { Router } from 'express';
+import { execute, query, queryOne } from '../database/connection';
+import { requireRole } from '../middleware/security';
+import { Tag, TagAlias, TagImplication } from '../types';
+import {
+  parseTagCategory,
+  formatTagWithCategory,
+  getTagRules,
+  getImpliedTags,
+  invalidateTagRules,
+  resolveAlias,
+} from '../services/tags';
+import { enqueueEditJob, hasPendingJob } from '../services/jobs';
+import { userActor } from '../services/history';
+
+const router = Router();
+
+// Tag rules (aliases/implications) are managed from the admin page, so those routes are admin only
+
+/**
+ * Normalize a tag name from a request body (trim, lowercase, strip category prefix)
+ */
+function normalizeTagName(value: unknown): string {
+  if (typeof value !== 'string') return '';
+  return parseTagCategory(value.trim().toLowerCase()).name;
+}
+
+/**
+ * GET /api/tags/aliases
+ * Get all tag aliases
+ */
+router.get('/aliases', requireRole('admin'), async (req, res) => {
+  try {
+    const aliases = await query<TagAlias>('SELECT * FROM tag_aliases ORDER BY alias');
+    res.json(aliases);
+  } catch (error) {
+    console.error('Failed to fetch tag aliases:', error);
+    res.status(500).json({ error: 'Failed to fetch tag aliases' });
+  }
+});
+
+/**
+ * POST /api/tags/aliases
+ * Add a tag alias
+ * Body: { "alias": "kitty", "target": "cat" }
+ */
+router.post('/aliases', requireRole('admin'), async (req, res) => {
+  try {
+    const alias = normalizeTagName(req.body.alias);
+    const target = normalizeTagName(req.body.target);
+
+    if (!alias || !target) {
+      return res.status(400).json({ error: 'Alias and target are required' });
+    }
+    if (alias === target) {
+      return res.status(400).json({ error: 'A tag cannot be an alias of itself' });
+    }
+
+    const targetAlias = await queryOne<TagAlias>('SELECT target FROM tag_aliases WHERE alias = ?', [target]);
+    if (targetAlias) {
+      return res.status(400).json({ error: `"${target}" is itself an alias of "${targetAlias.target}"` });
+    }
+
+    const existing = await queryOne<TagAlias>('SELECT id FROM tag_aliases WHERE alias = ?', [alias]);
+    if (existing) {
+      return res.status(400).json({ error: 'Alias already exists' });
+    }
+
+    // Aliases pointing at the new alias now point at its target, so chains never form
+    await execute('UPDATE tag_aliases SET target = ? WHERE target = ?', [target, alias]);
+
+    const result = await execute(
+      'INSERT INTO tag_aliases (alias, target) VALUES (?, ?)',
+      [alias, target]
+    );
+    invalidateTagRules();
+
+    const created: TagAlias = {
+      id: result.insertId,
+      alias,
+      target,
+      created_at: new Date()
+    };
+    res.status(201).json(created);
+  } catch (error) {
+    console.error('Failed to add tag alias:', error);
+    res.status(500).json({ error: 'Failed to add tag alias' });
+  }
+});
+
+/**
+ * DELETE /api/tags/aliases/:id
+ * Remove a tag alias
+ */
+router.delete('/aliases/:id', requireRole('admin'), async (req, res) => {
+  try {
+    const result = await execute('DELETE FROM tag_aliases WHERE id = ?', [parseInt(req.params.id)]);
+
+    if (result.affectedRows === 0) {
+      return res.status(404).json({ error: 'Alias not found' });
+    }
+
+    invalidateTagRules();
+    res.status(204).send();
+  } catch (error) {
+    console.error('Failed to delete tag alias:', error);
+    res.status(500).json({ error: 'Failed to delete tag alias' });
+  }
+});
+
+/**
+ * GET /api/tags/implications
+ * Get all tag implications
+ */
+router.get('/implications', requireRole('admin'), async (req, res) => {
+  try {
+    const implications = await query<TagImplication>('SELECT * FROM tag_implications ORDER BY tag, implied_tag');
+    res.json(implications);
+  } catch (error) {
+    console.error('Failed to fetch tag implications:', error);
+    res.status(500).json({ error: 'Failed to fetch tag implications' });
+  }
+});
+
+/**
+ * POST /api/tags/implications
+ * Add a tag implication
+ * Body: { "tag": "siamese_cat", "implied_tag": "cat" }
+ * implied_tag may carry a category prefix (e.g. "copyright:vocaloid")
+ */
+router.post('/implications', requireRole('admin'), async (req, res) => {
+  try {
+    const rules = await getTagRules();
+    const tag = resolveAlias(rules, normalizeTagName(req.body.tag));
+
+    const rawImplied = typeof req.body.implied_tag === 'string' ? req.body.implied_tag.trim().toLowerCase() : '';
+    const { name: impliedName, category: impliedCategory } = parseTagCategory(rawImplied);
+    const resolvedImplied = resolveAlias(rules, impliedName);
+
+    if (!tag || !resolvedImplied) {
+      return res.status(400).json({ error: 'Tag and implied tag are required' });
+    }
+    if (tag === resolvedImplied) {
+      return res.status(400).json({ error: 'A tag cannot imply itself' });
+    }
+
+    // Reject implications that would loop back to the antecedent
+    const impliedChain = getImpliedTags(rules, resolvedImplied).map(t => parseTagCategory(t).name);
+    if (impliedChain.includes(tag)) {
+      return res.status(400).json({ error: `"${resolvedImplied}" already implies "${tag}"` });
+    }
+
+    const impliedTag = impliedCategory ? formatTagWithCategory(resolvedImplied, impliedCategory) : resolvedImplied;
+
+    const existing = await queryOne<TagImplication>(
+      'SELECT id FROM tag_implications WHERE tag = ? AND implied_tag = ?',
+      [tag, impliedTag]
+    );
+    if (existing) {
+      return res.status(400).json({ error: 'Implication already exists' });
+    }
+
+    const result = await execute(
+      'INSERT INTO tag_implications (tag, implied_tag) VALUES (?, ?)',
+      [tag, impliedTag]
+    );
+    invalidateTagRules();
+
+    const created: TagImplication = {
+      id: result.insertId,
+      tag,
+      implied_tag: impliedTag,
+      created_at: new Date()
+    };
+    res.status(201).json(created);
+  } catch (error) {
+    console.error('Failed to add tag implication:', error);
+    res.status(500).json({ error: 'Failed to add tag implication' });
+  }
+});
+
+/**
+ * DELETE /api/tags/implications/:id
+ * Remove a tag implication (tags already added to images are kept)
+ */
+router.delete('/implications/:id', requireRole('admin'), async (req, res) => {
+  try {
+    const result = await execute('DELETE FROM tag_implications WHERE id = ?', [parseInt(req.params.id)]);
+
+    if (result.affectedRows === 0) {
+      return res.status(404).json({ error: 'Implication not found' });
+    }
+
+    invalidateTagRules();
+    res.status(204).send();
+  } catch (error) {
+    console.error('Failed to delete tag implication:', error);
+    res.status(500).json({ error: 'Failed to delete tag implication' });
+  }
+});
+
+/**
+ * POST /api/tags/apply-rules
+ * Apply aliases and implications to already tagged images (queued as a job)
+ */
+router.post('/apply-rules', requireRole('admin'), async (req, res) => {
+  try {
+    if (await hasPendingJob('tag_rules')) {
+      return res.status(409).json({ error: 'Tag rules are already being applied' });
+    }
+
+    const job = await enqueueEditJob('tag_rules', { actor: userActor(req.user) });
+    res.json({ message: 'Applying tag rules to existing images', job });
+  } catch (error) {
+    console.error('Failed to apply tag rules:', error);
+    res.status(500).json({ error: 'Failed to apply tag rules' });
+  }
+});
+
+/**
+ * POST /api/tags/:name/rename
+ * Rename a tag on every image and rewrite the affected files - requires editor role
+ * Body: { "new_name": "cat" } (a category prefix changes the tag's category, otherwise it is kept)
+ * Queued as a job; returns the job to poll with GET /api/images/bulk/:jobId
+ */
+router.post('/:name/rename', requireRole('editor'), async (req, res) => {
+  try {
+    const oldName = normalizeTagName(req.params.name);
+    const rawNewName = typeof req.body.new_name === 'string' ? req.body.new_name.trim().toLowerCase() : '';
+    const { name: rawName, category: newCategory } = parseTagCategory(rawNewName);
+    const newName = resolveAlias(await getTagRules(), rawName);
+
+    if (!oldName || !newName) {
+      return res.status(400).json({ success: false, error: 'Tag name and new name are required' });
+    }
+
+    const tag = await queryOne<Tag>('SELECT name, category FROM tags WHERE name = ?', [oldName]);
+    if (!tag) {
+      return res.status(404).json({ success: false, error: 'Tag not found' });
+    }
+
+    if (newName !== oldName) {
+      const existing = await queryOne<Tag>('SELECT id FROM tags WHERE name = ?', [newName]);
+      if (existing) {
+        return res.status(409).json({ success: false, error: `Tag "${newName}" already exists, merge the tags instead` });
+      }
+    } else if (!newCategory || newCategory === tag.category) {
+      return res.status(400).json({ success: false, error: 'New name is the same as the old name' });
+    }
+
+    const job = await enqueueEditJob('tag_merge', {
+      sources: [oldName],
+      target: formatTagWithCategory(newName, newCategory || tag.category),
+      actor: userActor(req.user),
+    });
+    res.status(202).json({ success: true, job });
+  } catch (error) {
+    console.error('Failed to rename tag:', error);
+    res.status(500).json({ success: false, error: 'Failed to rename tag' });
+  }
+});
+
+/**
+ * POST /api/tags/merge
+ * Merge tags into one tag on every image and rewrite the affected files - requires editor role
+ * Body: { "sources": ["kitty", "cats"], "target": "cat" } (target may carry a category prefix)
+ * Queued as a job; returns the job to poll with GET /api/images/bulk/:jobId
+ */
+router.post('/merge', requireRole('editor'), async (req, res) => {
+  try {
+    const { sources: rawSources } = req.body;
+    if (!Array.isArray(rawSources)) {
+      return res.status(400).json({ success: false, error: 'Sources must be an array' });
+    }
+
+    const rules = await getTagRules();
+    const rawTarget = typeof req.body.target === 'string' ? req.body.target.trim().toLowerCase() : '';
+    const { name: targetName, category: targetCategory } = parseTagCategory(rawTarget);
+    const resolvedTarget = resolveAlias(rules, targetName);
+
+    const sources = [...new Set(rawSources.map(normalizeTagName))]
+      .filter(name => name.length > 0 && name !== resolvedTarget);
+
+    if (!resolvedTarget) {
+      return res.status(400).json({ success: false, error: 'Target tag is required' });
+    }
+    if (sources.length === 0) {
+      return res.status(400).json({ success: false, error: 'At least one source tag other than the target is required' });
+    }
+
+    const existingSources = await query<Tag>(
+      `SELECT name FROM tags WHERE name IN (${sources.map(() => '?').join(',')})`,
+      sources
+    );
+    if (existingSources.length === 0) {
+      return res.status(404).json({ success: false, error: 'None of the source tags exist' });
+    }
+
+    const target = targetCategory ? formatTagWithCategory(resolvedTarget, targetCategory) : resolvedTarget;
+    const job = await enqueueEditJob('tag_merge', { sources: existingSources.map(t => t.name), target, actor: userActor(req.user) });
+    res.status(202).json({ success: true, job });
+  } catch (error) {
+    console.error('Failed to merge tags:', error);
+    res.status(500).json({ success: false, error: 'Failed to merge tags' });
+  }
+});
+
+export default router;
@@ -0,0 +1,175 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import { Router } from 'express';
+import multer from 'multer';
+import { requireRole } from '../middleware/security';
+import { RATING_MAP } from '../services/search';
+import { userActor } from '../services/history';
+import {
+  UPLOAD_DIR,
+  MAX_UPLOAD_SIZE_MB,
+  MAX_SOURCE_LENGTH,
+  PARTIAL_UPLOAD_EXTENSION,
+  importUpload,
+  importFromUrl,
+  UploadMetadata,
+  UploadResult,
+} from '../services/upload';
+
+const router = Router();
+
+// Uploads add to the library, like editing tags
+router.use(requireRole('editor'));
+
+// Files land in the inbox under a temporary name, then get renamed once they're checked
+const upload = multer({
+  storage: multer.diskStorage({
+    destination: (req, file, cb) => cb(null, UPLOAD_DIR),
+    filename: (req, file, cb) => cb(null, `${crypto.randomBytes(16).toString('hex')}${PARTIAL_UPLOAD_EXTENSION}`),
+  }),
+  limits: {
+    fileSize: MAX_UPLOAD_SIZE_MB * 1024 * 1024,
+  },
+});
+
+/**
+ * Read the tags and rating sent with an upload or import
+ * A rating: tag sets the rating unless a rating is given separately. Returns null for an invalid rating.
+ */
+function parseTagsAndRating(body: any): Pick<UploadMetadata, 'tags' | 'rating'> | null {
+  // Normalize tags: trim, lowercase, remove empty (same as editing an image)
+  let rating: number | null = null;
+  const tags = String(body.tags || '')
+    .split(/\s+/)
+    .map(t => t.trim().toLowerCase())
+    .filter(tag => {
+      if (tag.startsWith('rating:')) {
+        const mappedRating = RATING_MAP[tag.slice(7)];
+        if (mappedRating !== undefined) rating = [1, 2, 3].includes(mappedRating) ? mappedRating : null;
+        return false;
+      }
+      return tag.length > 0;
+    });
+
+  if (body.rating) {
+    const rawRating = parseInt(body.rating);
+    if (![1, 2, 3].includes(rawRating)) return null;
+    rating = rawRating;
+  }
+
+  return { tags, rating };
+}
+
+/**
+ * GET /api/upload
+ * Whether uploads are enabled, and the size limit per file
+ */
+router.get('/', (req, res) => {
+  res.json({ enabled: !!UPLOAD_DIR, max_size_mb: MAX_UPLOAD_SIZE_MB });
+});
+
+/**
+ * POST /api/upload
+ * Upload images and videos into the inbox folder and index them right away
+ * Body (multipart/form-data):
+ *   - files: one or more files
+ *   - tags: space-separated tags to add to every file (rating:s/q/e sets the rating)
+ *   - rating: 1, 2 or 3 (overrides a rating: tag)
+ *   - source: source URL or note
+ * Responds with one result per file: added, duplicate (with the existing image's ID) or failed.
+ */
+router.post('/', (req, res) => {
+  if (!UPLOAD_DIR) {
+    return res.status(503).json({ success: false, error: 'Uploads are disabled (set UPLOAD_DIR to enable them)' });
+  }
+
+  upload.array('files')(req, res, async (uploadError: unknown) => {
+    if (uploadError) {
+      const message = uploadError instanceof multer.MulterError && uploadError.code === 'LIMIT_FILE_SIZE'
+        ? `Files may be at most ${MAX_UPLOAD_SIZE_MB} MB`
+        : 'Failed to receive upload';
+      if (!(uploadError instanceof multer.MulterError)) console.error('Failed to receive upload:', uploadError);
+      return res.status(400).json({ success: false, error: message });
+    }
+
+    try {
+      const files = (req.files as Express.Multer.File[] | undefined) || [];
+      if (files.length === 0) {
+        return res.status(400).json({ success: false, error: 'No files uploaded' });
+      }
+
+      const tagsAndRating = parseTagsAndRating(req.body);
+      if (!tagsAndRating) {
+        await Promise.all(files.map(file => fs.unlink(file.path).catch(() => undefined)));
+        return res.status(400).json({ success: false, error: 'Rating must be 1, 2 or 3' });
+      }
+
+      const source = String(req.body.source || '').trim() || null;
+      if (source && source.length > MAX_SOURCE_LENGTH) {
+        await Promise.all(files.map(file => fs.unlink(file.path).catch(() => undefined)));
+        return res.status(400).json({ success: false, error: `Source may be at most ${MAX_SOURCE_LENGTH} characters` });
+      }
+
+      // One at a time, so copies within the same upload are caught as duplicates
+      const results: UploadResult[] = [];
+      for (const file of files) {
+        // Browsers send filenames as UTF-8, busboy reads them as Latin-1
+        const originalName = Buffer.from(file.originalname, 'latin1').toString('utf8');
+        results.push(await importUpload(file.path, originalName, { ...tagsAndRating, source, artist: null }, userActor(req.user)));
+      }
+
+      res.json({ success: true, results });
+    } catch (error) {
+      console.error('Failed to process upload:', error);
+      res.status(500).json({ success: false, error: 'Failed to process upload' });
+    }
+  });
+});
+
+/**
+ * POST /api/upload/url
+ * Download an image or video from the web into the inbox folder and index it right away
+ * Source extractor plugins can add tags and the artist for the page.
+ * Body: { url: string, tags?: string, rating?: 1 | 2 | 3, artist?: string }
+ * The URL is saved as the image's source.
+ */
+router.post('/url', async (req, res) => {
+  if (!UPLOAD_DIR) {
+    return res.status(503).json({ success: false, error: 'Uploads are disabled (set UPLOAD_DIR to enable them)' });
+  }
+
+  try {
+    const url = String(req.body.url || '').trim();
+    let protocol = '';
+    try {
+      protocol = new URL(url).protocol;
+    } catch {
+      // Reported below
+    }
+    if (protocol !== 'http:' && protocol !== 'https:') {
+      return res.status(400).json({ success: false, error: 'A http:// or https:// URL is required' });
+    }
+    // The URL is saved as the source, so it has to fit
+    if (url.length > MAX_SOURCE_LENGTH) {
+      return res.status(400).json({ success: false, error: `URLs may be at most ${MAX_SOURCE_LENGTH} characters` });
+    }
+
+    const tagsAndRating = parseTagsAndRating(req.body);
+    if (!tagsAndRating) {
+      return res.status(400).json({ success: false, error: 'Rating must be 1, 2 or 3' });
+    }
+
+    const artist = String(req.body.artist || '').trim() || null;
+    if (artist && artist.length > MAX_SOURCE_LENGTH) {
+      return res.status(400).json({ success: false, error: `Artist may be at most ${MAX_SOURCE_LENGTH} characters` });
+    }
+
+    const result = await importFromUrl(url, { ...tagsAndRating, artist }, userActor(req.user));
+    res.json({ success: true, result });
+  } catch (error) {
+    console.error('Failed to import from URL:', error);
+    res.status(500).json({ success: false, error: 'Failed to import from URL' });
+  }
+});
+
+export default router;
@@ -0,0 +1,144 @@
+import { Router } from 'express';
+import { query, queryOne, execute } from '../database/connection';
+import { User } from '../types';
+import { requireRole } from '../middleware/security';
+import {
+  MIN_PASSWORD_LENGTH,
+  countAdmins,
+  deleteUserSessions,
+  hashPassword,
+  isUserRole,
+  normalizeUsername,
+} from '../services/auth';
+
+const router = Router();
+
+// All user management is admin only
+router.use(requireRole('admin'));
+
+/**
+ * GET /api/users
+ * List all users with their favorite counts
+ */
+router.get('/', async (req, res) => {
+  try {
+    const users = await query(
+      `SELECT u.id, u.username, u.role, u.created_at,
+              (SELECT COUNT(*) FROM favorites f WHERE f.user_id = u.id) as favorite_count
+       FROM users u
+       ORDER BY u.username`
+    );
+    res.json(users);
+  } catch (error) {
+    console.error('Failed to fetch users:', error);
+    res.status(500).json({ error: 'Failed to fetch users' });
+  }
+});
+
+/**
+ * POST /api/users
+ * Create a user
+ * Body: { "username": "alice", "password": "...", "role": "editor" }
+ */
+router.post('/', async (req, res) => {
+  try {
+    const username = normalizeUsername(req.body.username);
+    const { password } = req.body;
+    const role = req.body.role ?? 'viewer';
+
+    if (!username) {
+      return res.status(400).json({ success: false, error: 'Usernames can only contain letters, numbers, _ . and -' });
+    }
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ success: false, error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
+    if (!isUserRole(role)) {
+      return res.status(400).json({ success: false, error: 'Invalid role' });
+    }
+
+    const existing = await queryOne<User>('SELECT id FROM users WHERE username = ?', [username]);
+    if (existing) {
+      return res.status(400).json({ success: false, error: 'That username is taken' });
+    }
+
+    const result = await execute(
+      'INSERT INTO users (username, password_hash, role) VALUES (?, ?, ?)',
+      [username, await hashPassword(password), role]
+    );
+
+    res.status(201).json({ success: true, user: { id: result.insertId, username, role } });
+  } catch (error) {
+    console.error('Failed to create user:', error);
+    res.status(500).json({ success: false, error: 'Failed to create user' });
+  }
+});
+
+/**
+ * PATCH /api/users/:id
+ * Change a user's role and/or reset their password (resetting logs them out)
+ * Body: { "role": "admin", "password": "..." }
+ */
+router.patch('/:id', async (req, res) => {
+  try {
+    const userId = parseInt(req.params.id);
+    const { role, password } = req.body;
+
+    const user = await queryOne<User>('SELECT * FROM users WHERE id = ?', [userId]);
+    if (!user) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+
+    if (role !== undefined) {
+      if (!isUserRole(role)) {
+        return res.status(400).json({ success: false, error: 'Invalid role' });
+      }
+      if (user.role === 'admin' && role !== 'admin' && await countAdmins() <= 1) {
+        return res.status(400).json({ success: false, error: 'Cannot remove the last admin' });
+      }
+      await execute('UPDATE users SET role = ? WHERE id = ?', [role, userId]);
+    }
+
+    if (password !== undefined) {
+      if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+        return res.status(400).json({ success: false, error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+      }
+      await execute('UPDATE users SET password_hash = ? WHERE id = ?', [await hashPassword(password), userId]);
+      await deleteUserSessions(userId);
+    }
+
+    res.json({ success: true, user: { id: user.id, username: user.username, role: role ?? user.role } });
+  } catch (error) {
+    console.error('Failed to update user:', error);
+    res.status(500).json({ success: false, error: 'Failed to update user' });
+  }
+});
+
+/**
+ * DELETE /api/users/:id
+ * Delete a user along with their sessions and favorites
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const userId = parseInt(req.params.id);
+
+    if (userId === req.user?.id) {
+      return res.status(400).json({ success: false, error: 'You cannot delete your own account' });
+    }
+
+    const user = await queryOne<User>('SELECT * FROM users WHERE id = ?', [userId]);
+    if (!user) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+    if (user.role === 'admin' && await countAdmins() <= 1) {
+      return res.status(400).json({ success: false, error: 'Cannot delete the last admin' });
+    }
+
+    await execute('DELETE FROM users WHERE id = ?', [userId]);
+    res.status(204).send();
+  } catch (error) {
+    console.error('Failed to delete user:', error);
+    res.status(500).json({ success: false, error: 'Failed to delete user' });
+  }
+});
+
+export default router;
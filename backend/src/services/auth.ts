@@ -0,0 +1,137 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { query, queryOne, execute } from '../database/connection';
+import { SessionUser, UserRole } from '../types';
+
+const scrypt = promisify(crypto.scrypt) as (password: crypto.BinaryLike, salt: crypto.BinaryLike, keylen: number) => Promise<Buffer>;
+
+export const SESSION_COOKIE = 'lanbooru_session';
+export const SESSION_MAX_AGE_MS = parseInt(process.env.SESSION_DAYS || '30') * 24 * 60 * 60 * 1000;
+export const MIN_PASSWORD_LENGTH = 4;
+
+// Ordered from least to most privileged
+export const USER_ROLES: UserRole[] = ['viewer', 'editor', 'admin'];
+
+const SCRYPT_KEY_LENGTH = 64;
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && USER_ROLES.includes(value as UserRole);
+}
+
+/**
+ * Check if a role grants at least the permissions of another
+ */
+export function roleAtLeast(role: UserRole, required: UserRole): boolean {
+  return USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required);
+}
+
+/**
+ * Validate a username. Usernames are used in fav:<user> searches, so
+ * they are limited to characters that need no escaping in a query.
+ */
+export function normalizeUsername(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const username = value.trim();
+  return /^[A-Za-z0-9_.-]{1,64}$/.test(username) ? username : null;
+}
+
+/**
+ * Hash a password as "scrypt$<salt>$<hash>" (hex encoded)
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(password, salt, SCRYPT_KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, saltHex, hashHex] = stored.split('$');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) return false;
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scrypt(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+// Only a hash of each token is stored, so a leaked database can't be used to log in
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Start a session for a user, returning the token to put in the session cookie
+ */
+export async function createSession(userId: number): Promise<string> {
+  // Opportunistically clear out expired sessions
+  await execute('DELETE FROM sessions WHERE expires_at < NOW()');
+
+  const token = crypto.randomBytes(32).toString('hex');
+  await execute(
+    'INSERT INTO sessions (token_hash, user_id, expires_at) VALUES (?, ?, ?)',
+    [hashToken(token), userId, new Date(Date.now() + SESSION_MAX_AGE_MS)]
+  );
+  return token;
+}
+
+/**
+ * Look up the user for a session token (role is read fresh, so role changes apply immediately)
+ */
+export async function getSessionUser(token: string): Promise<SessionUser | null> {
+  return queryOne<SessionUser>(
+    `SELECT u.id, u.username, u.role
+     FROM sessions s
+     JOIN users u ON s.user_id = u.id
+     WHERE s.token_hash = ? AND s.expires_at > NOW()`,
+    [hashToken(token)]
+  );
+}
+
+export async function deleteSession(token: string): Promise<void> {
+  await execute('DELETE FROM sessions WHERE token_hash = ?', [hashToken(token)]);
+}
+
+/**
+ * Log a user out everywhere, optionally keeping the current session
+ */
+export async function deleteUserSessions(userId: number, exceptToken?: string): Promise<void> {
+  if (exceptToken) {
+    await execute('DELETE FROM sessions WHERE user_id = ? AND token_hash != ?', [userId, hashToken(exceptToken)]);
+  } else {
+    await execute('DELETE FROM sessions WHERE user_id = ?', [userId]);
+  }
+}
+
+export async function countAdmins(): Promise<number> {
+  const result = await queryOne<{ count: number }>("SELECT COUNT(*) as count FROM users WHERE role = 'admin'");
+  return result?.count || 0;
+}
+
+/**
+ * Create the first admin account on a fresh install.
+ * Falls back to the old shared EDIT_PASSWORD so upgraded installs keep a known login.
+ * With neither set (compose passes unset variables as empty strings), a random password
+ * is generated and printed once rather than using a default anyone could look up.
+ */
+export async function ensureAdminUser(): Promise<void> {
+  const users = await query<{ id: number }>('SELECT id FROM users LIMIT 1');
+  if (users.length > 0) return;
+
+  const username = normalizeUsername(process.env.ADMIN_USERNAME || 'admin') || 'admin';
+  const configured = [process.env.ADMIN_PASSWORD, process.env.EDIT_PASSWORD]
+    .find(value => value !== undefined && value.trim().length > 0);
+  const password = configured ?? crypto.randomBytes(12).toString('base64url');
+
+  await execute(
+    "INSERT INTO users (username, password_hash, role) VALUES (?, ?, 'admin')",
+    [username, await hashPassword(password)]
+  );
+  if (configured) {
+    console.log(`Created admin user "${username}" - change its password from the admin page`);
+  } else {
+    console.warn('='.repeat(72));
+    console.warn('WARNING: ADMIN_PASSWORD is not set, so a random admin password was generated.');
+    console.warn(`Log in as "${username}" with password: ${password}`);
+    console.warn('It is only shown this once - change it from the admin page.');
+    console.warn('='.repeat(72));
+  }
+}
@@ -0,0 +1,590 @@
+import { Writable } from 'stream';
+import type { PoolConnection } from 'mysql2/promise';
+import { query, queryOne, execute } from '../database/connection';
+import { RATING_MAP } from './search';
+import { formatTagWithCategory, parseTagCategory } from './tags';
+import { normalizePoolName, addImagesToPool } from './pools';
+import { applyBulkEdit, forEachImage } from './bulk';
+import { addToDuplicateGroup } from './duplicates';
+import { HistoryActor } from './history';
+import { JobProgress, TagCategory } from '../types';
+
+// Images read per query while exporting and planning an import
+const BATCH_SIZE = 1000;
+// Planned changes stored per query when an import is queued
+const IMPORT_STAGE_BATCH_SIZE = 500;
+// Changes and unmatched records listed in an import report (the counts cover all of them)
+const MAX_REPORTED_ITEMS = 500;
+
+const RATING_LETTERS: Record<number, string> = { 1: 's', 2: 'q', 3: 'e' };
+
+export type ExportFormat = 'ndjson' | 'csv';
+
+/**
+ * One image's metadata as exported, one line (NDJSON) or row (CSV) per image
+ * In CSV files tags are space-separated and pools are a JSON array.
+ */
+export interface ExportRecord {
+  path: string;
+  file_hash: string;
+  content_hash_600: string | null;
+  content_hash_800: string | null;
+  content_hash_1400: string | null;
+  video_hashes: string | null;
+  tags: string[];                  // Category-prefixed except general tags, as written to files
+  rating: string | null;           // s, q or e
+  artist: string | null;
+  source: string | null;
+  duplicate_group: string | null;  // file_hash of the group's prime, on every member including the prime
+  pools: { name: string; position: number }[];
+}
+
+const CSV_COLUMNS: (keyof ExportRecord)[] = [
+  'path',
+  'file_hash',
+  'content_hash_600',
+  'content_hash_800',
+  'content_hash_1400',
+  'video_hashes',
+  'tags',
+  'rating',
+  'artist',
+  'source',
+  'duplicate_group',
+  'pools',
+];
+
+/** Metadata read from an import file. Fields left out aren't changed. */
+interface ImportRecord {
+  line: number;
+  path?: string;
+  file_hash?: string;
+  tags?: string[];
+  rating?: number | null;
+  artist?: string | null;
+  source?: string | null;
+  duplicate_group?: string | null;
+  pools?: { name: string; position: number }[];
+}
+
+/** What an import will change on one image */
+export interface ImportChange {
+  image_id: number;
+  path: string;
+  matched_by: 'hash' | 'path';
+  add_tags: string[];
+  remove_tags: string[];
+  rating?: { from: number | null; to: number | null };
+  artist?: { from: string | null; to: string | null };
+  source?: { from: string | null; to: string | null };
+  add_pools: { name: string; position: number }[];
+  duplicate_of?: number;  // Prime of the duplicate group the image joins
+}
+
+export interface ImportReport {
+  records: number;
+  matched: number;
+  changed: number;
+  unchanged: number;
+  unmatched_count: number;
+  unmatched: { line: number; path: string | null; file_hash: string | null }[];
+  invalid: { line: number; error: string }[];
+  changes: ImportChange[];
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+function toCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function toCsvRow(record: ExportRecord): string {
+  return CSV_COLUMNS.map(column => {
+    const value = record[column];
+    if (column === 'tags') return toCsvField(record.tags.join(' '));
+    if (column === 'pools') return toCsvField(record.pools.length > 0 ? JSON.stringify(record.pools) : '');
+    return toCsvField(value === null ? '' : String(value));
+  }).join(',');
+}
+
+/**
+ * Write to a response, waiting when its buffer is full (or the client has gone)
+ */
+async function write(output: Writable, data: string): Promise<void> {
+  if (output.write(data)) return;
+  await new Promise<void>(resolve => {
+    const done = () => {
+      output.off('drain', done);
+      output.off('close', done);
+      resolve();
+    };
+    output.on('drain', done);
+    output.on('close', done);
+  });
+}
+
+/**
+ * Stream every image's metadata, a batch of images at a time
+ */
+export async function writeExport(output: Writable, format: ExportFormat): Promise<void> {
+  if (format === 'csv') {
+    await write(output, `${CSV_COLUMNS.join(',')}\n`);
+  }
+
+  let lastId = 0;
+  while (!output.destroyed) {
+    const images = await query<{
+      id: number;
+      file_path: string;
+      file_hash: string;
+      content_hash_600: string | null;
+      content_hash_800: string | null;
+      content_hash_1400: string | null;
+      video_hashes: string | null;
+      rating: number | null;
+      artist: string | null;
+      source: string | null;
+    }>(
+      `SELECT id, file_path, file_hash, content_hash_600, content_hash_800, content_hash_1400, video_hashes,
+         rating, artist, source
+       FROM images WHERE id > ? ORDER BY id LIMIT ?`,
+      [lastId, BATCH_SIZE]
+    );
+    if (images.length === 0) break;
+    lastId = images[images.length - 1].id;
+
+    const ids = images.map(image => image.id);
+    const placeholders = ids.map(() => '?').join(',');
+    const [tagRows, groupRows, poolRows] = await Promise.all([
+      query<{ image_id: number; name: string; category: TagCategory }>(
+        `SELECT it.image_id, t.name, t.category FROM image_tags it
+         JOIN tags t ON it.tag_id = t.id
+         WHERE it.image_id IN (${placeholders}) ORDER BY t.name`,
+        ids
+      ),
+      query<{ image_id: number; prime_hash: string }>(
+        `SELECT dg.image_id, p.file_hash AS prime_hash FROM duplicate_groups dg
+         JOIN images p ON p.id = dg.prime_id
+         WHERE dg.image_id IN (${placeholders})`,
+        ids
+      ),
+      query<{ image_id: number; name: string; position: number }>(
+        `SELECT pi.image_id, p.name, pi.position FROM pool_images pi
+         JOIN pools p ON p.id = pi.pool_id
+         WHERE pi.image_id IN (${placeholders}) ORDER BY p.name`,
+        ids
+      ),
+    ]);
+
+    const tagsByImage = new Map<number, string[]>();
+    for (const row of tagRows) {
+      if (!tagsByImage.has(row.image_id)) tagsByImage.set(row.image_id, []);
+      tagsByImage.get(row.image_id)!.push(formatTagWithCategory(row.name, row.category));
+    }
+    const groupByImage = new Map(groupRows.map(row => [row.image_id, row.prime_hash]));
+    const poolsByImage = new Map<number, { name: string; position: number }[]>();
+    for (const row of poolRows) {
+      if (!poolsByImage.has(row.image_id)) poolsByImage.set(row.image_id, []);
+      poolsByImage.get(row.image_id)!.push({ name: row.name, position: row.position });
+    }
+
+    const lines = images.map(image => {
+      const record: ExportRecord = {
+        path: image.file_path,
+        file_hash: image.file_hash,
+        content_hash_600: image.content_hash_600,
+        content_hash_800: image.content_hash_800,
+        content_hash_1400: image.content_hash_1400,
+        video_hashes: image.video_hashes,
+        tags: tagsByImage.get(image.id) || [],
+        rating: image.rating ? RATING_LETTERS[image.rating] ?? null : null,
+        artist: image.artist,
+        source: image.source,
+        duplicate_group: groupByImage.get(image.id) ?? null,
+        pools: poolsByImage.get(image.id) || [],
+      };
+      return format === 'csv' ? toCsvRow(record) : JSON.stringify(record);
+    });
+    await write(output, `${lines.join('\n')}\n`);
+  }
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Split CSV text into rows of fields (quoted fields may contain commas, quotes and newlines)
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(value => value.trim().length > 0));
+}
+
+/**
+ * Check and normalize one record's fields (from either format)
+ * @throws Error describing the first invalid field
+ */
+function toImportRecord(line: number, fields: Record<string, unknown>): ImportRecord {
+  const record: ImportRecord = { line };
+  const text = (value: unknown) => (value === null || value === undefined ? '' : String(value).trim());
+  const has = (key: string) => Object.prototype.hasOwnProperty.call(fields, key);
+
+  if (text(fields.path)) record.path = text(fields.path);
+  if (text(fields.file_hash)) record.file_hash = text(fields.file_hash).toLowerCase();
+  if (!record.path && !record.file_hash) {
+    throw new Error('Needs a path or file_hash');
+  }
+
+  if (has('tags')) {
+    const tags = Array.isArray(fields.tags) ? fields.tags.map(String) : text(fields.tags).split(/\s+/);
+    record.tags = [...new Set(tags.map(t => t.trim().toLowerCase()).filter(t => t.length > 0))];
+  }
+
+  if (has('rating')) {
+    const rating = text(fields.rating).toLowerCase();
+    const numeric = rating === '' ? 0 : RATING_MAP[rating] ?? (/^[0-3]$/.test(rating) ? parseInt(rating) : undefined);
+    if (numeric === undefined) throw new Error(`Unknown rating "${rating}"`);
+    record.rating = numeric || null;
+  }
+
+  if (has('artist')) record.artist = text(fields.artist) || null;
+  if (has('source')) record.source = text(fields.source) || null;
+  if (has('duplicate_group')) record.duplicate_group = text(fields.duplicate_group).toLowerCase() || null;
+
+  if (has('pools')) {
+    let pools = fields.pools;
+    if (typeof pools === 'string') {
+      try {
+        pools = pools.trim() ? JSON.parse(pools) : [];
+      } catch {
+        throw new Error('pools must be a JSON array');
+      }
+    }
+    if (!Array.isArray(pools)) throw new Error('pools must be an array');
+
+    record.pools = pools.map(pool => {
+      const name = normalizePoolName(pool?.name);
+      if (!name) throw new Error(`Invalid pool name "${pool?.name}"`);
+      return { name, position: Number(pool.position) || 0 };
+    });
+  }
+
+  return record;
+}
+
+/**
+ * Read an NDJSON or CSV import file (NDJSON when it starts with "{")
+ */
+function parseImportFile(content: string): { records: ImportRecord[]; invalid: ImportReport['invalid'] } {
+  const records: ImportRecord[] = [];
+  const invalid: ImportReport['invalid'] = [];
+  const text = content.replace(/^\uFEFF/, '');
+
+  if (text.trimStart().startsWith('{')) {
+    text.split(/\r?\n/).forEach((lineText, i) => {
+      if (!lineText.trim()) return;
+      try {
+        const fields = JSON.parse(lineText);
+        if (!fields || typeof fields !== 'object' || Array.isArray(fields)) throw new Error('Not a JSON object');
+        records.push(toImportRecord(i + 1, fields));
+      } catch (error) {
+        invalid.push({ line: i + 1, error: error instanceof Error ? error.message : String(error) });
+      }
+    });
+    return { records, invalid };
+  }
+
+  const [header, ...rows] = parseCsv(text);
+  const columns = (header || []).map(column => column.trim().toLowerCase());
+  if (!columns.includes('path') && !columns.includes('file_hash')) {
+    invalid.push({ line: 1, error: 'CSV header needs a path or file_hash column' });
+    return { records, invalid };
+  }
+
+  rows.forEach((row, i) => {
+    const fields: Record<string, unknown> = {};
+    columns.forEach((column, c) => {
+      if (column && c < row.length) fields[column] = row[c];
+    });
+    try {
+      records.push(toImportRecord(i + 2, fields));
+    } catch (error) {
+      invalid.push({ line: i + 2, error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+  return { records, invalid };
+}
+
+/**
+ * Work out what an import file would change, without changing anything
+ * Records are matched to images by file_hash (preferring the copy at the same path), then by path
+ * for files whose hash has changed since the export. Tags are replaced with the record's tags; a tag
+ * without a category prefix matches the image's tag of that name whatever its category.
+ */
+export async function planImport(content: string): Promise<{ report: ImportReport; changes: ImportChange[] }> {
+  const { records, invalid } = parseImportFile(content);
+
+  const images = await query<{ id: number; file_path: string; file_hash: string }>(
+    'SELECT id, file_path, file_hash FROM images'
+  );
+  const byPath = new Map(images.map(image => [image.file_path, image]));
+  const byHash = new Map<string, typeof images>();
+  for (const image of images) {
+    if (!byHash.has(image.file_hash)) byHash.set(image.file_hash, []);
+    byHash.get(image.file_hash)!.push(image);
+  }
+
+  // Later records for the same image replace earlier ones
+  const matches = new Map<number, { record: ImportRecord; path: string; matched_by: 'hash' | 'path' }>();
+  const unmatched: ImportReport['unmatched'] = [];
+  for (const record of records) {
+    const sameHash = record.file_hash ? byHash.get(record.file_hash) : undefined;
+    const hashMatch = sameHash?.find(image => image.file_path === record.path) ?? sameHash?.[0];
+    const pathMatch = record.path ? byPath.get(record.path) : undefined;
+    const image = hashMatch ?? pathMatch;
+
+    if (image) {
+      matches.set(image.id, { record, path: image.file_path, matched_by: hashMatch ? 'hash' : 'path' });
+    } else {
+      unmatched.push({ line: record.line, path: record.path ?? null, file_hash: record.file_hash ?? null });
+    }
+  }
+
+  const changes: ImportChange[] = [];
+  const matchedIds = [...matches.keys()];
+  for (let i = 0; i < matchedIds.length; i += BATCH_SIZE) {
+    const ids = matchedIds.slice(i, i + BATCH_SIZE);
+    const placeholders = ids.map(() => '?').join(',');
+    const [rows, tagRows, poolRows, groupRows] = await Promise.all([
+      query<{ id: number; rating: number | null; artist: string | null; source: string | null }>(
+        `SELECT id, rating, artist, source FROM images WHERE id IN (${placeholders})`,
+        ids
+      ),
+      query<{ image_id: number; name: string; category: TagCategory }>(
+        `SELECT it.image_id, t.name, t.category FROM image_tags it
+         JOIN tags t ON it.tag_id = t.id
+         WHERE it.image_id IN (${placeholders})`,
+        ids
+      ),
+      query<{ image_id: number; name: string }>(
+        `SELECT pi.image_id, p.name FROM pool_images pi
+         JOIN pools p ON p.id = pi.pool_id
+         WHERE pi.image_id IN (${placeholders})`,
+        ids
+      ),
+      query<{ image_id: number }>(
+        `SELECT image_id FROM duplicate_groups WHERE image_id IN (${placeholders})`,
+        ids
+      ),
+    ]);
+
+    const tagsByImage = new Map<number, { name: string; category: TagCategory }[]>();
+    for (const row of tagRows) {
+      if (!tagsByImage.has(row.image_id)) tagsByImage.set(row.image_id, []);
+      tagsByImage.get(row.image_id)!.push(row);
+    }
+    const poolsByImage = new Map<number, Set<string>>();
+    for (const row of poolRows) {
+      if (!poolsByImage.has(row.image_id)) poolsByImage.set(row.image_id, new Set());
+      poolsByImage.get(row.image_id)!.add(row.name);
+    }
+    const grouped = new Set(groupRows.map(row => row.image_id));
+
+    for (const current of rows) {
+      const { record, path, matched_by } = matches.get(current.id)!;
+      const change: ImportChange = {
+        image_id: current.id,
+        path,
+        matched_by,
+        add_tags: [],
+        remove_tags: [],
+        add_pools: [],
+      };
+
+      if (record.tags) {
+        const currentTags = tagsByImage.get(current.id) || [];
+        const currentNames = new Set(currentTags.map(tag => tag.name));
+        const currentFormatted = new Set(currentTags.map(tag => formatTagWithCategory(tag.name, tag.category)));
+        const recordNames = new Set(record.tags.map(tag => parseTagCategory(tag).name));
+
+        change.add_tags = record.tags.filter(tag => {
+          const { name, category } = parseTagCategory(tag);
+          return category ? !currentFormatted.has(formatTagWithCategory(name, category)) : !currentNames.has(name);
+        });
+        change.remove_tags = [...currentNames].filter(name => !recordNames.has(name));
+      }
+
+      if (record.rating !== undefined && record.rating !== (current.rating || null)) {
+        change.rating = { from: current.rating || null, to: record.rating };
+      }
+      if (record.artist !== undefined && record.artist !== (current.artist || null)) {
+        change.artist = { from: current.artist || null, to: record.artist };
+      }
+      if (record.source !== undefined && record.source !== (current.source || null)) {
+        change.source = { from: current.source || null, to: record.source };
+      }
+
+      if (record.pools) {
+        const currentPools = poolsByImage.get(current.id) || new Set();
+        change.add_pools = record.pools.filter(pool => !currentPools.has(pool.name));
+      }
+
+      // Images already in a group are left there (the next duplicate rescan regroups them anyway)
+      if (record.duplicate_group && !grouped.has(current.id)) {
+        const prime = byHash.get(record.duplicate_group)?.[0];
+        if (prime && prime.id !== current.id) change.duplicate_of = prime.id;
+      }
+
+      const isChanged = change.add_tags.length > 0 || change.remove_tags.length > 0 || change.rating
+        || change.artist || change.source || change.add_pools.length > 0 || change.duplicate_of;
+      if (isChanged) changes.push(change);
+    }
+  }
+
+  return {
+    report: {
+      records: records.length,
+      matched: matches.size,
+      changed: changes.length,
+      unchanged: matches.size - changes.length,
+      unmatched_count: unmatched.length,
+      unmatched: unmatched.slice(0, MAX_REPORTED_ITEMS),
+      invalid: invalid.slice(0, MAX_REPORTED_ITEMS),
+      changes: changes.slice(0, MAX_REPORTED_ITEMS),
+    },
+    changes,
+  };
+}
+
+/**
+ * Apply one image's imported changes
+ * Tags and rating go through the same pipeline as a bulk edit (history, file write-back, plugin hooks).
+ */
+async function applyImportChange(change: ImportChange, actor: HistoryActor): Promise<void> {
+  if (change.add_tags.length > 0 || change.remove_tags.length > 0 || change.rating) {
+    await applyBulkEdit(change.image_id, {
+      add_tags: change.add_tags,
+      remove_tags: change.remove_tags,
+      rating: change.rating?.to,
+    }, actor);
+  }
+
+  const fieldUpdates: string[] = [];
+  const fieldValues: (string | null)[] = [];
+  if (change.artist) {
+    fieldUpdates.push('artist = ?');
+    fieldValues.push(change.artist.to);
+  }
+  if (change.source) {
+    fieldUpdates.push('source = ?');
+    fieldValues.push(change.source.to);
+  }
+  if (fieldUpdates.length > 0) {
+    await execute(
+      `UPDATE images SET ${fieldUpdates.join(', ')}, updated_at = NOW() WHERE id = ?`,
+      [...fieldValues, change.image_id]
+    );
+  }
+
+  if (change.duplicate_of) {
+    await addToDuplicateGroup(change.image_id, change.duplicate_of);
+  }
+}
+
+/**
+ * Add imported pool memberships, creating missing pools
+ * Images are appended in their exported order, so pools restored into a new library keep their order.
+ */
+async function applyImportedPools(changes: ImportChange[]): Promise<void> {
+  const entriesByPool = new Map<string, { imageId: number; position: number }[]>();
+  for (const change of changes) {
+    for (const pool of change.add_pools) {
+      if (!entriesByPool.has(pool.name)) entriesByPool.set(pool.name, []);
+      entriesByPool.get(pool.name)!.push({ imageId: change.image_id, position: pool.position });
+    }
+  }
+
+  for (const [name, entries] of entriesByPool) {
+    await execute('INSERT IGNORE INTO pools (name) VALUES (?)', [name]);
+    const pool = await queryOne<{ id: number }>('SELECT id FROM pools WHERE name = ?', [name]);
+    if (!pool) continue;
+
+    entries.sort((a, b) => a.position - b.position);
+    await addImagesToPool(pool.id, entries.map(entry => entry.imageId));
+  }
+}
+
+/**
+ * Store a planned import's changes for its job (see runImport), a batch of rows at a time
+ */
+export async function stageImportChanges(jobId: number, connection: PoolConnection, changes: ImportChange[]): Promise<void> {
+  for (let start = 0; start < changes.length; start += IMPORT_STAGE_BATCH_SIZE) {
+    const batch = changes.slice(start, start + IMPORT_STAGE_BATCH_SIZE);
+    await connection.query(
+      `INSERT INTO import_changes (job_id, position, data) VALUES ${batch.map(() => '(?, ?, ?)').join(', ')}`,
+      batch.flatMap((change, i) => [jobId, start + i, JSON.stringify(change)])
+    );
+  }
+}
+
+/**
+ * Apply a planned import staged for a job, as a job (pools are filled in once every image is updated)
+ * The staged changes are dropped once the job has run; an interrupted job keeps them to start over.
+ */
+export async function runImport(jobId: number, actor: HistoryActor, progress: JobProgress): Promise<void> {
+  const rows = await query<{ data: ImportChange }>(
+    'SELECT data FROM import_changes WHERE job_id = ? ORDER BY position',
+    [jobId]
+  );
+  const changes = rows.map(row => row.data);
+
+  try {
+    const changesById = new Map(changes.map(change => [change.image_id, change]));
+    await forEachImage(
+      changes.map(change => change.image_id),
+      imageId => applyImportChange(changesById.get(imageId)!, actor),
+      progress
+    );
+    if (!progress.isCancelled()) await applyImportedPools(changes);
+  } finally {
+    await execute('DELETE FROM import_changes WHERE job_id = ?', [jobId]);
+  }
+}
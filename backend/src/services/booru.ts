@@ -0,0 +1,310 @@
+/**
+ * Booru API compatibility: Danbooru, Moebooru and Gelbooru queries translated to LANBooru
+ * searches, and images and tags rendered in their response formats for booru apps and downloaders
+ */
+
+import { query } from '../database/connection';
+import { RATING_MAP, TagsResult } from './search';
+import { THUMBNAIL_SIZE } from './thumbnail';
+import { BROWSER_UNSUPPORTED_IMAGE_EXTENSIONS, BROWSER_UNSUPPORTED_VIDEO_EXTENSIONS } from './formats';
+import { ImageWithTags, TagCategory } from '../types';
+
+type BooruTag = TagsResult['tags'][number];
+
+// Tag category numbers, the same in all three APIs
+const BOORU_TAG_TYPES: Record<TagCategory, number> = {
+  general: 0,
+  artist: 1,
+  copyright: 3,
+  character: 4,
+  meta: 5,
+};
+
+// Danbooru's newer ratings (general and sensitive) both count as safe here
+const RATING_ALIASES: Record<string, string> = {
+  g: 's',
+  general: 'safe',
+  sensitive: 'safe',
+};
+
+export interface BooruPost {
+  image: ImageWithTags;
+  tagsByCategory: Record<TagCategory, string[]>;
+  fileUrl: string;
+  previewUrl: string;
+  fileExt: string;
+  rating: string;
+  previewWidth: number;
+  previewHeight: number;
+}
+
+/**
+ * Convert booru search syntax to LANBooru's
+ * Tags, -negation, ~or and most metatags are the same. Differences:
+ *   order:id_desc -> sort:id_desc (Danbooru/Moebooru, order:id is oldest first)
+ *   sort:id:asc -> sort:id_asc (Gelbooru)
+ *   rating:general, rating:g, rating:sensitive -> rating:safe
+ */
+export function translateBooruQuery(tags: string): string {
+  return tags
+    .split(/\s+/)
+    .filter(token => token.length > 0)
+    .map(token => {
+      const prefix = token.match(/^[-~]/)?.[0] || '';
+      const [metatag, ...rest] = token.slice(prefix.length).split(':');
+      const value = rest.join(':').toLowerCase();
+      if (rest.length === 0) return token;
+
+      switch (metatag.toLowerCase()) {
+        case 'order':
+          return `sort:${value === 'id' ? 'id_asc' : value}`;
+        case 'sort': {
+          const [field, direction] = value.split(':');
+          return direction ? `sort:${field}_${direction}` : token;
+        }
+        case 'rating':
+          return `${prefix}rating:${RATING_ALIASES[value] ?? value}`;
+        default:
+          return token;
+      }
+    })
+    .join(' ');
+}
+
+/**
+ * Rating letter (s, q or e) for a LANBooru rating
+ * Unrated images are reported as questionable, so clients in safe mode leave them out.
+ */
+function getRatingLetter(rating: number | undefined | null): string {
+  const letter = Object.keys(RATING_MAP).find(key => key.length === 1 && RATING_MAP[key] === rating && rating !== 0);
+  return letter ?? 'q';
+}
+
+/**
+ * Add tag categories, URLs and the other fields booru formats need to search results
+ * @param baseUrl Origin the client reached LANBooru on (URLs in booru responses are absolute)
+ */
+export async function buildBooruPosts(images: ImageWithTags[], baseUrl: string): Promise<BooruPost[]> {
+  if (images.length === 0) return [];
+
+  const imageIds = images.map(image => image.id);
+  const rows = await query<{ image_id: number; name: string; category: TagCategory }>(
+    `SELECT it.image_id, t.name, t.category
+     FROM image_tags it
+     JOIN tags t ON it.tag_id = t.id
+     WHERE it.image_id IN (${imageIds.map(() => '?').join(',')})
+     ORDER BY t.name`,
+    imageIds
+  );
+
+  const categoriesByImage = new Map<number, Record<TagCategory, string[]>>();
+  for (const image of images) {
+    categoriesByImage.set(image.id, { general: [], artist: [], character: [], copyright: [], meta: [] });
+  }
+  for (const row of rows) {
+    categoriesByImage.get(row.image_id)?.[row.category]?.push(row.name);
+  }
+
+  return images.map(image => {
+    // Formats browsers can't show are served converted, so report the format clients will get
+    const ext = `.${image.file_type}`;
+    const fileExt = BROWSER_UNSUPPORTED_IMAGE_EXTENSIONS.includes(ext)
+      ? 'jpg'
+      : BROWSER_UNSUPPORTED_VIDEO_EXTENSIONS.includes(ext) ? 'mp4' : image.file_type;
+
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(image.width || 1, image.height || 1));
+    return {
+      image,
+      tagsByCategory: categoriesByImage.get(image.id)!,
+      fileUrl: `${baseUrl}/api/image/${image.id}/file`,
+      previewUrl: `${baseUrl}/api/image/${image.id}/thumbnail`,
+      fileExt,
+      rating: getRatingLetter(image.rating),
+      previewWidth: Math.round((image.width || 0) * scale),
+      previewHeight: Math.round((image.height || 0) * scale),
+    };
+  });
+}
+
+/**
+ * Gelbooru-style date, e.g. "Sat Mar 02 14:05:09 +0000 2024"
+ */
+function formatGelbooruDate(date: Date): string {
+  // toUTCString gives "Sat, 02 Mar 2024 14:05:09 GMT"
+  const [weekday, day, month, year, time] = new Date(date).toUTCString().replace(',', '').split(' ');
+  return `${weekday} ${month} ${day} ${time} +0000 ${year}`;
+}
+
+// ============================================================================
+// Danbooru (posts.json, tags.json)
+// ============================================================================
+
+export function toDanbooruPost(post: BooruPost) {
+  const { image, tagsByCategory } = post;
+  return {
+    id: image.id,
+    created_at: new Date(image.created_at).toISOString(),
+    updated_at: new Date(image.updated_at).toISOString(),
+    uploader_id: null,
+    score: 0,
+    source: image.source || '',
+    md5: image.file_hash,
+    rating: post.rating,
+    image_width: image.width,
+    image_height: image.height,
+    tag_string: image.tags.join(' '),
+    tag_string_general: tagsByCategory.general.join(' '),
+    tag_string_artist: tagsByCategory.artist.join(' '),
+    tag_string_character: tagsByCategory.character.join(' '),
+    tag_string_copyright: tagsByCategory.copyright.join(' '),
+    tag_string_meta: tagsByCategory.meta.join(' '),
+    tag_count: image.tags.length,
+    tag_count_general: tagsByCategory.general.length,
+    tag_count_artist: tagsByCategory.artist.length,
+    tag_count_character: tagsByCategory.character.length,
+    tag_count_copyright: tagsByCategory.copyright.length,
+    tag_count_meta: tagsByCategory.meta.length,
+    file_ext: post.fileExt,
+    file_size: image.file_size,
+    file_url: post.fileUrl,
+    large_file_url: post.fileUrl,
+    preview_file_url: post.previewUrl,
+    has_large: false,
+    parent_id: null,
+    has_children: false,
+    is_deleted: false,
+    media_asset: {
+      duration: image.duration ?? null,
+    },
+  };
+}
+
+export function toDanbooruTag(tag: BooruTag) {
+  return {
+    id: tag.id,
+    name: tag.name,
+    post_count: tag.count,
+    category: BOORU_TAG_TYPES[tag.category] ?? 0,
+    is_deprecated: false,
+  };
+}
+
+// ============================================================================
+// Moebooru (post.json, tag.json)
+// ============================================================================
+
+export function toMoebooruPost(post: BooruPost) {
+  const { image } = post;
+  return {
+    id: image.id,
+    tags: image.tags.join(' '),
+    created_at: Math.floor(new Date(image.created_at).getTime() / 1000),
+    updated_at: Math.floor(new Date(image.updated_at).getTime() / 1000),
+    creator_id: null,
+    author: image.artist || '',
+    source: image.source || '',
+    score: 0,
+    md5: image.file_hash,
+    file_size: image.file_size,
+    file_ext: post.fileExt,
+    file_url: post.fileUrl,
+    preview_url: post.previewUrl,
+    preview_width: post.previewWidth,
+    preview_height: post.previewHeight,
+    sample_url: post.fileUrl,
+    sample_width: image.width,
+    sample_height: image.height,
+    jpeg_url: post.fileUrl,
+    jpeg_width: image.width,
+    jpeg_height: image.height,
+    rating: post.rating,
+    width: image.width,
+    height: image.height,
+    status: 'active',
+    has_children: false,
+    parent_id: null,
+  };
+}
+
+export function toMoebooruTag(tag: BooruTag) {
+  return {
+    id: tag.id,
+    name: tag.name,
+    count: tag.count,
+    type: BOORU_TAG_TYPES[tag.category] ?? 0,
+    ambiguous: false,
+  };
+}
+
+// ============================================================================
+// Gelbooru (index.php?page=dapi, XML by default or JSON with json=1)
+// ============================================================================
+
+export function toGelbooruPost(post: BooruPost) {
+  const { image } = post;
+  return {
+    id: image.id,
+    created_at: formatGelbooruDate(image.created_at),
+    change: Math.floor(new Date(image.updated_at).getTime() / 1000),
+    score: 0,
+    width: image.width,
+    height: image.height,
+    md5: image.file_hash,
+    rating: post.rating,
+    source: image.source || '',
+    tags: image.tags.join(' '),
+    file_url: post.fileUrl,
+    preview_url: post.previewUrl,
+    preview_width: post.previewWidth,
+    preview_height: post.previewHeight,
+    sample_url: post.fileUrl,
+    sample_width: image.width,
+    sample_height: image.height,
+    owner: image.artist || '',
+    creator_id: 0,
+    parent_id: 0,
+    has_children: false,
+    has_notes: false,
+    has_comments: false,
+    status: 'active',
+  };
+}
+
+export function toGelbooruTag(tag: BooruTag) {
+  return {
+    id: tag.id,
+    name: tag.name,
+    count: tag.count,
+    type: BOORU_TAG_TYPES[tag.category] ?? 0,
+    ambiguous: 0,
+  };
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Render a Gelbooru XML list, with each item's fields as attributes:
+ *   <posts count="1" offset="0"><post id="1" ... /></posts>
+ */
+export function toGelbooruXml(
+  root: string,
+  item: string,
+  attributes: Record<string, string | number>,
+  items: Record<string, string | number | boolean | null>[]
+): string {
+  const formatAttributes = (fields: Record<string, string | number | boolean | null>) =>
+    Object.entries(fields)
+      .map(([key, value]) => ` ${key}="${escapeXml(value === null ? '' : String(value))}"`)
+      .join('');
+
+  return '<?xml version="1.0" encoding="UTF-8"?>\n'
+    + `<${root}${formatAttributes(attributes)}>\n`
+    + items.map(fields => `  <${item}${formatAttributes(fields)}/>\n`).join('')
+    + `</${root}>\n`;
+}
@@ -0,0 +1,133 @@
+import { execute, query } from '../database/connection';
+import { setImageTags, writeImageMetadata } from './scanner';
+import { parseTagCategory, retargetTagRules } from './tags';
+import { pluginRegistry } from '../index';
+import { HistoryActor, snapshotImage, recordChangeSince } from './history';
+import { JobProgress } from '../types';
+
+export interface BulkEdit {
+  add_tags: string[];
+  remove_tags: string[];
+  rating?: number | null; // undefined = leave rating alone
+  source?: string;         // undefined = leave source alone (same for artist)
+  artist?: string;
+}
+
+/**
+ * Apply a bulk edit to a list of images, as a job (stops early if the job is cancelled)
+ * Each image goes through the same tag pipeline as a single-image edit:
+ * plugin transform hook, aliases/implications, history, file write-back, after-update hook.
+ */
+export async function runBulkEdit(imageIds: number[], edit: BulkEdit, actor: HistoryActor, progress: JobProgress): Promise<void> {
+  await forEachImage(imageIds, imageId => applyBulkEdit(imageId, edit, actor), progress);
+}
+
+/**
+ * Update each image in turn, counting failed images instead of stopping at them
+ */
+export async function forEachImage(
+  imageIds: number[],
+  update: (imageId: number) => Promise<void>,
+  progress: JobProgress
+): Promise<void> {
+  progress.addTotal(imageIds.length);
+
+  for (const imageId of imageIds) {
+    if (progress.isCancelled()) return;
+    try {
+      await update(imageId);
+      progress.advance();
+    } catch (error) {
+      console.error(`Failed to update image ${imageId}:`, error);
+      progress.advance(true);
+    }
+  }
+}
+
+/**
+ * Move every image from the source tags to the target tag, as a job
+ * Used for both renaming (one source) and merging. The target may carry a category prefix.
+ * Aliases and implications are retargeted first so they don't bring the old names back.
+ */
+export async function runTagMerge(sources: string[], target: string, actor: HistoryActor, progress: JobProgress): Promise<void> {
+  await retargetTagRules(sources, parseTagCategory(target).name);
+
+  const placeholders = sources.map(() => '?').join(',');
+  const rows = await query<{ image_id: number }>(
+    `SELECT DISTINCT it.image_id FROM image_tags it
+     JOIN tags t ON it.tag_id = t.id
+     WHERE t.name IN (${placeholders})
+     ORDER BY it.image_id`,
+    sources
+  );
+
+  await runBulkEdit(rows.map(r => r.image_id), { add_tags: [target], remove_tags: sources }, actor, progress);
+}
+
+/**
+ * Apply an edit to one image through the full tag pipeline (also used by the duplicate review)
+ */
+export async function applyBulkEdit(imageId: number, edit: BulkEdit, actor: HistoryActor): Promise<void> {
+  const before = await snapshotImage(imageId);
+  if (!before) return; // Deleted since the job started
+
+  let finalTags: string[] | undefined;
+
+  if (edit.add_tags.length > 0 || edit.remove_tags.length > 0) {
+    const existingTagRows = await query<{ name: string }>(
+      `SELECT t.name FROM tags t
+       JOIN image_tags it ON t.id = it.tag_id
+       WHERE it.image_id = ?`,
+      [imageId]
+    );
+
+    const removeNames = new Set(edit.remove_tags.map(t => parseTagCategory(t).name));
+    let tags = [
+      ...existingTagRows.map(t => t.name).filter(name => !removeNames.has(name)),
+      ...edit.add_tags,
+    ];
+
+    // Allow plugins to transform tags before saving
+    tags = await pluginRegistry.runTransformHook('onBeforeTagUpdate', tags, imageId);
+    finalTags = await setImageTags(imageId, tags);
+  }
+
+  const fieldUpdates: string[] = [];
+  const fieldValues: (number | string | null)[] = [];
+  if (edit.rating !== undefined) {
+    fieldUpdates.push('rating = ?');
+    fieldValues.push(edit.rating);
+  }
+  if (edit.source !== undefined) {
+    fieldUpdates.push('source = ?');
+    fieldValues.push(edit.source);
+  }
+  if (edit.artist !== undefined) {
+    fieldUpdates.push('artist = ?');
+    fieldValues.push(edit.artist);
+  }
+  if (fieldUpdates.length > 0) {
+    await execute(
+      `UPDATE images SET ${fieldUpdates.join(', ')}, updated_at = NOW() WHERE id = ?`,
+      [...fieldValues, imageId]
+    );
+  }
+
+  await recordChangeSince(imageId, before, actor);
+
+  try {
+    await writeImageMetadata(imageId, {
+      tags: finalTags !== undefined,
+      rating: edit.rating,
+      source: edit.source,
+      artist: edit.artist,
+    });
+  } catch (fileError) {
+    console.error(`Failed to write metadata to file for image ${imageId}:`, fileError);
+    // Don't fail the image, DB is already updated
+  }
+
+  if (finalTags !== undefined) {
+    pluginRegistry.runHook('onAfterTagUpdate', imageId, finalTags);
+  }
+}
@@ -0,0 +1,204 @@
+import fs from 'fs/promises';
+import { execute, query, queryOne } from '../database/connection';
+import { addTagsToImage, deleteImage, removeTagsFromImage } from './scanner';
+import { applyBulkEdit } from './bulk';
+import { HistoryActor } from './history';
+
+export interface DuplicateGroupImage {
+  id: number;
+  file_path: string;
+  filename: string;
+  file_type: string;
+  file_size: number;
+  width: number;
+  height: number;
+  tags: string[];
+}
+
+export interface DuplicateGroup {
+  prime_id: number;
+  images: DuplicateGroupImage[]; // Prime first, then best quality first
+}
+
+export interface DuplicateGroupsResult {
+  groups: DuplicateGroup[];
+  total: number;
+  page: number;
+  total_pages: number;
+}
+
+export interface DuplicateDecision {
+  prime_id: number;          // Image to keep as the group's best version
+  not_duplicates: number[];  // Images to split off the group (never grouped with the rest again)
+  merge_tags: boolean;       // Give the prime every tag of the images staying in the group
+  delete_ids: number[];      // Images to remove after merging
+  delete_files: boolean;     // Also delete the removed images' files from disk
+}
+
+/**
+ * Get duplicate groups that haven't been reviewed (a group is pending again when a new image joins it)
+ */
+export async function getPendingDuplicateGroups(page: number = 1, limit: number = 20): Promise<DuplicateGroupsResult> {
+  const [countRow] = await query<{ total: number }>(
+    `SELECT COUNT(*) AS total FROM (
+       SELECT prime_id FROM duplicate_groups GROUP BY prime_id HAVING MIN(reviewed) = 0
+     ) pending`
+  );
+  const total = countRow?.total || 0;
+
+  const primes = await query<{ prime_id: number }>(
+    `SELECT prime_id FROM duplicate_groups
+     GROUP BY prime_id HAVING MIN(reviewed) = 0
+     ORDER BY prime_id LIMIT ? OFFSET ?`,
+    [limit, (page - 1) * limit]
+  );
+
+  const groups: DuplicateGroup[] = [];
+  for (const { prime_id } of primes) {
+    groups.push({ prime_id, images: await getGroupImages(prime_id) });
+  }
+
+  return { groups, total, page, total_pages: Math.ceil(total / limit) };
+}
+
+/**
+ * Get the IDs of every image in a duplicate group (including the prime)
+ */
+export async function getDuplicateGroupIds(primeId: number): Promise<number[]> {
+  const rows = await query<{ image_id: number }>(
+    'SELECT image_id FROM duplicate_groups WHERE prime_id = ? ORDER BY image_id',
+    [primeId]
+  );
+  return rows.map(r => r.image_id);
+}
+
+/**
+ * Put an image in a duplicate group without a content match (e.g. restoring an exported group)
+ * If the intended prime has since become a copy in another group, the image joins that group. It's
+ * left out if it's already grouped or was marked "not a duplicate" of any member, and the group
+ * goes back to pending review when it joins.
+ * @returns Whether the image was added
+ */
+export async function addToDuplicateGroup(imageId: number, primeId: number): Promise<boolean> {
+  const primeGroup = await queryOne<{ prime_id: number }>(
+    'SELECT prime_id FROM duplicate_groups WHERE image_id = ?',
+    [primeId]
+  );
+  const groupPrimeId = primeGroup?.prime_id ?? primeId;
+  if (groupPrimeId === imageId) return false;
+
+  const imageGroup = await queryOne<{ prime_id: number }>(
+    'SELECT prime_id FROM duplicate_groups WHERE image_id = ?',
+    [imageId]
+  );
+  if (imageGroup) return false;
+
+  const memberIds = primeGroup ? await getDuplicateGroupIds(groupPrimeId) : [groupPrimeId];
+  const [excluded] = await query<{ count: number }>(
+    `SELECT COUNT(*) AS count FROM duplicate_exclusions
+     WHERE (image_a = ? AND image_b IN (${memberIds.map(() => '?').join(',')}))
+        OR (image_b = ? AND image_a IN (${memberIds.map(() => '?').join(',')}))`,
+    [imageId, ...memberIds, imageId, ...memberIds]
+  );
+  if (excluded.count > 0) return false;
+
+  await execute(
+    'INSERT IGNORE INTO duplicate_groups (image_id, prime_id) VALUES (?, ?), (?, ?)',
+    [groupPrimeId, groupPrimeId, imageId, groupPrimeId]
+  );
+  await addTagsToImage(groupPrimeId, ['duplicate_image']);
+  await addTagsToImage(imageId, ['duplicate_image']);
+  return true;
+}
+
+/**
+ * Apply a review decision to a duplicate group
+ * Images split off are excluded from the others for good, so rescans don't regroup them. Tags are
+ * merged before anything is deleted, so tags only found on removed copies are kept. If a single image
+ * is left the group is dissolved, otherwise it's marked as reviewed.
+ * @param primeId The group's current prime
+ */
+export async function resolveDuplicateGroup(
+  primeId: number,
+  decision: DuplicateDecision,
+  actor: HistoryActor
+): Promise<{ deleted: number; remaining: number }> {
+  const memberIds = await getDuplicateGroupIds(primeId);
+  const notDuplicates = new Set(decision.not_duplicates);
+  const stayingIds = memberIds.filter(id => !notDuplicates.has(id));
+
+  if (decision.prime_id !== primeId) {
+    await execute('UPDATE duplicate_groups SET prime_id = ? WHERE prime_id = ?', [decision.prime_id, primeId]);
+  }
+
+  for (const id of notDuplicates) {
+    for (const otherId of stayingIds) {
+      await execute(
+        'INSERT IGNORE INTO duplicate_exclusions (image_a, image_b) VALUES (?, ?)',
+        [Math.min(id, otherId), Math.max(id, otherId)]
+      );
+    }
+    await execute('DELETE FROM duplicate_groups WHERE image_id = ?', [id]);
+    await removeTagsFromImage(id, ['duplicate_image']);
+  }
+
+  if (decision.merge_tags) {
+    const rows = await query<{ name: string }>(
+      `SELECT DISTINCT t.name FROM tags t
+       JOIN image_tags it ON t.id = it.tag_id
+       WHERE it.image_id IN (${stayingIds.map(() => '?').join(',')})`,
+      stayingIds
+    );
+    await applyBulkEdit(decision.prime_id, { add_tags: rows.map(r => r.name), remove_tags: [] }, actor);
+  }
+
+  let deleted = 0;
+  for (const id of decision.delete_ids) {
+    const image = await queryOne<{ file_path: string }>('SELECT file_path FROM images WHERE id = ?', [id]);
+    if (!image) continue;
+
+    // Same path as deleting from the image page: the group is repaired as each copy goes
+    await deleteImage(id);
+    deleted++;
+
+    if (decision.delete_files) {
+      try {
+        await fs.unlink(image.file_path);
+        console.log(`Deleted file: ${image.file_path}`);
+      } catch (unlinkError) {
+        console.error(`Failed to delete file ${image.file_path}:`, unlinkError);
+        // DB entry is already deleted
+      }
+    }
+  }
+
+  const remainingIds = await getDuplicateGroupIds(decision.prime_id);
+  if (remainingIds.length > 1) {
+    await execute('UPDATE duplicate_groups SET reviewed = TRUE WHERE prime_id = ?', [decision.prime_id]);
+  } else if (remainingIds.length === 1) {
+    // Only the prime is left, it's no longer a duplicate of anything
+    await execute('DELETE FROM duplicate_groups WHERE prime_id = ?', [decision.prime_id]);
+    await removeTagsFromImage(decision.prime_id, ['duplicate_image']);
+  }
+
+  return { deleted, remaining: remainingIds.length };
+}
+
+async function getGroupImages(primeId: number): Promise<DuplicateGroupImage[]> {
+  const images = await query<Omit<DuplicateGroupImage, 'tags'> & { tag_list: string | null }>(
+    `SELECT i.id, i.file_path, i.filename, i.file_type, i.file_size, i.width, i.height,
+       (SELECT GROUP_CONCAT(t.name ORDER BY t.name SEPARATOR '||')
+        FROM image_tags it JOIN tags t ON it.tag_id = t.id
+        WHERE it.image_id = i.id) AS tag_list
+     FROM duplicate_groups dg
+     JOIN images i ON i.id = dg.image_id
+     WHERE dg.prime_id = ?
+     ORDER BY i.id = ? DESC, (i.width * i.height) DESC, i.file_size DESC`,
+    [primeId, primeId]
+  );
+
+  return images.map(({ tag_list, ...image }) => ({
+    ...image,
+    tags: tag_list ? tag_list.split('||') : [],
+  }));
+}
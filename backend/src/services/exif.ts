@@ -1,6 +1,13 @@
 import fs from 'fs/promises';
-import { exiftool } from 'exiftool-vendored';
+import os from 'os';
+import { ExifTool } from 'exiftool-vendored';
 import path from 'path';
+import { XP_KEYWORDS_EXTENSIONS, XMP_SUBJECT_EXTENSIONS, GENRE_EXTENSIONS, READ_ONLY_METADATA_EXTENSIONS } from './formats';
+
+// One exiftool process per scan worker (the shared default instance only starts a quarter of the CPUs)
+const exiftool = new ExifTool({
+  maxProcs: Math.max(1, parseInt(process.env.SCAN_CONCURRENCY || String(Math.min(os.cpus().length, 4))) || 1),
+});
 
 export interface ExifMetadata {
   tags: string[];
@@ -15,7 +22,8 @@ export interface ExifMetadata {
 /**
  * Extract metadata from image/video files
  * JPEG: Tags from XPKeywords field
- * MP4: Tags from Genre field
+ * Other images: Tags from XMP Subject field
+ * Video: Tags from Genre field
  */
 export async function extractMetadata(filePath: string): Promise<ExifMetadata> {
   try {
@@ -37,14 +45,14 @@ export async function extractMetadata(filePath: string): Promise<ExifMetadata> {
     let date: Date | undefined;
 
     // Extract tags based on file type
-    if (ext === '.jpg' || ext === '.jpeg') {
+    if (XP_KEYWORDS_EXTENSIONS.includes(ext)) {
       // JPEG: Read from XPKeywords (UTF-16LE, semicolon-separated)
       const xpKeywords = metadata.XPKeywords;
       if (xpKeywords && typeof xpKeywords === 'string') {
         tags = xpKeywords.split(';').map(t => t.trim()).filter(t => t.length > 0);
       }
-    } else if (ext === '.png' || ext === '.gif' || ext === '.webp') {
-      // PNG/GIF/WebP: Read from Subject field
+    } else if (XMP_SUBJECT_EXTENSIONS.includes(ext)) {
+      // PNG/GIF/WebP/AVIF/HEIC/JXL/TIFF: Read from Subject field
       const subject = metadata.Subject;
       if (subject) {
         if (Array.isArray(subject) && subject.length > 1) {
@@ -56,7 +64,7 @@ export async function extractMetadata(filePath: string): Promise<ExifMetadata> {
           tags = subject.split(';').map(t => t.trim()).filter(t => t.length > 0);
         }
       }
-    } else if (ext === '.mp4' || ext === '.webm' || ext === '.mkv') {
+    } else if (GENRE_EXTENSIONS.includes(ext)) {
       // Video: Read from Genre field (semicolon-separated)
       const genre = metadata.Genre;
       if (genre && typeof genre === 'string') {
@@ -121,11 +129,13 @@ export async function extractMetadata(filePath: string): Promise<ExifMetadata> {
 }
 
 // Internal/meta tags that should not be written to files
-const INTERNAL_TAGS = ['duplicate_image'];
+export const INTERNAL_TAGS = ['duplicate_image'];
 
-interface FileMetadataUpdate {
+export interface FileMetadataUpdate {
   tags?: string[];
   rating?: number | null;
+  source?: string;
+  artist?: string;
 }
 
 /**
@@ -135,14 +145,26 @@ interface FileMetadataUpdate {
  * Tags:
  *   JPEG: XPKeywords field (semicolon-separated)
  *   Video: Genre field (semicolon-separated)
- *   PNG/GIF/WebP: XMP Subject field
+ *   Other images: XMP Subject field
  *
  * Rating:
  *   XMP Rating field
+ *
+ * Source:
+ *   Description field (read back as the source when the file has no Comment)
+ *
+ * Artist:
+ *   Artist field
+ *
+ * WebM, MKV and BMP files are left untouched (exiftool can't write them).
  */
 export async function writeFileMetadata(filePath: string, updates: FileMetadataUpdate): Promise<void> {
   try {
     const ext = path.extname(filePath).toLowerCase();
+    if (READ_ONLY_METADATA_EXTENSIONS.includes(ext)) {
+      console.log(`Skipped writing metadata to ${path.basename(filePath)} (format can't store it)`);
+      return;
+    }
     const writeData: Record<string, any> = {};
     const logParts: string[] = [];
 
@@ -151,11 +173,11 @@ export async function writeFileMetadata(filePath: string, updates: FileMetadataU
       const writableTags = updates.tags.filter(t => !INTERNAL_TAGS.includes(t));
       const tagString = writableTags.join(';');
 
-      if (ext === '.jpg' || ext === '.jpeg') {
+      if (XP_KEYWORDS_EXTENSIONS.includes(ext)) {
         writeData.XPKeywords = tagString;
-      } else if (ext === '.mp4' || ext === '.webm' || ext === '.mkv') {
+      } else if (GENRE_EXTENSIONS.includes(ext)) {
         writeData.Genre = tagString;
-      } else if (ext === '.png' || ext === '.gif' || ext === '.webp') {
+      } else if (XMP_SUBJECT_EXTENSIONS.includes(ext)) {
         writeData.Subject = writableTags;
       }
       logParts.push(`${writableTags.length} tags`);
@@ -167,6 +189,18 @@ export async function writeFileMetadata(filePath: string, updates: FileMetadataU
       logParts.push(`rating ${updates.rating ?? 'none'}`);
     }
 
+    // Prepare source if provided
+    if (updates.source !== undefined) {
+      writeData.Description = updates.source;
+      logParts.push('source');
+    }
+
+    // Prepare artist if provided
+    if (updates.artist !== undefined) {
+      writeData.Artist = updates.artist;
+      logParts.push('artist');
+    }
+
     // Write all metadata in one call
     if (Object.keys(writeData).length > 0) {
       await exiftool.write(filePath, writeData, ['-overwrite_original']);
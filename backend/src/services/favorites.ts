@@ -0,0 +1,28 @@
+import { query, queryOne, execute } from '../database/connection';
+
+export async function addFavorite(userId: number, imageId: number): Promise<void> {
+  await execute('INSERT IGNORE INTO favorites (user_id, image_id) VALUES (?, ?)', [userId, imageId]);
+}
+
+export async function removeFavorite(userId: number, imageId: number): Promise<void> {
+  await execute('DELETE FROM favorites WHERE user_id = ? AND image_id = ?', [userId, imageId]);
+}
+
+export async function getFavoriteCount(imageId: number): Promise<number> {
+  const result = await queryOne<{ count: number }>('SELECT COUNT(*) as count FROM favorites WHERE image_id = ?', [imageId]);
+  return result?.count || 0;
+}
+
+/**
+ * Find which of the given images a user has favorited
+ */
+export async function getFavoritedIds(userId: number, imageIds: number[]): Promise<Set<number>> {
+  if (imageIds.length === 0) return new Set();
+
+  const placeholders = imageIds.map(() => '?').join(',');
+  const rows = await query<{ image_id: number }>(
+    `SELECT image_id FROM favorites WHERE user_id = ? AND image_id IN (${placeholders})`,
+    [userId, ...imageIds]
+  );
+  return new Set(rows.map(r => r.image_id));
+}
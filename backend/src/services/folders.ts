@@ -0,0 +1,148 @@
+import path from 'path';
+import { query } from '../database/connection';
+import { DirectoryNode, Folder } from '../types';
+
+/**
+ * Get every configured folder
+ */
+export async function getAllFolders(): Promise<Folder[]> {
+  return query<Folder>('SELECT * FROM folders');
+}
+
+/**
+ * Find the folder a file belongs to (the innermost one if folders are nested)
+ * @param folders Folders to choose from, to avoid a query per file when checking many
+ */
+export async function getFolderForPath(filePath: string, folders?: Folder[]): Promise<Folder | null> {
+  const candidates = (folders ?? await getAllFolders())
+    .filter(folder => filePath.startsWith(folder.path.replace(/\/+$/, '') + '/'));
+  return candidates.sort((a, b) => b.path.length - a.path.length)[0] ?? null;
+}
+
+/**
+ * Check if a file is in a folder flagged read-only, whose files must never be modified or deleted
+ */
+export async function isInReadOnlyFolder(filePath: string, folders?: Folder[]): Promise<boolean> {
+  return Boolean((await getFolderForPath(filePath, folders))?.read_only);
+}
+
+// Turn a glob into a regular expression source (* and ? stay within a directory, ** crosses them)
+function globToSource(pattern: string): string {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*' && pattern[i + 1] === '*') {
+      // "**/" also matches no directories at all, so "**/tmp/*" matches "tmp/a.jpg"
+      const withSlash = pattern[i + 2] === '/';
+      source += withSlash ? '(?:.*/)?' : '.*';
+      i += withSlash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[' && pattern.indexOf(']', i + 2) > 0) {
+      const end = pattern.indexOf(']', i + 2);
+      source += `[${pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+      i = end;
+    } else if (char === '{' && pattern.indexOf('}', i) > 0) {
+      const end = pattern.indexOf('}', i);
+      source += `(?:${pattern.slice(i + 1, end).split(',').map(globToSource).join('|')})`;
+      i = end;
+    } else {
+      source += char.replace(/[\\^$.|+()[\]{}]/g, '\\$&');
+    }
+  }
+  return source;
+}
+
+/**
+ * Check a path relative to a folder against a glob, ignoring case
+ * Patterns without a slash match the file name in any directory ("*.gif"), others match
+ * from the folder's root ("Screenshots/**", ".trash/**").
+ */
+export function matchesGlob(relativePath: string, pattern: string): boolean {
+  const target = pattern.includes('/') ? relativePath : path.basename(relativePath);
+  return new RegExp(`^${globToSource(pattern.replace(/^\/+/, ''))}$`, 'i').test(target);
+}
+
+/**
+ * Check a file against its folder's include and exclude patterns
+ * With include patterns, only files matching one of them are indexed. Exclude patterns always win.
+ */
+export function isIncludedInFolder(folder: Folder, filePath: string): boolean {
+  const relativePath = path.relative(folder.path, filePath).split(path.sep).join('/');
+  const { include_patterns: includes, exclude_patterns: excludes } = folder;
+
+  if (includes.length > 0 && !includes.some(pattern => matchesGlob(relativePath, pattern))) {
+    return false;
+  }
+  return !excludes.some(pattern => matchesGlob(relativePath, pattern));
+}
+
+/**
+ * Find indexed images in a folder that its include/exclude patterns leave out
+ * Images in a nested folder are judged by that folder's own patterns, so they're skipped.
+ * @param folder The folder, possibly with patterns that haven't been saved yet
+ */
+export async function findExcludedImages(folder: Folder): Promise<{ id: number; file_path: string }[]> {
+  const folders = await getAllFolders();
+  const images = await query<{ id: number; file_path: string }>(
+    'SELECT id, file_path FROM images WHERE file_path LIKE ?',
+    [`${folder.path.replace(/\/+$/, '').replace(/[\\%_]/g, '\\$&')}/%`]
+  );
+
+  const excluded: { id: number; file_path: string }[] = [];
+  for (const image of images) {
+    const owner = await getFolderForPath(image.file_path, folders);
+    if ((owner?.id ?? folder.id) === folder.id && !isIncludedInFolder(folder, image.file_path)) {
+      excluded.push(image);
+    }
+  }
+  return excluded;
+}
+
+/**
+ * Directory tree under each enabled folder, with image counts (directories without images
+ * anywhere below them are left out). Nested folders appear inside their parent's tree.
+ */
+export async function getDirectoryTree(): Promise<DirectoryNode[]> {
+  const folders = (await getAllFolders()).filter(folder => folder.enabled);
+  const rows = await query<{ directory: string; count: number }>(
+    `SELECT SUBSTRING(file_path, 1, CHAR_LENGTH(file_path) - CHAR_LENGTH(SUBSTRING_INDEX(file_path, '/', -1)) - 1) AS directory,
+            COUNT(*) AS count
+     FROM images
+     GROUP BY directory`
+  );
+
+  const roots = folders
+    .filter(folder => !folders.some(other => other !== folder && folder.path.startsWith(other.path.replace(/\/+$/, '') + '/')))
+    .sort((a, b) => a.path.localeCompare(b.path))
+    .map((folder): DirectoryNode => ({ name: folder.path, path: folder.path.replace(/\/+$/, ''), count: 0, total: 0, children: [] }));
+
+  for (const { directory, count } of rows) {
+    const root = roots.find(node => directory === node.path || directory.startsWith(node.path + '/'));
+    if (!root) continue;
+
+    // Walk down from the folder, creating the directories on the way
+    let node = root;
+    node.total += Number(count);
+    for (const name of directory.slice(root.path.length).split('/').filter(part => part.length > 0)) {
+      let child = node.children.find(c => c.name === name);
+      if (!child) {
+        child = { name, path: `${node.path}/${name}`, count: 0, total: 0, children: [] };
+        node.children.push(child);
+      }
+      node = child;
+      node.total += Number(count);
+    }
+    node.count += Number(count);
+  }
+
+  const sortChildren = (node: DirectoryNode) => {
+    node.children.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+    node.children.forEach(sortChildren);
+  };
+  roots.forEach(sortChildren);
+  return roots;
+}
@@ -0,0 +1,32 @@
+/**
+ * File formats LANBooru indexes, and how each is decoded, tagged and shown in the browser
+ * (extensions are lowercase, with the leading dot)
+ */
+
+export const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.gif', '.webp', '.avif', '.heic', '.heif', '.jxl', '.tif', '.tiff', '.bmp'];
+
+// Decoded with ffmpeg (GIFs included, since they may be animated)
+export const VIDEO_EXTENSIONS = ['.mp4', '.webm', '.mkv', '.mov', '.gif'];
+
+export const SUPPORTED_EXTENSIONS = [...new Set([...IMAGE_EXTENSIONS, ...VIDEO_EXTENSIONS])];
+
+// Images sharp's bundled libvips can't decode (HEVC-coded HEIC/HEIF, JPEG XL, BMP), converted with ImageMagick
+export const IMAGEMAGICK_EXTENSIONS = ['.heic', '.heif', '.jxl', '.bmp'];
+
+// Images converted to JPEG before hashing and thumbnailing
+export const CONVERTED_IMAGE_EXTENSIONS = ['.webp', '.avif', '.tif', '.tiff', ...IMAGEMAGICK_EXTENSIONS];
+
+// Formats browsers can't show, converted when served for viewing (downloads are always the original)
+export const BROWSER_UNSUPPORTED_IMAGE_EXTENSIONS = ['.heic', '.heif', '.jxl', '.tif', '.tiff'];
+export const BROWSER_UNSUPPORTED_VIDEO_EXTENSIONS = ['.mkv', '.mov'];
+
+// Videos that can be watched as an HLS stream (not GIFs, which are short and silent)
+export const HLS_EXTENSIONS = ['.mp4', '.webm', '.mkv', '.mov'];
+
+// Where tags are stored: Windows keywords for JPEG, XMP subject for images (and XMP sidecars), genre for videos
+export const XP_KEYWORDS_EXTENSIONS = ['.jpg', '.jpeg'];
+export const XMP_SUBJECT_EXTENSIONS = ['.png', '.gif', '.webp', '.avif', '.heic', '.heif', '.jxl', '.tif', '.tiff', '.xmp'];
+export const GENRE_EXTENSIONS = ['.mp4', '.webm', '.mkv', '.mov'];
+
+// exiftool can read these but not write them, so their tags and ratings are only kept in the database
+export const READ_ONLY_METADATA_EXTENSIONS = ['.webm', '.mkv', '.bmp'];
@@ -0,0 +1,158 @@
+import { query, queryOne, execute } from '../database/connection';
+import { HistorySource, ImageHistoryEntry, SessionUser } from '../types';
+
+/**
+ * Who is making a change
+ * @param name Username for 'user', plugin id for 'plugin'
+ */
+export interface HistoryActor {
+  source: HistorySource;
+  name?: string | null;
+  userId?: number | null;
+}
+
+/**
+ * History actor for a change made through the API
+ * Guests with edit rights have no account, so they're recorded without a name.
+ */
+export function userActor(user: SessionUser | undefined): HistoryActor {
+  return { source: 'user', name: user?.username ?? null, userId: user?.id ?? null };
+}
+
+export interface ImageSnapshot {
+  tags: string[];
+  rating: number | null;
+}
+
+// An image with no tags and no rating, used as the "before" state of a fresh import
+export const EMPTY_SNAPSHOT: ImageSnapshot = { tags: [], rating: null };
+
+/**
+ * Get an image's current tag names and rating
+ * Returns null if the image doesn't exist.
+ */
+export async function snapshotImage(imageId: number): Promise<ImageSnapshot | null> {
+  const image = await queryOne<{ rating: number | null }>('SELECT rating FROM images WHERE id = ?', [imageId]);
+  if (!image) return null;
+
+  const tags = await query<{ name: string }>(
+    `SELECT t.name FROM tags t
+     JOIN image_tags it ON t.id = it.tag_id
+     WHERE it.image_id = ?`,
+    [imageId]
+  );
+  return { tags: tags.map(t => t.name), rating: image.rating };
+}
+
+/**
+ * Record what changed on an image since a snapshot was taken
+ * Nothing is recorded if the tags and rating are unchanged.
+ * @param revertedFrom History entry ID when the change is a revert
+ * @returns The new history entry ID, or null if nothing changed
+ */
+export async function recordChangeSince(
+  imageId: number,
+  before: ImageSnapshot,
+  actor: HistoryActor,
+  revertedFrom: number | null = null
+): Promise<number | null> {
+  const after = await snapshotImage(imageId);
+  if (!after) return null;
+
+  const beforeTags = new Set(before.tags);
+  const afterTags = new Set(after.tags);
+  const addedTags = after.tags.filter(t => !beforeTags.has(t)).sort();
+  const removedTags = before.tags.filter(t => !afterTags.has(t)).sort();
+  const ratingChanged = before.rating !== after.rating;
+
+  if (addedTags.length === 0 && removedTags.length === 0 && !ratingChanged) {
+    return null;
+  }
+
+  const result = await execute(
+    `INSERT INTO image_history
+      (image_id, source, source_name, user_id, added_tags, removed_tags, rating_changed, rating_before, rating_after, reverted_from)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      imageId,
+      actor.source,
+      actor.name ?? null,
+      actor.userId ?? null,
+      JSON.stringify(addedTags),
+      JSON.stringify(removedTags),
+      ratingChanged,
+      before.rating,
+      after.rating,
+      revertedFrom
+    ]
+  );
+  return result.insertId;
+}
+
+/**
+ * Run a change against an image and record it in the image's history
+ * Errors from the change itself are passed through; failing to record is only logged.
+ */
+export async function withHistory<T>(imageId: number, actor: HistoryActor, change: () => Promise<T>): Promise<T> {
+  const before = await snapshotImage(imageId);
+  const result = await change();
+
+  if (before) {
+    try {
+      await recordChangeSince(imageId, before, actor);
+    } catch (error) {
+      console.error(`Failed to record history for image ${imageId}:`, error);
+    }
+  }
+  return result;
+}
+
+function toEntry(row: any): ImageHistoryEntry {
+  return {
+    ...row,
+    rating_changed: Boolean(row.rating_changed),
+    // mysql2 parses JSON columns, but be tolerant of drivers returning strings
+    added_tags: typeof row.added_tags === 'string' ? JSON.parse(row.added_tags) : row.added_tags,
+    removed_tags: typeof row.removed_tags === 'string' ? JSON.parse(row.removed_tags) : row.removed_tags,
+  };
+}
+
+/**
+ * Get an image's history, newest first
+ */
+export async function getImageHistory(imageId: number): Promise<ImageHistoryEntry[]> {
+  const rows = await query<any>(
+    'SELECT * FROM image_history WHERE image_id = ? ORDER BY created_at DESC, id DESC',
+    [imageId]
+  );
+  return rows.map(toEntry);
+}
+
+export async function getHistoryEntry(imageId: number, entryId: number): Promise<ImageHistoryEntry | null> {
+  const row = await queryOne<any>(
+    'SELECT * FROM image_history WHERE id = ? AND image_id = ?',
+    [entryId, imageId]
+  );
+  return row ? toEntry(row) : null;
+}
+
+/**
+ * Work out the tags and rating that undo a history entry, applied on top of the current state
+ * Tags added by the entry are removed and tags it removed are re-added, so later unrelated
+ * edits are kept. The rating is only touched if the entry changed it.
+ */
+export function computeRevert(
+  entry: ImageHistoryEntry,
+  current: ImageSnapshot
+): { tags: string[]; rating?: number | null } {
+  const added = new Set(entry.added_tags);
+  const tags = current.tags.filter(t => !added.has(t));
+  for (const tag of entry.removed_tags) {
+    if (!tags.includes(tag)) tags.push(tag);
+  }
+
+  return {
+    tags,
+    ...(entry.rating_changed && { rating: entry.rating_before }),
+  };
+}
@@ -0,0 +1,382 @@
+import type { PoolConnection, ResultSetHeader } from 'mysql2/promise';
+import { query, queryOne, execute, transaction } from '../database/connection';
+import { Folder, Job, JobProgress, JobType } from '../types';
+import {
+  scanFolder,
+  scanAllFolders,
+  cleanupDeletedFiles,
+  regenerateThumbnails,
+  rescanDuplicates,
+  rereadFolderSidecars,
+  applyTagRulesToExistingImages,
+} from './scanner';
+import { runBulkEdit, runTagMerge, BulkEdit } from './bulk';
+import { runImport } from './backup';
+import { HistoryActor } from './history';
+
+// Maintenance jobs, which can be queued from the admin page
+export const JOB_TYPES: JobType[] = ['scan', 'cleanup', 'thumbnails', 'duplicates', 'sidecars'];
+
+/**
+ * What each edit job works on, stored with the job so it can start over after a restart
+ */
+export interface EditJobParams {
+  bulk_edit: { image_ids: number[]; edit: BulkEdit; actor: HistoryActor };
+  tag_merge: { sources: string[]; target: string; actor: HistoryActor };
+  tag_rules: { actor: HistoryActor };
+  import: { actor: HistoryActor }; // The changes are staged in import_changes
+}
+
+export const EDIT_JOB_TYPES = ['bulk_edit', 'tag_merge', 'tag_rules', 'import'] as const satisfies (keyof EditJobParams & JobType)[];
+
+// Everything but params, which can be large (a whole import) and isn't sent to clients
+const JOB_COLUMNS = 'id, type, status, folder_id, total, processed, failed, error, created_at, started_at, finished_at';
+
+// Progress is written to the database (and pushed to listeners) at most this often
+const PROGRESS_INTERVAL_MS = 1000;
+// Finished jobs are kept this long for the admin page
+const JOB_RETENTION_DAYS = 7;
+
+export interface JobWithProgress extends Job {
+  folder_path: string | null;
+  eta_seconds: number | null;
+}
+
+interface RunningJob {
+  job: Job;
+  cancelled: boolean;
+  lastSavedAt: number;
+}
+
+type JobListener = (jobs: JobWithProgress[]) => void;
+
+let current: RunningJob | null = null;
+let isProcessing = false;
+// Set when jobs are queued while the queue is being worked through, so it's checked again before stopping
+let recheckQueue = false;
+const listeners = new Set<JobListener>();
+
+export function isJobType(value: unknown): value is JobType {
+  return typeof value === 'string' && JOB_TYPES.includes(value as JobType);
+}
+
+/**
+ * Queue a job (runs after any jobs already queued)
+ * If the same job is already waiting it's returned instead of queueing another.
+ * @param folderId Folder to work on, or null for all folders
+ */
+export async function enqueueJob(type: JobType, folderId: number | null = null): Promise<Job> {
+  const waiting = await queryOne<Job>(
+    `SELECT ${JOB_COLUMNS} FROM jobs WHERE type = ? AND folder_id <=> ? AND status = 'queued' LIMIT 1`,
+    [type, folderId]
+  );
+  if (waiting) return waiting;
+
+  return insertJob(type, folderId, null);
+}
+
+/**
+ * Queue an edit over many images: a bulk edit, tag rename or merge, tag rules or a metadata import
+ * Each carries its own changes, so unlike maintenance jobs they're never folded into a waiting one.
+ * @param folderId Folder the edit is for, so it's cancelled along with the folder
+ * @param stage Stores data too big for params along with the job, before it can start
+ */
+export async function enqueueEditJob<T extends keyof EditJobParams>(
+  type: T,
+  params: EditJobParams[T],
+  folderId: number | null = null,
+  stage?: JobStager
+): Promise<Job> {
+  return insertJob(type, folderId, params, stage);
+}
+
+export type JobStager = (jobId: number, connection: PoolConnection) => Promise<void>;
+
+async function insertJob(type: JobType, folderId: number | null, params: unknown, stage?: JobStager): Promise<Job> {
+  await execute(
+    `DELETE FROM jobs WHERE finished_at < NOW() - INTERVAL ${JOB_RETENTION_DAYS} DAY`
+  );
+  const jobId = await transaction(async (connection) => {
+    const [result] = await connection.query<ResultSetHeader>(
+      'INSERT INTO jobs (type, folder_id, params) VALUES (?, ?, ?)',
+      [type, folderId, params === null ? null : JSON.stringify(params)]
+    );
+    if (stage) await stage(result.insertId, connection);
+    return result.insertId;
+  });
+  const job = (await queryOne<Job>(`SELECT ${JOB_COLUMNS} FROM jobs WHERE id = ?`, [jobId]))!;
+
+  notifyListeners();
+  processQueue();
+  return job;
+}
+
+/**
+ * Check if a job of this type (and folder) is queued or running
+ */
+export async function hasPendingJob(type: JobType, folderId: number | null = null): Promise<boolean> {
+  const row = await queryOne<{ id: number }>(
+    "SELECT id FROM jobs WHERE type = ? AND folder_id <=> ? AND status IN ('queued', 'running') LIMIT 1",
+    [type, folderId]
+  );
+  return row !== null;
+}
+
+/**
+ * Cancel a job. Queued jobs are dropped, running jobs stop at the next file.
+ * @returns false if the job doesn't exist or has already finished
+ */
+export async function cancelJob(id: number): Promise<boolean> {
+  if (current && current.job.id === id) {
+    current.cancelled = true;
+    return true;
+  }
+
+  const result = await execute(
+    "UPDATE jobs SET status = 'cancelled', finished_at = NOW() WHERE id = ? AND status = 'queued'",
+    [id]
+  );
+  if (result.affectedRows > 0) notifyListeners();
+  return result.affectedRows > 0;
+}
+
+/**
+ * Cancel every queued or running job for a folder (before the folder is removed)
+ */
+export async function cancelFolderJobs(folderId: number): Promise<void> {
+  if (current && current.job.folder_id === folderId) {
+    current.cancelled = true;
+  }
+  await execute(
+    "UPDATE jobs SET status = 'cancelled', finished_at = NOW() WHERE folder_id = ? AND status = 'queued'",
+    [folderId]
+  );
+  notifyListeners();
+}
+
+/**
+ * Get recent jobs, newest first, with the running job's progress and ETA
+ */
+export async function listJobs(limit: number = 50): Promise<JobWithProgress[]> {
+  const jobs = await query<Job & { folder_path: string | null }>(
+    `SELECT ${JOB_COLUMNS}, (SELECT path FROM folders f WHERE f.id = jobs.folder_id) AS folder_path
+     FROM jobs ORDER BY id DESC LIMIT ?`,
+    [limit]
+  );
+  return jobs.map(withProgress);
+}
+
+/**
+ * Get one job, with progress and ETA if it's running
+ */
+export async function getJob(id: number): Promise<JobWithProgress | null> {
+  const job = await queryOne<Job & { folder_path: string | null }>(
+    `SELECT ${JOB_COLUMNS}, (SELECT path FROM folders f WHERE f.id = jobs.folder_id) AS folder_path
+     FROM jobs WHERE id = ?`,
+    [id]
+  );
+  return job ? withProgress(job) : null;
+}
+
+function withProgress(job: Job & { folder_path: string | null }): JobWithProgress {
+  // The database copy of the running job's counters can be up to a second old
+  const live = current && current.job.id === job.id ? { ...job, ...current.job } : job;
+  return { ...live, eta_seconds: estimateSecondsLeft(live) };
+}
+
+/**
+ * Listen for job changes (gets the full job list each time)
+ * @returns Function that removes the listener
+ */
+export function subscribeJobs(listener: JobListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Pick up jobs interrupted by a restart and start working through the queue
+ */
+export async function resumeJobs(): Promise<void> {
+  const result = await execute(
+    "UPDATE jobs SET status = 'queued', started_at = NULL, total = 0, processed = 0, failed = 0 WHERE status = 'running'"
+  );
+  if (result.affectedRows > 0) {
+    console.log(`Requeued ${result.affectedRows} interrupted job(s)`);
+  }
+  processQueue();
+}
+
+function estimateSecondsLeft(job: Job): number | null {
+  if (job.status !== 'running' || !job.started_at || job.processed === 0 || job.total <= job.processed) {
+    return null;
+  }
+  const elapsed = (Date.now() - new Date(job.started_at).getTime()) / 1000;
+  return Math.round((elapsed / job.processed) * (job.total - job.processed));
+}
+
+// Run queued jobs one at a time until the queue is empty
+async function processQueue(): Promise<void> {
+  if (isProcessing) {
+    // The worker may already have found the queue empty, before this job was inserted
+    recheckQueue = true;
+    return;
+  }
+  isProcessing = true;
+
+  try {
+    do {
+      recheckQueue = false;
+      let job: Job | null;
+      while ((job = await queryOne<Job>(`SELECT ${JOB_COLUMNS} FROM jobs WHERE status = 'queued' ORDER BY id LIMIT 1`))) {
+        await runJob(job);
+      }
+    } while (recheckQueue);
+  } catch (error) {
+    console.error('Job queue failed:', error);
+  } finally {
+    isProcessing = false;
+    // Jobs queued while the worker was failing still get their turn
+    if (recheckQueue) {
+      recheckQueue = false;
+      processQueue();
+    }
+  }
+}
+
+async function runJob(job: Job): Promise<void> {
+  // Claim the job, unless it was cancelled since it was picked
+  const claimed = await execute(
+    "UPDATE jobs SET status = 'running', started_at = NOW() WHERE id = ? AND status = 'queued'",
+    [job.id]
+  );
+  if (claimed.affectedRows === 0) return;
+
+  const running: RunningJob = {
+    job: { ...job, status: 'running', started_at: new Date(), total: 0, processed: 0, failed: 0 },
+    cancelled: false,
+    lastSavedAt: 0,
+  };
+  current = running;
+  notifyListeners();
+
+  const progress: JobProgress = {
+    addTotal: (count) => {
+      running.job.total += count;
+      saveProgress(running);
+    },
+    advance: (failed = false) => {
+      running.job.processed++;
+      if (failed) running.job.failed++;
+      saveProgress(running);
+    },
+    isCancelled: () => running.cancelled,
+  };
+
+  try {
+    await runJobWork(job, progress);
+    running.job.status = running.cancelled ? 'cancelled' : 'completed';
+  } catch (error) {
+    console.error(`Job ${job.id} (${job.type}) failed:`, error);
+    running.job.status = 'failed';
+    running.job.error = error instanceof Error ? error.message : String(error);
+  } finally {
+    // Free the slot even if the job's final state can't be saved
+    current = null;
+    await execute(
+      'UPDATE jobs SET status = ?, total = ?, processed = ?, failed = ?, error = ?, finished_at = NOW() WHERE id = ?',
+      [running.job.status, running.job.total, running.job.processed, running.job.failed, running.job.error, job.id]
+    );
+    notifyListeners();
+  }
+}
+
+async function runJobWork(job: Job, progress: JobProgress): Promise<void> {
+  let folder: Folder | null = null;
+  if (job.folder_id !== null) {
+    folder = await queryOne<Folder>('SELECT * FROM folders WHERE id = ?', [job.folder_id]);
+    if (!folder) throw new Error('Folder no longer exists');
+  }
+
+  switch (job.type) {
+    case 'scan':
+      if (folder) {
+        await scanFolder(folder, true, progress);
+      } else {
+        await scanAllFolders(progress);
+      }
+      break;
+    case 'cleanup':
+      await cleanupDeletedFiles(folder?.path, progress);
+      break;
+    case 'thumbnails':
+      await regenerateThumbnails(folder?.path, progress);
+      break;
+    case 'duplicates':
+      await rescanDuplicates(folder?.path, progress);
+      break;
+    case 'sidecars': {
+      const folders = folder ? [folder] : await query<Folder>("SELECT * FROM folders WHERE enabled = TRUE AND sidecars != 'off'");
+      for (const target of folders) {
+        if (progress.isCancelled()) break;
+        await rereadFolderSidecars(target, progress);
+      }
+      break;
+    }
+    default:
+      await runEditJob(job, progress);
+  }
+}
+
+async function runEditJob(job: Job, progress: JobProgress): Promise<void> {
+  const row = await queryOne<{ params: any }>('SELECT params FROM jobs WHERE id = ?', [job.id]);
+  if (!row?.params) throw new Error('Job has no parameters');
+
+  switch (job.type) {
+    case 'bulk_edit': {
+      const { image_ids, edit, actor } = row.params as EditJobParams['bulk_edit'];
+      await runBulkEdit(image_ids, edit, actor, progress);
+      break;
+    }
+    case 'tag_merge': {
+      const { sources, target, actor } = row.params as EditJobParams['tag_merge'];
+      await runTagMerge(sources, target, actor, progress);
+      break;
+    }
+    case 'tag_rules': {
+      const { actor } = row.params as EditJobParams['tag_rules'];
+      await applyTagRulesToExistingImages(actor, progress);
+      break;
+    }
+    case 'import': {
+      const { actor } = row.params as EditJobParams['import'];
+      await runImport(job.id, actor, progress);
+      break;
+    }
+  }
+}
+
+// Persist the running job's counters and tell listeners, throttled
+function saveProgress(running: RunningJob): void {
+  const now = Date.now();
+  if (now - running.lastSavedAt < PROGRESS_INTERVAL_MS) return;
+  running.lastSavedAt = now;
+
+  const { total, processed, failed, id } = running.job;
+  execute('UPDATE jobs SET total = ?, processed = ?, failed = ? WHERE id = ?', [total, processed, failed, id])
+    .catch(error => console.error(`Failed to save progress for job ${id}:`, error));
+  notifyListeners();
+}
+
+function notifyListeners(): void {
+  if (listeners.size === 0) return;
+
+  listJobs()
+    .then(jobs => {
+      for (const listener of listeners) {
+        listener(jobs);
+      }
+    })
+    .catch(error => console.error('Failed to send job updates:', error));
+}
@@ -0,0 +1,108 @@
+import { query, queryOne, transaction } from '../database/connection';
+import { ImagePoolInfo, Pool } from '../types';
+
+/**
+ * Normalize a pool name (trim, whitespace to underscores)
+ * Pool names are used in pool:<name> searches, so they can't contain spaces
+ * and can't be purely numeric (that would be read as a pool ID).
+ * Returns null if the name is not usable.
+ */
+export function normalizePoolName(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const name = value.trim().replace(/\s+/g, '_');
+  if (name.length === 0 || name.length > 255 || /^\d+$/.test(name)) return null;
+  return name;
+}
+
+/**
+ * Find a pool by ID or name
+ */
+export async function findPool(idOrName: string): Promise<Pool | null> {
+  if (/^\d+$/.test(idOrName)) {
+    return queryOne<Pool>('SELECT * FROM pools WHERE id = ?', [parseInt(idOrName)]);
+  }
+  return queryOne<Pool>('SELECT * FROM pools WHERE name = ?', [idOrName]);
+}
+
+/**
+ * Get a pool's image IDs in order
+ */
+export async function getPoolImageIds(poolId: number): Promise<number[]> {
+  const rows = await query<{ image_id: number }>(
+    'SELECT image_id FROM pool_images WHERE pool_id = ? ORDER BY position',
+    [poolId]
+  );
+  return rows.map(r => r.image_id);
+}
+
+/**
+ * Get every pool an image belongs to, with its neighbours for prev/next navigation
+ */
+export async function getImagePools(imageId: number): Promise<ImagePoolInfo[]> {
+  return query<ImagePoolInfo>(
+    `SELECT p.id, p.name, pi.position,
+       (SELECT COUNT(*) FROM pool_images c WHERE c.pool_id = p.id) AS count,
+       (SELECT pr.image_id FROM pool_images pr
+        WHERE pr.pool_id = p.id AND pr.position < pi.position
+        ORDER BY pr.position DESC LIMIT 1) AS prev_id,
+       (SELECT nx.image_id FROM pool_images nx
+        WHERE nx.pool_id = p.id AND nx.position > pi.position
+        ORDER BY nx.position ASC LIMIT 1) AS next_id
+     FROM pool_images pi
+     JOIN pools p ON p.id = pi.pool_id
+     WHERE pi.image_id = ?
+     ORDER BY p.name`,
+    [imageId]
+  );
+}
+
+/**
+ * Append images to the end of a pool (images already in the pool are skipped)
+ * @returns Number of images added
+ */
+export async function addImagesToPool(poolId: number, imageIds: number[]): Promise<number> {
+  return transaction(async (conn) => {
+    const [rows] = await conn.query<any[]>(
+      'SELECT COALESCE(MAX(position), 0) AS max_position FROM pool_images WHERE pool_id = ?',
+      [poolId]
+    );
+    let position = rows[0].max_position;
+    let added = 0;
+
+    for (const imageId of imageIds) {
+      const [result] = await conn.query<any>(
+        'INSERT IGNORE INTO pool_images (pool_id, image_id, position) VALUES (?, ?, ?)',
+        [poolId, imageId, position + 1]
+      );
+      if (result.affectedRows > 0) {
+        position++;
+        added++;
+      }
+    }
+
+    await conn.query('UPDATE pools SET updated_at = NOW() WHERE id = ?', [poolId]);
+    return added;
+  });
+}
+
+/**
+ * Set a pool's order (imageIds must be exactly the pool's images)
+ */
+export async function setPoolOrder(poolId: number, imageIds: number[]): Promise<void> {
+  await transaction(async (conn) => {
+    for (let i = 0; i < imageIds.length; i++) {
+      await conn.query(
+        'UPDATE pool_images SET position = ? WHERE pool_id = ? AND image_id = ?',
+        [i + 1, poolId, imageIds[i]]
+      );
+    }
+    await conn.query('UPDATE pools SET updated_at = NOW() WHERE id = ?', [poolId]);
+  });
+}
+
+/**
+ * Renumber a pool's positions to 1..n (after images are removed)
+ */
+export async function compactPoolPositions(poolId: number): Promise<void> {
+  await setPoolOrder(poolId, await getPoolImageIds(poolId));
+}
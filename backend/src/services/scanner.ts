@@ -1,24 +1,55 @@
-import fs from 'fs/promises';
-import path from 'path';
-import { execute, query, queryOne, transaction } from '../database/connection';
-import { extractMetadata } from './exif';
-import { generateThumbnail, calculateFileHash, deleteThumbnail } from './thumbnail';
-import { Folder, Image } from '../types';
-import { pluginRegistry } from '../index';
-
-const SUPPORTED_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.gif', '.mp4', '.webm', '.webp'];
-const DUPLICATE_SCAN_ENABLED = (process.env.DUPLICATE_SCAN_ENABLED == "true" || process.env.DUPLICATE_SCAN_ENABLED == "1");
-
-console.log(`Duplicate scan running? ${DUPLICATE_SCAN_ENABLED ? "true" : "false"}`);
-
-// Global scan lock to prevent concurrent scans
-let isScanningInProgress = false;
-const scanQueue: (() => void)[] = [];
-
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { execute, query, queryOne, transaction } from '../database/connection';
+import { extractMetadata, writeFileMetadata, FileMetadataUpdate } from './exif';
+import { generateThumbnail, generatePreview, generateVideoHashes, probeVideo, VideoInfo, calculateFileHash, deleteThumbnail, getThumbnailPath, getPreviewPath, getDisplayImagePath, getHlsSegmentDir, EMPTY_HASHES } from './thumbnail';
+import { parseTagCategory, applyTagRules, getTagRules, resolveAlias, getImageTagsForFile } from './tags';
+import { Folder, Image, JobProgress, SidecarMode } from '../types';
+import { pluginRegistry } from '../index';
+import { recordChangeSince, snapshotImage, EMPTY_SNAPSHOT, HistoryActor } from './history';
+import { addToSimilarityIndex, removeFromSimilarityIndex, findSimilarImages, DUPLICATE_DISTANCE } from './similarity';
+import { SUPPORTED_EXTENSIONS } from './formats';
+import { withSidecarMetadata, writeSidecars, isSidecarPath, isSidecarOf } from './sidecar';
+import { getAllFolders, getFolderForPath, isIncludedInFolder } from './folders';
+
+const DUPLICATE_SCAN_ENABLED = (process.env.DUPLICATE_SCAN_ENABLED == "true" || process.env.DUPLICATE_SCAN_ENABLED == "1");
+// Files processed at once while scanning. Hashing, exiftool and sharp overlap, database writes don't.
+const SCAN_CONCURRENCY = Math.max(1, parseInt(process.env.SCAN_CONCURRENCY || String(Math.min(os.cpus().length, 4))) || 1);
+
+console.log(`Duplicate scan running? ${DUPLICATE_SCAN_ENABLED ? "true" : "false"}`);
+
+// Global scan lock to prevent concurrent scans
+let isScanningInProgress = false;
+const scanQueue: (() => void)[] = [];
+
 // Track folder operation state to prevent race conditions
 const deletingFolderPaths = new Set<string>();
 let currentScanningFolderPath: string | null = null;
 
+// Files we're writing metadata to right now (their DB hash is updated after the write)
+const metadataWritesInProgress = new Set<string>();
+
+/**
+ * Check if we're currently writing metadata to a file
+ * The file watcher waits for these so it doesn't index a file halfway through its rehash.
+ */
+export function isMetadataWriteInProgress(filePath: string): boolean {
+  return metadataWritesInProgress.has(filePath);
+}
+
+/**
+ * Run a task that creates or writes to a file, keeping the watcher from indexing it halfway
+ */
+export async function whileWritingFile<T>(filePath: string, task: () => Promise<T>): Promise<T> {
+  metadataWritesInProgress.add(filePath);
+  try {
+    return await task();
+  } finally {
+    metadataWritesInProgress.delete(filePath);
+  }
+}
+
 /**
  * Check if a folder is currently being deleted
  */
@@ -49,569 +80,1287 @@ export async function waitForFolderScanComplete(folderPath: string): Promise<voi
   }
 }
 
-// Acquire scan lock, waiting if necessary
-async function acquireScanLock(wait: boolean = true): Promise<boolean> {
-  if (!isScanningInProgress) {
-    isScanningInProgress = true;
-    return true;
-  }
-
-  if (!wait) {
-    return false; // Don't wait, just skip
-  }
-
-  // Wait for lock to be released - add to queue
-  console.log(`Waiting for ongoing scan to complete... (${scanQueue.length + 1} in queue)`);
-  await new Promise<void>(resolve => {
-    scanQueue.push(resolve);
-  });
-
-  isScanningInProgress = true;
-  return true;
-}
-
-// Release scan lock and notify next waiter in queue
-function releaseScanLock(): void {
-  isScanningInProgress = false;
-  if (scanQueue.length > 0) {
-    const nextResolve = scanQueue.shift()!;
-    nextResolve();
-  }
-}
-
-/**
- * Scan a folder for images and add them to the database
- * @param folder - Folder to scan
- * @param waitForLock - If true, waits for ongoing scans. If false, skips if scan in progress
- */
-export async function scanFolder(folder: Folder, waitForLock: boolean = true): Promise<number> {
+// Database writes for indexed files, chained so parallel workers apply them one at a time
+let indexWriteChain: Promise<unknown> = Promise.resolve();
+
+// Thumbnails being generated, by file hash (copies of a file share one thumbnail)
+const thumbnailsInProgress = new Map<string, ReturnType<typeof generateThumbnail>>();
+
+/**
+ * Run database writes for a file after every write queued before it
+ * Keeps parallel workers from claiming the same moved row or grouping duplicates against
+ * each other's half-written images, and avoids deadlocks between tag transactions.
+ */
+function serializeIndexWrite<T>(write: () => Promise<T>): Promise<T> {
+  const result = indexWriteChain.then(write);
+  indexWriteChain = result.catch(() => undefined);
+  return result;
+}
+
+// Generate a thumbnail (and preview clip for videos), sharing the work with any worker already generating it for the same content
+function generateThumbnailOnce(filePath: string, fileHash: string): ReturnType<typeof generateThumbnail> {
+  let pending = thumbnailsInProgress.get(fileHash);
+  if (!pending) {
+    pending = generateThumbnail(filePath, fileHash)
+      .then(async hashes => {
+        await generatePreview(filePath, fileHash);
+        return hashes;
+      })
+      .finally(() => thumbnailsInProgress.delete(fileHash));
+    thumbnailsInProgress.set(fileHash, pending);
+  }
+  return pending;
+}
+
+/**
+ * Run a task for each item with up to SCAN_CONCURRENCY running at once
+ * @param shouldStop Checked before each item is started, running tasks are allowed to finish
+ * @returns false if stopped before every item was started
+ */
+async function forEachConcurrently<T>(
+  items: T[],
+  task: (item: T) => Promise<void>,
+  shouldStop: () => boolean = () => false
+): Promise<boolean> {
+  let next = 0;
+  let stopped = false;
+
+  const worker = async () => {
+    while (next < items.length && !stopped) {
+      if (shouldStop()) {
+        stopped = true;
+        break;
+      }
+      await task(items[next++]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(SCAN_CONCURRENCY, items.length) }, worker));
+  return !stopped;
+}
+
+// Acquire scan lock, waiting if necessary
+async function acquireScanLock(wait: boolean = true): Promise<boolean> {
+  if (!isScanningInProgress) {
+    isScanningInProgress = true;
+    return true;
+  }
+
+  if (!wait) {
+    return false; // Don't wait, just skip
+  }
+
+  // Wait for lock to be released - add to queue
+  console.log(`Waiting for ongoing scan to complete... (${scanQueue.length + 1} in queue)`);
+  await new Promise<void>(resolve => {
+    scanQueue.push(resolve);
+  });
+
+  isScanningInProgress = true;
+  return true;
+}
+
+// Release scan lock and notify next waiter in queue
+function releaseScanLock(): void {
+  isScanningInProgress = false;
+  if (scanQueue.length > 0) {
+    const nextResolve = scanQueue.shift()!;
+    nextResolve();
+  }
+}
+
+/**
+ * Scan a folder for images and add them to the database
+ * @param folder - Folder to scan
+ * @param waitForLock - If true, waits for ongoing scans. If false, skips if scan in progress
+ * @param progress - Progress reporting when run as a job (the scan stops early if the job is cancelled)
+ */
+export async function scanFolder(folder: Folder, waitForLock: boolean = true, progress?: JobProgress): Promise<number> {
   // Check if folder is being deleted - don't start scan
   if (isFolderBeingDeleted(folder.path)) {
     console.log(`Skipping scan of ${folder.path} - folder is being deleted`);
     return 0;
   }
 
-  // Acquire lock
-  const acquired = await acquireScanLock(waitForLock);
-  if (!acquired) {
-    console.log(`Skipping scan of ${folder.path} - another scan in progress`);
-    return 0;
-  }
-
+  // Acquire lock
+  const acquired = await acquireScanLock(waitForLock);
+  if (!acquired) {
+    console.log(`Skipping scan of ${folder.path} - another scan in progress`);
+    return 0;
+  }
+
   // Track which folder we're scanning
   currentScanningFolderPath = folder.path;
 
-  try {
-    console.log(`Scanning folder: ${folder.path} (recursive: ${folder.do_recurse ? "true" : "false"})`);
-
-    let addedCount = 0;
-    const files = await findImageFiles(folder.path, folder.do_recurse);
-
-    for (const filePath of files) {
+  try {
+    console.log(`Scanning folder: ${folder.path} (recursive: ${folder.do_recurse ? "true" : "false"})`);
+
+    let addedCount = 0;
+    const sidecars: string[] = [];
+    const files = await findImageFiles(folder.path, folder.do_recurse, folder, sidecars);
+    const folders = await getAllFolders();
+    progress?.addTotal(files.length);
+
+    const completed = await forEachConcurrently(files, async (filePath) => {
+      try {
+        const added = await processFile(filePath, folders);
+        if (added) addedCount++;
+        progress?.advance();
+      } catch {
+        // processFile logs its own errors
+        progress?.advance(true);
+      }
+    }, () => {
       // Check if folder deletion was requested - abort scan early
       if (isFolderBeingDeleted(folder.path)) {
         console.log(`Aborting scan of ${folder.path} - folder deletion requested`);
-        break;
+        return true;
+      }
+      if (progress?.isCancelled()) {
+        console.log(`Aborting scan of ${folder.path} - cancelled`);
+        return true;
       }
+      return false;
+    });
 
-      try {
-        const added = await processFile(filePath);
-        if (added) addedCount++;
-      } catch (error) {
-        console.error(`Error processing ${filePath}:`, error);
-      }
-    }
-
-    // Only update timestamp if we weren't interrupted by deletion
-    if (!isFolderBeingDeleted(folder.path)) {
+    // Sidecars written or edited since the last scan, for images that were already indexed
+    if (completed && folder.sidecars !== 'off' && folder.last_scanned_at) {
+      const lastScannedAt = new Date(folder.last_scanned_at).getTime();
+      const changedSidecars: string[] = [];
+      for (const sidecarPath of sidecars) {
+        const stats = await fs.stat(sidecarPath).catch(() => null);
+        if (stats && stats.mtimeMs > lastScannedAt) changedSidecars.push(sidecarPath);
+      }
+      await rereadSidecars(changedSidecars, progress);
+    }
+
+    // Only update timestamp if we weren't interrupted by deletion or cancellation
+    if (completed) {
       await execute(
         'UPDATE folders SET last_scanned_at = NOW() WHERE id = ?',
         [folder.id]
       );
     }
-
-    console.log(`Scan complete: ${addedCount} new images added from ${folder.path}`);
-    return addedCount;
-  } finally {
+
+    console.log(`Scan complete: ${addedCount} new images added from ${folder.path}`);
+    return addedCount;
+  } finally {
     currentScanningFolderPath = null;
-    releaseScanLock();
-  }
-}
-
-// Find all image files in a directory
-async function findImageFiles(dirPath: string, recursive: boolean | string): Promise<string[]> {
-  const files: string[] = [];
-  // i hate javascript, apparently those param types aren't enforced at all
-  recursive = recursive === true || recursive === 'true' || Number(recursive) === 1;
-  
-  try {
-    const entries = await fs.readdir(dirPath, { withFileTypes: true });
-
-    for (const entry of entries) {
-      const fullPath = path.join(dirPath, entry.name);
-
-      if (entry.isDirectory() && recursive) {
-        // Recursively scan subdirectories
-        const subFiles = await findImageFiles(fullPath, recursive);
-        files.push(...subFiles);
-      } else if (entry.isFile()) {
-        const ext = path.extname(entry.name).toLowerCase();
-        if (SUPPORTED_EXTENSIONS.includes(ext)) {
-          files.push(fullPath);
-        }
-      }
-    }
-  } catch (error) {
-    console.error(`Error reading directory ${dirPath}:`, error);
-  }
-
-  return files;
-}
-
-// Process a single file and add it to the database
-async function processFile(filePath: string): Promise<boolean> {
-  try {
-    // Check if file exists and get stats
-    const stats = await fs.stat(filePath);
-    if (!stats.isFile()) return false;
-
-    // Check if image already exists in database
-    const existing = await queryOne<Image>(
-      'SELECT id, file_hash, file_size FROM images WHERE file_path = ?',
-      [filePath]
-    );
-
-    // Quick check: if file exists in DB with same size, skip (no hash needed)
-    // This makes periodic scans much faster for unchanged files
-    if (existing && existing.file_size === stats.size) {
-      return false; // Not added (unchanged)
-    }
-
-    // Calculate file hash (only for new or changed files)
-    const fileHash = await calculateFileHash(filePath);
-
-    // Double-check with hash if file existed but size changed
-    if (existing && existing.file_hash === fileHash) {
-      // Size changed but hash same (unlikely, but possible with metadata changes)
-      // Update the file_size in DB
-      await execute('UPDATE images SET file_size = ? WHERE id = ?', [stats.size, existing.id]);
-      return false;
-    }
-
-    // Extract metadata
-    const metadata = await extractMetadata(filePath);
-
-    // If file exists but hash changed, delete old entry
-    if (existing) {
-      await deleteImage(existing.id);
-    }
-
-    // Generate thumbnail and get multi-resolution dHashes
-    const contentHashes = await generateThumbnail(filePath, fileHash);
-
-    // Truncate source to fit VARCHAR(255) - don't save truncated value back to file
-    const truncatedSource = metadata.source && metadata.source.length > 255
-      ? metadata.source.substring(0, 252) + '...'
-      : metadata.source || null;
-
-    // Insert image first (we need the ID to compare with duplicates)
-    const result = await execute(
-      `INSERT INTO images
-        (file_path, filename, file_type, file_size, file_hash, content_hash_600, content_hash_800, content_hash_1400, width, height, artist, rating, source, created_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      [
-        filePath,
-        path.basename(filePath),
-        path.extname(filePath).toLowerCase().substring(1), // Remove leading dot
-        stats.size,
-        fileHash,
-        contentHashes.hash600,
-        contentHashes.hash800,
-        contentHashes.hash1400,
-        metadata.width || 0,
-        metadata.height || 0,
-        metadata.artist || null,
-        metadata.rating || null,
-        truncatedSource,
-        metadata.date || new Date()
-      ]
-    );
-
-    const imageId = result.insertId;
-
-    // Add initial tags (normalized to lowercase for consistency)
-    const normalizedTags = metadata.tags.map(t => t.toLowerCase());
-    if (normalizedTags.length > 0) {
-      await addTagsToImage(imageId, normalizedTags);
-    }
-
-    if (DUPLICATE_SCAN_ENABLED) {
-      // Check for duplicates by matching ANY of the 3 content hashes
-      // Order by resolution DESC, then file_size DESC as tie-breaker
-      const duplicates = await query<Image>(
-        `SELECT id, width, height, file_size, file_path FROM images
-         WHERE (content_hash_600 = ? OR content_hash_800 = ? OR content_hash_1400 = ?)
-         ORDER BY (width * height) DESC, file_size DESC`,
-        [contentHashes.hash600, contentHashes.hash800, contentHashes.hash1400]
-      );
-
-      if (duplicates.length > 1) {
-        console.log(`Duplicate detected: ${duplicates.length} images with same content`);
-
-        // Check if any of these duplicates already belongs to a group
-        const duplicateIds = duplicates.map(d => d.id);
-        const existingGroupItem = await queryOne<{ prime_id: number }>(
-          `SELECT prime_id FROM duplicate_groups WHERE image_id IN (${duplicateIds.map(() => '?').join(',')}) LIMIT 1`,
-          duplicateIds
-        );
-
-        let primeImage: Image;
-        let allGroupMembers: Image[] = [...duplicates];
-
-        if (existingGroupItem) {
-          // Get existing prime's details
-          const existingPrime = await queryOne<Image>(
-            'SELECT id, width, height, file_size, file_path FROM images WHERE id = ?',
-            [existingGroupItem.prime_id]
-          );
-
-          if (existingPrime) {
-            // Get all existing group members
-            const existingMembers = await query<Image>(
-              `SELECT i.id, i.width, i.height, i.file_path FROM images i
-               JOIN duplicate_groups dg ON i.id = dg.image_id
-               WHERE dg.prime_id = ?`,
-              [existingGroupItem.prime_id]
-            );
-
-            // Merge with newly found duplicates (avoid duplicates in the list)
-            for (const member of existingMembers) {
-              if (!allGroupMembers.find(m => m.id === member.id)) {
-                allGroupMembers.push(member);
-              }
-            }
-
-            // Compare new image against existing prime only
-            const newImage = duplicates.find(d => d.id === imageId)!;
-            const newResolution = newImage.width * newImage.height;
-            const primeResolution = existingPrime.width * existingPrime.height;
-
-            // New image is better if: higher resolution, or same resolution but larger filesize
-            const newIsBetter = newResolution > primeResolution ||
-              (newResolution === primeResolution && newImage.file_size > existingPrime.file_size);
-
-            if (newIsBetter) {
-              // New image is better, becomes new prime
-              primeImage = newImage;
-              //console.log(`New prime: ID ${primeImage.id} (${primeImage.width}x${primeImage.height}) replaces ID ${existingPrime.id}`);
-            } else {
-              // Existing prime stays
-              primeImage = existingPrime;
-              //console.log(`Existing prime: ID ${primeImage.id} (${primeImage.width}x${primeImage.height})`);
-            }
-          } else {
-            // Existing prime was deleted, use best from current sorted duplicates
-            primeImage = duplicates[0];
-            //console.log(`New prime (old deleted): ID ${primeImage.id} (${primeImage.width}x${primeImage.height})`);
-          }
-        } else {
-          // No existing group, first duplicate is best bcs we sorted by resolution earlier
-          primeImage = duplicates[0];
-          //console.log(`Best quality version: ID ${primeImage.id} (${primeImage.width}x${primeImage.height})`);
-        }
-
-        // Update duplicate_groups for all members
-        for (const img of allGroupMembers) {
-          await execute(
-            `INSERT INTO duplicate_groups (image_id, prime_id) VALUES (?, ?)
-             ON DUPLICATE KEY UPDATE prime_id = ?`,
-            [img.id, primeImage.id, primeImage.id]
-          );
-        }
-
-        // Collect all tags from all duplicates
-        const allTags = new Set<string>();
-        for (const img of allGroupMembers) {
-          const tags = await query<{ name: string }>(
-            `SELECT t.name FROM tags t
-             JOIN image_tags it ON t.id = it.tag_id
-             WHERE it.image_id = ?`,
-            [img.id]
-          );
-          tags.forEach(t => allTags.add(t.name));
-        }
-
-        // Add duplicate_image tag
-        allTags.add('duplicate_image');
-
-        // Apply merged tags to the prime
-        await addTagsToImage(primeImage.id, Array.from(allTags));
-
-        // For all other versions, just add duplicate_image tag
-        for (const img of allGroupMembers) {
-          if (img.id !== primeImage.id) {
-            await addTagsToImage(img.id, ['duplicate_image']);
-          }
-        }
-      }
-    }
-
-    console.log(`Added: ${path.basename(filePath)} (${metadata.tags.length} tags) as ID ${imageId}`);
-
-    // Fire plugin hook for new image
-    pluginRegistry.runHook('onImageScanned', {
-      id: imageId,
-      file_path: filePath,
-      filename: path.basename(filePath),
-      file_type: path.extname(filePath).toLowerCase().substring(1),
-      file_size: stats.size,
-      file_hash: fileHash,
-      content_hash_600: contentHashes.hash600,
-      content_hash_800: contentHashes.hash800,
-      content_hash_1400: contentHashes.hash1400,
-      width: metadata.width || 0,
-      height: metadata.height || 0,
-      artist: metadata.artist || undefined,
-      rating: metadata.rating || undefined,
-      source: metadata.source || undefined,
+    releaseScanLock();
+  }
+}
+
+/**
+ * Bring the database in line with paths that changed inside a folder
+ * Used by the file watcher instead of a full scan. Existing files are indexed (or reindexed),
+ * new directories are walked if the folder is recursive, and anything at a missing path
+ * (a file or a whole directory) is removed.
+ */
+export async function syncChangedPaths(folder: Folder, paths: string[]): Promise<{ added: number; removed: number }> {
+  const result = { added: 0, removed: 0 };
+  if (isFolderBeingDeleted(folder.path)) return result;
+
+  await acquireScanLock(true);
+  try {
+    // A file and its directory can both be reported, so collect each file once
+    const presentFiles = new Set<string>();
+    const changedSidecars: string[] = [];
+    const missingPaths: string[] = [];
+
+    for (const changedPath of paths) {
+      try {
+        const stats = await fs.stat(changedPath);
+        if (stats.isDirectory()) {
+          if (isRecursive(folder.do_recurse)) {
+            for (const filePath of await findImageFiles(changedPath, true, folder, changedSidecars)) presentFiles.add(filePath);
+          }
+        } else if (stats.isFile() && isSidecarPath(changedPath)) {
+          changedSidecars.push(changedPath);
+        } else if (
+          stats.isFile() &&
+          SUPPORTED_EXTENSIONS.includes(path.extname(changedPath).toLowerCase()) &&
+          isIncludedInFolder(folder, changedPath)
+        ) {
+          presentFiles.add(changedPath);
+        }
+      } catch {
+        missingPaths.push(changedPath);
+      }
+    }
+
+    // Index new paths before removing old ones, so a moved file is matched to its old row
+    const folders = await getAllFolders();
+    const completed = await forEachConcurrently([...presentFiles], async (filePath) => {
+      try {
+        if (await processFile(filePath, folders)) result.added++;
+      } catch {
+        // processFile logs its own errors
+      }
+    }, () => isFolderBeingDeleted(folder.path));
+    if (!completed) return result;
+
+    // A sidecar written after its image (or edited later) updates the image it belongs to
+    if (folder.sidecars !== 'off') {
+      await rereadSidecars(changedSidecars);
+    }
+
+    for (const missingPath of missingPaths) {
+      const images = await query<{ id: number }>(
+        'SELECT id FROM images WHERE file_path = ? OR file_path LIKE ?',
+        [missingPath, `${missingPath}/%`]
+      );
+      for (const image of images) {
+        await deleteImage(image.id);
+        result.removed++;
+      }
+    }
+
+    return result;
+  } finally {
+    releaseScanLock();
+  }
+}
+
+/**
+ * Find an image with the given file hash whose file no longer exists on disk
+ * Scans index new paths before cleaning up missing ones, so a moved file still has its old row.
+ */
+async function findVanishedImage(fileHash: string): Promise<{ id: number; file_path: string } | null> {
+  const candidates = await query<{ id: number; file_path: string }>(
+    'SELECT id, file_path FROM images WHERE file_hash = ? ORDER BY id',
+    [fileHash]
+  );
+
+  for (const candidate of candidates) {
+    try {
+      await fs.access(candidate.file_path);
+    } catch {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+/**
+ * Read a folder's do_recurse flag, which comes back from MySQL as 0/1 (or from old rows as a string)
+ */
+export function isRecursive(value: boolean | string | number): boolean {
+  return value === true || value === 'true' || Number(value) === 1;
+}
+
+/**
+ * Find all image files in a directory that the folder's include/exclude patterns let through
+ * @param sidecars Collects the sidecar files found on the way, if given
+ */
+async function findImageFiles(dirPath: string, recursive: boolean | string, folder: Folder, sidecars?: string[]): Promise<string[]> {
+  const files: string[] = [];
+  // i hate javascript, apparently those param types aren't enforced at all
+  recursive = isRecursive(recursive);
+  
+  try {
+    const entries = await fs.readdir(dirPath, { withFileTypes: true });
+
+    for (const entry of entries) {
+      const fullPath = path.join(dirPath, entry.name);
+
+      if (entry.isDirectory() && recursive) {
+        // Recursively scan subdirectories
+        const subFiles = await findImageFiles(fullPath, recursive, folder, sidecars);
+        files.push(...subFiles);
+      } else if (entry.isFile()) {
+        const ext = path.extname(entry.name).toLowerCase();
+        if (SUPPORTED_EXTENSIONS.includes(ext) && isIncludedInFolder(folder, fullPath)) {
+          files.push(fullPath);
+        } else if (sidecars && isSidecarPath(fullPath)) {
+          sidecars.push(fullPath);
+        }
+      }
+    }
+  } catch (error) {
+    console.error(`Error reading directory ${dirPath}:`, error);
+  }
+
+  return files;
+}
+
+// Read video metadata, leaving it empty for files ffprobe can't read (the file is still indexed)
+async function probeVideoSafely(filePath: string): Promise<VideoInfo | null> {
+  try {
+    return await probeVideo(filePath);
+  } catch (error) {
+    console.error(`Failed to read video metadata for ${filePath}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Index a single file right away, without waiting for the watcher or a scan (used for uploads)
+ * @returns The image's ID, or null if the file couldn't be indexed
+ */
+export async function indexFile(filePath: string): Promise<number | null> {
+  await processFile(filePath);
+  const image = await queryOne<{ id: number }>('SELECT id FROM images WHERE file_path = ?', [filePath]);
+  return image?.id ?? null;
+}
+
+/**
+ * Process a single file and add it to the database
+ * @param folders Every configured folder, loaded once per scan (looked up if not given)
+ */
+async function processFile(filePath: string, folders?: Folder[]): Promise<boolean> {
+  try {
+    // Check if file exists and get stats
+    const stats = await fs.stat(filePath);
+    if (!stats.isFile()) return false;
+
+    // Check if image already exists in database
+    const existing = await queryOne<Image>(
+      'SELECT id, file_hash, file_size FROM images WHERE file_path = ?',
+      [filePath]
+    );
+
+    // Quick check: if file exists in DB with same size, skip (no hash needed)
+    // This makes periodic scans much faster for unchanged files
+    if (existing && existing.file_size === stats.size) {
+      return false; // Not added (unchanged)
+    }
+
+    // Calculate file hash (only for new or changed files)
+    const fileHash = await calculateFileHash(filePath);
+
+    // Double-check with hash if file existed but size changed
+    if (existing && existing.file_hash === fileHash) {
+      // Size changed but hash same (unlikely, but possible with metadata changes)
+      // Update the file_size in DB
+      await execute('UPDATE images SET file_size = ? WHERE id = ?', [stats.size, existing.id]);
+      return false;
+    }
+
+    folders ??= await getAllFolders();
+    const folder = await getFolderForPath(filePath, folders);
+
+    // A new path with the same content as an image whose file is gone is a move or rename:
+    // update that row in place so its tags, history, pools and favorites stay attached
+    if (!existing) {
+      const moved = await serializeIndexWrite(async () => {
+        const vanished = await findVanishedImage(fileHash);
+        if (vanished) {
+          await execute(
+            'UPDATE images SET file_path = ?, filename = ?, file_type = ?, updated_at = NOW() WHERE id = ?',
+            [filePath, path.basename(filePath), path.extname(filePath).toLowerCase().substring(1), vanished.id]
+          );
+          // Moving into another folder gives the image that folder's defaults, as if it had been indexed there
+          const previousFolder = await getFolderForPath(vanished.file_path, folders);
+          if (folder && folder.id !== previousFolder?.id) {
+            await applyFolderDefaults(vanished.id, folder);
+          }
+        }
+        return vanished;
+      });
+      if (moved) {
+        console.log(`Detected move: ${moved.file_path} -> ${filePath}`);
+        return false;
+      }
+    }
+
+    // Extract metadata, merged with any sidecar files and the folder's default tags and rating
+    const metadata = await withSidecarMetadata(filePath, await extractMetadata(filePath), folder?.sidecars ?? 'off');
+    if (folder) {
+      metadata.tags.push(...folder.default_tags.filter(tag => !metadata.tags.includes(tag)));
+      metadata.rating ??= folder.default_rating ?? undefined;
+    }
+    const videoInfo = await probeVideoSafely(filePath);
+
+    // Generate thumbnail and get multi-resolution dHashes
+    const contentHashes = await generateThumbnailOnce(filePath, fileHash);
+    // Videos also get a hash per frame, so re-encoded or trimmed copies can be grouped
+    const videoHashes = DUPLICATE_SCAN_ENABLED ? await generateVideoHashes(filePath) : [];
+
+    // Truncate source to fit VARCHAR(255) - don't save truncated value back to file
+    const truncatedSource = metadata.source && metadata.source.length > 255
+      ? metadata.source.substring(0, 252) + '...'
+      : metadata.source || null;
+
+    const imageId = await serializeIndexWrite(async () => {
+      // If file exists but hash changed, delete old entry
+      if (existing) {
+        await deleteImage(existing.id);
+      }
+
+      // Insert image first (we need the ID to compare with duplicates)
+      const result = await execute(
+        `INSERT INTO images
+          (file_path, filename, file_type, file_size, file_hash, content_hash_600, content_hash_800, content_hash_1400, video_hashes,
+           width, height, duration, fps, video_codec, has_audio, artist, rating, source, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          filePath,
+          path.basename(filePath),
+          path.extname(filePath).toLowerCase().substring(1), // Remove leading dot
+          stats.size,
+          fileHash,
+          contentHashes.hash600,
+          contentHashes.hash800,
+          contentHashes.hash1400,
+          videoHashes.length > 0 ? videoHashes.join(',') : null,
+          metadata.width || 0,
+          metadata.height || 0,
+          videoInfo?.duration ?? null,
+          videoInfo?.fps ?? null,
+          videoInfo?.video_codec ?? null,
+          videoInfo ? videoInfo.has_audio : null,
+          metadata.artist || null,
+          metadata.rating || null,
+          truncatedSource,
+          metadata.date || new Date()
+        ]
+      );
+
+      addToSimilarityIndex(result.insertId, contentHashes, videoHashes);
+
+      // Add initial tags (normalized to lowercase for consistency)
+      const normalizedTags = metadata.tags.map(t => t.toLowerCase());
+      if (normalizedTags.length > 0) {
+        await addTagsToImage(result.insertId, normalizedTags);
+      }
+
+      // Record the tags and rating imported from the file's metadata
+      await recordChangeSince(result.insertId, EMPTY_SNAPSHOT, { source: 'scanner' });
+
+      if (DUPLICATE_SCAN_ENABLED) {
+        await groupDuplicates(result.insertId);
+      }
+
+      return result.insertId;
+    });
+
+    console.log(`Added: ${path.basename(filePath)} (${metadata.tags.length} tags) as ID ${imageId}`);
+
+    // Fire plugin hook for new image
+    pluginRegistry.runHook('onImageScanned', {
+      id: imageId,
+      file_path: filePath,
+      filename: path.basename(filePath),
+      file_type: path.extname(filePath).toLowerCase().substring(1),
+      file_size: stats.size,
+      file_hash: fileHash,
+      content_hash_600: contentHashes.hash600,
+      content_hash_800: contentHashes.hash800,
+      content_hash_1400: contentHashes.hash1400,
+      width: metadata.width || 0,
+      height: metadata.height || 0,
+      artist: metadata.artist || undefined,
+      rating: metadata.rating || undefined,
+      source: metadata.source || undefined,
       tags: metadata.tags,
-      created_at: metadata.date || new Date(),
-      updated_at: new Date(),
-    } as Image);
-
-    return true;
-  } catch (error) {
-    console.error(`Failed to process ${filePath}:`, error);
-    return false;
-  }
-}
-
-// Remove tags from an image
-export async function removeTagsFromImage(imageId: number, tagNames: string[]): Promise<void> {
-  if (tagNames.length === 0) return;
-
-  await transaction(async (conn) => {
-    for (const tagName of tagNames) {
-      const [tagRows] = await conn.query<any[]>('SELECT id FROM tags WHERE name = ?', [tagName]);
-      if (tagRows.length > 0) {
-        const tagId = tagRows[0].id;
-        const [result] = await conn.query<any>('DELETE FROM image_tags WHERE image_id = ? AND tag_id = ?', [imageId, tagId]);
-        if (result.affectedRows > 0) {
-          await conn.query('UPDATE tags SET count = count - 1 WHERE id = ?', [tagId]);
-          await conn.query('DELETE FROM tags WHERE id = ? AND count <= 0', [tagId]);
-        }
-      }
-    }
-  });
-}
-
-// Add tags to an image
-export async function addTagsToImage(imageId: number, tagNames: string[]): Promise<void> {
-  await transaction(async (conn) => {
-    for (const tagName of tagNames) {
-      // Insert tag if it doesn't exist (start at count 0)
-      await conn.query(
-        'INSERT IGNORE INTO tags (name, count) VALUES (?, 0)',
-        [tagName]
-      );
-
-      // Get tag ID
-      const [tagRows] = await conn.query<any[]>(
-        'SELECT id FROM tags WHERE name = ?',
-        [tagName]
-      );
-
-      if (tagRows.length > 0) {
-        const tagId = tagRows[0].id;
-
-        // Link image to tag (only if not already linked)
-        const [result] = await conn.query<any>(
-          'INSERT IGNORE INTO image_tags (image_id, tag_id) VALUES (?, ?)',
-          [imageId, tagId]
-        );
-
-        // Only increment count if a new relationship was created
-        if (result.affectedRows > 0) {
-          await conn.query('UPDATE tags SET count = count + 1 WHERE id = ?', [tagId]);
-        }
-      }
-    }
-  });
-}
-
-/**
- * Delete an image and its associations
- * Handles duplicate group cleanup: elects new prime or removes group if needed
- */
-export async function deleteImage(imageId: number): Promise<void> {
-  const image = await queryOne<Image>(
-    'SELECT file_hash FROM images WHERE id = ?',
-    [imageId]
-  );
-
-  if (!image) return;
-
-  // Fire plugin hook before deletion
-  pluginRegistry.runHook('onImageDeleted', imageId);
-
-  // Quick check: is this image a prime? (fast query on indexed column)
-  const groupMemberIds = await query<{ image_id: number }>(
-    'SELECT image_id FROM duplicate_groups WHERE prime_id = ?',
-    [imageId]
-  );
-
-  let nonPrimeEntry: { prime_id: number } | null = null;
-
-  if (groupMemberIds.length > 0) {
-    // This image is a prime with other members - need to handle group
-    if (groupMemberIds.length > 2) {
-      // 2+ non-prime members remain: get their details to find new prime
-      const ids = groupMemberIds.map(m => m.image_id).filter(id => id !== imageId);
-      const members = await query<Image>(
+      created_at: metadata.date || new Date(),
+      updated_at: new Date(),
+    } as Image);
+
+    return true;
+  } catch (error) {
+    console.error(`Failed to process ${filePath}:`, error);
+    throw error; // Callers count and skip failed files
+  }
+}
+
+/**
+ * Add a folder's default tags to an image, and its default rating if the image has none
+ */
+async function applyFolderDefaults(imageId: number, folder: Folder): Promise<void> {
+  const before = await snapshotImage(imageId);
+  if (!before) return;
+
+  await addTagsToImage(imageId, folder.default_tags);
+  if (folder.default_rating && before.rating === null) {
+    await execute('UPDATE images SET rating = ? WHERE id = ?', [folder.default_rating, imageId]);
+  }
+  await recordChangeSince(imageId, before, { source: 'scanner' });
+}
+
+/**
+ * Find the indexed images a sidecar belongs to (image.jpg.txt -> image.jpg, image.txt -> image.jpg and image.png)
+ */
+async function findSidecarImages(sidecarPath: string): Promise<{ id: number; file_path: string }[]> {
+  const base = sidecarPath.slice(0, sidecarPath.length - path.extname(sidecarPath).length);
+  const candidates = await query<{ id: number; file_path: string }>(
+    "SELECT id, file_path FROM images WHERE file_path = ? OR file_path LIKE ? ESCAPE '\\\\'",
+    [base, base.replace(/[\\%_]/g, '\\$&') + '.%']
+  );
+  return candidates.filter(image => isSidecarOf(sidecarPath, image.file_path));
+}
+
+/**
+ * Merge an indexed image's sidecars into it again
+ * Like on import, sidecar tags are added (never removed) and a sidecar's rating, source
+ * or artist replaces the image's own.
+ * @returns true if anything changed
+ */
+async function applySidecarsToImage(imageId: number, filePath: string, mode: SidecarMode): Promise<boolean> {
+  const sidecar = await withSidecarMetadata(filePath, { tags: [] }, mode);
+
+  return serializeIndexWrite(async () => {
+    const before = await snapshotImage(imageId);
+    if (!before) return false; // Deleted in the meantime
+
+    await addTagsToImage(imageId, sidecar.tags.map(tag => tag.toLowerCase()));
+
+    const updates: string[] = [];
+    const params: any[] = [];
+    if (sidecar.rating !== undefined && sidecar.rating !== before.rating) {
+      updates.push('rating = ?');
+      params.push(sidecar.rating);
+    }
+    if (sidecar.source !== undefined) {
+      updates.push('source = ?');
+      params.push(sidecar.source.length > 255 ? sidecar.source.substring(0, 252) + '...' : sidecar.source);
+    }
+    if (sidecar.artist !== undefined) {
+      updates.push('artist = ?');
+      params.push(sidecar.artist);
+    }
+    let fieldsChanged = false;
+    if (updates.length > 0) {
+      // changedRows leaves out the row if every value was already the same
+      const result = await execute(`UPDATE images SET ${updates.join(', ')} WHERE id = ?`, [...params, imageId]);
+      fieldsChanged = result.changedRows > 0;
+    }
+
+    const historyId = await recordChangeSince(imageId, before, { source: 'scanner' });
+    return historyId !== null || fieldsChanged;
+  });
+}
+
+/**
+ * Re-read sidecars that were added or edited after their images were indexed
+ * Each image is updated once, however many of its sidecars changed. Sidecars are only read
+ * for images in folders that read them.
+ * @returns Number of images that changed
+ */
+async function rereadSidecars(sidecarPaths: string[], progress?: JobProgress): Promise<number> {
+  const images = new Map<number, string>();
+  for (const sidecarPath of sidecarPaths) {
+    for (const image of await findSidecarImages(sidecarPath)) {
+      images.set(image.id, image.file_path);
+    }
+  }
+  if (images.size === 0) return 0;
+
+  const folders = await getAllFolders();
+  progress?.addTotal(images.size);
+
+  let updatedCount = 0;
+  await forEachConcurrently([...images], async ([imageId, filePath]) => {
+    try {
+      const mode = (await getFolderForPath(filePath, folders))?.sidecars ?? 'off';
+      if (mode !== 'off' && await applySidecarsToImage(imageId, filePath, mode)) {
+        updatedCount++;
+        console.log(`Updated ${path.basename(filePath)} from its sidecars`);
+      }
+      progress?.advance();
+    } catch (error) {
+      console.error(`Failed to read sidecars of ${filePath}:`, error);
+      progress?.advance(true);
+    }
+  }, () => progress?.isCancelled() ?? false);
+
+  return updatedCount;
+}
+
+/**
+ * Re-read every sidecar in a folder, e.g. after the folder was switched to reading them
+ */
+export async function rereadFolderSidecars(folder: Folder, progress?: JobProgress): Promise<number> {
+  await acquireScanLock(true);
+  try {
+    const sidecars: string[] = [];
+    await findImageFiles(folder.path, folder.do_recurse, folder, sidecars);
+    const updatedCount = await rereadSidecars(sidecars, progress);
+    console.log(`Sidecars re-read: ${updatedCount} images updated in ${folder.path}`);
+    return updatedCount;
+  } finally {
+    releaseScanLock();
+  }
+}
+
+/**
+ * Group an image with every image whose content hashes are within DUPLICATE_DISTANCE of its own
+ * The image must already be in the similarity index. The best version (highest resolution, then
+ * largest file) becomes the group's prime and gets every member's tags, the others are tagged duplicate_image.
+ * Matches already spread over several groups bring those groups together into one, which goes back to review.
+ */
+async function groupDuplicates(imageId: number): Promise<boolean> {
+  // Near matches on ANY of the 3 content hashes, so cropped or recompressed copies are caught too
+  const matchIds = await dropExcludedPairs(imageId, findSimilarImages(imageId, DUPLICATE_DISTANCE).map(m => m.id));
+  if (matchIds.length === 0) return false;
+
+  // Order by resolution DESC, then file_size DESC as tie-breaker
+  const candidateIds = [imageId, ...matchIds];
+  const duplicates = await query<Image>(
+    `SELECT id, width, height, file_size, file_path FROM images
+     WHERE id IN (${candidateIds.map(() => '?').join(',')})
+     ORDER BY (width * height) DESC, file_size DESC`,
+    candidateIds
+  );
+
+  if (duplicates.length > 1) {
+    console.log(`Duplicate detected: ${duplicates.length} images with same content`);
+
+    // Every group the matches are already in is merged into one, except groups holding an image
+    // marked "not a duplicate" of one already merged (their members stay where they are)
+    const duplicateIds = duplicates.map(d => d.id);
+    const groupRows = await query<{ image_id: number; prime_id: number }>(
+      `SELECT image_id, prime_id FROM duplicate_groups
+       WHERE prime_id IN (SELECT prime_id FROM duplicate_groups WHERE image_id IN (${duplicateIds.map(() => '?').join(',')}))`,
+      duplicateIds
+    );
+    const previousPrimes = new Map(groupRows.map(row => [row.image_id, row.prime_id]));
+    const membersByPrime = new Map<number, number[]>();
+    for (const row of groupRows) {
+      if (!membersByPrime.has(row.prime_id)) membersByPrime.set(row.prime_id, []);
+      membersByPrime.get(row.prime_id)!.push(row.image_id);
+    }
+
+    const involvedIds = [...new Set([...duplicateIds, ...previousPrimes.keys()])];
+    const exclusions = await query<{ image_a: number; image_b: number }>(
+      `SELECT image_a, image_b FROM duplicate_exclusions
+       WHERE image_a IN (${involvedIds.map(() => '?').join(',')}) AND image_b IN (${involvedIds.map(() => '?').join(',')})`,
+      [...involvedIds, ...involvedIds]
+    );
+    const excludedPairs = new Set(exclusions.map(e => `${e.image_a}:${e.image_b}`));
+
+    // The image's own group (if a rescan finds it again) is always kept
+    const ownPrimeId = previousPrimes.get(imageId);
+    const mergedIds = new Set(ownPrimeId !== undefined ? membersByPrime.get(ownPrimeId) : [imageId]);
+    const isExcludedFromMerged = (ids: number[]) => ids.some(a =>
+      [...mergedIds].some(b => excludedPairs.has(a < b ? `${a}:${b}` : `${b}:${a}`))
+    );
+
+    for (const id of duplicateIds) {
+      if (!previousPrimes.has(id) && !isExcludedFromMerged([id])) mergedIds.add(id);
+    }
+    for (const [primeId, memberIds] of membersByPrime) {
+      if (primeId === ownPrimeId || isExcludedFromMerged(memberIds)) continue;
+      memberIds.forEach(id => mergedIds.add(id));
+    }
+    if (mergedIds.size < 2) return false;
+
+    const allGroupMembers = await query<Image>(
+      `SELECT id, width, height, file_size, file_path FROM images
+       WHERE id IN (${[...mergedIds].map(() => '?').join(',')})
+       ORDER BY (width * height) DESC, file_size DESC`,
+      [...mergedIds]
+    );
+
+    // The best of the current primes and the images that weren't grouped yet leads the group
+    // (copies under another prime already lost to it)
+    const primeImage = allGroupMembers.find(img => (previousPrimes.get(img.id) ?? img.id) === img.id)
+      ?? allGroupMembers[0];
+
+    // Update duplicate_groups for all members
+    for (const img of allGroupMembers) {
+      await execute(
+        `INSERT INTO duplicate_groups (image_id, prime_id) VALUES (?, ?)
+         ON DUPLICATE KEY UPDATE prime_id = ?`,
+        [img.id, primeImage.id, primeImage.id]
+      );
+    }
+
+    // A group that gained images (or merged with another) needs reviewing again
+    if (allGroupMembers.some(img => previousPrimes.get(img.id) !== primeImage.id)) {
+      await execute('UPDATE duplicate_groups SET reviewed = FALSE WHERE prime_id = ?', [primeImage.id]);
+    }
+
+    // Collect all tags from all duplicates
+    const allTags = new Set<string>();
+    for (const img of allGroupMembers) {
+      const tags = await query<{ name: string }>(
+        `SELECT t.name FROM tags t
+         JOIN image_tags it ON t.id = it.tag_id
+         WHERE it.image_id = ?`,
+        [img.id]
+      );
+      tags.forEach(t => allTags.add(t.name));
+    }
+
+    // Add duplicate_image tag
+    allTags.add('duplicate_image');
+
+    // Apply merged tags to the prime
+    await addTagsToImage(primeImage.id, Array.from(allTags));
+
+    // For all other versions, just add duplicate_image tag
+    for (const img of allGroupMembers) {
+      if (img.id !== primeImage.id) {
+        await addTagsToImage(img.id, ['duplicate_image']);
+      }
+    }
+  }
+
+  return duplicates.length > 1;
+}
+
+/**
+ * Drop matches that were marked "not a duplicate" in the duplicate review
+ * Each match is checked against the image and every closer match that was kept, so a group
+ * never ends up holding an excluded pair.
+ * @param matchIds Similar images, closest first
+ */
+async function dropExcludedPairs(imageId: number, matchIds: number[]): Promise<number[]> {
+  if (matchIds.length === 0) return [];
+
+  const ids = [imageId, ...matchIds];
+  const placeholders = ids.map(() => '?').join(',');
+  const exclusions = await query<{ image_a: number; image_b: number }>(
+    `SELECT image_a, image_b FROM duplicate_exclusions
+     WHERE image_a IN (${placeholders}) AND image_b IN (${placeholders})`,
+    [...ids, ...ids]
+  );
+  if (exclusions.length === 0) return matchIds;
+
+  const excludedPairs = new Set(exclusions.map(e => `${e.image_a}:${e.image_b}`));
+  const isExcluded = (a: number, b: number) => excludedPairs.has(a < b ? `${a}:${b}` : `${b}:${a}`);
+
+  const kept = [imageId];
+  for (const id of matchIds) {
+    if (!kept.some(k => isExcluded(k, id))) kept.push(id);
+  }
+  return kept.slice(1);
+}
+
+// Remove tags from an image (category prefixes are ignored)
+export async function removeTagsFromImage(imageId: number, tagNames: string[]): Promise<void> {
+  if (tagNames.length === 0) return;
+
+  await transaction(async (conn) => {
+    for (const rawTag of tagNames) {
+      const { name: tagName } = parseTagCategory(rawTag);
+      const [tagRows] = await conn.query<any[]>('SELECT id FROM tags WHERE name = ?', [tagName]);
+      if (tagRows.length > 0) {
+        const tagId = tagRows[0].id;
+        const [result] = await conn.query<any>('DELETE FROM image_tags WHERE image_id = ? AND tag_id = ?', [imageId, tagId]);
+        if (result.affectedRows > 0) {
+          await conn.query('UPDATE tags SET count = count - 1 WHERE id = ?', [tagId]);
+          await conn.query('DELETE FROM tags WHERE id = ? AND count <= 0', [tagId]);
+        }
+      }
+    }
+  });
+}
+
+/**
+ * Add tags to an image
+ * Tags may carry a category prefix (e.g. "character:name"). A prefixed tag sets the
+ * tag's category; an unprefixed one keeps the existing category (general for new tags).
+ * Tag aliases and implications are applied before anything is written.
+ */
+export async function addTagsToImage(imageId: number, tagNames: string[]): Promise<void> {
+  if (tagNames.length === 0) return;
+
+  const resolvedTags = await applyTagRules(tagNames);
+
+  await transaction(async (conn) => {
+    for (const rawTag of resolvedTags) {
+      const { name: tagName, category } = parseTagCategory(rawTag);
+
+      // Insert tag if it doesn't exist (start at count 0)
+      if (category) {
+        await conn.query(
+          'INSERT INTO tags (name, category, count) VALUES (?, ?, 0) ON DUPLICATE KEY UPDATE category = ?',
+          [tagName, category, category]
+        );
+      } else {
+        await conn.query(
+          'INSERT IGNORE INTO tags (name, count) VALUES (?, 0)',
+          [tagName]
+        );
+      }
+
+      // Get tag ID
+      const [tagRows] = await conn.query<any[]>(
+        'SELECT id FROM tags WHERE name = ?',
+        [tagName]
+      );
+
+      if (tagRows.length > 0) {
+        const tagId = tagRows[0].id;
+
+        // Link image to tag (only if not already linked)
+        const [result] = await conn.query<any>(
+          'INSERT IGNORE INTO image_tags (image_id, tag_id) VALUES (?, ?)',
+          [imageId, tagId]
+        );
+
+        // Only increment count if a new relationship was created
+        if (result.affectedRows > 0) {
+          await conn.query('UPDATE tags SET count = count + 1 WHERE id = ?', [tagId]);
+        }
+      }
+    }
+  });
+}
+
+/**
+ * Replace an image's tags with the given list
+ * Aliases and implications are applied first. Tags are compared by bare name, and
+ * prefixed tags are always re-added so a category change on an existing tag is applied.
+ * @returns The image's tag names after the update
+ */
+export async function setImageTags(imageId: number, tags: string[]): Promise<string[]> {
+  const resolvedTags = await applyTagRules(tags);
+  const newTagSet = new Set(resolvedTags.map(t => parseTagCategory(t).name));
+
+  const existingTagRows = await query<{ name: string }>(
+    `SELECT t.name FROM tags t
+     JOIN image_tags it ON t.id = it.tag_id
+     WHERE it.image_id = ?`,
+    [imageId]
+  );
+  const existingTagsNorm = new Set(existingTagRows.map(t => t.name.toLowerCase()));
+
+  // Compute diff (compare lowercase to lowercase)
+  const tagsToAdd = resolvedTags.filter(t => {
+    const { name, category } = parseTagCategory(t);
+    return !existingTagsNorm.has(name) || category !== undefined;
+  });
+  const tagsToRemove = existingTagRows
+    .map(t => t.name)
+    .filter(t => !newTagSet.has(t.toLowerCase()));
+
+  if (tagsToRemove.length > 0) {
+    await removeTagsFromImage(imageId, tagsToRemove);
+  }
+  if (tagsToAdd.length > 0) {
+    await addTagsToImage(imageId, tagsToAdd);
+  }
+
+  return [...newTagSet];
+}
+
+/**
+ * Write an image's tags, rating, source and/or artist to its file, or to its sidecars if its folder is set to write them
+ * Nothing is written for images in read-only folders.
+ * The file is rehashed afterwards so the scanner doesn't see it as changed.
+ * @param update.tags Write the image's current tags from the database
+ * @param update.rating Rating to write (omit to leave the file's rating alone, same for source and artist)
+ */
+export async function writeImageMetadata(
+  imageId: number,
+  update: { tags?: boolean; rating?: number | null; source?: string; artist?: string }
+): Promise<void> {
+  const image = await queryOne<Image>('SELECT file_path, file_hash FROM images WHERE id = ?', [imageId]);
+  if (!image) return;
+
+  const metadataUpdate: FileMetadataUpdate = {};
+  if (update.tags) metadataUpdate.tags = await getImageTagsForFile(imageId);
+  if (update.rating !== undefined) metadataUpdate.rating = update.rating;
+  if (update.source !== undefined) metadataUpdate.source = update.source;
+  if (update.artist !== undefined) metadataUpdate.artist = update.artist;
+
+  if (Object.keys(metadataUpdate).length === 0) return;
+
+  const folder = await getFolderForPath(image.file_path);
+  if (folder?.read_only) return;
+
+  // The image itself is left alone, so there's nothing to rehash
+  if (folder?.sidecars === 'write') {
+    await writeSidecars(image.file_path, metadataUpdate);
+    return;
+  }
+
+  let newHash: string;
+  metadataWritesInProgress.add(image.file_path);
+  try {
+    await writeFileMetadata(image.file_path, metadataUpdate);
+
+    // Rehash the file and update DB so scanner doesn't see it as changed
+    const [hash, stats] = await Promise.all([
+      calculateFileHash(image.file_path),
+      fs.stat(image.file_path)
+    ]);
+    newHash = hash;
+    await execute(
+      'UPDATE images SET file_hash = ?, file_size = ?, updated_at = NOW() WHERE id = ?',
+      [newHash, stats.size, imageId]
+    );
+  } finally {
+    metadataWritesInProgress.delete(image.file_path);
+  }
+
+  // Rename thumbnail if hash changed
+  if (newHash !== image.file_hash) {
+    // Metadata writes don't change the pixels, so the preview clip, converted copy and HLS segments are kept
+    await fs.rename(getPreviewPath(image.file_hash), getPreviewPath(newHash)).catch(() => undefined);
+    await fs.rename(getDisplayImagePath(image.file_hash), getDisplayImagePath(newHash)).catch(() => undefined);
+    await fs.rename(getHlsSegmentDir(image.file_hash), getHlsSegmentDir(newHash)).catch(() => undefined);
+
+    const oldThumbLoc = getThumbnailPath(image.file_hash);
+    try {
+      await fs.rename(oldThumbLoc, oldThumbLoc.slice(0, oldThumbLoc.lastIndexOf('/')) + `/${newHash}.jpg`);
+    } catch {
+      await deleteThumbnail(image.file_hash);
+      generateThumbnail(image.file_path, newHash);
+    }
+  }
+}
+
+/**
+ * Apply the current aliases and implications to images that are already tagged, as a job
+ * Images tagged with an alias are moved to the canonical tag, and images missing
+ * an implied tag get it (and the rest of the implication chain). Each change is recorded
+ * in the image's history. Only the database is updated, not the files.
+ * @returns Number of images changed
+ */
+export async function applyTagRulesToExistingImages(actor: HistoryActor, progress?: JobProgress): Promise<number> {
+  const rules = await getTagRules();
+  const affectedIds = new Set<number>();
+
+  if (rules.aliases.size > 0) {
+    const aliases = [...rules.aliases.keys()];
+    const rows = await query<{ image_id: number }>(
+      `SELECT DISTINCT it.image_id FROM image_tags it
+       JOIN tags t ON it.tag_id = t.id
+       WHERE t.name IN (${aliases.map(() => '?').join(',')})`,
+      aliases
+    );
+    rows.forEach(row => affectedIds.add(row.image_id));
+  }
+
+  for (const [tag, impliedTags] of rules.implications) {
+    for (const implied of impliedTags) {
+      const missing = await query<{ image_id: number }>(
+        `SELECT it.image_id FROM image_tags it
+         JOIN tags t ON it.tag_id = t.id
+         WHERE t.name = ?
+           AND it.image_id NOT IN (
+             SELECT it2.image_id FROM image_tags it2
+             JOIN tags t2 ON it2.tag_id = t2.id
+             WHERE t2.name = ?
+           )`,
+        [tag, resolveAlias(rules, parseTagCategory(implied).name)]
+      );
+      missing.forEach(row => affectedIds.add(row.image_id));
+    }
+  }
+
+  progress?.addTotal(affectedIds.size);
+  let changedCount = 0;
+
+  for (const imageId of affectedIds) {
+    if (progress?.isCancelled()) break;
+    try {
+      const before = await snapshotImage(imageId);
+      if (before) {
+        // setImageTags resolves aliases and follows implication chains
+        await setImageTags(imageId, before.tags);
+        if (await recordChangeSince(imageId, before, actor) !== null) changedCount++;
+      }
+      progress?.advance();
+    } catch (error) {
+      console.error(`Failed to apply tag rules to image ${imageId}:`, error);
+      progress?.advance(true);
+    }
+  }
+
+  console.log(`Tag rules applied: ${changedCount} images updated`);
+  return changedCount;
+}
+
+/**
+ * Delete an image and its associations
+ * Handles duplicate group cleanup: elects new prime or removes group if needed
+ */
+export async function deleteImage(imageId: number): Promise<void> {
+  const image = await queryOne<Image>(
+    'SELECT file_hash FROM images WHERE id = ?',
+    [imageId]
+  );
+
+  if (!image) return;
+
+  // Fire plugin hook before deletion
+  pluginRegistry.runHook('onImageDeleted', imageId);
+  removeFromSimilarityIndex(imageId);
+
+  // Quick check: is this image a prime? (fast query on indexed column)
+  const groupMemberIds = await query<{ image_id: number }>(
+    'SELECT image_id FROM duplicate_groups WHERE prime_id = ?',
+    [imageId]
+  );
+
+  let nonPrimeEntry: { prime_id: number } | null = null;
+
+  if (groupMemberIds.length > 0) {
+    // This image is a prime with other members - need to handle group
+    if (groupMemberIds.length > 2) {
+      // 2+ non-prime members remain: get their details to find new prime
+      const ids = groupMemberIds.map(m => m.image_id).filter(id => id !== imageId);
+      const members = await query<Image>(
         `SELECT id, width, height, file_size FROM images
-         WHERE id IN (${ids.map(() => '?').join(',')})
+         WHERE id IN (${ids.map(() => '?').join(',')})
          ORDER BY (width * height) DESC, file_size DESC`,
-        ids
-      );
-
-      const newPrime = members[0];
-      // console.log(`[DEBUG] Electing new prime: ID ${newPrime.id} (was ${imageId})`);
-
-      // Update all remaining members to point to new prime
-      await execute(
-        'UPDATE duplicate_groups SET prime_id = ? WHERE prime_id = ?',
-        [newPrime.id, imageId]
-      );
-    } else {
-      // Only 1 member remains: the prime itself which is getting removed
-      // Or, 2 members remain: One is the prime, and one will no longer be a duplicate once the prime is gone.
-      // Either way they should be removed.
-      await execute(
-        'DELETE FROM duplicate_groups WHERE prime_id = ?',
-        [imageId]
-      );
-	  
-      // Remove duplicate_image tag from remaining member (if any)
-	  const remainingMemberId = groupMemberIds.find(m => m.image_id !== imageId)?.image_id;
-      if (remainingMemberId) {
-        await removeTagsFromImage(remainingMemberId, ['duplicate_image']);
-      }
-    }
-  } else {
-    // image isn't a prime duplicate, get its prime ID to check for orphaned prime after deletion
-    nonPrimeEntry = await queryOne<{ prime_id: number }>(
-      'SELECT prime_id FROM duplicate_groups WHERE image_id = ? AND prime_id != ?',
-      [imageId, imageId]
-    );
-  }
-
-  await transaction(async (conn) => {
-    // Get tags associated with this image
-    const [tagIds] = await conn.query<any[]>(
-      'SELECT tag_id FROM image_tags WHERE image_id = ?',
-      [imageId]
-    );
-
-    // Delete image-tag associations
-    await conn.query('DELETE FROM image_tags WHERE image_id = ?', [imageId]);
-
-    // Decrement tag counts and remove tags with 0 count
-    for (const row of tagIds) {
-      await conn.query(
-        'UPDATE tags SET count = count - 1 WHERE id = ?',
-        [row.tag_id]
-      );
-      await conn.query('DELETE FROM tags WHERE id = ? AND count <= 0', [row.tag_id]);
-    }
-
-    // Delete image
-    await conn.query('DELETE FROM images WHERE id = ?', [imageId]);
-  });
-
-  // If this was a non-prime duplicate, check if the prime is now orphaned
-  if (nonPrimeEntry) {
-    const remainingCount = await queryOne<{ count: number }>(
-      'SELECT COUNT(*) as count FROM duplicate_groups WHERE prime_id = ?',
-      [nonPrimeEntry.prime_id]
-    );
-
-    if (remainingCount && remainingCount.count === 1) {
-      // Only the prime remains, remove it from duplicate_groups
-      //console.log(`[DEBUG] Removing orphaned prime ID ${nonPrimeEntry.prime_id} from duplicate_groups`);
-      await execute(
-        'DELETE FROM duplicate_groups WHERE prime_id = ?',
-        [nonPrimeEntry.prime_id]
-      );
-      // Remove duplicate_image tag from the orphaned prime
-      await removeTagsFromImage(nonPrimeEntry.prime_id, ['duplicate_image']);
-    }
-  }
-
-  // Only delete thumbnail if no other images share this file_hash
-  const otherWithSameHash = await queryOne<{ id: number }>(
-    'SELECT id FROM images WHERE file_hash = ? AND id != ? LIMIT 1',
-    [image.file_hash, imageId]
-  );
-
-  if (!otherWithSameHash) {
-    await deleteThumbnail(image.file_hash);
-  }
-}
-
-// Scan all enabled folders (periodic scan - skips if manual scan running)
-export async function scanAllFolders(): Promise<void> {
-  console.log('Starting full scan of all folders...');
-
-  const folders = await query<Folder>(
-    'SELECT * FROM folders WHERE enabled = TRUE'
-  );
-
-  if (folders.length === 0) {
-    console.log('No folders configured for scanning');
-    return;
-  }
-
-  let totalAdded = 0;
-  for (const folder of folders) {
-    // waitForLock=false means periodic scans skip if manual scan is running
-    const added = await scanFolder(folder, false);
-    totalAdded += added;
-  }
-
-  console.log(`Full scan complete: ${totalAdded} total new images added`);
-}
-
-/**
- * Clean up database entries for files that no longer exist
- * @param folderPath Optional - if provided, only clean up files from this folder
- */
-export async function cleanupDeletedFiles(folderPath?: string): Promise<number> {
-  let images: Image[];
-
-  if (folderPath) {
-    // Only check files from the specified folder
-    images = await query<Image>(
-      'SELECT id, file_path, file_hash FROM images WHERE file_path LIKE ?',
-      [`${folderPath}%`]
-    );
-  } else {
-    images = await query<Image>('SELECT id, file_path, file_hash FROM images');
-  }
-
-  let deletedCount = 0;
-
-  for (const image of images) {
-    try {
-      await fs.access(image.file_path);
-      // File exists, continue
-    } catch {
-      // File doesn't exist, delete from database
-      console.log(`Removing deleted file: ${image.file_path}`);
-      await deleteImage(image.id);
-      deletedCount++;
-    }
-  }
-
-  console.log(`Cleanup complete: ${deletedCount} deleted files removed from database`);
-  return deletedCount;
-}
+        ids
+      );
+
+      const newPrime = members[0];
+      // console.log(`[DEBUG] Electing new prime: ID ${newPrime.id} (was ${imageId})`);
+
+      // Update all remaining members to point to new prime
+      await execute(
+        'UPDATE duplicate_groups SET prime_id = ? WHERE prime_id = ?',
+        [newPrime.id, imageId]
+      );
+    } else {
+      // Only 1 member remains: the prime itself which is getting removed
+      // Or, 2 members remain: One is the prime, and one will no longer be a duplicate once the prime is gone.
+      // Either way they should be removed.
+      await execute(
+        'DELETE FROM duplicate_groups WHERE prime_id = ?',
+        [imageId]
+      );
+	  
+      // Remove duplicate_image tag from remaining member (if any)
+	  const remainingMemberId = groupMemberIds.find(m => m.image_id !== imageId)?.image_id;
+      if (remainingMemberId) {
+        await removeTagsFromImage(remainingMemberId, ['duplicate_image']);
+      }
+    }
+  } else {
+    // image isn't a prime duplicate, get its prime ID to check for orphaned prime after deletion
+    nonPrimeEntry = await queryOne<{ prime_id: number }>(
+      'SELECT prime_id FROM duplicate_groups WHERE image_id = ? AND prime_id != ?',
+      [imageId, imageId]
+    );
+  }
+
+  await transaction(async (conn) => {
+    // Get tags associated with this image
+    const [tagIds] = await conn.query<any[]>(
+      'SELECT tag_id FROM image_tags WHERE image_id = ?',
+      [imageId]
+    );
+
+    // Delete image-tag associations
+    await conn.query('DELETE FROM image_tags WHERE image_id = ?', [imageId]);
+
+    // Decrement tag counts and remove tags with 0 count
+    for (const row of tagIds) {
+      await conn.query(
+        'UPDATE tags SET count = count - 1 WHERE id = ?',
+        [row.tag_id]
+      );
+      await conn.query('DELETE FROM tags WHERE id = ? AND count <= 0', [row.tag_id]);
+    }
+
+    // Delete image
+    await conn.query('DELETE FROM images WHERE id = ?', [imageId]);
+  });
+
+  // If this was a non-prime duplicate, check if the prime is now orphaned
+  if (nonPrimeEntry) {
+    const remainingCount = await queryOne<{ count: number }>(
+      'SELECT COUNT(*) as count FROM duplicate_groups WHERE prime_id = ?',
+      [nonPrimeEntry.prime_id]
+    );
+
+    if (remainingCount && remainingCount.count === 1) {
+      // Only the prime remains, remove it from duplicate_groups
+      //console.log(`[DEBUG] Removing orphaned prime ID ${nonPrimeEntry.prime_id} from duplicate_groups`);
+      await execute(
+        'DELETE FROM duplicate_groups WHERE prime_id = ?',
+        [nonPrimeEntry.prime_id]
+      );
+      // Remove duplicate_image tag from the orphaned prime
+      await removeTagsFromImage(nonPrimeEntry.prime_id, ['duplicate_image']);
+    }
+  }
+
+  // Only delete thumbnail if no other images share this file_hash
+  const otherWithSameHash = await queryOne<{ id: number }>(
+    'SELECT id FROM images WHERE file_hash = ? AND id != ? LIMIT 1',
+    [image.file_hash, imageId]
+  );
+
+  if (!otherWithSameHash) {
+    await deleteThumbnail(image.file_hash);
+  }
+}
+
+// Scan all enabled folders (runs as a scan job)
+export async function scanAllFolders(progress?: JobProgress): Promise<void> {
+  console.log('Starting full scan of all folders...');
+
+  const folders = await query<Folder>(
+    'SELECT * FROM folders WHERE enabled = TRUE'
+  );
+
+  if (folders.length === 0) {
+    console.log('No folders configured for scanning');
+    return;
+  }
+
+  let totalAdded = 0;
+  for (const folder of folders) {
+    if (progress?.isCancelled()) break;
+    const added = await scanFolder(folder, true, progress);
+    totalAdded += added;
+  }
+
+  console.log(`Full scan complete: ${totalAdded} total new images added`);
+}
+
+/**
+ * Clean up database entries for files that no longer exist
+ * Files that a folder's include/exclude patterns now leave out are kept; they're only removed
+ * when the admin confirms it while changing the patterns.
+ * @param folderPath Optional - if provided, only clean up files from this folder
+ * @param progress Progress reporting when run as a job
+ */
+export async function cleanupDeletedFiles(folderPath?: string, progress?: JobProgress): Promise<number> {
+  let images: Image[];
+
+  if (folderPath) {
+    // Only check files from the specified folder
+    images = await query<Image>(
+      'SELECT id, file_path, file_hash FROM images WHERE file_path LIKE ?',
+      [`${folderPath}%`]
+    );
+  } else {
+    images = await query<Image>('SELECT id, file_path, file_hash FROM images');
+  }
+
+  let deletedCount = 0;
+  progress?.addTotal(images.length);
+
+  for (const image of images) {
+    if (progress?.isCancelled()) break;
+
+    try {
+      await fs.access(image.file_path);
+    } catch {
+      // File doesn't exist, delete from database
+      console.log(`Removing deleted file: ${image.file_path}`);
+      await deleteImage(image.id);
+      deletedCount++;
+    }
+    progress?.advance();
+  }
+
+  console.log(`Cleanup complete: ${deletedCount} deleted files removed from database`);
+  return deletedCount;
+}
+
+/**
+ * Regenerate thumbnails, video previews and video metadata (and content hashes, if duplicate scanning
+ * is on) from the original files
+ * Use after changing THUMBNAIL_SIZE or turning on duplicate scanning, or to fill in frame hashes,
+ * previews and metadata of videos indexed before those existed.
+ * @param folderPath Optional - if provided, only images from this folder
+ */
+export async function regenerateThumbnails(folderPath?: string, progress?: JobProgress): Promise<number> {
+  const images = folderPath
+    ? await query<Image>('SELECT id, file_path, file_hash FROM images WHERE file_path LIKE ? ORDER BY id', [`${folderPath}/%`])
+    : await query<Image>('SELECT id, file_path, file_hash FROM images ORDER BY id');
+
+  progress?.addTotal(images.length);
+  const doneHashes = new Set<string>();
+  let regenerated = 0;
+
+  for (const image of images) {
+    if (progress?.isCancelled()) break;
+
+    // Copies of the same file share a thumbnail
+    if (doneHashes.has(image.file_hash)) {
+      progress?.advance();
+      continue;
+    }
+
+    try {
+      // Keep the old thumbnail if the file is gone
+      await fs.access(image.file_path);
+      await deleteThumbnail(image.file_hash);
+      const hashes = await generateThumbnail(image.file_path, image.file_hash);
+      await fs.access(getThumbnailPath(image.file_hash));
+      await generatePreview(image.file_path, image.file_hash);
+
+      // Also fills in video metadata for files indexed before it was recorded
+      const videoInfo = await probeVideoSafely(image.file_path);
+      if (videoInfo) {
+        await execute(
+          'UPDATE images SET duration = ?, fps = ?, video_codec = ?, has_audio = ? WHERE file_hash = ?',
+          [videoInfo.duration, videoInfo.fps, videoInfo.video_codec, videoInfo.has_audio, image.file_hash]
+        );
+      }
+
+      if (DUPLICATE_SCAN_ENABLED && hashes.hash600 !== EMPTY_HASHES.hash600) {
+        const videoHashes = await generateVideoHashes(image.file_path);
+        await execute(
+          'UPDATE images SET content_hash_600 = ?, content_hash_800 = ?, content_hash_1400 = ?, video_hashes = ? WHERE file_hash = ?',
+          [hashes.hash600, hashes.hash800, hashes.hash1400, videoHashes.length > 0 ? videoHashes.join(',') : null, image.file_hash]
+        );
+        const copies = await query<{ id: number }>('SELECT id FROM images WHERE file_hash = ?', [image.file_hash]);
+        for (const copy of copies) {
+          addToSimilarityIndex(copy.id, hashes, videoHashes);
+        }
+      }
+
+      doneHashes.add(image.file_hash);
+      regenerated++;
+      progress?.advance();
+    } catch (error) {
+      console.error(`Failed to regenerate thumbnail for ${image.file_path}:`, error);
+      progress?.advance(true);
+    }
+  }
+
+  console.log(`Thumbnail regeneration complete: ${regenerated} thumbnails regenerated`);
+  return regenerated;
+}
+
+/**
+ * Look for duplicates of images that aren't in a duplicate group yet
+ * Catches images indexed while duplicate scanning was off (regenerate thumbnails first so
+ * they have content hashes).
+ * @param folderPath Optional - if provided, only images from this folder
+ */
+export async function rescanDuplicates(folderPath?: string, progress?: JobProgress): Promise<number> {
+  if (!DUPLICATE_SCAN_ENABLED) {
+    throw new Error('Duplicate scanning is disabled (set DUPLICATE_SCAN_ENABLED=true)');
+  }
+
+  const folderFilter = folderPath ? 'AND i.file_path LIKE ?' : '';
+  const images = await query<Image>(
+    `SELECT i.id FROM images i
+     LEFT JOIN duplicate_groups dg ON dg.image_id = i.id
+     WHERE dg.image_id IS NULL AND (i.content_hash_600 != ? OR i.video_hashes IS NOT NULL) ${folderFilter}
+     ORDER BY i.id`,
+    folderPath ? [EMPTY_HASHES.hash600, `${folderPath}/%`] : [EMPTY_HASHES.hash600]
+  );
+
+  progress?.addTotal(images.length);
+  let grouped = 0;
+
+  for (const image of images) {
+    if (progress?.isCancelled()) break;
+
+    try {
+      // An earlier image in this run may have pulled this one into its group already
+      const alreadyGrouped = await queryOne<{ image_id: number }>(
+        'SELECT image_id FROM duplicate_groups WHERE image_id = ?',
+        [image.id]
+      );
+      if (!alreadyGrouped) {
+        // The watcher may be indexing files at the same time
+        const found = await serializeIndexWrite(() => groupDuplicates(image.id));
+        if (found) grouped++;
+      }
+      progress?.advance();
+    } catch (error) {
+      console.error(`Failed to check duplicates for image ${image.id}:`, error);
+      progress?.advance(true);
+    }
+  }
+
+  console.log(`Duplicate rescan complete: ${grouped} images grouped`);
+  return grouped;
+}
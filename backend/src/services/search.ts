@@ -1,5 +1,7 @@
 import { query } from '../database/connection';
-import { SearchResult, SearchQuery, ImageWithTags } from '../types';
+import { SearchResult, SearchQuery, ImageWithTags, TagCategory } from '../types';
+import { TAG_CATEGORIES, parseTagCategory } from './tags';
+import { findSimilarImages, SIMILAR_DISTANCE } from './similarity';
 
 /**
  * Token types for search query parsing
@@ -52,8 +54,8 @@ interface ParseResult {
 const DEFAULT_SORT_FIELD = 'date';
 const DEFAULT_SORT_DIRECTION: 'asc' | 'desc' = 'desc';
 
-const VALID_SORT_FIELDS = ['random', 'id', 'date', 'rating', 'height', 'width', 'size', 'updated', 'file'];
-const FILTER_METATAGS = ['rating', 'artist', 'date', 'id', 'file', 'tags', 'source'];
+const VALID_SORT_FIELDS = ['random', 'id', 'date', 'rating', 'height', 'width', 'size', 'updated', 'file', 'pool', 'duration'];
+const FILTER_METATAGS = ['rating', 'artist', 'date', 'id', 'file', 'path', 'folder', 'tags', 'source', 'pool', 'fav', 'similar', 'duration', 'fps', 'audio'];
 
 const SORT_FIELD_MAP: Record<string, string> = {
   'random': 'RAND()',
@@ -64,7 +66,8 @@ const SORT_FIELD_MAP: Record<string, string> = {
   'width': 'images.width',
   'size': 'images.file_size',
   'updated': 'images.updated_at',
-  'file': 'images.filename'
+  'file': 'images.filename',
+  'duration': 'images.duration'
 };
 
 export const RATING_MAP: Record<string, number> = {
@@ -127,8 +130,15 @@ function tokenize(queryString: string): Token[] {
     }
 
     // Tag (read until whitespace or brace)
+    // A quoted metatag value can contain them: path:"/host/My Pictures"
     let tag = '';
     while (i < chars.length && !' \t{}'.includes(chars[i])) {
+      const closingQuote = chars[i] === '"' && tag.endsWith(':') ? chars.indexOf('"', i + 1) : -1;
+      if (closingQuote > i) {
+        tag += chars.substring(i + 1, closingQuote);
+        i = closingQuote + 1;
+        continue;
+      }
       tag += chars[i];
       i++;
     }
@@ -158,20 +168,22 @@ function parseMetatagValue(value: string): { operator?: string; cleanValue: stri
  */
 function parseSortValue(value: string): SortDirective | null {
   let field = value.toLowerCase();
-  let direction: 'asc' | 'desc' = 'desc';
+  let direction: 'asc' | 'desc' | undefined;
 
   if (field.endsWith('_asc')) {
     field = field.slice(0, -4);
     direction = 'asc';
   } else if (field.endsWith('_desc')) {
     field = field.slice(0, -5);
+    direction = 'desc';
   }
 
   if (!VALID_SORT_FIELDS.includes(field)) {
     return null; // Invalid - silently ignore
   }
 
-  return { field, direction };
+  // Pools read front to back, everything else defaults to descending
+  return { field, direction: direction ?? (field === 'pool' ? 'asc' : 'desc') };
 }
 
 /**
@@ -369,8 +381,8 @@ class QueryParser {
           }
           // Return a placeholder that will be filtered out
           term = { type: 'METATAG', metatag: { key: 'sort', value: rawValue } };
-        } else if (FILTER_METATAGS.includes(key)) {
-          // Handle filter metatags
+        } else if (FILTER_METATAGS.includes(key) || isTagCategory(key)) {
+          // Handle filter metatags (tag categories like character:name are handled the same way)
           const { operator, cleanValue } = parseMetatagValue(rawValue);
           term = { type: 'METATAG', metatag: { key, value: cleanValue, operator } };
         } else {
@@ -407,6 +419,13 @@ class QueryParser {
   }
 }
 
+/**
+ * Check if a metatag key is a tag category (character:, copyright:, etc.)
+ */
+function isTagCategory(key: string): key is TagCategory {
+  return (TAG_CATEGORIES as string[]).includes(key);
+}
+
 /**
  * Build SQL for rating metatag
  */
@@ -433,8 +452,11 @@ function buildRatingSQL(value: string): { sql: string; params: any[] } {
 
 /**
  * Build SQL for artist metatag
+ * Matches the artist field from file metadata or any artist-category tag
  */
 function buildArtistSQL(value: string): { sql: string; params: any[] } {
+  const tagMatch = buildCategorySQL('artist', value);
+
   if (value.includes('*')) {
     // Wildcard support
     const likePattern = value
@@ -443,14 +465,58 @@ function buildArtistSQL(value: string): { sql: string; params: any[] } {
       .replace(/\*/g, '%');
 
     return {
-      sql: "images.artist LIKE ? ESCAPE '\\\\'",
-      params: [likePattern]
+      sql: `images.artist LIKE ? ESCAPE '\\\\' OR ${tagMatch.sql}`,
+      params: [likePattern, ...tagMatch.params]
     };
   }
 
   return {
-    sql: 'images.artist = ?',
-    params: [value]
+    sql: `images.artist = ? OR ${tagMatch.sql}`,
+    params: [value, ...tagMatch.params]
+  };
+}
+
+/**
+ * Build SQL for tag category metatags (character:name, copyright:*, etc.)
+ * A bare * matches any image that has at least one tag in the category
+ */
+function buildCategorySQL(category: TagCategory, value: string): { sql: string; params: any[] } {
+  if (value === '*') {
+    return {
+      sql: `EXISTS (
+        SELECT 1 FROM image_tags it
+        JOIN tags t ON it.tag_id = t.id
+        WHERE it.image_id = images.id AND t.category = ?
+      )`,
+      params: [category]
+    };
+  }
+
+  if (value.includes('*')) {
+    // Wildcard support
+    const likePattern = value
+      .replace(/%/g, '\\%')
+      .replace(/_/g, '\\_')
+      .replace(/\*/g, '%');
+
+    return {
+      sql: `EXISTS (
+        SELECT 1 FROM image_tags it
+        JOIN tags t ON it.tag_id = t.id
+        WHERE it.image_id = images.id AND t.category = ? AND t.name LIKE ? ESCAPE '\\\\'
+      )`,
+      params: [category, likePattern]
+    };
+  }
+
+  return {
+    sql: `EXISTS (
+      SELECT 1 FROM image_tags it
+      JOIN tags t ON it.tag_id = t.id
+      WHERE it.image_id = images.id AND t.category = ?
+        AND t.name = COALESCE((SELECT ta.target FROM tag_aliases ta WHERE ta.alias = ?), ?)
+    )`,
+    params: [category, value, value]
   };
 }
 
@@ -477,6 +543,51 @@ function buildFileSQL(value: string): { sql: string; params: any[] } {
   };
 }
 
+/**
+ * Build SQL for path and folder metatags (search by directory)
+ *   path:/host/pics/2024 -> images directly in that directory (or that exact file)
+ *   folder:/host/pics/2024 or path:/host/pics/2024/** -> also in its subdirectories
+ *   path:2024/summer -> a relative path matches a directory of that name anywhere
+ * * and ? match within one directory name, ** matches across directories.
+ */
+function buildPathSQL(value: string, recursive: boolean): { sql: string; params: any[] } {
+  const isAbsolute = value.startsWith('/');
+  let directory = value.replace(/\/+$/, '');
+  if (directory.endsWith('/**')) {
+    directory = directory.slice(0, -3);
+    recursive = true;
+  }
+
+  let pattern = isAbsolute ? '^' : '^(.*/)?';
+  for (let i = 0; i < directory.length; i++) {
+    const char = directory[i];
+    if (char === '*' && directory[i + 1] === '*') {
+      pattern += '.*';
+      i++;
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else {
+      pattern += char.replace(/[\\^$.|+()[\]{}]/g, '\\$&');
+    }
+  }
+  pattern += recursive ? '/.+$' : '(/[^/]+)?$';
+
+  // A literal start of an absolute path narrows the search to an index range first
+  const prefix = isAbsolute ? directory.split(/[*?]/)[0] : '';
+  if (prefix.length > 1) {
+    return {
+      sql: "images.file_path LIKE ? ESCAPE '\\\\' AND images.file_path REGEXP ?",
+      params: [prefix.replace(/[\\%_]/g, '\\$&') + '%', pattern]
+    };
+  }
+  return {
+    sql: 'images.file_path REGEXP ?',
+    params: [pattern]
+  };
+}
+
 /**
  * Build SQL for date metatag
  */
@@ -567,6 +678,175 @@ function buildSourceSQL(value: string): { sql: string; params: any[] } {
   };
 }
 
+/**
+ * Build SQL for pool metatag (pool ID, name with wildcards, or * for any pool)
+ */
+function buildPoolSQL(value: string): { sql: string; params: any[] } {
+  if (value === '*') {
+    return {
+      sql: 'EXISTS (SELECT 1 FROM pool_images pi WHERE pi.image_id = images.id)',
+      params: []
+    };
+  }
+
+  if (/^\d+$/.test(value)) {
+    return {
+      sql: 'EXISTS (SELECT 1 FROM pool_images pi WHERE pi.image_id = images.id AND pi.pool_id = ?)',
+      params: [parseInt(value)]
+    };
+  }
+
+  if (value.includes('*')) {
+    // Wildcard support
+    const likePattern = value
+      .replace(/%/g, '\\%')
+      .replace(/_/g, '\\_')
+      .replace(/\*/g, '%');
+
+    return {
+      sql: `EXISTS (
+        SELECT 1 FROM pool_images pi
+        JOIN pools p ON pi.pool_id = p.id
+        WHERE pi.image_id = images.id AND p.name LIKE ? ESCAPE '\\\\'
+      )`,
+      params: [likePattern]
+    };
+  }
+
+  return {
+    sql: `EXISTS (
+      SELECT 1 FROM pool_images pi
+      JOIN pools p ON pi.pool_id = p.id
+      WHERE pi.image_id = images.id AND p.name = ?
+    )`,
+    params: [value]
+  };
+}
+
+/**
+ * Build SQL for fav: metatag (images favorited by a user, or by anyone with fav:*)
+ */
+function buildFavSQL(value: string): { sql: string; params: any[] } {
+  if (value === '*') {
+    return {
+      sql: 'EXISTS (SELECT 1 FROM favorites f WHERE f.image_id = images.id)',
+      params: []
+    };
+  }
+
+  return {
+    sql: `EXISTS (
+      SELECT 1 FROM favorites f
+      JOIN users u ON f.user_id = u.id
+      WHERE f.image_id = images.id AND u.username = ?
+    )`,
+    params: [value]
+  };
+}
+
+/**
+ * Build SQL for similar: metatag (images that look like an image, by dHash distance)
+ * similar:123 uses the default distance, similar:123:6 sets it.
+ */
+function buildSimilarSQL(value: string): { sql: string; params: any[] } {
+  const match = value.match(/^(\d+)(?::(\d+))?$/);
+  if (!match) {
+    return { sql: '1=0', params: [] };
+  }
+
+  const distance = match[2] !== undefined ? parseInt(match[2]) : SIMILAR_DISTANCE;
+  const ids = findSimilarImages(parseInt(match[1]), distance).map(s => s.id);
+  if (ids.length === 0) {
+    return { sql: '1=0', params: [] };
+  }
+
+  return {
+    sql: `images.id IN (${ids.map(() => '?').join(',')})`,
+    params: ids
+  };
+}
+
+/**
+ * Find the pool a query is limited to (first non-negated, non-wildcard pool: metatag)
+ * sort:pool orders by position within this pool.
+ */
+function findPoolScope(node: ASTNode): string | undefined {
+  if (node.type === 'METATAG' && node.metatag?.key === 'pool' && !node.metatag.value.includes('*')) {
+    return node.metatag.value;
+  }
+  if (node.type === 'AND' || node.type === 'OR') {
+    for (const child of node.children || []) {
+      const scope = findPoolScope(child);
+      if (scope !== undefined) return scope;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Build SQL for duration metatag (seconds, or minutes:seconds like 1:30)
+ * Exact values match the whole second, so duration:30 finds a 30.4s clip.
+ */
+function buildDurationSQL(value: string, operator?: string): { sql: string; params: any[] } {
+  const match = value.match(/^(?:(\d+):)?(\d+(?:\.\d+)?)$/);
+  if (!match) {
+    return { sql: '1=0', params: [] };
+  }
+
+  const seconds = parseInt(match[1] || '0') * 60 + parseFloat(match[2]);
+
+  if (!operator) {
+    return {
+      sql: 'FLOOR(images.duration) = ?',
+      params: [Math.floor(seconds)]
+    };
+  }
+
+  return {
+    sql: `images.duration ${operator} ?`,
+    params: [seconds]
+  };
+}
+
+/**
+ * Build SQL for fps metatag (exact values are rounded, so fps:30 finds 29.97 fps videos)
+ */
+function buildFpsSQL(value: string, operator?: string): { sql: string; params: any[] } {
+  const fps = parseFloat(value);
+
+  if (isNaN(fps)) {
+    return { sql: '1=0', params: [] };
+  }
+
+  if (!operator) {
+    return {
+      sql: 'ROUND(images.fps) = ?',
+      params: [Math.round(fps)]
+    };
+  }
+
+  return {
+    sql: `images.fps ${operator} ?`,
+    params: [fps]
+  };
+}
+
+/**
+ * Build SQL for audio metatag (audio:yes / audio:no, only matches videos)
+ */
+function buildAudioSQL(value: string): { sql: string; params: any[] } {
+  const lowerValue = value.toLowerCase();
+
+  if (['yes', 'true', '1'].includes(lowerValue)) {
+    return { sql: 'images.has_audio = TRUE', params: [] };
+  }
+  if (['no', 'false', '0'].includes(lowerValue)) {
+    return { sql: 'images.has_audio = FALSE', params: [] };
+  }
+
+  return { sql: '1=0', params: [] };
+}
+
 /**
  * Build SQL for tags metatag (filters by tag count)
  */
@@ -610,14 +890,15 @@ function buildSQLFromAST(node: ASTNode): { sql: string; params: any[] } {
         };
       }
 
-      // Exact match (faster)
+      // Exact match (faster), searching for an alias finds its canonical tag
       return {
         sql: `EXISTS (
           SELECT 1 FROM image_tags it
           JOIN tags t ON it.tag_id = t.id
-          WHERE it.image_id = images.id AND t.name = ?
+          WHERE it.image_id = images.id
+            AND t.name = COALESCE((SELECT ta.target FROM tag_aliases ta WHERE ta.alias = ?), ?)
         )`,
-        params: [tagValue]
+        params: [tagValue, tagValue]
       };
     }
 
@@ -631,6 +912,10 @@ function buildSQLFromAST(node: ASTNode): { sql: string; params: any[] } {
           return buildArtistSQL(value);
         case 'file':
           return buildFileSQL(value);
+        case 'path':
+          return buildPathSQL(value, false);
+        case 'folder':
+          return buildPathSQL(value, true);
         case 'date':
           return buildDateSQL(value, operator);
         case 'id':
@@ -639,8 +924,24 @@ function buildSQLFromAST(node: ASTNode): { sql: string; params: any[] } {
           return buildSourceSQL(value);
         case 'tags':
           return buildTagsSQL(value, operator);
+        case 'pool':
+          return buildPoolSQL(value);
+        case 'fav':
+          return buildFavSQL(value);
+        case 'similar':
+          return buildSimilarSQL(value);
+        case 'duration':
+          return buildDurationSQL(value, operator);
+        case 'fps':
+          return buildFpsSQL(value, operator);
+        case 'audio':
+          return buildAudioSQL(value);
         case 'sort': // Sort metatags should have been arleady extracted - this is a no-op filter
+          return { sql: '1=1', params: [] };
         default:
+          if (isTagCategory(key)) {
+            return buildCategorySQL(key, value);
+          }
           return { sql: '1=1', params: [] };
       }
     }
@@ -683,13 +984,25 @@ function buildSQLFromAST(node: ASTNode): { sql: string; params: any[] } {
 /**
  * Build ORDER BY clause from sort directives
  */
-function buildOrderByClause(sortDirectives: SortDirective[]): string {
+function buildOrderByClause(sortDirectives: SortDirective[], poolScope?: string): { sql: string; params: any[] } {
   const parts: string[] = [];
+  const params: any[] = [];
   const usedFields = new Set<string>();
 
   for (const { field, direction } of sortDirectives) {
     if (field === 'random') {
       parts.push('RAND()');
+    } else if (field === 'pool') {
+      // Position within the searched pool, or the lowest position in any pool
+      let poolFilter = '';
+      if (poolScope !== undefined && /^\d+$/.test(poolScope)) {
+        poolFilter = ' AND pi.pool_id = ?';
+        params.push(parseInt(poolScope));
+      } else if (poolScope !== undefined) {
+        poolFilter = ' AND pi.pool_id = (SELECT p.id FROM pools p WHERE p.name = ?)';
+        params.push(poolScope);
+      }
+      parts.push(`(SELECT MIN(pi.position) FROM pool_images pi WHERE pi.image_id = images.id${poolFilter}) ${direction.toUpperCase()}`);
     } else {
       parts.push(`${SORT_FIELD_MAP[field]} ${direction.toUpperCase()}`);
     }
@@ -709,7 +1022,49 @@ function buildOrderByClause(sortDirectives: SortDirective[]): string {
     parts.push(`images.id ${lastDir.toUpperCase()}`);
   }
 
-  return parts.length > 0 ? parts.join(', ') : `${SORT_FIELD_MAP[DEFAULT_SORT_FIELD]} ${DEFAULT_SORT_DIRECTION.toUpperCase()}, images.id DESC`;
+  return {
+    sql: parts.length > 0 ? parts.join(', ') : `${SORT_FIELD_MAP[DEFAULT_SORT_FIELD]} ${DEFAULT_SORT_DIRECTION.toUpperCase()}, images.id DESC`,
+    params
+  };
+}
+
+/**
+ * Parse a search query into WHERE and ORDER BY clauses
+ */
+function parseSearchQuery(queryString?: string): {
+  whereClause: string;
+  params: any[];
+  orderBy: string;
+  orderParams: any[];
+} {
+  if (!queryString || queryString.trim().length === 0) {
+    const { sql: orderBy, params: orderParams } = buildOrderByClause([]);
+    return { whereClause: '1=1', params: [], orderBy, orderParams };
+  }
+
+  try {
+    const tokens = tokenize(queryString);
+    const parser = new QueryParser(tokens);
+    const { filterAST, sortDirectives } = parser.parse();
+    const { sql, params } = buildSQLFromAST(filterAST);
+    const { sql: orderBy, params: orderParams } = buildOrderByClause(sortDirectives, findPoolScope(filterAST));
+    return { whereClause: sql, params, orderBy, orderParams };
+  } catch (error) {
+    console.error('Failed to parse search query:', error);
+    throw new Error('Invalid search query syntax');
+  }
+}
+
+/**
+ * Get the IDs of every image matching a search query (no pagination)
+ */
+export async function searchImageIds(queryString: string): Promise<number[]> {
+  const { whereClause, params, orderBy, orderParams } = parseSearchQuery(queryString);
+  const rows = await query<{ id: number }>(
+    `SELECT images.id FROM images WHERE ${whereClause} ORDER BY ${orderBy}`,
+    [...params, ...orderParams]
+  );
+  return rows.map(r => r.id);
 }
 
 /**
@@ -719,24 +1074,7 @@ export async function searchImages(searchQuery: SearchQuery): Promise<SearchResu
   const { query: queryString, page = 1, limit = 50 } = searchQuery;
 
   // Parse query
-  let whereClause = '1=1';
-  let params: any[] = [];
-  let orderBy = buildOrderByClause([]);
-
-  if (queryString && queryString.trim().length > 0) {
-    try {
-      const tokens = tokenize(queryString);
-      const parser = new QueryParser(tokens);
-      const { filterAST, sortDirectives } = parser.parse();
-      const { sql, params: queryParams } = buildSQLFromAST(filterAST);
-      whereClause = sql;
-      params = queryParams;
-      orderBy = buildOrderByClause(sortDirectives);
-    } catch (error) {
-      console.error('Failed to parse search query:', error);
-      throw new Error('Invalid search query syntax');
-    }
-  }
+  const { whereClause, params, orderBy, orderParams } = parseSearchQuery(queryString);
 
   // Count total results
   const countSql = `
@@ -758,7 +1096,7 @@ export async function searchImages(searchQuery: SearchQuery): Promise<SearchResu
     LIMIT ? OFFSET ?
   `;
 
-  const images = await query<any>(imagesSql, [...params, limit, offset]);
+  const images = await query<any>(imagesSql, [...params, ...orderParams, limit, offset]);
 
   // Early return if no results
   if (images.length === 0) {
@@ -804,7 +1142,7 @@ export async function searchImages(searchQuery: SearchQuery): Promise<SearchResu
 }
 
 export interface TagsResult {
-  tags: { name: string; count: number }[];
+  tags: { id: number; name: string; category: TagCategory; count: number }[];
   total: number;
   page: number;
   totalPages: number;
@@ -823,8 +1161,16 @@ export async function getTags(options: {
   const params: (string | number)[] = [];
 
   if (q) {
-    conditions.push('name LIKE ?');
-    params.push(`${q}%`);
+    // "character:mi" searches character tags starting with "mi"
+    const { name, category } = parseTagCategory(q);
+    if (category) {
+      conditions.push('category = ?');
+      params.push(category);
+    }
+    if (name) {
+      conditions.push('name LIKE ?');
+      params.push(`${name}%`);
+    }
   }
 
   const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
@@ -837,8 +1183,8 @@ export async function getTags(options: {
   const total = countResult?.total || 0;
 
   // Get tags page
-  const tags = await query<{ name: string; count: number }>(
-    `SELECT name, count FROM tags ${whereClause} ORDER BY count DESC, name ASC LIMIT ? OFFSET ?`,
+  const tags = await query<{ id: number; name: string; category: TagCategory; count: number }>(
+    `SELECT id, name, category, count FROM tags ${whereClause} ORDER BY count DESC, name ASC LIMIT ? OFFSET ?`,
     [...params, limit, offset]
   );
 
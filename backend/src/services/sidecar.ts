@@ -0,0 +1,277 @@
+/**
+ * Sidecar files: tags, rating and source kept next to an image instead of inside it
+ *   image.jpg.txt or image.txt    one tag per line or comma-separated (gallery-dl, Hydrus exports)
+ *   image.jpg.json or image.json  gallery-dl metadata (tags, tag_string, tags_<category>, rating, source)
+ *   image.jpg.xmp or image.xmp    XMP sidecars (subject, rating, description, artist)
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { extractMetadata, writeFileMetadata, ExifMetadata, FileMetadataUpdate, INTERNAL_TAGS } from './exif';
+import { RATING_MAP } from './search';
+import { parseTagCategory, TAG_CATEGORIES } from './tags';
+import { SidecarMode, TagCategory } from '../types';
+
+export const SIDECAR_MODES: SidecarMode[] = ['off', 'read', 'write'];
+
+// Checked in this order; on a conflict the first sidecar with a rating, source or artist wins
+const SIDECAR_EXTENSIONS = ['.txt', '.json', '.xmp'];
+
+// Hydrus namespaces and gallery-dl category names that are a LANBooru category under another name
+const CATEGORY_ALIASES: Record<string, TagCategory> = {
+  creator: 'artist',
+  series: 'copyright',
+  metadata: 'meta',
+};
+
+// Danbooru's newer ratings (general and sensitive) both count as safe here
+const EXTRA_RATINGS: Record<string, number> = { g: 1, general: 1, sensitive: 1 };
+
+const RATING_NAMES: Record<number, string> = { 1: 'safe', 2: 'questionable', 3: 'explicit' };
+
+/**
+ * Check if a path looks like a sidecar (by extension; .txt, .json and .xmp are never images)
+ */
+export function isSidecarPath(filePath: string): boolean {
+  return SIDECAR_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * Check if a sidecar can belong to an image: image.jpg.txt to image.jpg, image.txt to image.<any extension>
+ */
+export function isSidecarOf(sidecarPath: string, filePath: string): boolean {
+  const base = sidecarPath.slice(0, sidecarPath.length - path.extname(sidecarPath).length);
+  if (filePath === base) return true;
+  return filePath.startsWith(base) && filePath.slice(base.length) === path.extname(filePath);
+}
+
+interface SidecarMetadata {
+  tags: string[];
+  rating?: number;
+  source?: string;
+  artist?: string;
+}
+
+/**
+ * Find a file's sidecars, with and without its own extension (image.jpg.txt and image.txt)
+ */
+async function findSidecars(filePath: string): Promise<string[]> {
+  const stem = filePath.slice(0, filePath.length - path.extname(filePath).length);
+  const candidates = SIDECAR_EXTENSIONS.flatMap(ext => [`${filePath}${ext}`, `${stem}${ext}`]);
+
+  const found: string[] = [];
+  for (const candidate of candidates) {
+    try {
+      if ((await fs.stat(candidate)).isFile()) found.push(candidate);
+    } catch {
+      // No sidecar of this name
+    }
+  }
+  return found;
+}
+
+function parseRating(value: unknown): number | undefined {
+  const key = String(value ?? '').trim().toLowerCase();
+  const rating = EXTRA_RATINGS[key] ?? RATING_MAP[key];
+  return rating ? rating : undefined;
+}
+
+/**
+ * Turn a sidecar tag into a LANBooru tag: lowercase, underscores for spaces
+ * ("blue eyes" -> "blue_eyes") and Hydrus namespaces as categories ("creator:name" -> "artist:name")
+ */
+function normalizeSidecarTag(rawTag: string, category?: string): string {
+  let tag = rawTag.trim().toLowerCase().replace(/\s+/g, '_');
+  const colonIndex = tag.indexOf(':');
+  if (colonIndex > 0 && CATEGORY_ALIASES[tag.substring(0, colonIndex)]) {
+    category = tag.substring(0, colonIndex);
+    tag = tag.substring(colonIndex + 1);
+  }
+
+  const resolved = category ? CATEGORY_ALIASES[category] ?? category : undefined;
+  const isPrefixable = resolved !== undefined && resolved !== 'general' && TAG_CATEGORIES.includes(resolved as TagCategory);
+  return isPrefixable && !parseTagCategory(tag).category ? `${resolved}:${tag}` : tag;
+}
+
+/**
+ * Split sidecar tags into tags and a rating, so "rating:safe" sets the rating instead of being a tag
+ */
+function toSidecarMetadata(rawTags: { tag: string; category?: string }[]): SidecarMetadata {
+  const metadata: SidecarMetadata = { tags: [] };
+  for (const { tag: rawTag, category } of rawTags) {
+    const tag = normalizeSidecarTag(rawTag, category);
+    if (tag.length === 0) continue;
+
+    if (tag.startsWith('rating:')) {
+      metadata.rating = parseRating(tag.substring('rating:'.length)) ?? metadata.rating;
+    } else {
+      metadata.tags.push(tag);
+    }
+  }
+  return metadata;
+}
+
+/**
+ * Text sidecar: one tag per line, or a single line of comma-separated tags
+ */
+function parseTextSidecar(content: string): SidecarMetadata {
+  let lines = content.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+  if (lines.length === 1 && lines[0].includes(',')) {
+    lines = lines[0].split(',');
+  }
+  return toSidecarMetadata(lines.map(tag => ({ tag })));
+}
+
+// gallery-dl writes tags as a list or a space-separated string
+function toTagList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.filter((tag): tag is string => typeof tag === 'string');
+  if (typeof value === 'string') return value.split(/\s+/);
+  return [];
+}
+
+/**
+ * gallery-dl JSON sidecar
+ * Tags come from "tags" (or Danbooru's "tag_string"), with categories from the
+ * tags_<category> / tag_string_<category> lists when the site provides them.
+ */
+function parseJsonSidecar(content: string): SidecarMetadata {
+  const data = JSON.parse(content.replace(/^\uFEFF/, ''));
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('Expected a JSON object');
+  }
+
+  const categories = new Map<string, string>();
+  for (const [key, value] of Object.entries(data)) {
+    const match = key.match(/^(?:tags|tag_string)_(\w+)$/);
+    if (!match) continue;
+    for (const tag of toTagList(value)) {
+      if (tag.length > 0) categories.set(tag.toLowerCase(), match[1].toLowerCase());
+    }
+  }
+
+  const rawTags = toTagList(data.tags ?? data.tag_string);
+  // Sites that only list tags by category
+  for (const tag of categories.keys()) {
+    if (!rawTags.some(rawTag => rawTag.toLowerCase() === tag)) rawTags.push(tag);
+  }
+
+  const metadata = toSidecarMetadata(
+    rawTags.map(tag => ({ tag, category: categories.get(tag.toLowerCase()) }))
+  );
+  metadata.rating = parseRating(data.rating) ?? metadata.rating;
+  if (typeof data.source === 'string' && data.source.length > 0) metadata.source = data.source;
+  if (typeof data.artist === 'string' && data.artist.length > 0) metadata.artist = data.artist;
+  return metadata;
+}
+
+async function readSidecar(sidecarPath: string): Promise<SidecarMetadata> {
+  const ext = path.extname(sidecarPath).toLowerCase();
+  if (ext === '.xmp') {
+    const { tags, rating, source, artist } = await extractMetadata(sidecarPath);
+    const metadata = toSidecarMetadata(tags.map(tag => ({ tag })));
+    return { ...metadata, rating: rating ?? metadata.rating, source, artist };
+  }
+
+  const content = await fs.readFile(sidecarPath, 'utf-8');
+  return ext === '.json' ? parseJsonSidecar(content) : parseTextSidecar(content);
+}
+
+/**
+ * Merge a file's sidecars into the metadata read from the file itself
+ * Tags are combined. A rating, source or artist from a sidecar replaces the file's own.
+ * @param mode The file's folder setting (nothing is read when it's off)
+ */
+export async function withSidecarMetadata(filePath: string, metadata: ExifMetadata, mode: SidecarMode): Promise<ExifMetadata> {
+  if (mode === 'off') return metadata;
+
+  const merged: ExifMetadata = { ...metadata, tags: [...metadata.tags] };
+  const fromSidecar: Partial<SidecarMetadata> = {};
+
+  for (const sidecarPath of await findSidecars(filePath)) {
+    try {
+      const sidecar = await readSidecar(sidecarPath);
+      merged.tags.push(...sidecar.tags.filter(tag => !merged.tags.includes(tag)));
+      fromSidecar.rating ??= sidecar.rating;
+      fromSidecar.source ??= sidecar.source;
+      fromSidecar.artist ??= sidecar.artist;
+    } catch (error) {
+      console.error(`Failed to read sidecar ${sidecarPath}:`, error);
+    }
+  }
+
+  merged.rating = fromSidecar.rating ?? merged.rating;
+  merged.source = fromSidecar.source ?? merged.source;
+  merged.artist = fromSidecar.artist ?? merged.artist;
+  return merged;
+}
+
+// Rewrite a text sidecar's tags and/or "rating:" line, keeping whichever isn't being updated
+async function writeTextSidecar(sidecarPath: string, updates: FileMetadataUpdate): Promise<void> {
+  const current = await fs.readFile(sidecarPath, 'utf-8').catch(() => '');
+  const lines = current.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+  // A single comma-separated line is rewritten as one tag per line
+  const currentTags = lines.length === 1 && lines[0].includes(',') ? lines[0].split(',').map(tag => tag.trim()) : lines;
+
+  let ratingLine = currentTags.find(tag => tag.toLowerCase().startsWith('rating:'));
+  if (updates.rating !== undefined) {
+    ratingLine = updates.rating ? `rating:${RATING_NAMES[updates.rating]}` : undefined;
+  }
+  const tags = updates.tags ?? currentTags.filter(tag => !tag.toLowerCase().startsWith('rating:'));
+
+  await fs.writeFile(sidecarPath, [...tags, ...(ratingLine ? [ratingLine] : [])].join('\n') + '\n');
+}
+
+// Update a gallery-dl JSON sidecar, leaving the rest of the download's metadata alone
+async function writeJsonSidecar(sidecarPath: string, updates: FileMetadataUpdate): Promise<void> {
+  const data = JSON.parse((await fs.readFile(sidecarPath, 'utf-8')).replace(/^\uFEFF/, ''));
+
+  if (updates.tags !== undefined) {
+    // Categories are kept as prefixes in "tags", so the per-category lists would only disagree with it
+    for (const key of Object.keys(data)) {
+      if (key === 'tag_string' || /^(?:tags|tag_string)_\w+$/.test(key)) delete data[key];
+    }
+    data.tags = updates.tags;
+  }
+  if (updates.rating !== undefined) {
+    if (updates.rating) {
+      data.rating = RATING_NAMES[updates.rating][0];
+    } else {
+      delete data.rating;
+    }
+  }
+  if (updates.source !== undefined) data.source = updates.source;
+  if (updates.artist !== undefined) data.artist = updates.artist;
+
+  await fs.writeFile(sidecarPath, JSON.stringify(data, null, 4) + '\n');
+}
+
+/**
+ * Write tags, rating, source or artist to a file's sidecars instead of the file itself
+ * Every existing sidecar is updated so they agree on the next scan. A file without any gets
+ * an XMP sidecar (image.jpg.xmp). Text sidecars only take tags and a rating.
+ */
+export async function writeSidecars(filePath: string, updates: FileMetadataUpdate): Promise<void> {
+  const sidecars = await findSidecars(filePath);
+  if (sidecars.length === 0) sidecars.push(`${filePath}.xmp`);
+
+  const writable = updates.tags === undefined
+    ? updates
+    : { ...updates, tags: updates.tags.filter(tag => !INTERNAL_TAGS.includes(tag)) };
+
+  for (const sidecarPath of sidecars) {
+    const ext = path.extname(sidecarPath).toLowerCase();
+    try {
+      if (ext === '.xmp') {
+        await writeFileMetadata(sidecarPath, writable);
+      } else if (ext === '.json') {
+        await writeJsonSidecar(sidecarPath, writable);
+      } else {
+        await writeTextSidecar(sidecarPath, writable);
+      }
+    } catch (error) {
+      console.error(`Failed to write sidecar ${sidecarPath}:`, error);
+      throw error;
+    }
+  }
+  console.log(`Wrote metadata to ${sidecars.length} sidecar${sidecars.length === 1 ? '' : 's'} of ${path.basename(filePath)}`);
+}
@@ -0,0 +1,240 @@
+import { query } from '../database/connection';
+import { EMPTY_HASHES } from './thumbnail';
+
+// Images this many bits apart (out of 64) or closer are grouped as duplicates when scanned
+export const DUPLICATE_DISTANCE = parseInt(process.env.DUPLICATE_DISTANCE || '4');
+// Default distance for similar: searches and the similar images strip
+export const SIMILAR_DISTANCE = parseInt(process.env.SIMILAR_DISTANCE || '10');
+// Beyond this nearly every image matches, and the tree search degrades to a full scan
+export const MAX_SIMILAR_DISTANCE = 24;
+// Share of a video's hashed frames that need a close frame in the other video. Trimmed copies lose
+// the frames near the cut and the rest shift in time, so not every frame has to line up.
+const VIDEO_MATCH_RATIO = 0.6;
+
+export interface ContentHashes {
+  hash600: string;
+  hash800: string;
+  hash1400: string;
+}
+
+export interface SimilarImage {
+  id: number;
+  distance: number;
+}
+
+interface BKNode {
+  hash: bigint;
+  imageIds: Set<number>;
+  children: Map<number, BKNode>; // distance -> child
+}
+
+/**
+ * BK-tree over 64-bit dHashes
+ * Finds every hash within a Hamming distance without comparing against all of them. Removing an
+ * image only drops its ID, nodes stay in place to keep the tree valid until the next rebuild.
+ */
+class BKTree {
+  private root: BKNode | null = null;
+
+  add(hash: bigint, imageId: number): void {
+    if (!this.root) {
+      this.root = { hash, imageIds: new Set([imageId]), children: new Map() };
+      return;
+    }
+
+    let node = this.root;
+    for (;;) {
+      const distance = hammingDistance(node.hash, hash);
+      if (distance === 0) {
+        node.imageIds.add(imageId);
+        return;
+      }
+      const child = node.children.get(distance);
+      if (!child) {
+        node.children.set(distance, { hash, imageIds: new Set([imageId]), children: new Map() });
+        return;
+      }
+      node = child;
+    }
+  }
+
+  remove(hash: bigint, imageId: number): void {
+    let node = this.root;
+    while (node) {
+      const distance = hammingDistance(node.hash, hash);
+      if (distance === 0) {
+        node.imageIds.delete(imageId);
+        return;
+      }
+      node = node.children.get(distance) ?? null;
+    }
+  }
+
+  // Calls found(imageId, distance) for every image within maxDistance of hash
+  search(hash: bigint, maxDistance: number, found: (imageId: number, distance: number) => void): void {
+    const stack = this.root ? [this.root] : [];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      const distance = hammingDistance(node.hash, hash);
+      if (distance <= maxDistance) {
+        for (const imageId of node.imageIds) found(imageId, distance);
+      }
+      // Triangle inequality: only children within maxDistance of this distance can match
+      for (const [childDistance, child] of node.children) {
+        if (Math.abs(childDistance - distance) <= maxDistance) stack.push(child);
+      }
+    }
+  }
+}
+
+interface ParsedHashes {
+  hash600: bigint;
+  hash800: bigint;
+  hash1400: bigint;
+}
+
+// One tree per dHash resolution, so hashes are only compared with hashes of the same size
+let trees = { hash600: new BKTree(), hash800: new BKTree(), hash1400: new BKTree() };
+const indexedHashes = new Map<number, ParsedHashes>();
+// Video frame hashes from every video, in one tree (a frame can match anywhere in another video)
+let frameTree = new BKTree();
+const indexedFrames = new Map<number, bigint[]>();
+
+function hammingDistance(a: bigint, b: bigint): number {
+  let x = a ^ b;
+  let count = 0;
+  while (x) {
+    x &= x - BigInt(1);
+    count++;
+  }
+  return count;
+}
+
+function isEmpty(hashes: ContentHashes): boolean {
+  return !hashes.hash600 || hashes.hash600 === EMPTY_HASHES.hash600;
+}
+
+function parseHashes(hashes: ContentHashes): ParsedHashes {
+  return {
+    hash600: BigInt(`0x${hashes.hash600}`),
+    hash800: BigInt(`0x${hashes.hash800}`),
+    hash1400: BigInt(`0x${hashes.hash1400}`),
+  };
+}
+
+/**
+ * Load every image's content hashes into the index (on startup)
+ */
+export async function buildSimilarityIndex(): Promise<void> {
+  const rows = await query<{ id: number; video_hashes: string | null } & ContentHashes>(
+    `SELECT id, content_hash_600 AS hash600, content_hash_800 AS hash800, content_hash_1400 AS hash1400, video_hashes
+     FROM images WHERE (content_hash_600 IS NOT NULL AND content_hash_600 != ?) OR video_hashes IS NOT NULL`,
+    [EMPTY_HASHES.hash600]
+  );
+
+  trees = { hash600: new BKTree(), hash800: new BKTree(), hash1400: new BKTree() };
+  frameTree = new BKTree();
+  indexedHashes.clear();
+  indexedFrames.clear();
+  for (const row of rows) {
+    addToSimilarityIndex(row.id, row, row.video_hashes ? row.video_hashes.split(',') : []);
+  }
+  console.log(`Similarity index built: ${indexedHashes.size} images, ${indexedFrames.size} videos`);
+}
+
+/**
+ * Add an image to the index, replacing its old hashes if it was already indexed
+ * Images without content hashes (duplicate scanning off, or unreadable files) are left out.
+ * @param videoHashes Frame hashes for videos (see generateVideoHashes)
+ */
+export function addToSimilarityIndex(imageId: number, hashes: ContentHashes, videoHashes: string[] = []): void {
+  removeFromSimilarityIndex(imageId);
+
+  if (!isEmpty(hashes)) {
+    const parsed = parseHashes(hashes);
+    trees.hash600.add(parsed.hash600, imageId);
+    trees.hash800.add(parsed.hash800, imageId);
+    trees.hash1400.add(parsed.hash1400, imageId);
+    indexedHashes.set(imageId, parsed);
+  }
+
+  if (videoHashes.length > 0) {
+    const frames = videoHashes.map(hash => BigInt(`0x${hash}`));
+    for (const frame of frames) frameTree.add(frame, imageId);
+    indexedFrames.set(imageId, frames);
+  }
+}
+
+export function removeFromSimilarityIndex(imageId: number): void {
+  const parsed = indexedHashes.get(imageId);
+  if (parsed) {
+    trees.hash600.remove(parsed.hash600, imageId);
+    trees.hash800.remove(parsed.hash800, imageId);
+    trees.hash1400.remove(parsed.hash1400, imageId);
+    indexedHashes.delete(imageId);
+  }
+
+  const frames = indexedFrames.get(imageId);
+  if (frames) {
+    for (const frame of frames) frameTree.remove(frame, imageId);
+    indexedFrames.delete(imageId);
+  }
+}
+
+/**
+ * Find images similar to an indexed image
+ * The distance is the closest of the three resolutions, so an exact match on any of them is distance 0.
+ * Videos also match videos sharing most of their hashed frames, at the frames' average distance.
+ * @returns Matches sorted by distance (closest first), or an empty list if the image has no content hashes
+ */
+export function findSimilarImages(imageId: number, maxDistance: number = SIMILAR_DISTANCE): SimilarImage[] {
+  maxDistance = Math.min(maxDistance, MAX_SIMILAR_DISTANCE);
+  const distances = new Map<number, number>();
+  const found = (id: number, distance: number) => {
+    if (id === imageId) return;
+    const best = distances.get(id);
+    if (best === undefined || distance < best) distances.set(id, distance);
+  };
+
+  const parsed = indexedHashes.get(imageId);
+  if (parsed) {
+    trees.hash600.search(parsed.hash600, maxDistance, found);
+    trees.hash800.search(parsed.hash800, maxDistance, found);
+    trees.hash1400.search(parsed.hash1400, maxDistance, found);
+  }
+
+  const frames = indexedFrames.get(imageId);
+  if (frames) {
+    searchVideoFrames(frames, maxDistance, found);
+  }
+
+  return [...distances]
+    .map(([id, distance]) => ({ id, distance }))
+    .sort((a, b) => a.distance - b.distance || a.id - b.id);
+}
+
+function searchVideoFrames(frames: bigint[], maxDistance: number, found: (id: number, distance: number) => void): void {
+  // Closest distance from each of our frames to any frame of each other video
+  const bestByVideo = new Map<number, number[]>();
+  frames.forEach((frame, index) => {
+    frameTree.search(frame, maxDistance, (id, distance) => {
+      let best = bestByVideo.get(id);
+      if (!best) {
+        best = new Array(frames.length).fill(Infinity);
+        bestByVideo.set(id, best);
+      }
+      best[index] = Math.min(best[index], distance);
+    });
+  });
+
+  for (const [id, best] of bestByVideo) {
+    // Compare against the shorter frame list, so a video with fewer distinct frames can still match
+    const otherFrames = indexedFrames.get(id)?.length ?? 0;
+    const needed = Math.ceil(Math.min(frames.length, otherFrames) * VIDEO_MATCH_RATIO);
+    const matched = best.filter(d => d !== Infinity);
+
+    if (matched.length > 0 && matched.length >= needed) {
+      found(id, Math.round(matched.reduce((sum, d) => sum + d, 0) / matched.length));
+    }
+  }
+}
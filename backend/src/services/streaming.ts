@@ -0,0 +1,94 @@
+import fs from 'fs/promises';
+import { createReadStream } from 'fs';
+import path from 'path';
+import { Request, Response } from 'express';
+
+type ByteRange = { start: number; end: number };
+
+/**
+ * Parse a Range header against a file size
+ * Returns null to send the whole file (no header, malformed, or several ranges), and
+ * 'unsatisfiable' when the range lies outside the file.
+ */
+function parseRange(header: string | undefined, size: number): ByteRange | 'unsatisfiable' | null {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (match[1] === '' && match[2] === '')) return null;
+
+  let start: number;
+  let end: number;
+  if (match[1] === '') {
+    // Suffix range: the last N bytes
+    const suffixLength = parseInt(match[2]);
+    if (suffixLength === 0) return 'unsatisfiable';
+    start = Math.max(size - suffixLength, 0);
+    end = size - 1;
+  } else {
+    start = parseInt(match[1]);
+    end = match[2] === '' ? size - 1 : Math.min(parseInt(match[2]), size - 1);
+  }
+
+  if (start >= size || start > end) return 'unsatisfiable';
+  return { start, end };
+}
+
+/**
+ * Check an If-None-Match header against an ETag
+ */
+function matchesEtag(header: string | undefined, etag: string): boolean {
+  if (!header) return false;
+  return header.split(',').some(tag => {
+    const trimmed = tag.trim();
+    return trimmed === '*' || trimmed.replace(/^W\//, '') === etag;
+  });
+}
+
+/**
+ * Send a file with byte range support, so videos can be seeked without downloading them first
+ * The ETag is the file's content hash, which stays valid across renames and restarts (unlike
+ * one made from the modification time). Conditional requests get 304, and If-Range falls back
+ * to the whole file when the client's copy is out of date.
+ */
+export async function sendFileWithRanges(req: Request, res: Response, filePath: string, fileHash: string): Promise<void> {
+  const { size } = await fs.stat(filePath);
+  const etag = `"${fileHash}"`;
+
+  res.setHeader('ETag', etag);
+  res.setHeader('Accept-Ranges', 'bytes');
+  res.setHeader('Cache-Control', 'public, max-age=86400');
+  res.type(path.extname(filePath));
+
+  if (matchesEtag(req.headers['if-none-match'], etag)) {
+    res.status(304).end();
+    return;
+  }
+
+  const ifRange = req.headers['if-range'];
+  const range = !ifRange || ifRange === etag ? parseRange(req.headers.range, size) : null;
+
+  if (range === 'unsatisfiable') {
+    res.setHeader('Content-Range', `bytes */${size}`);
+    res.status(416).end();
+    return;
+  }
+
+  if (range) {
+    res.status(206);
+    res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${size}`);
+    res.setHeader('Content-Length', range.end - range.start + 1);
+  } else {
+    res.setHeader('Content-Length', size);
+  }
+
+  if (req.method === 'HEAD') {
+    res.end();
+    return;
+  }
+
+  const stream = createReadStream(filePath, range || undefined);
+  stream.on('error', (error) => {
+    console.error(`Failed to stream ${filePath}:`, error);
+    res.destroy(error);
+  });
+  res.on('close', () => stream.destroy());
+  stream.pipe(res);
+}
@@ -0,0 +1,189 @@
+import { execute, query } from '../database/connection';
+import { TagAlias, TagCategory, TagImplication } from '../types';
+
+export const TAG_CATEGORIES: TagCategory[] = ['general', 'artist', 'character', 'copyright', 'meta'];
+
+/**
+ * Split a "category:name" tag into its parts
+ * Only known categories are treated as prefixes, so tags like "re:zero" keep their colon.
+ * category is undefined when the tag has no category prefix.
+ */
+export function parseTagCategory(rawTag: string): { name: string; category?: TagCategory } {
+  const colonIndex = rawTag.indexOf(':');
+  if (colonIndex > 0) {
+    const prefix = rawTag.substring(0, colonIndex).toLowerCase() as TagCategory;
+    const name = rawTag.substring(colonIndex + 1);
+    if (TAG_CATEGORIES.includes(prefix) && name.length > 0) {
+      return { name, category: prefix };
+    }
+  }
+  return { name: rawTag };
+}
+
+/**
+ * Format a tag for writing to file metadata
+ * General tags are written bare, everything else keeps its category prefix
+ * so the next scan can restore the category.
+ */
+export function formatTagWithCategory(name: string, category: TagCategory): string {
+  return category === 'general' ? name : `${category}:${name}`;
+}
+
+/**
+ * Get an image's tags with category prefixes, ready to be written to its file
+ */
+export async function getImageTagsForFile(imageId: number): Promise<string[]> {
+  const categories = await getImageTagCategories(imageId);
+  return Object.keys(categories)
+    .sort()
+    .map(name => formatTagWithCategory(name, categories[name]));
+}
+
+interface TagRules {
+  aliases: Map<string, string>;        // alias -> canonical tag name
+  implications: Map<string, string[]>; // tag -> directly implied tags
+}
+
+// Aliases and implications are read on every tag write, so keep them in memory
+// and reload after the admin endpoints change them
+let tagRulesCache: TagRules | null = null;
+
+/**
+ * Get the current alias and implication rules (cached)
+ */
+export async function getTagRules(): Promise<TagRules> {
+  if (tagRulesCache) return tagRulesCache;
+
+  const aliases = await query<TagAlias>('SELECT alias, target FROM tag_aliases');
+  const implications = await query<TagImplication>('SELECT tag, implied_tag FROM tag_implications');
+
+  const rules: TagRules = {
+    aliases: new Map(aliases.map(a => [a.alias, a.target])),
+    implications: new Map(),
+  };
+  for (const { tag, implied_tag } of implications) {
+    const implied = rules.implications.get(tag) || [];
+    implied.push(implied_tag);
+    rules.implications.set(tag, implied);
+  }
+
+  tagRulesCache = rules;
+  return rules;
+}
+
+/**
+ * Drop the cached rules so the next lookup reloads them from the database
+ */
+export function invalidateTagRules(): void {
+  tagRulesCache = null;
+}
+
+/**
+ * Resolve a tag name through the alias table (returns the name itself if not aliased)
+ */
+export function resolveAlias(rules: TagRules, name: string): string {
+  return rules.aliases.get(name) ?? name;
+}
+
+/**
+ * Get every tag implied by a tag, following implication chains
+ * Implied tags may carry a category prefix. The starting tag is not included.
+ */
+export function getImpliedTags(rules: TagRules, name: string): string[] {
+  const result: string[] = [];
+  const visited = new Set<string>([name]);
+  const pending = [name];
+
+  while (pending.length > 0) {
+    const current = pending.pop()!;
+    for (const implied of rules.implications.get(current) || []) {
+      const { name: rawName, category } = parseTagCategory(implied);
+      const impliedName = resolveAlias(rules, rawName);
+      if (visited.has(impliedName)) continue;
+      visited.add(impliedName);
+      result.push(category ? formatTagWithCategory(impliedName, category) : impliedName);
+      pending.push(impliedName);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Apply aliases and implications to a list of tags
+ * Aliased tags are replaced by their canonical name (keeping any category prefix),
+ * then all implied tags are appended. Expects lowercase tags.
+ */
+export async function applyTagRules(tags: string[]): Promise<string[]> {
+  const rules = await getTagRules();
+  if (rules.aliases.size === 0 && rules.implications.size === 0) return tags;
+
+  const result: string[] = [];
+  const names = new Set<string>();
+
+  for (const rawTag of tags) {
+    const { name, category } = parseTagCategory(rawTag);
+    const canonical = resolveAlias(rules, name);
+    result.push(category ? formatTagWithCategory(canonical, category) : canonical);
+    names.add(canonical);
+  }
+
+  for (const name of [...names]) {
+    for (const implied of getImpliedTags(rules, name)) {
+      const impliedName = parseTagCategory(implied).name;
+      if (names.has(impliedName)) continue;
+      names.add(impliedName);
+      result.push(implied);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Point aliases and implications that use any of the source tags at the target tag
+ * Used when tags are renamed or merged so the rules keep working under the new name.
+ * Rules that become duplicates or self-references are removed.
+ */
+export async function retargetTagRules(sources: string[], target: string): Promise<void> {
+  const sourceSet = new Set(sources);
+
+  const implications = await query<TagImplication>('SELECT id, tag, implied_tag FROM tag_implications');
+  for (const implication of implications) {
+    const { name: impliedName, category } = parseTagCategory(implication.implied_tag);
+    const tag = sourceSet.has(implication.tag) ? target : implication.tag;
+    const newImpliedName = sourceSet.has(impliedName) ? target : impliedName;
+    if (tag === implication.tag && newImpliedName === impliedName) continue;
+
+    const impliedTag = category ? formatTagWithCategory(newImpliedName, category) : newImpliedName;
+    // UPDATE IGNORE skips rules that already exist under the new name; those and
+    // rules that would imply themselves are dropped instead
+    if (tag !== newImpliedName) {
+      const result = await execute(
+        'UPDATE IGNORE tag_implications SET tag = ?, implied_tag = ? WHERE id = ?',
+        [tag, impliedTag, implication.id]
+      );
+      if (result.affectedRows > 0) continue;
+    }
+    await execute('DELETE FROM tag_implications WHERE id = ?', [implication.id]);
+  }
+
+  const placeholders = sources.map(() => '?').join(',');
+  await execute(`UPDATE tag_aliases SET target = ? WHERE target IN (${placeholders})`, [target, ...sources]);
+  await execute('DELETE FROM tag_aliases WHERE alias = target');
+
+  invalidateTagRules();
+}
+
+/**
+ * Get tag name -> category lookup for an image
+ */
+export async function getImageTagCategories(imageId: number): Promise<Record<string, TagCategory>> {
+  const rows = await query<{ name: string; category: TagCategory }>(
+    `SELECT t.name, t.category FROM tags t
+     JOIN image_tags it ON t.id = it.tag_id
+     WHERE it.image_id = ?`,
+    [imageId]
+  );
+  return Object.fromEntries(rows.map(r => [r.name, r.category]));
+}
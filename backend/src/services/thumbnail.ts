@@ -5,6 +5,8 @@ import path from 'path';
 import { createHash } from 'crypto';
 import ffmpeg from 'fluent-ffmpeg';
 import { queryOne } from '../database/connection';
+import { VIDEO_EXTENSIONS, CONVERTED_IMAGE_EXTENSIONS } from './formats';
+import { convertToJpeg, encodeHlsSegment } from './transcode';
 
 // Single thumbnail size - largest dimension will be this size, aspect ratio preserved
 export const THUMBNAIL_SIZE = parseInt(process.env.THUMBNAIL_SIZE || '300');
@@ -12,12 +14,29 @@ export const THUMBNAIL_SIZE = parseInt(process.env.THUMBNAIL_SIZE || '300');
 const THUMBNAIL_DIR = process.env.THUMBNAIL_DIR || '/app/thumbnails';
 const DUPLICATE_SCAN_ENABLED = process.env.DUPLICATE_SCAN_ENABLED === 'true' || process.env.DUPLICATE_SCAN_ENABLED === '1';
 
-const EMPTY_HASHES = {
+// Content hashes for files that couldn't be hashed (also used when duplicate scanning is off)
+export const EMPTY_HASHES = {
   hash600: '0000000000000000',
   hash800: '0000000000000000',
   hash1400: '0000000000000000'
 };
 
+// Where frames are hashed for video duplicate detection, as fractions of the duration
+const VIDEO_HASH_POSITIONS = [0.05, 0.15, 0.25, 0.35, 0.45, 0.55, 0.65, 0.75, 0.85, 0.95];
+// Videos with fewer distinct frames than this (mostly black, or very short) aren't hashed
+const MIN_VIDEO_HASH_FRAMES = 3;
+
+// Short looping clips shown when hovering videos and animated GIFs in the gallery
+const PREVIEWS_ENABLED = process.env.PREVIEWS_ENABLED !== 'false' && process.env.PREVIEWS_ENABLED !== '0';
+// Longer videos get this many segments from across the video, shorter ones their first few seconds
+const PREVIEW_SEGMENTS = 4;
+const PREVIEW_SEGMENT_SECONDS = 1;
+
+// HLS segments being encoded, so a player retrying a slow segment waits for the same encode
+const hlsSegmentsInProgress = new Map<string, Promise<string>>();
+// Display copies being converted, by file hash, so simultaneous requests share one conversion
+const displayImagesInProgress = new Map<string, Promise<string>>();
+
 /**
  * Get video duration in seconds
  */
@@ -30,6 +49,43 @@ async function getVideoDuration(filePath: string): Promise<number> {
   });
 }
 
+export interface VideoInfo {
+  duration: number | null;  // Seconds
+  fps: number | null;
+  video_codec: string | null;
+  has_audio: boolean;
+}
+
+/**
+ * Read duration, frame rate, codec and audio presence of a video or animated GIF with ffprobe
+ * Returns null for other files.
+ */
+export async function probeVideo(filePath: string): Promise<VideoInfo | null> {
+  if (!VIDEO_EXTENSIONS.includes(path.extname(filePath).toLowerCase())) return null;
+
+  const metadata = await new Promise<ffmpeg.FfprobeData>((resolve, reject) => {
+    ffmpeg.ffprobe(filePath, (err, data) => {
+      if (err) return reject(err);
+      resolve(data);
+    });
+  });
+
+  const videoStream = metadata.streams.find(s => s.codec_type === 'video');
+  // Frame rates are fractions like "30000/1001", and "0/0" when unknown
+  const parseRate = (rate?: string) => {
+    const [num, den] = (rate || '').split('/').map(Number);
+    return num > 0 && den > 0 ? Math.round((num / den) * 100) / 100 : null;
+  };
+  const duration = Number(metadata.format.duration);
+
+  return {
+    duration: duration > 0 ? Math.round(duration * 1000) / 1000 : null,
+    fps: parseRate(videoStream?.avg_frame_rate) ?? parseRate(videoStream?.r_frame_rate),
+    video_codec: videoStream?.codec_name || null,
+    has_audio: metadata.streams.some(s => s.codec_type === 'audio'),
+  };
+}
+
 /**
  * Extract a single frame from video at specified timestamp
  */
@@ -136,6 +192,32 @@ export async function generateMultiResolutionDHash(imageBuffer: Buffer): Promise
   }
 }
 
+/**
+ * Hash frames spread across a video, for finding re-encoded or trimmed copies
+ * Solid frames (black screens, fades) are skipped since every video has them.
+ * @returns One dHash per distinct frame, or an empty list for images and videos that couldn't be hashed
+ */
+export async function generateVideoHashes(filePath: string): Promise<string[]> {
+  if (!VIDEO_EXTENSIONS.includes(path.extname(filePath).toLowerCase())) return [];
+
+  try {
+    const duration = await getVideoDuration(filePath);
+    if (duration <= 0) return [];
+
+    const hashes: string[] = [];
+    for (const position of VIDEO_HASH_POSITIONS) {
+      const frameBuffer = await extractVideoFrame(filePath, duration * position);
+      if (frameBuffer.length === 0 || await isFrameSolid(frameBuffer)) continue;
+      hashes.push(await generateDHash(frameBuffer));
+    }
+
+    return hashes.length >= MIN_VIDEO_HASH_FRAMES ? hashes : [];
+  } catch (error) {
+    console.error(`Failed to hash video frames for ${filePath}:`, error);
+    return [];
+  }
+}
+
 /**
  * Generate a thumbnail for an image or video
  * For videos: tries first frame, then 1/3, then 2/3 to avoid black frames
@@ -178,7 +260,7 @@ export async function generateThumbnail(
     let imageBuffer: Buffer;
 
     // Handle videos
-    if (['.mp4', '.webm', '.mkv', '.gif'].includes(ext)) {
+    if (VIDEO_EXTENSIONS.includes(ext)) {
       const duration = await getVideoDuration(filePath);
 
       if (duration <= 0) {
@@ -210,9 +292,9 @@ export async function generateThumbnail(
     }
     // Handle images
     else {
-      // Convert WEBP to JPEG first if needed, or read the file
-      if (ext === '.webp') {
-        imageBuffer = await sharp(filePath, { failOn: 'none' }).jpeg({ quality: 90 }).toBuffer();
+      // Convert WebP, AVIF, TIFF, HEIC, JPEG XL and BMP to JPEG first, or read the file
+      if (CONVERTED_IMAGE_EXTENSIONS.includes(ext)) {
+        imageBuffer = await convertToJpeg(filePath);
       } else {
         imageBuffer = await fs.readFile(filePath);
       }
@@ -243,6 +325,154 @@ export async function generateThumbnail(
   }
 }
 
+/**
+ * Generate a short looping preview clip for a video or animated GIF (silent MP4, thumbnail sized)
+ * Does nothing for still images, when previews are disabled, or if the preview already exists.
+ */
+export async function generatePreview(filePath: string, fileHash: string): Promise<void> {
+  if (!PREVIEWS_ENABLED || !VIDEO_EXTENSIONS.includes(path.extname(filePath).toLowerCase())) return;
+
+  const outputPath = getPreviewPath(fileHash);
+  try {
+    await fs.access(outputPath);
+    return;
+  } catch {
+    // Doesn't exist, create it
+  }
+
+  // Written under another name first, so an interrupted encode isn't mistaken for a finished preview
+  const tempPath = path.join(THUMBNAIL_DIR, `${fileHash}.preview.tmp.mp4`);
+
+  try {
+    const duration = await getVideoDuration(filePath);
+    if (duration < 0.5) return; // Single-frame GIFs have nothing to animate
+
+    const previewLength = PREVIEW_SEGMENTS * PREVIEW_SEGMENT_SECONDS;
+    const segments = duration >= previewLength * 2
+      ? Array.from({ length: PREVIEW_SEGMENTS }, (_, i) => ({
+          start: (duration * (i + 1)) / (PREVIEW_SEGMENTS + 1),
+          length: PREVIEW_SEGMENT_SECONDS,
+        }))
+      : [{ start: 0, length: Math.min(duration, previewLength) }];
+
+    await fs.mkdir(THUMBNAIL_DIR, { recursive: true });
+    await new Promise<void>((resolve, reject) => {
+      const command = ffmpeg();
+      for (const segment of segments) {
+        command.input(filePath).seekInput(segment.start).inputOptions(['-t', String(segment.length)]);
+      }
+
+      // Scale each segment down to thumbnail size (even dimensions for H.264), then join them
+      const filters = segments.map((_, i) =>
+        `[${i}:v]scale='min(${THUMBNAIL_SIZE},iw)':'min(${THUMBNAIL_SIZE},ih)':force_original_aspect_ratio=decrease,` +
+        `scale=trunc(iw/2)*2:trunc(ih/2)*2,setsar=1,fps=15[v${i}]`
+      );
+      filters.push(`${segments.map((_, i) => `[v${i}]`).join('')}concat=n=${segments.length}:v=1:a=0[out]`);
+
+      command
+        .complexFilter(filters, 'out')
+        .outputOptions(['-an', '-c:v libx264', '-preset veryfast', '-crf 30', '-pix_fmt yuv420p', '-movflags +faststart'])
+        .on('error', reject)
+        .on('end', () => resolve())
+        .save(tempPath);
+    });
+
+    await fs.rename(tempPath, outputPath);
+    console.log(`Generated preview for: ${path.basename(filePath)}`);
+  } catch (error) {
+    console.error(`Failed to generate preview for ${filePath}:`, error);
+    await fs.unlink(tempPath).catch(() => undefined);
+  }
+}
+
+/**
+ * Get a browser-viewable JPEG copy of an image in a format browsers can't show (HEIC, JPEG XL, TIFF)
+ * Converted on first request and kept next to the thumbnail.
+ */
+export async function generateDisplayImage(filePath: string, fileHash: string): Promise<string> {
+  const outputPath = getDisplayImagePath(fileHash);
+  try {
+    await fs.access(outputPath);
+    return outputPath;
+  } catch {
+    // Doesn't exist, create it
+  }
+
+  let pending = displayImagesInProgress.get(fileHash);
+  if (!pending) {
+    // Written under another name first, so an interrupted write isn't served as a finished copy
+    const tempPath = path.join(THUMBNAIL_DIR, `${fileHash}.display.tmp.jpg`);
+    pending = (async () => {
+      try {
+        await fs.mkdir(THUMBNAIL_DIR, { recursive: true });
+        await fs.writeFile(tempPath, await convertToJpeg(filePath));
+        await fs.rename(tempPath, outputPath);
+        return outputPath;
+      } catch (error) {
+        await fs.unlink(tempPath).catch(() => undefined);
+        throw error;
+      }
+    })().finally(() => displayImagesInProgress.delete(fileHash));
+    displayImagesInProgress.set(fileHash, pending);
+  }
+  return pending;
+}
+
+/**
+ * Get one HLS segment of a video (see encodeHlsSegment)
+ * Encoded on first request and kept in a folder per video next to the thumbnail, so seeking
+ * back or watching again doesn't encode it again.
+ */
+export async function generateHlsSegment(filePath: string, fileHash: string, index: number): Promise<string> {
+  const outputPath = path.join(getHlsSegmentDir(fileHash), `${index}.ts`);
+  try {
+    await fs.access(outputPath);
+    return outputPath;
+  } catch {
+    // Doesn't exist, create it
+  }
+
+  let pending = hlsSegmentsInProgress.get(outputPath);
+  if (!pending) {
+    // Written under another name first, so an interrupted encode isn't mistaken for a finished segment
+    const tempPath = path.join(getHlsSegmentDir(fileHash), `${index}.tmp.ts`);
+    pending = (async () => {
+      try {
+        await fs.mkdir(getHlsSegmentDir(fileHash), { recursive: true });
+        await encodeHlsSegment(filePath, index, tempPath);
+        await fs.rename(tempPath, outputPath);
+        return outputPath;
+      } catch (error) {
+        await fs.unlink(tempPath).catch(() => undefined);
+        throw error;
+      }
+    })().finally(() => hlsSegmentsInProgress.delete(outputPath));
+    hlsSegmentsInProgress.set(outputPath, pending);
+  }
+  return pending;
+}
+
+/**
+ * Get the folder holding a video's encoded HLS segments
+ */
+export function getHlsSegmentDir(fileHash: string): string {
+  return path.join(THUMBNAIL_DIR, 'hls', fileHash);
+}
+
+/**
+ * Get path of the browser-viewable copy of an image (see generateDisplayImage)
+ */
+export function getDisplayImagePath(fileHash: string): string {
+  return path.join(THUMBNAIL_DIR, `${fileHash}.display.jpg`);
+}
+
+/**
+ * Get preview clip path for a video or animated GIF
+ */
+export function getPreviewPath(fileHash: string): string {
+  return path.join(THUMBNAIL_DIR, `${fileHash}.preview.mp4`);
+}
+
 /**
  * Get thumbnail path for an image
  */
@@ -251,15 +481,22 @@ export function getThumbnailPath(fileHash: string): string {
 }
 
 /**
- * Delete thumbnail for an image
+ * Delete thumbnail (and preview clip, converted copy or HLS segments, if any) for an image
  */
 export async function deleteThumbnail(fileHash: string): Promise<void> {
-  const thumbnailPath = path.join(THUMBNAIL_DIR, `${fileHash}.jpg`);
-  try {
-    await fs.unlink(thumbnailPath);
-  } catch {
-    // Ignore if doesn't exist
+  const files = [
+    path.join(THUMBNAIL_DIR, `${fileHash}.jpg`),
+    getPreviewPath(fileHash),
+    getDisplayImagePath(fileHash),
+  ];
+  for (const filePath of files) {
+    try {
+      await fs.unlink(filePath);
+    } catch {
+      // Ignore if doesn't exist
+    }
   }
+  await fs.rm(getHlsSegmentDir(fileHash), { recursive: true, force: true }).catch(() => undefined);
 }
 
 /**
@@ -0,0 +1,143 @@
+import path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { Writable } from 'stream';
+import sharp from 'sharp';
+import ffmpeg from 'fluent-ffmpeg';
+import { IMAGEMAGICK_EXTENSIONS } from './formats';
+
+const execFileAsync = promisify(execFile);
+
+// Video codecs browsers play from an MP4 container, copied as-is when remuxing
+const BROWSER_VIDEO_CODECS = ['h264', 'vp9', 'av1'];
+
+// HLS streams are cut into segments of this many seconds, each encoded when it's requested
+export const HLS_SEGMENT_SECONDS = 6;
+// Taller videos are scaled down for HLS, which is mostly watched on phones
+const HLS_MAX_HEIGHT = parseInt(process.env.HLS_MAX_HEIGHT || '720') || 720;
+// At most this many HLS segments are encoded at once, across all viewers
+const HLS_MAX_ENCODES = Math.max(1, parseInt(process.env.HLS_MAX_ENCODES || '2') || 2);
+
+let activeEncodes = 0;
+// Encodes waiting for a free slot, started in request order
+const encodeQueue: (() => void)[] = [];
+
+/**
+ * Convert an image to JPEG (first frame/page only)
+ * Formats sharp can't decode go through ImageMagick.
+ */
+export async function convertToJpeg(filePath: string, quality: number = 90): Promise<Buffer> {
+  if (IMAGEMAGICK_EXTENSIONS.includes(path.extname(filePath).toLowerCase())) {
+    const { stdout } = await execFileAsync(
+      'magick',
+      [`${filePath}[0]`, '-quality', String(quality), 'jpeg:-'],
+      { encoding: 'buffer', maxBuffer: 512 * 1024 * 1024 }
+    );
+    return stdout;
+  }
+
+  return sharp(filePath, { failOn: 'none' }).jpeg({ quality }).toBuffer();
+}
+
+/**
+ * Stream a video as fragmented MP4, which browsers can play while it's being written
+ * Browser-friendly video streams are copied, others are re-encoded to H.264. Audio is always AAC.
+ * Stops ffmpeg when the client goes away.
+ */
+export function streamVideoAsMp4(filePath: string, videoCodec: string | null, output: Writable): void {
+  const videoOptions = videoCodec && BROWSER_VIDEO_CODECS.includes(videoCodec)
+    ? ['-c:v copy']
+    : ['-c:v libx264', '-preset veryfast', '-crf 23', '-pix_fmt yuv420p'];
+
+  const command = ffmpeg(filePath)
+    .outputOptions([
+      '-map 0:v:0',
+      '-map 0:a:0?',
+      ...videoOptions,
+      '-c:a aac',
+      '-b:a 160k',
+      '-movflags frag_keyframe+empty_moov+default_base_moof',
+    ])
+    .format('mp4')
+    .on('error', (error) => {
+      // Killed because the viewer closed the video
+      if (output.destroyed) return;
+      console.error(`Failed to transcode ${filePath}:`, error);
+      output.destroy(error);
+    });
+
+  output.on('close', () => command.kill('SIGKILL'));
+  command.pipe(output, { end: true });
+}
+
+/**
+ * Build the HLS playlist of a video, listing every segment up front (segments are named 0.ts, 1.ts, ...)
+ */
+export function buildHlsPlaylist(duration: number): string {
+  const lines = [
+    '#EXTM3U',
+    '#EXT-X-VERSION:3',
+    `#EXT-X-TARGETDURATION:${HLS_SEGMENT_SECONDS}`,
+    '#EXT-X-MEDIA-SEQUENCE:0',
+    '#EXT-X-PLAYLIST-TYPE:VOD',
+  ];
+
+  const segmentCount = Math.ceil(duration / HLS_SEGMENT_SECONDS);
+  for (let i = 0; i < segmentCount; i++) {
+    const length = Math.min(HLS_SEGMENT_SECONDS, duration - i * HLS_SEGMENT_SECONDS);
+    lines.push(`#EXTINF:${length.toFixed(3)},`, `${i}.ts`);
+  }
+
+  lines.push('#EXT-X-ENDLIST');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Encode one HLS segment of a video to an MPEG-TS file
+ * Segments are encoded independently, so players can jump straight to any point of the video.
+ * Waits while HLS_MAX_ENCODES other segments are being encoded.
+ */
+export async function encodeHlsSegment(filePath: string, index: number, outputPath: string): Promise<void> {
+  if (activeEncodes < HLS_MAX_ENCODES) {
+    activeEncodes++;
+  } else {
+    // The slot is handed over by the encode that frees it
+    await new Promise<void>(resolve => encodeQueue.push(resolve));
+  }
+
+  const start = index * HLS_SEGMENT_SECONDS;
+  try {
+    await new Promise<void>((resolve, reject) => {
+      ffmpeg(filePath)
+        .seekInput(start)
+        .inputOptions(['-t', String(HLS_SEGMENT_SECONDS)])
+        .outputOptions([
+          '-map 0:v:0',
+          '-map 0:a:0?',
+          `-vf scale=-2:'min(${HLS_MAX_HEIGHT},ih)'`,
+          '-c:v libx264',
+          '-preset veryfast',
+          '-crf 23',
+          '-maxrate 5M',
+          '-bufsize 10M',
+          '-pix_fmt yuv420p',
+          '-c:a aac',
+          '-ac 2',
+          '-b:a 128k',
+          // Keep timestamps continuous between separately encoded segments
+          `-output_ts_offset ${start}`,
+        ])
+        .format('mpegts')
+        .on('error', reject)
+        .on('end', () => resolve())
+        .save(outputPath);
+    });
+  } finally {
+    const next = encodeQueue.shift();
+    if (next) {
+      next();
+    } else {
+      activeEncodes--;
+    }
+  }
+}
@@ -0,0 +1,310 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import { createWriteStream } from 'fs';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
+import { execute, query, queryOne } from '../database/connection';
+import { calculateFileHash } from './thumbnail';
+import { indexFile, whileWritingFile, isRecursive } from './scanner';
+import { SUPPORTED_EXTENSIONS } from './formats';
+import { applyBulkEdit } from './bulk';
+import { HistoryActor } from './history';
+import { Folder } from '../types';
+import { pluginRegistry } from '../index';
+
+// Inbox folder for web uploads (uploads are turned off when unset)
+export const UPLOAD_DIR = (process.env.UPLOAD_DIR || '').replace(/\/+$/, '');
+export const MAX_UPLOAD_SIZE_MB = parseInt(process.env.MAX_UPLOAD_SIZE_MB || '500', 10);
+
+// Uploads are written under this extension until they're checked, so scans and the watcher skip them
+export const PARTIAL_UPLOAD_EXTENSION = '.part';
+
+// Length of the images.source and images.artist columns
+export const MAX_SOURCE_LENGTH = 255;
+
+// Give up on URL imports that take longer than this to download
+const DOWNLOAD_TIMEOUT_MS = 5 * 60 * 1000;
+
+// File extensions for downloads whose URL doesn't end in one
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'image/avif': '.avif',
+  'image/heic': '.heic',
+  'image/heif': '.heif',
+  'image/jxl': '.jxl',
+  'image/tiff': '.tiff',
+  'image/bmp': '.bmp',
+  'video/mp4': '.mp4',
+  'video/webm': '.webm',
+  'video/x-matroska': '.mkv',
+  'video/quicktime': '.mov',
+};
+
+export interface UploadMetadata {
+  tags: string[];
+  rating: number | null;
+  source: string | null;
+  artist: string | null;
+}
+
+export type UploadResult =
+  | { filename: string; status: 'added'; image_id: number }
+  | { filename: string; status: 'duplicate'; image_id: number }
+  | { filename: string; status: 'failed'; error: string };
+
+/**
+ * Prepare the upload inbox: create it, remove uploads interrupted by a restart, and add it
+ * as a library folder unless one already covers it
+ */
+export async function ensureUploadFolder(): Promise<void> {
+  if (!UPLOAD_DIR) return;
+
+  await fs.mkdir(UPLOAD_DIR, { recursive: true });
+
+  for (const entry of await fs.readdir(UPLOAD_DIR)) {
+    if (entry.endsWith(PARTIAL_UPLOAD_EXTENSION)) {
+      await fs.unlink(path.join(UPLOAD_DIR, entry)).catch(() => undefined);
+    }
+  }
+
+  const folders = await query<Folder>('SELECT path, do_recurse FROM folders');
+  const covered = folders.some(folder =>
+    folder.path === UPLOAD_DIR || (isRecursive(folder.do_recurse) && UPLOAD_DIR.startsWith(`${folder.path}/`))
+  );
+  if (!covered) {
+    await execute('INSERT INTO folders (path, do_recurse, enabled) VALUES (?, TRUE, TRUE)', [UPLOAD_DIR]);
+    console.log(`Added upload folder ${UPLOAD_DIR}`);
+  }
+}
+
+// Hashes of uploads being imported, so two copies of the same file arriving together aren't both added
+const importsInProgress = new Map<string, Promise<UploadResult>>();
+
+/**
+ * Move an upload to a free path in the inbox, keeping its original name where possible
+ * The name is claimed atomically (a hard link fails if the name is taken), so uploads with
+ * the same name arriving together never overwrite each other.
+ * @returns The file's new path
+ */
+async function moveToInbox(tempPath: string, originalName: string): Promise<string> {
+  const safeName = path.basename(originalName).replace(/[\\/:*?"<>|\x00-\x1f]/g, '_');
+  const ext = path.extname(safeName);
+  const base = safeName.slice(0, safeName.length - ext.length) || 'upload';
+
+  for (let i = 0; ; i++) {
+    const candidate = path.join(UPLOAD_DIR, i === 0 ? `${base}${ext}` : `${base} (${i})${ext}`);
+    try {
+      await fs.link(tempPath, candidate);
+      await fs.unlink(tempPath);
+      return candidate;
+    } catch (error: any) {
+      if (error.code === 'EEXIST') continue;
+      if (error.code !== 'EPERM' && error.code !== 'ENOTSUP' && error.code !== 'EOPNOTSUPP') throw error;
+    }
+
+    // Filesystems without hard links: reserve the name with an exclusive create, then replace it
+    try {
+      await (await fs.open(candidate, 'wx')).close();
+    } catch (error: any) {
+      if (error.code === 'EEXIST') continue;
+      throw error;
+    }
+    await fs.rename(tempPath, candidate);
+    return candidate;
+  }
+}
+
+/**
+ * Move an uploaded file into the inbox, index it, then add the tags, rating and source the uploader entered
+ * What the uploader left blank keeps whatever the file, its sidecars or its folder's defaults brought.
+ * The uploader's changes are recorded in the image's history and written back like any other edit.
+ * Exact copies of an indexed file (same hash) are discarded.
+ * @param tempPath Where the upload was received (a .part file in the inbox)
+ * @param originalName Filename sent by the browser
+ */
+export async function importUpload(
+  tempPath: string,
+  originalName: string,
+  metadata: UploadMetadata,
+  actor: HistoryActor
+): Promise<UploadResult> {
+  const filename = path.basename(originalName);
+
+  try {
+    const ext = path.extname(filename).toLowerCase();
+    if (!SUPPORTED_EXTENSIONS.includes(ext)) {
+      await fs.unlink(tempPath);
+      return { filename, status: 'failed', error: 'Unsupported file type' };
+    }
+
+    const fileHash = await calculateFileHash(tempPath);
+
+    // Wait for an upload of the same file to be indexed, so it's seen as a duplicate below
+    while (importsInProgress.has(fileHash)) {
+      await importsInProgress.get(fileHash)!.catch(() => undefined);
+    }
+    const importing = importNewUpload(tempPath, filename, fileHash, metadata, actor);
+    importsInProgress.set(fileHash, importing);
+    try {
+      return await importing;
+    } finally {
+      importsInProgress.delete(fileHash);
+    }
+  } catch (error) {
+    console.error(`Failed to import upload ${filename}:`, error);
+    await fs.unlink(tempPath).catch(() => undefined);
+    return { filename, status: 'failed', error: 'Failed to save upload' };
+  }
+}
+
+// The rest of importUpload, run once at a time per file hash
+async function importNewUpload(
+  tempPath: string,
+  filename: string,
+  fileHash: string,
+  metadata: UploadMetadata,
+  actor: HistoryActor
+): Promise<UploadResult> {
+  let imageId: number | null;
+  let finalPath: string;
+  try {
+    const existing = await queryOne<{ id: number }>('SELECT id FROM images WHERE file_hash = ? LIMIT 1', [fileHash]);
+    if (existing) {
+      await fs.unlink(tempPath);
+      return { filename, status: 'duplicate', image_id: existing.id };
+    }
+
+    finalPath = await moveToInbox(tempPath, filename);
+    imageId = await whileWritingFile(finalPath, () => indexFile(finalPath));
+  } catch (error) {
+    console.error(`Failed to import upload ${filename}:`, error);
+    await fs.unlink(tempPath).catch(() => undefined);
+    return { filename, status: 'failed', error: 'Failed to save upload' };
+  }
+
+  if (!imageId) {
+    return { filename, status: 'failed', error: 'File could not be indexed' };
+  }
+
+  try {
+    await applyBulkEdit(imageId, {
+      add_tags: metadata.tags,
+      remove_tags: [],
+      ...(metadata.rating !== null && { rating: metadata.rating }),
+      ...(metadata.source && { source: metadata.source.slice(0, MAX_SOURCE_LENGTH) }),
+      ...(metadata.artist && { artist: metadata.artist.slice(0, MAX_SOURCE_LENGTH) }),
+    }, actor);
+  } catch (error) {
+    // The image is in the library either way, it just lacks what the uploader entered
+    console.error(`Failed to apply upload metadata to image ${imageId}:`, error);
+  }
+
+  console.log(`Uploaded ${path.basename(finalPath)} as image ${imageId}`);
+  return { filename, status: 'added', image_id: imageId };
+}
+
+/**
+ * Name a downloaded file after the Content-Disposition header or the URL, adding an
+ * extension from the Content-Type when neither has a supported one
+ */
+function getDownloadFilename(url: string, contentType: string | null, contentDisposition: string | null): string {
+  let filename = '';
+
+  const dispositionMatch = contentDisposition?.match(/filename\*=UTF-8''([^;]+)|filename="?([^";]+)"?/i);
+  if (dispositionMatch) {
+    try {
+      filename = decodeURIComponent(dispositionMatch[1] || dispositionMatch[2]);
+    } catch {
+      filename = dispositionMatch[1] || dispositionMatch[2];
+    }
+  }
+
+  if (!filename) {
+    const lastSegment = new URL(url).pathname.split('/').filter(Boolean).pop() || '';
+    try {
+      filename = decodeURIComponent(lastSegment);
+    } catch {
+      filename = lastSegment;
+    }
+  }
+
+  filename = path.basename(filename) || 'download';
+  const mimeType = (contentType || '').split(';')[0].trim().toLowerCase();
+  if (!SUPPORTED_EXTENSIONS.includes(path.extname(filename).toLowerCase()) && CONTENT_TYPE_EXTENSIONS[mimeType]) {
+    filename += CONTENT_TYPE_EXTENSIONS[mimeType];
+  }
+  return filename;
+}
+
+/**
+ * Download a file from the web into the inbox and import it like an upload
+ * Source extractor plugins may swap a page URL for its file's URL and add tags and the artist.
+ * The URL as given is kept as the source.
+ */
+export async function importFromUrl(
+  url: string,
+  metadata: Omit<UploadMetadata, 'source'>,
+  actor: HistoryActor
+): Promise<UploadResult> {
+  const extracted = await pluginRegistry.extractSource(url);
+  const downloadUrl = extracted.fileUrl || url;
+  let filename = downloadUrl;
+  let tooLarge = false;
+
+  const tempPath = path.join(UPLOAD_DIR, `${crypto.randomBytes(16).toString('hex')}${PARTIAL_UPLOAD_EXTENSION}`);
+  try {
+    const response = await fetch(downloadUrl, {
+      headers: { 'User-Agent': 'LANBooru' },
+      signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS),
+    });
+    if (!response.ok || !response.body) {
+      return { filename, status: 'failed', error: `Download failed (HTTP ${response.status})` };
+    }
+
+    filename = getDownloadFilename(response.url || downloadUrl, response.headers.get('content-type'), response.headers.get('content-disposition'));
+    if (!SUPPORTED_EXTENSIONS.includes(path.extname(filename).toLowerCase())) {
+      await response.body.cancel();
+      return { filename, status: 'failed', error: 'Unsupported file type' };
+    }
+
+    const maxBytes = MAX_UPLOAD_SIZE_MB * 1024 * 1024;
+    if (Number(response.headers.get('content-length')) > maxBytes) {
+      await response.body.cancel();
+      return { filename, status: 'failed', error: `Files may be at most ${MAX_UPLOAD_SIZE_MB} MB` };
+    }
+
+    // Servers don't always send a length, so the limit is also checked as the file comes in
+    let received = 0;
+    await pipeline(
+      Readable.fromWeb(response.body as WebReadableStream<Uint8Array>),
+      new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          received += chunk.length;
+          tooLarge = received > maxBytes;
+          callback(tooLarge ? new Error('Download too large') : null, chunk);
+        },
+      }),
+      createWriteStream(tempPath),
+    );
+  } catch (error) {
+    await fs.unlink(tempPath).catch(() => undefined);
+    if (tooLarge) {
+      return { filename, status: 'failed', error: `Files may be at most ${MAX_UPLOAD_SIZE_MB} MB` };
+    }
+    console.error(`Failed to download ${downloadUrl}:`, error);
+    return { filename, status: 'failed', error: 'Download failed' };
+  }
+
+  const extractedTags = (extracted.tags || []).map(t => t.trim().toLowerCase()).filter(t => t.length > 0);
+  return importUpload(tempPath, filename, {
+    tags: [...new Set([...metadata.tags, ...extractedTags])],
+    rating: metadata.rating,
+    source: url,
+    artist: metadata.artist || extracted.artist || null,
+  }, actor);
+}
@@ -0,0 +1,271 @@
+import fs from 'fs';
+import path from 'path';
+import { query } from '../database/connection';
+import { Folder } from '../types';
+import { syncChangedPaths, isMetadataWriteInProgress, isFolderBeingDeleted, isRecursive } from './scanner';
+
+const WATCH_ENABLED = process.env.WATCH_ENABLED !== 'false' && process.env.WATCH_ENABLED !== '0';
+// Wait for this long without new events before indexing (copies arrive as many events)
+const WATCH_DEBOUNCE_MS = parseInt(process.env.WATCH_DEBOUNCE_MS || '2000');
+// ...but never hold changes back longer than this while events keep coming
+const WATCH_MAX_DELAY_MS = WATCH_DEBOUNCE_MS * 10;
+// How often folders left to the periodic scan try to be watched again (the watch limit may have been raised)
+const WATCH_RETRY_MS = 15 * 60 * 1000;
+
+interface FolderWatch {
+  folder: Folder;
+  watchers: Map<string, fs.FSWatcher>; // directory path -> watcher
+  pending: Set<string>;
+  firstQueuedAt: number;
+  timer: NodeJS.Timeout | null;
+}
+
+// Thrown when the OS refuses more watches (inotify's max_user_watches, or out of file descriptors)
+class WatchLimitError extends Error {}
+
+const folderWatches = new Map<number, FolderWatch>();
+// Folders that couldn't be watched and rely on the periodic scan
+const fallbackFolderIds = new Set<number>();
+
+let started = false;
+let onFallback: (() => void) | null = null;
+let retryTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Start watching every enabled folder
+ * @param fallback Called when a folder can't be watched, so periodic scanning can be switched on
+ */
+export async function startWatchers(fallback: () => void): Promise<void> {
+  if (!WATCH_ENABLED) {
+    console.log('File watching disabled');
+    return;
+  }
+
+  started = true;
+  onFallback = fallback;
+  await refreshWatchers();
+
+  retryTimer = setInterval(() => {
+    if (fallbackFolderIds.size === 0) return;
+    refreshWatchers().catch(error => {
+      console.error('Failed to retry watching folders:', error);
+    });
+  }, WATCH_RETRY_MS);
+  retryTimer.unref();
+}
+
+/**
+ * Match the watchers to the folder table: watch new or re-enabled folders and drop
+ * removed or disabled ones. Call after changing folders.
+ * Folders left to the periodic scan are tried again, in case watches were freed up since.
+ */
+export async function refreshWatchers(): Promise<void> {
+  if (!started) return;
+
+  const folders = await query<Folder>('SELECT * FROM folders WHERE enabled = TRUE');
+  const enabledIds = new Set(folders.map(f => f.id));
+
+  for (const [folderId, watch] of folderWatches) {
+    const current = folders.find(f => f.id === folderId);
+    // Recursion changes need a fresh set of directory watchers
+    if (!current || isRecursive(current.do_recurse) !== isRecursive(watch.folder.do_recurse)) {
+      unwatchFolder(folderId);
+    } else {
+      // Pick up other setting changes, like include/exclude patterns
+      watch.folder = current;
+    }
+  }
+  for (const folderId of fallbackFolderIds) {
+    if (!enabledIds.has(folderId)) fallbackFolderIds.delete(folderId);
+  }
+
+  for (const folder of folders) {
+    if (!folderWatches.has(folder.id)) {
+      await watchFolder(folder);
+    }
+  }
+}
+
+/**
+ * Stop watching a folder (pending changes are dropped)
+ */
+export function unwatchFolder(folderId: number): void {
+  const watch = folderWatches.get(folderId);
+  if (!watch) return;
+
+  if (watch.timer) clearTimeout(watch.timer);
+  for (const watcher of watch.watchers.values()) {
+    watcher.close();
+  }
+  folderWatches.delete(folderId);
+}
+
+/**
+ * Stop all watchers (on shutdown)
+ */
+export function stopWatchers(): void {
+  for (const folderId of [...folderWatches.keys()]) {
+    unwatchFolder(folderId);
+  }
+  if (retryTimer) {
+    clearInterval(retryTimer);
+    retryTimer = null;
+  }
+  started = false;
+}
+
+async function watchFolder(folder: Folder): Promise<void> {
+  const watch: FolderWatch = {
+    folder,
+    watchers: new Map(),
+    pending: new Set(),
+    firstQueuedAt: 0,
+    timer: null,
+  };
+  folderWatches.set(folder.id, watch);
+
+  try {
+    await watchTree(watch, folder.path);
+    // Unwatched while we were walking it
+    if (folderWatches.get(folder.id) !== watch) return;
+
+    fallbackFolderIds.delete(folder.id);
+    console.log(`Watching ${folder.path} (${watch.watchers.size} director${watch.watchers.size === 1 ? 'y' : 'ies'})`);
+  } catch (error) {
+    if (error instanceof WatchLimitError) {
+      fallBack(watch);
+    } else {
+      console.error(`Failed to watch ${folder.path}:`, error);
+      unwatchFolder(folder.id);
+    }
+  }
+}
+
+// Give up on watching a folder and leave it to the periodic scan
+function fallBack(watch: FolderWatch): void {
+  unwatchFolder(watch.folder.id);
+  // Only warn the first time, not on every retry
+  if (fallbackFolderIds.has(watch.folder.id)) return;
+
+  fallbackFolderIds.add(watch.folder.id);
+  console.warn(
+    `Watch limit reached while watching ${watch.folder.path}, falling back to periodic scanning for it. ` +
+    'Raise fs.inotify.max_user_watches on the host to watch it.'
+  );
+  onFallback?.();
+}
+
+// Watch a directory and (for recursive folders) everything below it
+async function watchTree(watch: FolderWatch, dirPath: string): Promise<void> {
+  watchDirectory(watch, dirPath);
+  if (!isRecursive(watch.folder.do_recurse)) return;
+
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
+  } catch {
+    return; // Removed while we were walking it
+  }
+  for (const entry of entries) {
+    if (entry.isDirectory()) {
+      await watchTree(watch, path.join(dirPath, entry.name));
+    }
+  }
+}
+
+function watchDirectory(watch: FolderWatch, dirPath: string): void {
+  // Stop adding watchers once the folder has been unwatched, they'd never be closed
+  if (watch.watchers.has(dirPath) || folderWatches.get(watch.folder.id) !== watch) return;
+
+  let watcher: fs.FSWatcher;
+  try {
+    watcher = fs.watch(dirPath, { persistent: false }, (_eventType, filename) => {
+      // Without a filename we don't know what changed, so resync the whole directory
+      queueChange(watch, filename ? path.join(dirPath, filename.toString()) : dirPath);
+    });
+  } catch (error: any) {
+    if (error.code === 'ENOSPC' || error.code === 'EMFILE') {
+      throw new WatchLimitError(error.message);
+    }
+    if (error.code === 'ENOENT') return; // Removed before we got to it
+    throw error;
+  }
+
+  watcher.on('error', () => {
+    // Usually the directory itself was removed; its parent reports that as a change
+    watcher.close();
+    watch.watchers.delete(dirPath);
+  });
+  watch.watchers.set(dirPath, watcher);
+}
+
+function queueChange(watch: FolderWatch, changedPath: string): void {
+  if (watch.pending.size === 0) watch.firstQueuedAt = Date.now();
+  watch.pending.add(changedPath);
+
+  if (watch.timer) {
+    // Let the scheduled flush run if we've already held changes back long enough
+    if (Date.now() - watch.firstQueuedAt >= WATCH_MAX_DELAY_MS) return;
+    clearTimeout(watch.timer);
+  }
+  watch.timer = setTimeout(() => {
+    watch.timer = null;
+    flushChanges(watch).catch(error => {
+      console.error(`Failed to index changes in ${watch.folder.path}:`, error);
+    });
+  }, WATCH_DEBOUNCE_MS);
+}
+
+async function flushChanges(watch: FolderWatch): Promise<void> {
+  // Skip if the folder was unwatched (or deleted) since these changes were queued
+  if (folderWatches.get(watch.folder.id) !== watch || isFolderBeingDeleted(watch.folder.path)) return;
+
+  const paths = [...watch.pending];
+  watch.pending.clear();
+
+  // Our own metadata write-backs are still being rehashed - look at them again next round
+  const ready = paths.filter(p => !isMetadataWriteInProgress(p));
+  for (const p of paths) {
+    if (isMetadataWriteInProgress(p)) queueChange(watch, p);
+  }
+  if (ready.length === 0) return;
+
+  // New subdirectories need their own watchers, removed ones release theirs
+  if (isRecursive(watch.folder.do_recurse)) {
+    try {
+      for (const changedPath of ready) {
+        if (await isDirectory(changedPath)) {
+          await watchTree(watch, changedPath);
+        } else {
+          closeWatchersUnder(watch, changedPath);
+        }
+      }
+    } catch (error) {
+      if (!(error instanceof WatchLimitError)) throw error;
+      // Index what we have, then leave the folder to the periodic scan
+      fallBack(watch);
+    }
+  }
+
+  const { added, removed } = await syncChangedPaths(watch.folder, ready);
+  if (added > 0 || removed > 0) {
+    console.log(`Watcher: ${added} added, ${removed} removed in ${watch.folder.path}`);
+  }
+}
+
+async function isDirectory(filePath: string): Promise<boolean> {
+  try {
+    return (await fs.promises.stat(filePath)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+function closeWatchersUnder(watch: FolderWatch, removedPath: string): void {
+  for (const [dirPath, watcher] of watch.watchers) {
+    if (dirPath === removedPath || dirPath.startsWith(removedPath + '/')) {
+      watcher.close();
+      watch.watchers.delete(dirPath);
+    }
+  }
+}
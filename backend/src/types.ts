@@ -8,8 +8,13 @@ export interface Image {
   content_hash_600?: string;
   content_hash_800?: string;
   content_hash_1400?: string;
+  video_hashes?: string; // Comma-separated frame dHashes (videos only)
   width: number;
   height: number;
+  duration?: number | null;    // Seconds (videos and animated GIFs only, like the fields below)
+  fps?: number | null;
+  video_codec?: string | null;
+  has_audio?: boolean | null;
   artist?: string;
   rating?: number;
   source?: string;
@@ -17,26 +22,122 @@ export interface Image {
   updated_at: Date;
 }
 
+export type TagCategory = 'general' | 'artist' | 'character' | 'copyright' | 'meta';
+
 export interface Tag {
   id: number;
   name: string;
+  category: TagCategory;
   count: number;
 }
 
+export interface TagAlias {
+  id: number;
+  alias: string;
+  target: string;
+  created_at: Date;
+}
+
+export interface TagImplication {
+  id: number;
+  tag: string;
+  implied_tag: string;
+  created_at: Date;
+}
+
+export type UserRole = 'viewer' | 'editor' | 'admin';
+
+export interface User {
+  id: number;
+  username: string;
+  password_hash: string;
+  role: UserRole;
+  created_at: Date;
+}
+
+// The logged-in user attached to a request (never includes the password hash)
+export interface SessionUser {
+  id: number;
+  username: string;
+  role: UserRole;
+}
+
+// Who made a tag/rating change: a logged-in user, a plugin, or the scanner importing file metadata
+export type HistorySource = 'user' | 'plugin' | 'scanner';
+
+export interface ImageHistoryEntry {
+  id: number;
+  image_id: number;
+  source: HistorySource;
+  source_name: string | null;   // username or plugin id
+  user_id: number | null;
+  added_tags: string[];
+  removed_tags: string[];
+  rating_changed: boolean;
+  rating_before: number | null;
+  rating_after: number | null;
+  reverted_from: number | null; // history entry this change reverted
+  created_at: Date;
+}
+
 export interface ImageTag {
   image_id: number;
   tag_id: number;
 }
 
+// Whether a folder's sidecar files (image.jpg.txt, image.json, image.xmp) are read, and also written on edits
+export type SidecarMode = 'off' | 'read' | 'write';
+
 export interface Folder {
   id: number;
   path: string;
   do_recurse: boolean;
   enabled: boolean;
+  sidecars: SidecarMode;
+  default_tags: string[];        // Added to every image indexed from the folder
+  default_rating: number | null; // Given to new images that have no rating of their own
+  include_patterns: string[];    // Globs relative to the folder; if any, only matching files are indexed
+  exclude_patterns: string[];    // Globs for files to leave out
+  read_only: boolean;            // Edits stay in the database, files (and sidecars) are never written
   last_scanned_at?: Date;
   created_at: Date;
 }
 
+// A directory in the folder browser, with its image counts
+export interface DirectoryNode {
+  name: string;
+  path: string;
+  count: number;   // Images directly in this directory
+  total: number;   // Images here and in every subdirectory
+  children: DirectoryNode[];
+}
+
+export type JobType =
+  | 'scan' | 'cleanup' | 'thumbnails' | 'duplicates' | 'sidecars'
+  | 'bulk_edit' | 'tag_merge' | 'tag_rules' | 'import';
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface Job {
+  id: number;
+  type: JobType;
+  status: JobStatus;
+  folder_id: number | null; // null = all folders
+  total: number;
+  processed: number;
+  failed: number;
+  error: string | null;
+  created_at: Date;
+  started_at: Date | null;
+  finished_at: Date | null;
+}
+
+// Progress reporting for long-running scanner work, so it can run as a job
+export interface JobProgress {
+  addTotal(count: number): void;
+  advance(failed?: boolean): void;
+  isCancelled(): boolean;
+}
+
 export interface SearchQuery {
   query: string;
   page?: number;
@@ -60,7 +161,34 @@ export interface DuplicateInfo {
 
 export interface ImageWithTags extends Image {
   tags: string[];
+  tag_categories?: Record<string, TagCategory>;  // Category of each tag, keyed by name
   duplicates?: DuplicateInfo;
+  pools?: ImagePoolInfo[];
+  favorite_count?: number;
+  is_favorite?: boolean;  // Only set when a user is logged in
+}
+
+export interface Pool {
+  id: number;
+  name: string;
+  description: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface PoolWithCount extends Pool {
+  image_count: number;
+  cover_id: number | null;  // First image in the pool
+}
+
+// An image's place in one of its pools (for prev/next navigation)
+export interface ImagePoolInfo {
+  id: number;
+  name: string;
+  position: number;
+  count: number;
+  prev_id: number | null;
+  next_id: number | null;
 }
 
 export interface ScanStats {
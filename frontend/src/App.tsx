@@ -3,11 +3,16 @@ import { BrowserRouter, Routes, Route } from 'react-router-dom';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { ThemeProvider } from './theme/ThemeContext';
 import { PluginProvider } from './plugins';
+import { AuthProvider } from './auth';
 import Layout from './components/Layout/Layout';
 import HomePage from './pages/HomePage';
 import ImagePage from './pages/ImagePage';
 import AdminPage from './pages/AdminPage';
 import HelpPage from './pages/HelpPage';
+import PoolsPage from './pages/PoolsPage';
+import FoldersPage from './pages/FoldersPage';
+import PoolPage from './pages/PoolPage';
+import DuplicatesPage from './pages/DuplicatesPage';
 import NotFoundPage from './pages/NotFoundPage';
 
 // Signal to fallback script that React has mounted
@@ -35,20 +40,26 @@ export default function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <ThemeProvider>
-        <PluginProvider>
-          <BrowserRouter>
-            <Routes>
-              <Route element={<Layout />}>
-                <Route path="/" element={<HomePage />} />
-                <Route path="/search" element={<HomePage />} />
-                <Route path="/image/:id" element={<ImagePage />} />
-                <Route path="/admin" element={<AdminPage />} />
-                <Route path="/help" element={<HelpPage />} />
-                <Route path="*" element={<NotFoundPage />} />
-              </Route>
-            </Routes>
-          </BrowserRouter>
-        </PluginProvider>
+        <AuthProvider>
+          <PluginProvider>
+            <BrowserRouter>
+              <Routes>
+                <Route element={<Layout />}>
+                  <Route path="/" element={<HomePage />} />
+                  <Route path="/search" element={<HomePage />} />
+                  <Route path="/image/:id" element={<ImagePage />} />
+                  <Route path="/pools" element={<PoolsPage />} />
+                  <Route path="/folders" element={<FoldersPage />} />
+                  <Route path="/pool/:id" element={<PoolPage />} />
+                  <Route path="/duplicates" element={<DuplicatesPage />} />
+                  <Route path="/admin" element={<AdminPage />} />
+                  <Route path="/help" element={<HelpPage />} />
+                  <Route path="*" element={<NotFoundPage />} />
+                </Route>
+              </Routes>
+            </BrowserRouter>
+          </PluginProvider>
+        </AuthProvider>
       </ThemeProvider>
     </QueryClientProvider>
   );
@@ -1,4 +1,33 @@
-import type { SearchResult, ImageWithTags, Stats, Folder } from '../types/api';
+import type {
+  SearchResult,
+  ImageWithTags,
+  Stats,
+  Folder,
+  FolderSettings,
+  DirectoryNode,
+  SidecarMode,
+  TagCategory,
+  TagAlias,
+  TagImplication,
+  BulkEditJob,
+  Pool,
+  PoolWithCount,
+  PoolDetail,
+  AuthStatus,
+  User,
+  UserRole,
+  UserWithStats,
+  ImageHistoryEntry,
+  SimilarImage,
+  DuplicateGroupsResult,
+  DuplicateDecision,
+  Job,
+  JobType,
+  UploadStatus,
+  UploadMetadata,
+  UploadResult,
+  ImportResult,
+} from '../types/api';
 
 const API_BASE = '/api';
 
@@ -38,6 +67,7 @@ export async function searchImages(params: {
 // Tags
 export interface TagSuggestion {
   name: string;
+  category: TagCategory;
   count: number;
 }
 
@@ -79,6 +109,14 @@ export function getThumbnailUrl(id: number, size?: number): string {
   return `${API_BASE}/image/${id}/thumbnail${params}`;
 }
 
+export function getPreviewUrl(id: number): string {
+  return `${API_BASE}/image/${id}/preview`;
+}
+
+export function getHlsUrl(id: number): string {
+  return `${API_BASE}/image/${id}/hls/index.m3u8`;
+}
+
 export function getImageFileUrl(id: number): string {
   return `${API_BASE}/image/${id}/file`;
 }
@@ -88,15 +126,15 @@ export async function getStats(): Promise<Stats> {
   return fetchJSON<Stats>(`${API_BASE}/stats`);
 }
 
-// Folders (admin - localhost only)
+// Folders (admin only)
 export async function getFolders(): Promise<Folder[]> {
   return fetchJSON<Folder[]>(`${API_BASE}/folders`);
 }
 
-export async function addFolder(path: string, recursive: boolean = true): Promise<Folder> {
+export async function addFolder(path: string, recursive: boolean = true, sidecars: SidecarMode = 'read'): Promise<Folder> {
   return fetchJSON<Folder>(`${API_BASE}/folders`, {
     method: 'POST',
-    body: JSON.stringify({ path, do_recurse: recursive }),
+    body: JSON.stringify({ path, do_recurse: recursive, sidecars }),
   });
 }
 
@@ -106,7 +144,7 @@ export async function deleteFolder(id: number): Promise<void> {
 
 export async function updateFolder(
   id: number,
-  updates: { do_recurse?: boolean; enabled?: boolean }
+  updates: Partial<FolderSettings> & { remove_excluded?: boolean }
 ): Promise<Folder> {
   return fetchJSON<Folder>(`${API_BASE}/folders/${id}`, {
     method: 'PATCH',
@@ -114,71 +152,209 @@ export async function updateFolder(
   });
 }
 
+// Indexed images in a folder that new include/exclude patterns would leave out
+export async function countExcludedImages(
+  id: number,
+  patterns: Pick<FolderSettings, 'include_patterns' | 'exclude_patterns'>
+): Promise<number> {
+  const result = await sendJSON<{ count: number }>(`${API_BASE}/folders/${id}/excluded`, 'POST', patterns);
+  return result.count;
+}
+
 export async function scanFolder(id: number): Promise<void> {
   await fetchJSON<{ message: string }>(`${API_BASE}/folders/${id}/scan`, {
     method: 'POST',
   });
 }
 
-// Edit password management
-let editPassword: string | null = null;
+// Background jobs (admin only)
+export async function getJobs(): Promise<Job[]> {
+  return fetchJSON<Job[]>(`${API_BASE}/jobs`);
+}
 
-export function setEditPassword(password: string) {
-  editPassword = password;
-  sessionStorage.setItem('edit-password', password);
+export async function getJob(id: number): Promise<Job> {
+  return fetchJSON<Job>(`${API_BASE}/jobs/${id}`);
 }
 
-export function getEditPassword(): string | null {
-  if (!editPassword) {
-    editPassword = sessionStorage.getItem('edit-password');
-  }
-  return editPassword;
+// Live job list via Server-Sent Events (EventSource reconnects on its own)
+export function subscribeJobs(onJobs: (jobs: Job[]) => void): () => void {
+  const source = new EventSource(`${API_BASE}/jobs/events`);
+  source.onmessage = (event) => onJobs(JSON.parse(event.data));
+  return () => source.close();
 }
 
-export function clearEditPassword() {
-  editPassword = null;
-  sessionStorage.removeItem('edit-password');
+export async function startJob(type: JobType, folderId?: number): Promise<Job> {
+  const result = await sendJSON<{ job: Job }>(`${API_BASE}/jobs`, 'POST', { type, folder_id: folderId });
+  return result.job;
 }
 
-// Update image metadata (tags and/or rating) - uses unified endpoint
-export interface UpdateImageParams {
-  tags?: string[];
-  rating?: number | null;
+export async function cancelJob(id: number): Promise<void> {
+  await sendJSON(`${API_BASE}/jobs/${id}/cancel`, 'POST');
 }
 
-export interface UpdateImageResult {
-  success: boolean;
-  tags?: string[];
-  rating?: number | null;
+// Tag aliases and implications (admin only)
+export async function getTagAliases(): Promise<TagAlias[]> {
+  return fetchJSON<TagAlias[]>(`${API_BASE}/tags/aliases`);
 }
 
-export async function updateImage(id: number, updates: UpdateImageParams): Promise<UpdateImageResult> {
-  const password = getEditPassword();
+export async function addTagAlias(alias: string, target: string): Promise<TagAlias> {
+  return fetchJSON<TagAlias>(`${API_BASE}/tags/aliases`, {
+    method: 'POST',
+    body: JSON.stringify({ alias, target }),
+  });
+}
 
-  const headers: Record<string, string> = {
-    'Content-Type': 'application/json',
-  };
-  if (password) {
-    headers['X-Edit-Password'] = password;
-  }
+export async function deleteTagAlias(id: number): Promise<void> {
+  await fetch(`${API_BASE}/tags/aliases/${id}`, { method: 'DELETE' });
+}
 
-  const response = await fetch(`${API_BASE}/image/${id}`, {
-    method: 'PATCH',
-    headers,
-    body: JSON.stringify(updates),
+export async function getTagImplications(): Promise<TagImplication[]> {
+  return fetchJSON<TagImplication[]>(`${API_BASE}/tags/implications`);
+}
+
+export async function addTagImplication(tag: string, impliedTag: string): Promise<TagImplication> {
+  return fetchJSON<TagImplication>(`${API_BASE}/tags/implications`, {
+    method: 'POST',
+    body: JSON.stringify({ tag, implied_tag: impliedTag }),
+  });
+}
+
+export async function deleteTagImplication(id: number): Promise<void> {
+  await fetch(`${API_BASE}/tags/implications/${id}`, { method: 'DELETE' });
+}
+
+export async function applyTagRules(): Promise<void> {
+  await fetchJSON<{ message: string }>(`${API_BASE}/tags/apply-rules`, {
+    method: 'POST',
+  });
+}
+
+// Thrown by protected requests when the session is missing or expired
+export const LOGIN_REQUIRED = 'Login required';
+
+// JSON request to a protected endpoint (the session cookie is sent automatically)
+async function sendJSON<T>(url: string, method: string, body?: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
   });
 
   if (response.status === 401) {
-    clearEditPassword();
-    throw new Error('Invalid password');
+    throw new Error(LOGIN_REQUIRED);
   }
 
   if (!response.ok) {
     const error = await response.json().catch(() => ({ error: 'Request failed' }));
+    throw new Error(error.message || error.error || `HTTP ${response.status}`);
+  }
+
+  // DELETE endpoints may respond with 204 No Content
+  return response.status === 204 ? (undefined as T) : response.json();
+}
+
+// Uploads (requires editor role)
+export async function getUploadStatus(): Promise<UploadStatus> {
+  return sendJSON<UploadStatus>(`${API_BASE}/upload`, 'GET');
+}
+
+export async function uploadFiles(files: File[], metadata: UploadMetadata): Promise<UploadResult[]> {
+  const formData = new FormData();
+  files.forEach(file => formData.append('files', file));
+  formData.append('tags', metadata.tags);
+  if (metadata.rating) formData.append('rating', String(metadata.rating));
+  formData.append('source', metadata.source);
+
+  // Don't set Content-Type header - browser will set it with boundary for multipart
+  const response = await fetch(`${API_BASE}/upload`, { method: 'POST', body: formData });
+
+  if (response.status === 401) {
+    throw new Error(LOGIN_REQUIRED);
+  }
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Upload failed' }));
     throw new Error(error.error || `HTTP ${response.status}`);
   }
 
-  return response.json();
+  const result = await response.json();
+  return result.results;
+}
+
+export async function importFromUrl(url: string, metadata: Omit<UploadMetadata, 'source'>): Promise<UploadResult> {
+  const result = await sendJSON<{ result: UploadResult }>(`${API_BASE}/upload/url`, 'POST', {
+    url,
+    tags: metadata.tags,
+    rating: metadata.rating,
+  });
+  return result.result;
+}
+
+// Accounts
+export async function getAuthStatus(): Promise<AuthStatus> {
+  return fetchJSON<AuthStatus>(`${API_BASE}/auth/me`);
+}
+
+export async function login(username: string, password: string): Promise<User> {
+  const response = await fetch(`${API_BASE}/auth/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username, password }),
+  });
+  const result = await response.json().catch(() => ({ error: 'Request failed' }));
+
+  if (!response.ok) {
+    throw new Error(result.error || `HTTP ${response.status}`);
+  }
+  return result.user;
+}
+
+export async function logout(): Promise<void> {
+  await sendJSON(`${API_BASE}/auth/logout`, 'POST');
+}
+
+export async function changePassword(currentPassword: string, newPassword: string): Promise<void> {
+  await sendJSON(`${API_BASE}/auth/password`, 'POST', { current_password: currentPassword, new_password: newPassword });
+}
+
+// User management (admin only)
+export async function getUsers(): Promise<UserWithStats[]> {
+  return sendJSON<UserWithStats[]>(`${API_BASE}/users`, 'GET');
+}
+
+export async function createUser(username: string, password: string, role: UserRole): Promise<User> {
+  const result = await sendJSON<{ success: boolean; user: User }>(`${API_BASE}/users`, 'POST', { username, password, role });
+  return result.user;
+}
+
+export async function updateUser(id: number, updates: { role?: UserRole; password?: string }): Promise<User> {
+  const result = await sendJSON<{ success: boolean; user: User }>(`${API_BASE}/users/${id}`, 'PATCH', updates);
+  return result.user;
+}
+
+export async function deleteUser(id: number): Promise<void> {
+  await sendJSON(`${API_BASE}/users/${id}`, 'DELETE');
+}
+
+// Favorites (requires login)
+export async function setFavorite(id: number, favorite: boolean): Promise<{ is_favorite: boolean; favorite_count: number }> {
+  return sendJSON(`${API_BASE}/image/${id}/favorite`, favorite ? 'POST' : 'DELETE');
+}
+
+// Update image metadata (tags and/or rating) - uses unified endpoint
+export interface UpdateImageParams {
+  tags?: string[];
+  rating?: number | null;
+}
+
+export interface UpdateImageResult {
+  success: boolean;
+  tags?: string[];
+  rating?: number | null;
+}
+
+export async function updateImage(id: number, updates: UpdateImageParams): Promise<UpdateImageResult> {
+  return sendJSON<UpdateImageResult>(`${API_BASE}/image/${id}`, 'PATCH', updates);
 }
 
 // Convenience wrappers for updating just tags or just rating
@@ -192,33 +368,142 @@ export async function updateImageRating(id: number, rating: number | null): Prom
   return { success: result.success, rating: result.rating ?? null };
 }
 
-// Delete image (may require edit password depending on server config)
+// Tag/rating change history, newest first
+export async function getImageHistory(id: number): Promise<ImageHistoryEntry[]> {
+  return fetchJSON<ImageHistoryEntry[]>(`${API_BASE}/image/${id}/history`);
+}
+
+// Duplicate review (requires editor role)
+export async function getDuplicateGroups(page: number = 1): Promise<DuplicateGroupsResult> {
+  return sendJSON<DuplicateGroupsResult>(`${API_BASE}/duplicates?page=${page}`, 'GET');
+}
+
+export async function resolveDuplicateGroup(primeId: number, decision: DuplicateDecision): Promise<void> {
+  await sendJSON(`${API_BASE}/duplicates/${primeId}/resolve`, 'POST', decision);
+}
+
+// Visually similar images, closest first
+export async function getSimilarImages(id: number): Promise<SimilarImage[]> {
+  return fetchJSON<SimilarImage[]>(`${API_BASE}/image/${id}/similar`);
+}
+
+// Undo one history entry (requires editor role)
+export async function revertImageHistory(id: number, entryId: number): Promise<UpdateImageResult> {
+  return sendJSON<UpdateImageResult>(`${API_BASE}/image/${id}/history/${entryId}/revert`, 'POST');
+}
+
+// Delete image (requires editor role)
 export async function deleteImageById(id: number, deleteFile: boolean = true): Promise<{ success: boolean; fileDeleted: boolean }> {
-  const password = getEditPassword();
+  return sendJSON(`${API_BASE}/image/${id}?deleteFile=${deleteFile}`, 'DELETE');
+}
 
-  const headers: Record<string, string> = {};
-  if (password) {
-    headers['X-Edit-Password'] = password;
-  }
+// Bulk edit tags/rating over an ID list or a search query (requires editor role)
+export interface BulkEditParams {
+  ids?: number[];
+  query?: string;
+  all?: boolean;        // Required with an empty query, which matches every image
+  add_tags?: string[];
+  remove_tags?: string[];
+  rating?: number | null;
+}
 
-  const response = await fetch(`${API_BASE}/image/${id}?deleteFile=${deleteFile}`, {
-    method: 'DELETE',
-    headers,
-  });
+// Start a background edit that reports progress as a bulk edit job
+async function postEditJob(url: string, body: unknown): Promise<BulkEditJob> {
+  const result = await sendJSON<{ success: boolean; job: BulkEditJob }>(url, 'POST', body);
+  return result.job;
+}
+
+export async function startBulkEdit(params: BulkEditParams): Promise<BulkEditJob> {
+  return postEditJob(`${API_BASE}/images/bulk`, params);
+}
+
+// Count the images a bulk edit would change, without changing them
+export async function countBulkEditTargets(params: BulkEditParams): Promise<number> {
+  const result = await sendJSON<{ success: boolean; count: number }>(`${API_BASE}/images/bulk`, 'POST', { ...params, dry_run: true });
+  return result.count;
+}
+
+export async function getBulkEditJob(id: number): Promise<BulkEditJob> {
+  return fetchJSON<BulkEditJob>(`${API_BASE}/images/bulk/${id}`);
+}
+
+// Queued or running, so its progress is still worth polling
+export function isJobUnfinished(job: BulkEditJob | undefined): boolean {
+  return job?.status === 'queued' || job?.status === 'running';
+}
+
+// Metadata export/import (requires admin role)
+export function getExportUrl(format: 'ndjson' | 'csv'): string {
+  return `${API_BASE}/export?format=${format}`;
+}
+
+export async function importMetadata(file: File, dryRun: boolean): Promise<ImportResult> {
+  const formData = new FormData();
+  formData.append('file', file);
+
+  const response = await fetch(`${API_BASE}/import?dry_run=${dryRun ? 1 : 0}`, { method: 'POST', body: formData });
 
   if (response.status === 401) {
-    clearEditPassword();
-    throw new Error('Invalid password');
+    throw new Error(LOGIN_REQUIRED);
   }
 
   if (!response.ok) {
-    const error = await response.json().catch(() => ({ error: 'Request failed' }));
+    const error = await response.json().catch(() => ({ error: 'Import failed' }));
     throw new Error(error.error || `HTTP ${response.status}`);
   }
 
   return response.json();
 }
 
+// Tag rename/merge (requires editor role)
+export async function renameTag(name: string, newName: string): Promise<BulkEditJob> {
+  return postEditJob(`${API_BASE}/tags/${encodeURIComponent(name)}/rename`, { new_name: newName });
+}
+
+export async function mergeTags(sources: string[], target: string): Promise<BulkEditJob> {
+  return postEditJob(`${API_BASE}/tags/merge`, { sources, target });
+}
+
+// Directory tree of the indexed folders, for the folder browser
+export async function getDirectories(): Promise<DirectoryNode[]> {
+  return fetchJSON<DirectoryNode[]>(`${API_BASE}/directories`);
+}
+
+// Pools (editing requires editor role)
+export async function getPools(q?: string): Promise<PoolWithCount[]> {
+  const searchParams = new URLSearchParams();
+  if (q) searchParams.set('q', q);
+  return fetchJSON<PoolWithCount[]>(`${API_BASE}/pools?${searchParams}`);
+}
+
+export async function getPool(id: number): Promise<PoolDetail> {
+  return fetchJSON<PoolDetail>(`${API_BASE}/pools/${id}`);
+}
+
+export async function createPool(name: string, description?: string, imageIds?: number[]): Promise<Pool> {
+  return sendJSON<Pool>(`${API_BASE}/pools`, 'POST', { name, description, image_ids: imageIds });
+}
+
+export async function updatePool(id: number, updates: { name?: string; description?: string | null }): Promise<Pool> {
+  return sendJSON<Pool>(`${API_BASE}/pools/${id}`, 'PATCH', updates);
+}
+
+export async function deletePool(id: number): Promise<void> {
+  await sendJSON<void>(`${API_BASE}/pools/${id}`, 'DELETE');
+}
+
+export async function addImagesToPool(id: number, imageIds: number[]): Promise<{ added: number; image_ids: number[] }> {
+  return sendJSON(`${API_BASE}/pools/${id}/images`, 'POST', { image_ids: imageIds });
+}
+
+export async function removeImageFromPool(id: number, imageId: number): Promise<{ image_ids: number[] }> {
+  return sendJSON(`${API_BASE}/pools/${id}/images/${imageId}`, 'DELETE');
+}
+
+export async function reorderPool(id: number, imageIds: number[]): Promise<{ image_ids: number[] }> {
+  return sendJSON(`${API_BASE}/pools/${id}/order`, 'PUT', { image_ids: imageIds });
+}
+
 // Calculate optimal thumbnail size based on viewport and columns
 export function calculateThumbnailSize(columnWidth: number): number {
   const dpr = window.devicePixelRatio || 1;
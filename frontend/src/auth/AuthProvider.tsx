@@ -0,0 +1,135 @@
+import { useState, useCallback, useMemo, useRef } from 'react';
+import type { ReactNode } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Button,
+  Alert,
+} from '@mui/material';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { getAuthStatus, login as apiLogin, logout as apiLogout } from '../api/client';
+import type { User, UserRole } from '../types/api';
+import { AuthContext, roleAtLeast } from './authContext';
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const queryClient = useQueryClient();
+  const { data, isLoading } = useQuery({
+    queryKey: ['auth'],
+    queryFn: getAuthStatus,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const user = data?.user ?? null;
+  const guestRole = data?.guest_role ?? null;
+
+  // Login dialog state; the pending promise resolves when the dialog closes
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const resolveRef = useRef<((user: User | null) => void) | null>(null);
+
+  const closeDialog = useCallback((loggedIn: User | null) => {
+    setDialogOpen(false);
+    setPassword('');
+    setError(null);
+    resolveRef.current?.(loggedIn);
+    resolveRef.current = null;
+  }, []);
+
+  const openDialog = useCallback(() => {
+    setDialogOpen(true);
+    return new Promise<User | null>((resolve) => {
+      resolveRef.current = resolve;
+    });
+  }, []);
+
+  const hasRole = useCallback((role: UserRole) => roleAtLeast(user?.role ?? guestRole, role), [user, guestRole]);
+
+  const ensureRole = useCallback(async (role: UserRole) => {
+    if (hasRole(role)) return true;
+    const loggedIn = await openDialog();
+    return roleAtLeast(loggedIn?.role, role);
+  }, [hasRole, openDialog]);
+
+  const showLogin = useCallback(async () => !!(await openDialog()), [openDialog]);
+
+  const handleSubmit = async () => {
+    if (!username.trim() || !password) {
+      setError('Username and password are required');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const loggedIn = await apiLogin(username.trim(), password);
+      queryClient.setQueryData(['auth'], { user: loggedIn, guest_role: guestRole });
+      // Favorites are per user
+      queryClient.invalidateQueries({ queryKey: ['search'] });
+      queryClient.invalidateQueries({ queryKey: ['image'] });
+      closeDialog(loggedIn);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to log in');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const logout = useCallback(async () => {
+    await apiLogout();
+    queryClient.setQueryData(['auth'], { user: null, guest_role: guestRole });
+    queryClient.invalidateQueries({ queryKey: ['search'] });
+    queryClient.invalidateQueries({ queryKey: ['image'] });
+  }, [queryClient, guestRole]);
+
+  const contextValue = useMemo(
+    () => ({ user, guestRole, isLoading, hasRole, ensureRole, showLogin, logout }),
+    [user, guestRole, isLoading, hasRole, ensureRole, showLogin, logout]
+  );
+
+  return (
+    <AuthContext.Provider value={contextValue}>
+      {children}
+
+      <Dialog open={dialogOpen} onClose={() => closeDialog(null)}>
+        <DialogTitle>Log In</DialogTitle>
+        <DialogContent>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+          <TextField
+            autoFocus
+            fullWidth
+            label="Username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            autoComplete="username"
+            sx={{ mt: 1 }}
+          />
+          <TextField
+            fullWidth
+            type="password"
+            label="Password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+            autoComplete="current-password"
+            sx={{ mt: 2 }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => closeDialog(null)}>Cancel</Button>
+          <Button onClick={handleSubmit} variant="contained" disabled={isSubmitting}>
+            Log In
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </AuthContext.Provider>
+  );
+}
@@ -0,0 +1,30 @@
+import { createContext, useContext } from 'react';
+import type { User, UserRole } from '../types/api';
+
+interface AuthContextType {
+  user: User | null;
+  guestRole: UserRole | null;
+  isLoading: boolean;
+  // Whether the current visitor (or a guest, if logged out) has at least this role
+  hasRole: (role: UserRole) => boolean;
+  // Resolves true once the visitor has the role, showing the login dialog if needed
+  ensureRole: (role: UserRole) => Promise<boolean>;
+  showLogin: () => Promise<boolean>;
+  logout: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+const ROLE_ORDER: UserRole[] = ['viewer', 'editor', 'admin'];
+
+export function roleAtLeast(role: UserRole | null | undefined, required: UserRole): boolean {
+  return !!role && ROLE_ORDER.indexOf(role) >= ROLE_ORDER.indexOf(required);
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
@@ -0,0 +1,6 @@
+/**
+ * Account/session exports
+ */
+
+export { AuthProvider } from './AuthProvider';
+export { useAuth } from './authContext';
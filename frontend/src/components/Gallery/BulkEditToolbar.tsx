@@ -0,0 +1,210 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Paper,
+  Stack,
+  Typography,
+  TextField,
+  Select,
+  MenuItem,
+  Button,
+  IconButton,
+  LinearProgress,
+  Alert,
+} from '@mui/material';
+import { Close as CloseIcon } from '@mui/icons-material';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  startBulkEdit,
+  countBulkEditTargets,
+  getBulkEditJob,
+  isJobUnfinished,
+  type BulkEditParams,
+} from '../../api/client';
+import { useAuth } from '../../auth';
+
+interface BulkEditToolbarProps {
+  selectedIds: number[];
+  query: string;
+  totalCount: number;
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  onClose: () => void;
+}
+
+// Rating options: '' leaves ratings unchanged
+const RATING_OPTIONS: { value: string; label: string; rating?: number | null }[] = [
+  { value: '', label: 'Rating unchanged' },
+  { value: 'safe', label: 'Safe', rating: 1 },
+  { value: 'questionable', label: 'Questionable', rating: 2 },
+  { value: 'explicit', label: 'Explicit', rating: 3 },
+  { value: 'none', label: 'No rating', rating: null },
+];
+
+const splitTags = (value: string) => value.split(/\s+/).filter(t => t.length > 0);
+
+export default function BulkEditToolbar({
+  selectedIds,
+  query,
+  totalCount,
+  onSelectAll,
+  onClearSelection,
+  onClose,
+}: BulkEditToolbarProps) {
+  const queryClient = useQueryClient();
+  const { ensureRole } = useAuth();
+  const [addTags, setAddTags] = useState('');
+  const [removeTags, setRemoveTags] = useState('');
+  const [rating, setRating] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [jobId, setJobId] = useState<number | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+
+  // Poll job progress until it finishes
+  const { data: job } = useQuery({
+    queryKey: ['bulkEdit', jobId],
+    queryFn: () => getBulkEditJob(jobId!),
+    enabled: jobId !== null,
+    refetchInterval: (q) => (isJobUnfinished(q.state.data) ? 1000 : false),
+  });
+
+  const isRunning = isStarting || isJobUnfinished(job);
+
+  // Refresh results once the job is done
+  useEffect(() => {
+    if (job && !isJobUnfinished(job)) {
+      queryClient.invalidateQueries({ queryKey: ['search'] });
+      queryClient.invalidateQueries({ queryKey: ['image'] });
+      queryClient.invalidateQueries({ queryKey: ['stats'] });
+    }
+  }, [job, queryClient]);
+
+  const hasChanges = addTags.trim() !== '' || removeTags.trim() !== '' || rating !== '';
+
+  const apply = useCallback(async (target: 'selected' | 'query') => {
+    if (!(await ensureRole('editor'))) return;
+
+    const params: BulkEditParams = {
+      add_tags: splitTags(addTags),
+      remove_tags: splitTags(removeTags),
+    };
+    const ratingOption = RATING_OPTIONS.find(o => o.value === rating);
+    if (ratingOption && ratingOption.value !== '') {
+      params.rating = ratingOption.rating;
+    }
+    if (target === 'selected') {
+      params.ids = selectedIds;
+    } else {
+      params.query = query;
+      params.all = query.trim() === '';
+    }
+
+    setError(null);
+    setIsStarting(true);
+    try {
+      // Confirm the server's count of matching images, which may differ from what's loaded
+      if (target === 'query') {
+        const count = await countBulkEditTargets(params);
+        const scope = params.all ? 'every image in the library' : 'all images matching this search';
+        if (!confirm(`Apply changes to ${scope} (${count.toLocaleString()} ${count === 1 ? 'image' : 'images'})?`)) return;
+      }
+
+      const started = await startBulkEdit(params);
+      queryClient.setQueryData(['bulkEdit', started.id], started);
+      setJobId(started.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start bulk edit');
+    } finally {
+      setIsStarting(false);
+    }
+  }, [ensureRole, addTags, removeTags, rating, selectedIds, query, queryClient]);
+
+  return (
+    <Paper sx={{ p: 2, mb: 2, position: 'sticky', top: 8, zIndex: 2 }}>
+      <Stack direction="row" alignItems="center" spacing={1} sx={{ mb: 2 }}>
+        <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>
+          {selectedIds.length.toLocaleString()} selected
+        </Typography>
+        <Button size="small" onClick={onSelectAll}>
+          Select loaded
+        </Button>
+        <Button size="small" onClick={onClearSelection} disabled={selectedIds.length === 0}>
+          Clear
+        </Button>
+        <Stack sx={{ flex: 1 }} />
+        <IconButton size="small" onClick={onClose} title="Exit selection mode">
+          <CloseIcon fontSize="small" />
+        </IconButton>
+      </Stack>
+
+      <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} alignItems={{ md: 'center' }}>
+        <TextField
+          label="Add tags"
+          value={addTags}
+          onChange={(e) => setAddTags(e.target.value)}
+          placeholder="tag1 character:name"
+          size="small"
+          fullWidth
+        />
+        <TextField
+          label="Remove tags"
+          value={removeTags}
+          onChange={(e) => setRemoveTags(e.target.value)}
+          placeholder="tag1 tag2"
+          size="small"
+          fullWidth
+        />
+        <Select
+          size="small"
+          value={rating}
+          onChange={(e) => setRating(e.target.value)}
+          displayEmpty
+          sx={{ minWidth: 170 }}
+        >
+          {RATING_OPTIONS.map(option => (
+            <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+          ))}
+        </Select>
+      </Stack>
+
+      <Stack direction="row" spacing={1} justifyContent="flex-end" sx={{ mt: 2 }}>
+        <Button
+          variant="outlined"
+          onClick={() => apply('query')}
+          disabled={!hasChanges || isRunning || totalCount === 0}
+        >
+          Apply to all {totalCount.toLocaleString()} results
+        </Button>
+        <Button
+          variant="contained"
+          onClick={() => apply('selected')}
+          disabled={!hasChanges || isRunning || selectedIds.length === 0}
+        >
+          Apply to selected
+        </Button>
+      </Stack>
+
+      {job && (
+        <Stack spacing={0.5} sx={{ mt: 2 }}>
+          <LinearProgress
+            variant="determinate"
+            value={job.total > 0 ? (job.processed / job.total) * 100 : 100}
+          />
+          <Typography variant="caption" color="text.secondary">
+            {job.status === 'queued'
+              ? 'Waiting for other jobs to finish...'
+              : job.status === 'running'
+              ? `Updating ${job.processed.toLocaleString()} / ${job.total.toLocaleString()} images...`
+              : `Updated ${(job.processed - job.failed).toLocaleString()} images`}
+            {job.failed > 0 && ` (${job.failed.toLocaleString()} failed)`}
+          </Typography>
+        </Stack>
+      )}
+
+      {(error || job?.error) && (
+        <Alert severity="error" sx={{ mt: 2 }} onClose={() => setError(null)}>
+          {error || job?.error}
+        </Alert>
+      )}
+    </Paper>
+  );
+}
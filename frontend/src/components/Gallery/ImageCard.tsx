@@ -1,18 +1,36 @@
 import { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { Box, Skeleton } from '@mui/material';
-import { getThumbnailUrl, calculateThumbnailSize } from '../../api/client';
+import { CheckCircle as CheckedIcon, RadioButtonUnchecked as UncheckedIcon } from '@mui/icons-material';
+import { getThumbnailUrl, getPreviewUrl, calculateThumbnailSize } from '../../api/client';
+import FavoriteButton from '../Image/FavoriteButton';
 import type { ImageWithTags } from '../../types/api';
 
+// File types that get a looping preview clip on hover
+const PREVIEW_TYPES = ['mp4', 'webm', 'mkv', 'mov', 'gif'];
+
 interface ImageCardProps {
   image: ImageWithTags;
   columnWidth: number;
   onNavigate?: () => void;
+  // Multi-select mode: clicks toggle selection instead of opening the image
+  selectable?: boolean;
+  selected?: boolean;
+  onToggleSelect?: (id: number) => void;
 }
 
-export default function ImageCard({ image, columnWidth, onNavigate }: ImageCardProps) {
+export default function ImageCard({
+  image,
+  columnWidth,
+  onNavigate,
+  selectable = false,
+  selected = false,
+  onToggleSelect,
+}: ImageCardProps) {
   const [loaded, setLoaded] = useState(false);
   const [error, setError] = useState(false);
+  const [hovering, setHovering] = useState(false);
+  const [previewError, setPreviewError] = useState(false);
 
   // Calculate aspect ratio for proper sizing (fallback to square if dimensions invalid)
   const width = image.width || 1;
@@ -23,20 +41,31 @@ export default function ImageCard({ image, columnWidth, onNavigate }: ImageCardP
   // Calculate optimal thumbnail size based on column width and DPR
   const thumbnailSize = calculateThumbnailSize(columnWidth);
   const thumbnailUrl = getThumbnailUrl(image.id, thumbnailSize);
+  const hasPreview = PREVIEW_TYPES.includes(image.file_type) && !previewError;
 
   // Reset states when image changes
   useEffect(() => {
     setLoaded(false);
     setError(false);
+    setPreviewError(false);
   }, [image.id]);
 
   return (
     <Link
       to={`/image/${image.id}`}
-      onClick={onNavigate}
+      onClick={(e) => {
+        if (selectable) {
+          e.preventDefault();
+          onToggleSelect?.(image.id);
+        } else {
+          onNavigate?.();
+        }
+      }}
       style={{ textDecoration: 'none', display: 'block' }}
     >
       <Box
+        onMouseEnter={() => setHovering(true)}
+        onMouseLeave={() => setHovering(false)}
         sx={{
           position: 'relative',
           width: '100%',
@@ -45,10 +74,17 @@ export default function ImageCard({ image, columnWidth, onNavigate }: ImageCardP
           borderRadius: 1,
           overflow: 'hidden',
           transition: 'transform 0.15s ease, box-shadow 0.15s ease',
+          outline: selected ? 3 : 0,
+          outlineColor: 'primary.main',
+          outlineOffset: -3,
           '&:hover': {
             transform: 'translateY(-2px)',
             boxShadow: 4,
           },
+          // Heart only shows on hover unless the image is already a favorite
+          '&:hover .favorite-button': {
+            opacity: 1,
+          },
         }}
       >
         {!loaded && !error && (
@@ -91,6 +127,62 @@ export default function ImageCard({ image, columnWidth, onNavigate }: ImageCardP
             }}
           />
         )}
+
+        {/* Only loaded while hovered, so scrolling a gallery of videos doesn't download every clip */}
+        {hasPreview && hovering && !error && (
+          <video
+            src={getPreviewUrl(image.id)}
+            autoPlay
+            muted
+            loop
+            playsInline
+            onError={() => setPreviewError(true)}
+            style={{
+              position: 'absolute',
+              top: 0,
+              left: 0,
+              width: '100%',
+              height: '100%',
+              objectFit: 'cover',
+            }}
+          />
+        )}
+
+        {selectable && (
+          <Box
+            sx={{
+              position: 'absolute',
+              top: 6,
+              left: 6,
+              display: 'flex',
+              borderRadius: '50%',
+              bgcolor: 'rgba(0, 0, 0, 0.5)',
+              color: selected ? 'primary.main' : 'common.white',
+            }}
+          >
+            {selected ? <CheckedIcon /> : <UncheckedIcon />}
+          </Box>
+        )}
+
+        {!selectable && (
+          <Box
+            className="favorite-button"
+            sx={{
+              position: 'absolute',
+              bottom: 4,
+              right: 4,
+              opacity: image.is_favorite ? 1 : 0,
+              transition: 'opacity 0.15s ease',
+            }}
+          >
+            <FavoriteButton
+              imageId={image.id}
+              isFavorite={!!image.is_favorite}
+              size="small"
+              sx={{ color: 'common.white', bgcolor: 'rgba(0, 0, 0, 0.5)', '&:hover': { bgcolor: 'rgba(0, 0, 0, 0.7)' } }}
+            />
+          </Box>
+        )}
       </Box>
     </Link>
   );
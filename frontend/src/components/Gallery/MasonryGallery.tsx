@@ -10,6 +10,9 @@ interface MasonryGalleryProps {
   isFetchingMore: boolean;
   onLoadMore: () => void;
   onNavigate?: () => void;
+  selectable?: boolean;
+  selectedIds?: Set<number>;
+  onToggleSelect?: (id: number) => void;
 }
 
 // Column configuration
@@ -109,6 +112,9 @@ export default function MasonryGallery({
   isFetchingMore,
   onLoadMore,
   onNavigate,
+  selectable = false,
+  selectedIds,
+  onToggleSelect,
 }: MasonryGalleryProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const observerRef = useRef<IntersectionObserver | null>(null);
@@ -235,6 +241,9 @@ export default function MasonryGallery({
                 image={image}
                 columnWidth={columnWidth}
                 onNavigate={onNavigate}
+                selectable={selectable}
+                selected={selectedIds?.has(image.id) ?? false}
+                onToggleSelect={onToggleSelect}
               />
             ))}
           </Box>
@@ -0,0 +1,186 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+  Stack,
+  Typography,
+  Alert,
+  LinearProgress,
+} from '@mui/material';
+import { useQueryClient } from '@tanstack/react-query';
+import { uploadFiles, importFromUrl, LOGIN_REQUIRED } from '../../api/client';
+import { useAuth } from '../../auth';
+import type { UploadResult } from '../../types/api';
+
+interface UploadDialogProps {
+  files: File[];
+  url?: string;            // Import from this URL instead of uploading files
+  maxSizeMb: number;
+  onClose: () => void;
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Tags, rating and source for a batch of dropped files (or a URL to import), then the outcome of each upload
+export default function UploadDialog({ files, url, maxSizeMb, onClose }: UploadDialogProps) {
+  const isUrlImport = url !== undefined;
+  const queryClient = useQueryClient();
+  const { showLogin } = useAuth();
+  const [tags, setTags] = useState('');
+  const [rating, setRating] = useState<number | ''>('');
+  const [source, setSource] = useState('');
+  const [importUrl, setImportUrl] = useState(url ?? '');
+  const [isUploading, setIsUploading] = useState(false);
+  const [results, setResults] = useState<UploadResult[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // One file over the limit would fail the whole request, so those are left out
+  const tooLarge = files.filter(file => file.size > maxSizeMb * 1024 * 1024);
+  const uploadable = files.filter(file => !tooLarge.includes(file));
+  const totalSize = files.reduce((sum, file) => sum + file.size, 0);
+
+  const upload = async () => {
+    setError(null);
+    setIsUploading(true);
+    try {
+      setResults(isUrlImport
+        ? [await importFromUrl(importUrl.trim(), { tags, rating: rating || null })]
+        : await uploadFiles(uploadable, { tags, rating: rating || null, source }));
+      queryClient.invalidateQueries({ queryKey: ['search'] });
+      queryClient.invalidateQueries({ queryKey: ['stats'] });
+    } catch (err) {
+      if (err instanceof Error && err.message === LOGIN_REQUIRED) {
+        showLogin();
+      }
+      setError(err instanceof Error ? err.message : 'Upload failed');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <Dialog open onClose={() => !isUploading && onClose()} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        {isUrlImport
+          ? 'Import from URL'
+          : `Upload ${files.length} file${files.length === 1 ? '' : 's'} (${formatFileSize(totalSize)})`}
+      </DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {results ? (
+          <Stack spacing={0.5}>
+            {results.map((result, i) => (
+              <Typography key={i} variant="body2" sx={{ wordBreak: 'break-all' }}>
+                <strong>{result.filename}</strong>
+                {' - '}
+                {result.status === 'added' ? (
+                  <Link to={`/image/${result.image_id}`} onClick={onClose}>added as #{result.image_id}</Link>
+                ) : result.status === 'duplicate' ? (
+                  <Typography component="span" variant="body2" color="warning.main">
+                    already in the library as{' '}
+                    <Link to={`/image/${result.image_id}`} onClick={onClose}>#{result.image_id}</Link>
+                  </Typography>
+                ) : (
+                  <Typography component="span" variant="body2" color="error">
+                    {result.error}
+                  </Typography>
+                )}
+              </Typography>
+            ))}
+          </Stack>
+        ) : (
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            {tooLarge.length > 0 && (
+              <Alert severity="warning">
+                {tooLarge.map(file => file.name).join(', ')} {tooLarge.length === 1 ? 'is' : 'are'} larger
+                than the {maxSizeMb} MB limit and will be skipped.
+              </Alert>
+            )}
+            {isUrlImport ? (
+              <TextField
+                label="URL"
+                placeholder="https://..."
+                helperText="A link to an image or video, or a page a source extractor plugin knows. Saved as the source"
+                value={importUrl}
+                onChange={(e) => setImportUrl(e.target.value)}
+                disabled={isUploading}
+                autoFocus
+                fullWidth
+              />
+            ) : (
+              <Typography variant="body2" color="text.secondary" sx={{ wordBreak: 'break-all' }}>
+                {files.map(file => file.name).join(', ')}
+              </Typography>
+            )}
+            <TextField
+              label="Tags"
+              placeholder="blue_sky cat rating:s"
+              helperText="Space-separated, added to every file and saved into the files"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              disabled={isUploading}
+              fullWidth
+            />
+            <FormControl fullWidth disabled={isUploading}>
+              <InputLabel>Rating</InputLabel>
+              <Select
+                label="Rating"
+                value={rating}
+                onChange={(e) => setRating(e.target.value as number | '')}
+              >
+                <MenuItem value="">None</MenuItem>
+                <MenuItem value={1}>Safe</MenuItem>
+                <MenuItem value={2}>Questionable</MenuItem>
+                <MenuItem value={3}>Explicit</MenuItem>
+              </Select>
+            </FormControl>
+            {!isUrlImport && (
+              <TextField
+                label="Source"
+                placeholder="https://..."
+                value={source}
+                onChange={(e) => setSource(e.target.value)}
+                disabled={isUploading}
+                fullWidth
+              />
+            )}
+            {isUploading && <LinearProgress />}
+          </Stack>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {results ? (
+          <Button onClick={onClose}>Close</Button>
+        ) : (
+          <>
+            <Button onClick={onClose} disabled={isUploading}>Cancel</Button>
+            <Button
+              variant="contained"
+              onClick={upload}
+              disabled={isUploading || (isUrlImport ? !importUrl.trim() : uploadable.length === 0)}
+            >
+              {isUrlImport ? 'Import' : 'Upload'}
+            </Button>
+          </>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,61 @@
+import { useState } from 'react';
+import type { MouseEvent } from 'react';
+import { IconButton } from '@mui/material';
+import type { SxProps, Theme } from '@mui/material';
+import { Favorite as FavoriteIcon, FavoriteBorder as NotFavoriteIcon } from '@mui/icons-material';
+import { useQueryClient } from '@tanstack/react-query';
+import type { InfiniteData } from '@tanstack/react-query';
+import { setFavorite } from '../../api/client';
+import { useAuth } from '../../auth';
+import type { ImageWithTags, SearchResult } from '../../types/api';
+
+interface FavoriteButtonProps {
+  imageId: number;
+  isFavorite: boolean;
+  size?: 'small' | 'medium';
+  sx?: SxProps<Theme>;
+}
+
+// Heart toggle for the logged-in user's favorites (asks to log in first if needed)
+export default function FavoriteButton({ imageId, isFavorite, size = 'medium', sx }: FavoriteButtonProps) {
+  const queryClient = useQueryClient();
+  const { user, showLogin } = useAuth();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleClick = async (e: MouseEvent) => {
+    // Cards wrap this button in a link
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (!user && !(await showLogin())) return;
+
+    setIsSaving(true);
+    try {
+      const result = await setFavorite(imageId, !isFavorite);
+      const update = (image: ImageWithTags) => image.id === imageId ? { ...image, ...result } : image;
+
+      // Update cached copies in place rather than refetching whole result pages
+      queryClient.setQueryData<ImageWithTags>(['image', imageId], (image) => image && update(image));
+      queryClient.setQueriesData<InfiniteData<SearchResult>>({ queryKey: ['search'] }, (data) => data && {
+        ...data,
+        pages: data.pages.map(page => ({ ...page, images: page.images.map(update) })),
+      });
+    } catch (err) {
+      console.error('Failed to update favorite:', err);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <IconButton
+      size={size}
+      onClick={handleClick}
+      disabled={isSaving}
+      title={isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+      sx={sx}
+    >
+      {isFavorite ? <FavoriteIcon fontSize={size} sx={{ color: 'error.main' }} /> : <NotFavoriteIcon fontSize={size} />}
+    </IconButton>
+  );
+}
@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Stack,
+  IconButton,
+  Button,
+  Alert,
+  Collapse,
+  CircularProgress,
+} from '@mui/material';
+import {
+  ExpandMore as ExpandIcon,
+  ExpandLess as CollapseIcon,
+  Undo as RevertIcon,
+} from '@mui/icons-material';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { getImageHistory, revertImageHistory } from '../../api/client';
+import { useAuth } from '../../auth';
+import type { ImageHistoryEntry } from '../../types/api';
+
+interface ImageHistoryProps {
+  imageId: number;
+}
+
+const RATING_LABELS: Record<number, string> = { 1: 'Safe', 2: 'Questionable', 3: 'Explicit' };
+
+function formatSource(entry: ImageHistoryEntry): string {
+  switch (entry.source) {
+    case 'user': return entry.source_name || 'Guest';
+    case 'plugin': return `Plugin: ${entry.source_name}`;
+    case 'scanner': return 'Imported from file';
+  }
+}
+
+function formatRating(rating: number | null): string {
+  return rating !== null ? RATING_LABELS[rating] || 'Undefined' : 'Undefined';
+}
+
+// Collapsible list of tag/rating changes with a revert button per entry (history is loaded on first open)
+export default function ImageHistory({ imageId }: ImageHistoryProps) {
+  const queryClient = useQueryClient();
+  const { ensureRole } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const [revertingId, setRevertingId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: history, isLoading } = useQuery({
+    queryKey: ['imageHistory', imageId],
+    queryFn: () => getImageHistory(imageId),
+    enabled: isOpen,
+  });
+
+  const revert = async (entry: ImageHistoryEntry) => {
+    if (!(await ensureRole('editor'))) return;
+
+    setError(null);
+    setRevertingId(entry.id);
+    try {
+      await revertImageHistory(imageId, entry.id);
+      queryClient.invalidateQueries({ queryKey: ['image', imageId] });
+      queryClient.invalidateQueries({ queryKey: ['imageHistory', imageId] });
+      queryClient.invalidateQueries({ queryKey: ['search'] });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revert change');
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
+  return (
+    <Box>
+      <Stack direction="row" alignItems="center" justifyContent="space-between">
+        <Typography variant="overline" color="text.secondary">
+          History
+        </Typography>
+        <IconButton size="small" onClick={() => setIsOpen(!isOpen)} title={isOpen ? 'Hide history' : 'Show history'}>
+          {isOpen ? <CollapseIcon fontSize="small" /> : <ExpandIcon fontSize="small" />}
+        </IconButton>
+      </Stack>
+
+      <Collapse in={isOpen} unmountOnExit>
+        {error && (
+          <Alert severity="error" sx={{ mt: 1 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 1 }}>
+            <CircularProgress size={20} />
+          </Box>
+        ) : !history || history.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+            No changes recorded
+          </Typography>
+        ) : (
+          <Stack spacing={1} sx={{ mt: 1, maxHeight: 400, overflowY: 'auto' }}>
+            {history.map(entry => (
+              <Box key={entry.id} sx={{ p: 1, borderRadius: 1, bgcolor: 'action.hover' }}>
+                <Stack direction="row" alignItems="center" justifyContent="space-between" spacing={1}>
+                  <Box sx={{ minWidth: 0 }}>
+                    <Typography variant="body2" noWrap>
+                      <strong>{formatSource(entry)}</strong>
+                      {entry.reverted_from !== null && ' (revert)'}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {new Date(entry.created_at).toLocaleString()}
+                    </Typography>
+                  </Box>
+                  <Button
+                    size="small"
+                    startIcon={revertingId === entry.id ? <CircularProgress size={14} /> : <RevertIcon />}
+                    onClick={() => revert(entry)}
+                    disabled={revertingId !== null}
+                    sx={{ flexShrink: 0 }}
+                  >
+                    Revert
+                  </Button>
+                </Stack>
+                {entry.added_tags.length > 0 && (
+                  <Typography variant="body2" sx={{ color: 'success.main', wordBreak: 'break-word' }}>
+                    + {entry.added_tags.join(' ')}
+                  </Typography>
+                )}
+                {entry.removed_tags.length > 0 && (
+                  <Typography variant="body2" sx={{ color: 'error.main', wordBreak: 'break-word' }}>
+                    − {entry.removed_tags.join(' ')}
+                  </Typography>
+                )}
+                {entry.rating_changed && (
+                  <Typography variant="body2">
+                    Rating: {formatRating(entry.rating_before)} → {formatRating(entry.rating_after)}
+                  </Typography>
+                )}
+              </Box>
+            ))}
+          </Stack>
+        )}
+      </Collapse>
+    </Box>
+  );
+}
@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  Box,
+  Typography,
+  Stack,
+  IconButton,
+  Button,
+  Autocomplete,
+  TextField,
+  Alert,
+} from '@mui/material';
+import {
+  ChevronLeft as PrevIcon,
+  ChevronRight as NextIcon,
+  PlaylistAdd as AddToPoolIcon,
+} from '@mui/icons-material';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  getPools,
+  createPool,
+  addImagesToPool,
+} from '../../api/client';
+import { useAuth } from '../../auth';
+import type { ImagePoolInfo, PoolWithCount } from '../../types/api';
+
+interface ImagePoolsProps {
+  imageId: number;
+  pools: ImagePoolInfo[];
+}
+
+// Pool navigation (prev/next within each pool) and "add to pool" control for the image page
+export default function ImagePools({ imageId, pools }: ImagePoolsProps) {
+  const queryClient = useQueryClient();
+  const { ensureRole } = useAuth();
+  const [isAdding, setIsAdding] = useState(false);
+  // Either an existing pool or a typed name for a new one
+  const [selected, setSelected] = useState<PoolWithCount | string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: allPools } = useQuery({
+    queryKey: ['pools'],
+    queryFn: () => getPools(),
+    enabled: isAdding,
+  });
+
+  const memberIds = new Set(pools.map(p => p.id));
+  const options = (allPools || []).filter(p => !memberIds.has(p.id));
+
+  const addToPool = async () => {
+    if (!selected) return;
+
+    if (!(await ensureRole('editor'))) return;
+
+    setError(null);
+    setIsSaving(true);
+    try {
+      if (typeof selected === 'string') {
+        await createPool(selected.trim(), undefined, [imageId]);
+      } else {
+        await addImagesToPool(selected.id, [imageId]);
+      }
+      queryClient.invalidateQueries({ queryKey: ['image', imageId] });
+      queryClient.invalidateQueries({ queryKey: ['pools'] });
+      queryClient.invalidateQueries({ queryKey: ['pool'] });
+      setSelected(null);
+      setIsAdding(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add to pool');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Box>
+      <Stack direction="row" alignItems="center" justifyContent="space-between">
+        <Typography variant="overline" color="text.secondary">
+          Pools
+        </Typography>
+        {!isAdding && (
+          <IconButton size="small" onClick={() => setIsAdding(true)} title="Add to pool">
+            <AddToPoolIcon fontSize="small" />
+          </IconButton>
+        )}
+      </Stack>
+
+      {pools.length > 0 ? (
+        <Stack spacing={0.5} sx={{ mt: 1 }}>
+          {pools.map(pool => (
+            <Stack key={pool.id} direction="row" alignItems="center" spacing={0.5}>
+              <IconButton
+                size="small"
+                component={Link}
+                to={`/image/${pool.prev_id}`}
+                disabled={pool.prev_id === null}
+                title="Previous in pool"
+              >
+                <PrevIcon fontSize="small" />
+              </IconButton>
+              <Typography variant="body2" sx={{ flex: 1, textAlign: 'center', minWidth: 0 }} noWrap>
+                <Link to={`/pool/${pool.id}`}>{pool.name.replace(/_/g, ' ')}</Link>
+                {' '}({pool.position} / {pool.count})
+              </Typography>
+              <IconButton
+                size="small"
+                component={Link}
+                to={`/image/${pool.next_id}`}
+                disabled={pool.next_id === null}
+                title="Next in pool"
+              >
+                <NextIcon fontSize="small" />
+              </IconButton>
+            </Stack>
+          ))}
+        </Stack>
+      ) : !isAdding && (
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+          Not in any pools
+        </Typography>
+      )}
+
+      {isAdding && (
+        <Stack direction="row" spacing={1} alignItems="center" sx={{ mt: 1 }}>
+          <Autocomplete
+            freeSolo
+            size="small"
+            sx={{ flex: 1 }}
+            options={options}
+            getOptionLabel={(option) => typeof option === 'string' ? option : option.name.replace(/_/g, ' ')}
+            value={selected}
+            onChange={(_, value) => setSelected(value)}
+            onInputChange={(_, value, reason) => {
+              // Typed text becomes a new pool name unless an option is picked
+              if (reason === 'input') setSelected(value.trim() ? value : null);
+            }}
+            renderInput={(params) => (
+              <TextField {...params} label="Pool" placeholder="Existing or new pool" />
+            )}
+          />
+          <Button variant="contained" size="small" onClick={addToPool} disabled={!selected || isSaving}>
+            Add
+          </Button>
+          <Button size="small" onClick={() => { setIsAdding(false); setSelected(null); setError(null); }}>
+            Cancel
+          </Button>
+        </Stack>
+      )}
+
+      {error && (
+        <Alert severity="error" sx={{ mt: 1 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+    </Box>
+  );
+}
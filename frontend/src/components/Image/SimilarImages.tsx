@@ -0,0 +1,53 @@
+import { Link } from 'react-router-dom';
+import { Box, Typography, Stack, Divider } from '@mui/material';
+import { useQuery } from '@tanstack/react-query';
+import { getSimilarImages, getThumbnailUrl } from '../../api/client';
+
+interface SimilarImagesProps {
+  imageId: number;
+}
+
+// Horizontal strip of visually similar images for the image page (hidden when there are none)
+export default function SimilarImages({ imageId }: SimilarImagesProps) {
+  const { data: similar } = useQuery({
+    queryKey: ['similarImages', imageId],
+    queryFn: () => getSimilarImages(imageId),
+  });
+
+  if (!similar || similar.length === 0) return null;
+
+  return (
+    <>
+      <Divider />
+      <Box>
+        <Stack direction="row" alignItems="center" justifyContent="space-between">
+          <Typography variant="overline" color="text.secondary">
+            Similar Images
+          </Typography>
+          <Typography variant="caption">
+            <Link to={`/?q=${encodeURIComponent(`similar:${imageId}`)}`}>View all</Link>
+          </Typography>
+        </Stack>
+        <Stack direction="row" spacing={1} sx={{ mt: 1, overflowX: 'auto', pb: 1 }}>
+          {similar.map(s => (
+            <Box
+              key={s.id}
+              component={Link}
+              to={`/image/${s.id}`}
+              title={`#${s.id} (distance ${s.distance})`}
+              sx={{ flexShrink: 0, display: 'block' }}
+            >
+              <Box
+                component="img"
+                src={getThumbnailUrl(s.id, 150)}
+                alt={`#${s.id}`}
+                loading="lazy"
+                sx={{ width: 80, height: 80, objectFit: 'cover', display: 'block', borderRadius: 1 }}
+              />
+            </Box>
+          ))}
+        </Stack>
+      </Box>
+    </>
+  );
+}
@@ -6,18 +6,28 @@ import {
   Typography,
   Box,
   IconButton,
+  Menu,
+  MenuItem,
+  ListItemText,
+  Divider,
   useMediaQuery,
   useTheme,
 } from '@mui/material';
 import {
   Home as HomeIcon,
   Settings as SettingsIcon,
+  Collections as PoolsIcon,
+  FolderOpen as FoldersIcon,
+  AccountCircle as AccountIcon,
+  Login as LoginIcon,
   LightMode as LightModeIcon,
   DarkMode as DarkModeIcon,
 } from '@mui/icons-material';
 import { useThemeMode } from '../../theme/ThemeContext';
 import SearchBar from '../Search/SearchBar';
 import { usePlugins, PluginButton } from '../../plugins';
+import { useAuth } from '../../auth';
+import { changePassword } from '../../api/client';
 
 export default function Header() {
   const theme = useTheme();
@@ -28,6 +38,8 @@ export default function Header() {
   const [searchParams] = useSearchParams();
   const [searchValue, setSearchValue] = useState(searchParams.get('q') || '');
   const { getButtonsForLocation } = usePlugins();
+  const { user, hasRole, showLogin, logout } = useAuth();
+  const [accountMenuAnchor, setAccountMenuAnchor] = useState<HTMLElement | null>(null);
 
   // Hide search bar on homepage since it has its own
   const isHomePage = location.pathname === '/' || location.pathname === '/search';
@@ -51,6 +63,21 @@ export default function Header() {
     sessionStorage.removeItem('gallery-scroll-state');
   }, [navigate]);
 
+  const handleChangePassword = useCallback(async () => {
+    setAccountMenuAnchor(null);
+    const currentPassword = prompt('Current password');
+    if (!currentPassword) return;
+    const newPassword = prompt('New password');
+    if (!newPassword) return;
+
+    try {
+      await changePassword(currentPassword, newPassword);
+      alert('Password changed');
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to change password');
+    }
+  }, []);
+
   return (
     <AppBar position="sticky" elevation={0} sx={{ borderBottom: 1, borderColor: 'divider' }}>
       <Toolbar sx={{ gap: 2 }}>
@@ -94,6 +121,24 @@ export default function Header() {
           <PluginButton key={`${btn.pluginId}-${btn.id}`} button={btn} />
         ))}
 
+        <IconButton
+          color="inherit"
+          onClick={() => navigate('/pools')}
+          sx={{ p: 1 }}
+          title="Pools"
+        >
+          <PoolsIcon />
+        </IconButton>
+
+        <IconButton
+          color="inherit"
+          onClick={() => navigate('/folders')}
+          sx={{ p: 1 }}
+          title="Folders"
+        >
+          <FoldersIcon />
+        </IconButton>
+
         <IconButton
           color="inherit"
           onClick={toggleTheme}
@@ -110,6 +155,60 @@ export default function Header() {
         >
           <SettingsIcon />
         </IconButton>
+
+        {user ? (
+          <>
+            <IconButton
+              color="inherit"
+              onClick={(e) => setAccountMenuAnchor(e.currentTarget)}
+              sx={{ p: 1 }}
+              title={user.username}
+            >
+              <AccountIcon />
+            </IconButton>
+            <Menu
+              anchorEl={accountMenuAnchor}
+              open={accountMenuAnchor !== null}
+              onClose={() => setAccountMenuAnchor(null)}
+            >
+              <MenuItem disabled>
+                <ListItemText primary={user.username} secondary={user.role} />
+              </MenuItem>
+              <Divider />
+              <MenuItem
+                onClick={() => {
+                  setAccountMenuAnchor(null);
+                  navigate(`/?q=${encodeURIComponent(`fav:${user.username}`)}`);
+                }}
+              >
+                My favorites
+              </MenuItem>
+              {hasRole('editor') && (
+                <MenuItem
+                  onClick={() => {
+                    setAccountMenuAnchor(null);
+                    navigate('/duplicates');
+                  }}
+                >
+                  Review duplicates
+                </MenuItem>
+              )}
+              <MenuItem onClick={handleChangePassword}>Change password</MenuItem>
+              <MenuItem
+                onClick={() => {
+                  setAccountMenuAnchor(null);
+                  logout();
+                }}
+              >
+                Log out
+              </MenuItem>
+            </Menu>
+          </>
+        ) : (
+          <IconButton color="inherit" onClick={() => showLogin()} sx={{ p: 1 }} title="Log in">
+            <LoginIcon />
+          </IconButton>
+        )}
       </Toolbar>
     </AppBar>
   );
@@ -27,9 +27,9 @@ function getTagForSuggestion(word: string): string {
   return word.replace(/^[-~{]+/, '');
 }
 
-// Get prefix (-, ~) from a word
+// Get prefix (-, ~ and any category: qualifier) from a word
 function getPrefix(word: string): string {
-  return word.match(/^[-~{]+/)?.[0] || '';
+  return word.match(/^[-~{]*(?:(?:general|artist|character|copyright|meta):)?/i)?.[0] || '';
 }
 
 export default function SearchBar({ value, onChange, onSearch }: SearchBarProps) {
@@ -121,6 +121,7 @@ export default function SearchBar({ value, onChange, onSearch }: SearchBarProps)
         <code>~tag1 ~tag2</code> - Match any (OR)<br />
         <code>{'{'} tag1 tag2 {'}'}</code> - Group tags<br />
         <code>tag*</code> - Wildcard match<br />
+        <code>character:name</code> - Match within a tag category<br />
         <Typography variant="caption" color="text.secondary" sx={{ mt: 1, display: 'block' }}>
           Press <kbd>/</kbd> to focus search
         </Typography>
@@ -163,7 +164,9 @@ export default function SearchBar({ value, onChange, onSearch }: SearchBarProps)
               width: '100%',
             }}
           >
-            <span style={{ flex: 1 }}>{option.name}</span>
+            <Box component="span" sx={{ flex: 1, color: `tagCategory.${option.category}` }}>
+              {option.name}
+            </Box>
             <Typography variant="caption" color="text.secondary" sx={{ ml: 2, flexShrink: 0 }}>
               {option.count.toLocaleString()}
             </Typography>
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import {
   Box,
   Typography,
@@ -24,19 +24,67 @@ import {
   MenuItem,
   FormControlLabel,
   Checkbox,
+  List,
+  ListItem,
+  ListItemText,
+  LinearProgress,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  FormControl,
+  InputLabel,
 } from '@mui/material';
 import {
   Delete as DeleteIcon,
   Refresh as ScanIcon,
   Add as AddIcon,
+  MergeType as MergeIcon,
   ExpandMore as ExpandMoreIcon,
   CloudUpload as UploadIcon,
+  ArrowForward as ArrowIcon,
+  LockReset as ResetPasswordIcon,
+  PlayArrow as StartIcon,
+  Cancel as CancelIcon,
+  Download as DownloadIcon,
+  Preview as PreviewIcon,
+  Tune as SettingsIcon,
 } from '@mui/icons-material';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { getFolders, addFolder, deleteFolder, updateFolder, scanFolder } from '../api/client';
+import {
+  getFolders,
+  addFolder,
+  deleteFolder,
+  updateFolder,
+  countExcludedImages,
+  scanFolder,
+  getTagAliases,
+  addTagAlias,
+  deleteTagAlias,
+  getTagImplications,
+  addTagImplication,
+  deleteTagImplication,
+  applyTagRules,
+  renameTag,
+  mergeTags,
+  getBulkEditJob,
+  isJobUnfinished,
+  getUsers,
+  createUser,
+  updateUser,
+  deleteUser,
+  getJob,
+  getJobs,
+  subscribeJobs,
+  startJob,
+  cancelJob,
+  getExportUrl,
+  importMetadata,
+} from '../api/client';
+import { useAuth } from '../auth';
 import { getPlugins, updatePlugin, uninstallPlugin, uploadPlugin } from '../plugins/api';
 import { usePlugins, PluginButton } from '../plugins';
-import type { Folder } from '../types/api';
+import type { Folder, FolderSettings, Job, JobType, SidecarMode, TagAlias, TagImplication, UserRole, ImportChange, ImportReport } from '../types/api';
 import type { PluginInfo, ConfigField, PluginConfig } from '../plugins/types';
 
 // Plugin config form component
@@ -180,14 +228,908 @@ function PluginConfigForm({ plugin, onSave }: { plugin: PluginInfo; onSave: (con
   );
 }
 
+// Form + list for one kind of tag rule (alias or implication)
+function TagRuleSection<T extends { id: number }>({
+  title,
+  description,
+  fromLabel,
+  toLabel,
+  rules,
+  isLoading,
+  getFrom,
+  getTo,
+  onAdd,
+  onDelete,
+  isAdding,
+}: {
+  title: string;
+  description: string;
+  fromLabel: string;
+  toLabel: string;
+  rules: T[] | undefined;
+  isLoading: boolean;
+  getFrom: (rule: T) => string;
+  getTo: (rule: T) => string;
+  onAdd: (from: string, to: string, reset: () => void) => void;
+  onDelete: (id: number) => void;
+  isAdding: boolean;
+}) {
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const handleAdd = () => {
+    if (from.trim() && to.trim()) {
+      onAdd(from.trim(), to.trim(), () => {
+        setFrom('');
+        setTo('');
+      });
+    }
+  };
+
+  return (
+    <Paper sx={{ p: 2, height: '100%' }}>
+      <Typography variant="h6" gutterBottom>
+        {title}
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        {description}
+      </Typography>
+
+      <Stack direction="row" spacing={1} alignItems="center" sx={{ mb: 2 }}>
+        <TextField
+          label={fromLabel}
+          value={from}
+          onChange={(e) => setFrom(e.target.value)}
+          size="small"
+          fullWidth
+        />
+        <ArrowIcon color="action" />
+        <TextField
+          label={toLabel}
+          value={to}
+          onChange={(e) => setTo(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+          size="small"
+          fullWidth
+        />
+        <IconButton
+          onClick={handleAdd}
+          disabled={!from.trim() || !to.trim() || isAdding}
+          color="primary"
+          title="Add"
+        >
+          <AddIcon />
+        </IconButton>
+      </Stack>
+
+      {isLoading ? (
+        <Box sx={{ p: 2, textAlign: 'center' }}>
+          <CircularProgress size={24} />
+        </Box>
+      ) : rules && rules.length > 0 ? (
+        <List dense disablePadding>
+          {rules.map(rule => (
+            <ListItem
+              key={rule.id}
+              divider
+              secondaryAction={
+                <IconButton
+                  edge="end"
+                  onClick={() => onDelete(rule.id)}
+                  color="error"
+                  title="Delete"
+                  size="small"
+                >
+                  <DeleteIcon fontSize="small" />
+                </IconButton>
+              }
+            >
+              <ListItemText
+                primary={`${getFrom(rule)} → ${getTo(rule)}`}
+                primaryTypographyProps={{ fontFamily: 'monospace', fontSize: '0.85rem' }}
+              />
+            </ListItem>
+          ))}
+        </List>
+      ) : (
+        <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center', py: 2 }}>
+          None yet.
+        </Typography>
+      )}
+    </Paper>
+  );
+}
+
+// Rename or merge tags on every image (progress is polled like a bulk edit)
+function TagMergeSection({ onError }: { onError: (message: string) => void }) {
+  const queryClient = useQueryClient();
+  const [sources, setSources] = useState('');
+  const [target, setTarget] = useState('');
+  const [jobId, setJobId] = useState<number | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const { ensureRole } = useAuth();
+
+  const { data: job } = useQuery({
+    queryKey: ['bulkEdit', jobId],
+    queryFn: () => getBulkEditJob(jobId!),
+    enabled: jobId !== null,
+    refetchInterval: (q) => (isJobUnfinished(q.state.data) ? 1000 : false),
+  });
+
+  // Refresh anything showing tags once the job is done
+  useEffect(() => {
+    if (job && !isJobUnfinished(job)) {
+      queryClient.invalidateQueries({ queryKey: ['search'] });
+      queryClient.invalidateQueries({ queryKey: ['image'] });
+      queryClient.invalidateQueries({ queryKey: ['stats'] });
+      queryClient.invalidateQueries({ queryKey: ['tagAliases'] });
+      queryClient.invalidateQueries({ queryKey: ['tagImplications'] });
+    }
+  }, [job, queryClient]);
+
+  const sourceList = sources.split(/\s+/).filter(t => t.length > 0);
+  const isRunning = isStarting || isJobUnfinished(job);
+
+  const handleSubmit = async () => {
+    if (sourceList.length === 0 || !target.trim()) return;
+
+    if (!(await ensureRole('editor'))) return;
+
+    setIsStarting(true);
+    try {
+      // A single tag is renamed (keeping its category), several are merged
+      const started = sourceList.length === 1
+        ? await renameTag(sourceList[0], target.trim())
+        : await mergeTags(sourceList, target.trim());
+      queryClient.setQueryData(['bulkEdit', started.id], started);
+      setJobId(started.id);
+      setSources('');
+      setTarget('');
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to update tags');
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <Paper sx={{ p: 2, mb: 2 }}>
+      <Typography variant="h6" gutterBottom>
+        Rename / Merge
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Rename a tag, or merge several tags into one, on every image. Image files are rewritten with the new tags,
+        and aliases and implications are updated to the new name.
+      </Typography>
+
+      <Stack direction="row" spacing={1} alignItems="center">
+        <TextField
+          label="Tags"
+          value={sources}
+          onChange={(e) => setSources(e.target.value)}
+          placeholder="old_tag another_tag"
+          size="small"
+          fullWidth
+        />
+        <ArrowIcon color="action" />
+        <TextField
+          label="New name"
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+          size="small"
+          fullWidth
+        />
+        <Button
+          variant="contained"
+          startIcon={<MergeIcon />}
+          onClick={handleSubmit}
+          disabled={sourceList.length === 0 || !target.trim() || isRunning}
+          sx={{ flexShrink: 0 }}
+        >
+          {sourceList.length > 1 ? 'Merge' : 'Rename'}
+        </Button>
+      </Stack>
+
+      {job && (
+        <Stack spacing={0.5} sx={{ mt: 2 }}>
+          <LinearProgress
+            variant="determinate"
+            value={job.total > 0 ? (job.processed / job.total) * 100 : 100}
+          />
+          <Typography variant="caption" color="text.secondary">
+            {job.status === 'queued'
+              ? 'Waiting for other jobs to finish...'
+              : job.status === 'running'
+              ? `Updating ${job.processed.toLocaleString()} / ${job.total.toLocaleString()} images...`
+              : `Updated ${(job.processed - job.failed).toLocaleString()} images`}
+            {job.failed > 0 && ` (${job.failed.toLocaleString()} failed)`}
+          </Typography>
+        </Stack>
+      )}
+    </Paper>
+  );
+}
+
+const USER_ROLES: { value: UserRole; label: string }[] = [
+  { value: 'viewer', label: 'Viewer' },
+  { value: 'editor', label: 'Editor' },
+  { value: 'admin', label: 'Admin' },
+];
+
+// Create users, change their roles, reset passwords
+function UserSection({ onError }: { onError: (message: string) => void }) {
+  const queryClient = useQueryClient();
+  const { user: currentUser } = useAuth();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [role, setRole] = useState<UserRole>('viewer');
+
+  const { data: users, isLoading } = useQuery({
+    queryKey: ['users'],
+    queryFn: getUsers,
+  });
+
+  const onSuccess = () => queryClient.invalidateQueries({ queryKey: ['users'] });
+  const onMutationError = (err: Error) => onError(err.message);
+
+  const createMutation = useMutation({
+    mutationFn: () => createUser(username.trim(), password, role),
+    onSuccess: () => {
+      onSuccess();
+      setUsername('');
+      setPassword('');
+      setRole('viewer');
+    },
+    onError: onMutationError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, updates }: { id: number; updates: { role?: UserRole; password?: string } }) =>
+      updateUser(id, updates),
+    onSuccess,
+    onError: onMutationError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteUser,
+    onSuccess,
+    onError: onMutationError,
+  });
+
+  const resetPassword = (id: number, name: string) => {
+    const newPassword = prompt(`New password for ${name}`);
+    if (newPassword) {
+      updateMutation.mutate({ id, updates: { password: newPassword } });
+    }
+  };
+
+  return (
+    <>
+      <Paper sx={{ p: 2, mb: 3 }}>
+        <Typography variant="h6" gutterBottom>
+          Add User
+        </Typography>
+        <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} alignItems="flex-start">
+          <TextField
+            label="Username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            size="small"
+            fullWidth
+          />
+          <TextField
+            label="Password"
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            size="small"
+            fullWidth
+            autoComplete="new-password"
+          />
+          <Select size="small" value={role} onChange={(e) => setRole(e.target.value as UserRole)} sx={{ minWidth: 120 }}>
+            {USER_ROLES.map(r => (
+              <MenuItem key={r.value} value={r.value}>{r.label}</MenuItem>
+            ))}
+          </Select>
+          <Button
+            variant="contained"
+            startIcon={<AddIcon />}
+            onClick={() => createMutation.mutate()}
+            disabled={!username.trim() || !password || createMutation.isPending}
+            sx={{ flexShrink: 0 }}
+          >
+            Add
+          </Button>
+        </Stack>
+      </Paper>
+
+      {isLoading ? (
+        <Box sx={{ p: 4, textAlign: 'center' }}>
+          <CircularProgress />
+        </Box>
+      ) : (
+        <Paper>
+          <List dense>
+            {users?.map(u => (
+              <ListItem
+                key={u.id}
+                secondaryAction={
+                  <Stack direction="row" spacing={1} alignItems="center">
+                    <Select
+                      size="small"
+                      value={u.role}
+                      onChange={(e) => updateMutation.mutate({ id: u.id, updates: { role: e.target.value as UserRole } })}
+                      sx={{ minWidth: 110 }}
+                    >
+                      {USER_ROLES.map(r => (
+                        <MenuItem key={r.value} value={r.value}>{r.label}</MenuItem>
+                      ))}
+                    </Select>
+                    <IconButton size="small" onClick={() => resetPassword(u.id, u.username)} title="Reset password">
+                      <ResetPasswordIcon fontSize="small" />
+                    </IconButton>
+                    <IconButton
+                      size="small"
+                      color="error"
+                      onClick={() => {
+                        if (confirm(`Delete user ${u.username}? Their favorites will be lost.`)) {
+                          deleteMutation.mutate(u.id);
+                        }
+                      }}
+                      disabled={u.id === currentUser?.id}
+                      title="Delete user"
+                    >
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </Stack>
+                }
+              >
+                <ListItemText
+                  primary={u.id === currentUser?.id ? `${u.username} (you)` : u.username}
+                  secondary={`${u.favorite_count.toLocaleString()} favorites · joined ${new Date(u.created_at).toLocaleDateString()}`}
+                />
+              </ListItem>
+            ))}
+          </List>
+        </Paper>
+      )}
+    </>
+  );
+}
+
+const JOB_TYPES: { value: JobType; label: string }[] = [
+  { value: 'scan', label: 'Scan for new files' },
+  { value: 'cleanup', label: 'Remove deleted files' },
+  { value: 'thumbnails', label: 'Regenerate thumbnails' },
+  { value: 'duplicates', label: 'Rescan duplicates' },
+  { value: 'sidecars', label: 'Re-read sidecar files' },
+];
+
+// Queued from elsewhere in the app rather than started here, and counted in images
+const EDIT_JOB_TYPES: { value: JobType; label: string }[] = [
+  { value: 'bulk_edit', label: 'Bulk edit' },
+  { value: 'tag_merge', label: 'Rename or merge tags' },
+  { value: 'tag_rules', label: 'Apply tag rules' },
+  { value: 'import', label: 'Metadata import' },
+];
+
+function getJobLabel(type: JobType): string {
+  return [...JOB_TYPES, ...EDIT_JOB_TYPES].find(t => t.value === type)?.label ?? type;
+}
+
+function isEditJob(type: JobType): boolean {
+  return EDIT_JOB_TYPES.some(t => t.value === type);
+}
+
+const JOB_STATUS_COLORS: Record<Job['status'], 'default' | 'primary' | 'success' | 'error' | 'warning'> = {
+  queued: 'default',
+  running: 'primary',
+  completed: 'success',
+  failed: 'error',
+  cancelled: 'warning',
+};
+
+function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+// Queue scans and maintenance jobs, with live progress over Server-Sent Events
+function JobSection({ folders, onError }: { folders: Folder[]; onError: (message: string) => void }) {
+  const queryClient = useQueryClient();
+  const [type, setType] = useState<JobType>('scan');
+  const [folderId, setFolderId] = useState<number | ''>('');
+  const unfinishedIds = useRef(new Set<number>());
+
+  const { data: jobs, isLoading } = useQuery({
+    queryKey: ['jobs'],
+    queryFn: getJobs,
+  });
+
+  useEffect(() => {
+    return subscribeJobs((latest) => {
+      queryClient.setQueryData(['jobs'], latest);
+
+      // Refresh counts and results when a job we saw running or queued finishes
+      let finished = false;
+      for (const job of latest) {
+        const isUnfinished = job.status === 'queued' || job.status === 'running';
+        if (isUnfinished) {
+          unfinishedIds.current.add(job.id);
+        } else if (unfinishedIds.current.delete(job.id)) {
+          finished = true;
+        }
+      }
+      if (finished) {
+        queryClient.invalidateQueries({ queryKey: ['folders'] });
+        queryClient.invalidateQueries({ queryKey: ['stats'] });
+        queryClient.invalidateQueries({ queryKey: ['search'] });
+      }
+    });
+  }, [queryClient]);
+
+  const startMutation = useMutation({
+    mutationFn: () => startJob(type, folderId === '' ? undefined : folderId),
+    onError: (err: Error) => onError(err.message),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: cancelJob,
+    onError: (err: Error) => onError(err.message),
+  });
+
+  return (
+    <>
+      <Paper sx={{ p: 2, mb: 3 }}>
+        <Typography variant="h6" gutterBottom>
+          Start Job
+        </Typography>
+        <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} alignItems="flex-start">
+          <Select size="small" value={type} onChange={(e) => setType(e.target.value as JobType)} sx={{ minWidth: 220 }}>
+            {JOB_TYPES.map(t => (
+              <MenuItem key={t.value} value={t.value}>{t.label}</MenuItem>
+            ))}
+          </Select>
+          <Select
+            size="small"
+            value={folderId}
+            onChange={(e) => setFolderId(e.target.value as number | '')}
+            displayEmpty
+            fullWidth
+          >
+            <MenuItem value="">All folders</MenuItem>
+            {folders.map(f => (
+              <MenuItem key={f.id} value={f.id} sx={{ fontFamily: 'monospace' }}>{f.path}</MenuItem>
+            ))}
+          </Select>
+          <Button
+            variant="contained"
+            startIcon={<StartIcon />}
+            onClick={() => startMutation.mutate()}
+            disabled={startMutation.isPending}
+            sx={{ flexShrink: 0 }}
+          >
+            Start
+          </Button>
+        </Stack>
+      </Paper>
+
+      {isLoading ? (
+        <Box sx={{ p: 4, textAlign: 'center' }}>
+          <CircularProgress />
+        </Box>
+      ) : jobs && jobs.length > 0 ? (
+        <Stack spacing={1}>
+          {jobs.map(job => (
+            <Paper key={job.id} variant="outlined" sx={{ p: 1.5 }}>
+              <Stack direction="row" alignItems="center" spacing={1}>
+                <Box sx={{ flex: 1, minWidth: 0 }}>
+                  <Typography variant="subtitle2">
+                    {getJobLabel(job.type)}
+                  </Typography>
+                  {(job.folder_path || !isEditJob(job.type)) && (
+                    <Typography
+                      variant="caption"
+                      color="text.secondary"
+                      sx={{ fontFamily: job.folder_path ? 'monospace' : undefined, wordBreak: 'break-all' }}
+                    >
+                      {job.folder_path ?? 'All folders'}
+                    </Typography>
+                  )}
+                </Box>
+                <Chip label={job.status} size="small" color={JOB_STATUS_COLORS[job.status]} variant="outlined" />
+                {(job.status === 'queued' || job.status === 'running') && (
+                  <IconButton size="small" onClick={() => cancelMutation.mutate(job.id)} title="Cancel job">
+                    <CancelIcon fontSize="small" />
+                  </IconButton>
+                )}
+              </Stack>
+
+              {job.status === 'running' && (
+                <LinearProgress
+                  variant={job.total > 0 ? 'determinate' : 'indeterminate'}
+                  value={job.total > 0 ? (job.processed / job.total) * 100 : 0}
+                  sx={{ mt: 1 }}
+                />
+              )}
+
+              <Typography variant="caption" color="text.secondary" component="div" sx={{ mt: 0.5 }}>
+                {job.status === 'queued'
+                  ? `Queued ${new Date(job.created_at).toLocaleString()}`
+                  : `${job.processed.toLocaleString()} / ${job.total.toLocaleString()} ${isEditJob(job.type) ? 'images' : 'files'}`}
+                {job.failed > 0 && ` · ${job.failed.toLocaleString()} failed`}
+                {job.eta_seconds !== null && ` · about ${formatDuration(job.eta_seconds)} left`}
+                {job.finished_at && ` · finished ${new Date(job.finished_at).toLocaleString()}`}
+              </Typography>
+
+              {job.error && (
+                <Typography variant="caption" color="error" component="div">
+                  {job.error}
+                </Typography>
+              )}
+            </Paper>
+          ))}
+        </Stack>
+      ) : (
+        <Paper sx={{ p: 4, textAlign: 'center' }}>
+          <Typography color="text.secondary">
+            No jobs yet. Scans run automatically, or start one above.
+          </Typography>
+        </Paper>
+      )}
+    </>
+  );
+}
+
+const RATING_NAMES: Record<number, string> = { 1: 'safe', 2: 'questionable', 3: 'explicit' };
+
+// One line summary of an image's imported changes, e.g. "+cat -dog, rating safe → explicit"
+function describeImportChange(change: ImportChange): string {
+  const ratingName = (rating: number | null) => (rating ? RATING_NAMES[rating] : 'none');
+  const parts: string[] = [];
+  if (change.add_tags.length > 0) parts.push(change.add_tags.map(tag => `+${tag}`).join(' '));
+  if (change.remove_tags.length > 0) parts.push(change.remove_tags.map(tag => `-${tag}`).join(' '));
+  if (change.rating) parts.push(`rating ${ratingName(change.rating.from)} → ${ratingName(change.rating.to)}`);
+  if (change.artist) parts.push(`artist ${change.artist.to ?? 'removed'}`);
+  if (change.source) parts.push(`source ${change.source.to ?? 'removed'}`);
+  if (change.add_pools.length > 0) parts.push(`added to ${change.add_pools.map(pool => pool.name).join(', ')}`);
+  if (change.duplicate_of) parts.push(`duplicate of #${change.duplicate_of}`);
+  return parts.join(', ');
+}
+
+function BackupSection({ onError }: { onError: (message: string) => void }) {
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [isDryRun, setIsDryRun] = useState(true);
+  const [jobId, setJobId] = useState<number | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const { ensureRole } = useAuth();
+
+  const { data: job } = useQuery({
+    queryKey: ['job', jobId],
+    queryFn: () => getJob(jobId!),
+    enabled: jobId !== null,
+    refetchInterval: (q) => (isJobUnfinished(q.state.data) ? 1000 : false),
+  });
+
+  // Refresh anything showing tags once the import is done
+  useEffect(() => {
+    if (job && !isJobUnfinished(job)) {
+      queryClient.invalidateQueries({ queryKey: ['search'] });
+      queryClient.invalidateQueries({ queryKey: ['image'] });
+      queryClient.invalidateQueries({ queryKey: ['stats'] });
+      queryClient.invalidateQueries({ queryKey: ['pools'] });
+    }
+  }, [job, queryClient]);
+
+  const isRunning = isSending || isJobUnfinished(job);
+
+  const runImport = async (dryRun: boolean) => {
+    if (!file || !(await ensureRole('admin'))) return;
+
+    setIsSending(true);
+    try {
+      const result = await importMetadata(file, dryRun);
+      setReport(result.report);
+      setIsDryRun(result.dry_run);
+      if (result.job) {
+        queryClient.setQueryData(['job', result.job.id], result.job);
+        setJobId(result.job.id);
+      }
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <>
+      <Paper sx={{ p: 2, mb: 2 }}>
+        <Typography variant="h6" gutterBottom>
+          Export
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Download every image's path, file hashes, tags, rating, artist, source, duplicate group and pools. Keep it as a
+          backup (some tags only live in the database, for files that can't store them), or import it into another
+          LANBooru.
+        </Typography>
+        <Stack direction="row" spacing={1}>
+          <Button variant="outlined" startIcon={<DownloadIcon />} href={getExportUrl('ndjson')}>
+            NDJSON
+          </Button>
+          <Button variant="outlined" startIcon={<DownloadIcon />} href={getExportUrl('csv')}>
+            CSV
+          </Button>
+        </Stack>
+      </Paper>
+
+      <Paper sx={{ p: 2, mb: 2 }}>
+        <Typography variant="h6" gutterBottom>
+          Import
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Re-apply an export file. Images are matched by file hash, or by path if the file has changed since. Tags are
+          replaced with the file's tags, and columns missing from a CSV are left alone. Preview the changes first, then
+          apply them.
+        </Typography>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".ndjson,.jsonl,.json,.csv"
+          hidden
+          onChange={(e) => {
+            setFile(e.target.files?.[0] ?? null);
+            setReport(null);
+            setJobId(null);
+            e.target.value = '';
+          }}
+        />
+        <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap">
+          <Button variant="outlined" startIcon={<UploadIcon />} onClick={() => fileInputRef.current?.click()} disabled={isRunning}>
+            Choose file
+          </Button>
+          <Button variant="outlined" startIcon={<PreviewIcon />} onClick={() => runImport(true)} disabled={!file || isRunning}>
+            Preview changes
+          </Button>
+          <Button
+            variant="contained"
+            startIcon={<StartIcon />}
+            onClick={() => runImport(false)}
+            disabled={!file || !report || !isDryRun || report.changed === 0 || isRunning}
+          >
+            Apply
+          </Button>
+          {file && (
+            <Typography variant="body2" color="text.secondary" noWrap>
+              {file.name}
+            </Typography>
+          )}
+        </Stack>
+
+        {isSending && <LinearProgress sx={{ mt: 2 }} />}
+
+        {report && (
+          <Box sx={{ mt: 2 }}>
+            <Typography variant="body2" gutterBottom>
+              {report.records.toLocaleString()} records: {report.matched.toLocaleString()} matched
+              ({report.changed.toLocaleString()} {isDryRun ? 'to change' : 'changing'}, {report.unchanged.toLocaleString()} unchanged),
+              {' '}{report.unmatched_count.toLocaleString()} not found, {report.invalid.length.toLocaleString()} invalid
+            </Typography>
+
+            {report.invalid.length > 0 && (
+              <Alert severity="warning" sx={{ mb: 1 }}>
+                {report.invalid.slice(0, 5).map(entry => `Line ${entry.line}: ${entry.error}`).join('. ')}
+                {report.invalid.length > 5 && ` (and ${report.invalid.length - 5} more)`}
+              </Alert>
+            )}
+
+            {report.changes.length > 0 && (
+              <Accordion defaultExpanded={isDryRun}>
+                <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+                  <Typography variant="body2">
+                    Changes{report.changed > report.changes.length && ` (first ${report.changes.length})`}
+                  </Typography>
+                </AccordionSummary>
+                <AccordionDetails sx={{ maxHeight: 400, overflow: 'auto' }}>
+                  <List dense disablePadding>
+                    {report.changes.map(change => (
+                      <ListItem key={change.image_id} disableGutters>
+                        <ListItemText
+                          primary={change.path}
+                          secondary={describeImportChange(change)}
+                          slotProps={{ primary: { sx: { wordBreak: 'break-all' } } }}
+                        />
+                      </ListItem>
+                    ))}
+                  </List>
+                </AccordionDetails>
+              </Accordion>
+            )}
+
+            {report.unmatched.length > 0 && (
+              <Accordion>
+                <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+                  <Typography variant="body2">
+                    Not found{report.unmatched_count > report.unmatched.length && ` (first ${report.unmatched.length})`}
+                  </Typography>
+                </AccordionSummary>
+                <AccordionDetails sx={{ maxHeight: 300, overflow: 'auto' }}>
+                  <List dense disablePadding>
+                    {report.unmatched.map(entry => (
+                      <ListItem key={entry.line} disableGutters>
+                        <ListItemText
+                          primary={entry.path ?? entry.file_hash}
+                          secondary={`Line ${entry.line}`}
+                          slotProps={{ primary: { sx: { wordBreak: 'break-all' } } }}
+                        />
+                      </ListItem>
+                    ))}
+                  </List>
+                </AccordionDetails>
+              </Accordion>
+            )}
+          </Box>
+        )}
+
+        {job && (
+          <Stack spacing={0.5} sx={{ mt: 2 }}>
+            <LinearProgress
+              variant="determinate"
+              value={job.total > 0 ? (job.processed / job.total) * 100 : 100}
+            />
+            <Typography variant="caption" color="text.secondary">
+              {job.status === 'queued'
+                ? 'Waiting for other jobs to finish...'
+                : job.status === 'running'
+                ? `Updating ${job.processed.toLocaleString()} / ${job.total.toLocaleString()} images...`
+                : `Updated ${(job.processed - job.failed).toLocaleString()} images`}
+              {job.failed > 0 && ` (${job.failed.toLocaleString()} failed)`}
+            </Typography>
+          </Stack>
+        )}
+      </Paper>
+    </>
+  );
+}
+
+// Default tags and rating, include/exclude patterns and write protection for one folder
+function FolderSettingsDialog({ folder, saving, onSave, onClose }: {
+  folder: Folder;
+  saving: boolean;
+  onSave: (updates: Partial<FolderSettings> & { remove_excluded?: boolean }) => void;
+  onClose: () => void;
+}) {
+  const [defaultTags, setDefaultTags] = useState(folder.default_tags.join(' '));
+  const [defaultRating, setDefaultRating] = useState<number | ''>(folder.default_rating ?? '');
+  const [includePatterns, setIncludePatterns] = useState(folder.include_patterns.join('\n'));
+  const [excludePatterns, setExcludePatterns] = useState(folder.exclude_patterns.join('\n'));
+  const [readOnly, setReadOnly] = useState(Boolean(folder.read_only));
+  const [checking, setChecking] = useState(false);
+  const [checkError, setCheckError] = useState<string | null>(null);
+
+  const save = async () => {
+    const toLines = (value: string) => value.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+    const patterns = { include_patterns: toLines(includePatterns), exclude_patterns: toLines(excludePatterns) };
+
+    // Images the new patterns leave out are only removed from the library if the admin agrees
+    let removeExcluded = false;
+    if (
+      patterns.include_patterns.join('\n') !== folder.include_patterns.join('\n') ||
+      patterns.exclude_patterns.join('\n') !== folder.exclude_patterns.join('\n')
+    ) {
+      setChecking(true);
+      setCheckError(null);
+      try {
+        const count = await countExcludedImages(folder.id, patterns);
+        removeExcluded = count > 0 && confirm(
+          `${count.toLocaleString()} ${count === 1 ? 'image' : 'images'} already in the library no longer match these patterns. ` +
+          'Remove them? Their tags, history, pool memberships and favorites will be lost.\n\n' +
+          'Cancel keeps them in the library (only new files are filtered).'
+        );
+      } catch (err) {
+        setCheckError(err instanceof Error ? err.message : 'Failed to check the patterns');
+        return;
+      } finally {
+        setChecking(false);
+      }
+    }
+
+    onSave({
+      default_tags: defaultTags.split(/\s+/).filter(tag => tag.length > 0),
+      default_rating: defaultRating || null,
+      ...patterns,
+      read_only: readOnly,
+      ...(removeExcluded && { remove_excluded: true }),
+    });
+  };
+
+  return (
+    <Dialog open onClose={() => !saving && onClose()} maxWidth="sm" fullWidth>
+      <DialogTitle sx={{ wordBreak: 'break-all' }}>{folder.path}</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2} sx={{ mt: 1 }}>
+          <TextField
+            label="Default tags"
+            placeholder="screenshot meta:phone"
+            helperText="Space-separated, added to every image in the folder (existing images get new ones too)"
+            value={defaultTags}
+            onChange={(e) => setDefaultTags(e.target.value)}
+            fullWidth
+          />
+          <FormControl fullWidth>
+            <InputLabel>Default rating</InputLabel>
+            <Select
+              label="Default rating"
+              value={defaultRating}
+              onChange={(e) => setDefaultRating(e.target.value as number | '')}
+            >
+              <MenuItem value="">None</MenuItem>
+              <MenuItem value={1}>Safe</MenuItem>
+              <MenuItem value={2}>Questionable</MenuItem>
+              <MenuItem value={3}>Explicit</MenuItem>
+            </Select>
+          </FormControl>
+          <TextField
+            label="Include patterns"
+            placeholder={'*.png\nArt/**'}
+            helperText="One glob per line. If any are set, only matching files are indexed"
+            value={includePatterns}
+            onChange={(e) => setIncludePatterns(e.target.value)}
+            multiline
+            minRows={2}
+            fullWidth
+          />
+          <TextField
+            label="Exclude patterns"
+            placeholder={'*.gif\n.trash/**'}
+            helperText="One glob per line. Patterns without a / match file names in any subfolder. Run a scan to apply changes"
+            value={excludePatterns}
+            onChange={(e) => setExcludePatterns(e.target.value)}
+            multiline
+            minRows={2}
+            fullWidth
+          />
+          <FormControlLabel
+            control={<Switch checked={readOnly} onChange={(e) => setReadOnly(e.target.checked)} />}
+            label="Never write to files (tag and rating edits are only saved in LANBooru)"
+          />
+          {checkError && <Alert severity="error">{checkError}</Alert>}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving || checking}>Cancel</Button>
+        <Button variant="contained" onClick={save} disabled={saving || checking}>Save</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+// Sidecar files are image.jpg.txt, image.json or image.xmp next to an image
+const SIDECAR_MODES: { value: SidecarMode; label: string }[] = [
+  { value: 'off', label: 'Ignore sidecars' },
+  { value: 'read', label: 'Read sidecars' },
+  { value: 'write', label: 'Read and write sidecars' },
+];
+
 export default function AdminPage() {
   const queryClient = useQueryClient();
   const [activeTab, setActiveTab] = useState(0);
   const [newPath, setNewPath] = useState('');
   const [newRecursive, setNewRecursive] = useState(true);
+  const [newSidecars, setNewSidecars] = useState<SidecarMode>('read');
+  const [editingFolder, setEditingFolder] = useState<Folder | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   const { getButtonsForLocation } = usePlugins();
+  const { user, hasRole, showLogin } = useAuth();
+  const isAdmin = hasRole('admin');
 
   // Track which plugins are being toggled (for optimistic UI)
   const [togglingPlugins, setTogglingPlugins] = useState<Set<string>>(new Set());
@@ -199,9 +1141,22 @@ export default function AdminPage() {
   const { data: folders, isLoading: foldersLoading } = useQuery({
     queryKey: ['folders'],
     queryFn: getFolders,
+    enabled: isAdmin,
   });
 
   // Plugins query
+  const { data: tagAliases, isLoading: aliasesLoading } = useQuery({
+    queryKey: ['tagAliases'],
+    queryFn: getTagAliases,
+    enabled: activeTab === 2 && isAdmin,
+  });
+
+  const { data: tagImplications, isLoading: implicationsLoading } = useQuery({
+    queryKey: ['tagImplications'],
+    queryFn: getTagImplications,
+    enabled: activeTab === 2 && isAdmin,
+  });
+
   const { data: plugins, isLoading: pluginsLoading } = useQuery({
     queryKey: ['plugins'],
     queryFn: getPlugins,
@@ -214,8 +1169,8 @@ export default function AdminPage() {
   });
 
   const addMutation = useMutation({
-    mutationFn: ({ path, recursive }: { path: string; recursive: boolean }) =>
-      addFolder(path, recursive),
+    mutationFn: ({ path, recursive, sidecars }: { path: string; recursive: boolean; sidecars: SidecarMode }) =>
+      addFolder(path, recursive, sidecars),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['folders'] });
       setNewPath('');
@@ -235,10 +1190,16 @@ export default function AdminPage() {
   });
 
   const updateMutation = useMutation({
-    mutationFn: ({ id, updates }: { id: number; updates: { do_recurse?: boolean; enabled?: boolean } }) =>
+    mutationFn: ({ id, updates }: { id: number; updates: Partial<FolderSettings> & { remove_excluded?: boolean } }) =>
       updateFolder(id, updates),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['folders'] });
+      queryClient.invalidateQueries({ queryKey: ['stats'] });
+      setEditingFolder(null);
+    },
+    onError: (err: Error) => {
+      setError(err.message);
+      setEditingFolder(null);
     },
   });
 
@@ -246,6 +1207,54 @@ export default function AdminPage() {
     mutationFn: scanFolder,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['stats'] });
+      queryClient.invalidateQueries({ queryKey: ['jobs'] });
+    },
+  });
+
+  const addAliasMutation = useMutation({
+    mutationFn: ({ alias, target }: { alias: string; target: string; reset: () => void }) =>
+      addTagAlias(alias, target),
+    onSuccess: (_data, { reset }) => {
+      queryClient.invalidateQueries({ queryKey: ['tagAliases'] });
+      reset();
+      setError(null);
+    },
+    onError: (err: Error) => {
+      setError(err.message);
+    },
+  });
+
+  const deleteAliasMutation = useMutation({
+    mutationFn: deleteTagAlias,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tagAliases'] });
+    },
+  });
+
+  const addImplicationMutation = useMutation({
+    mutationFn: ({ tag, impliedTag }: { tag: string; impliedTag: string; reset: () => void }) =>
+      addTagImplication(tag, impliedTag),
+    onSuccess: (_data, { reset }) => {
+      queryClient.invalidateQueries({ queryKey: ['tagImplications'] });
+      reset();
+      setError(null);
+    },
+    onError: (err: Error) => {
+      setError(err.message);
+    },
+  });
+
+  const deleteImplicationMutation = useMutation({
+    mutationFn: deleteTagImplication,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tagImplications'] });
+    },
+  });
+
+  const applyRulesMutation = useMutation({
+    mutationFn: applyTagRules,
+    onError: (err: Error) => {
+      setError(err.message);
     },
   });
 
@@ -325,7 +1334,7 @@ export default function AdminPage() {
 
   const handleAddFolder = () => {
     if (newPath.trim()) {
-      addMutation.mutate({ path: newPath.trim(), recursive: newRecursive });
+      addMutation.mutate({ path: newPath.trim(), recursive: newRecursive, sidecars: newSidecars });
     }
   };
 
@@ -355,15 +1364,30 @@ export default function AdminPage() {
         <Tabs value={activeTab} onChange={(_, v) => setActiveTab(v)}>
           <Tab label="Folders" />
           <Tab label="Plugins" />
+          <Tab label="Tags" />
+          <Tab label="Users" />
+          <Tab label="Jobs" />
+          <Tab label="Backup" />
         </Tabs>
       </Box>
 
+      {!isAdmin && (
+        <Alert
+          severity="info"
+          sx={{ mb: 3 }}
+          action={!user && (
+            <Button color="inherit" size="small" onClick={() => showLogin()}>
+              Log In
+            </Button>
+          )}
+        >
+          Managing folders, plugins, tags, users, jobs and backups requires an admin account.
+        </Alert>
+      )}
+
       {/* Folders Tab */}
-      {activeTab === 0 && (
+      {activeTab === 0 && isAdmin && (
         <>
-          <Alert severity="info" sx={{ mb: 3 }}>
-            Folder management is only available from localhost for security.
-          </Alert>
 
           {/* Add folder form */}
           <Paper sx={{ p: 2, mb: 3 }}>
@@ -394,6 +1418,17 @@ export default function AdminPage() {
                   onChange={(e) => setNewRecursive(e.target.checked)}
                 />
               </Stack>
+              <Select
+                size="small"
+                value={newSidecars}
+                onChange={(e) => setNewSidecars(e.target.value as SidecarMode)}
+                title="Tags, rating and source from image.jpg.txt, image.json or image.xmp files. Writing sends edits to them instead of the image."
+                sx={{ minWidth: 200 }}
+              >
+                {SIDECAR_MODES.map(m => (
+                  <MenuItem key={m.value} value={m.value}>{m.label}</MenuItem>
+                ))}
+              </Select>
               <Button
                 variant="contained"
                 startIcon={<AddIcon />}
@@ -444,7 +1479,29 @@ export default function AdminPage() {
                             color={folder.enabled ? 'success' : 'default'}
                             variant="outlined"
                           />
+                          {Boolean(folder.read_only) && <Chip label="Read-only" size="small" variant="outlined" />}
+                          {folder.default_tags.length > 0 && (
+                            <Chip label={`Tags: ${folder.default_tags.join(' ')}`} size="small" variant="outlined" />
+                          )}
+                          {(folder.include_patterns.length > 0 || folder.exclude_patterns.length > 0) && (
+                            <Chip label="Filtered" size="small" variant="outlined" />
+                          )}
                         </Stack>
+                        <Select
+                          size="small"
+                          value={folder.sidecars}
+                          onChange={(e) =>
+                            updateMutation.mutate({
+                              id: folder.id,
+                              updates: { sidecars: e.target.value as SidecarMode },
+                            })
+                          }
+                          sx={{ display: 'flex', mb: 1, fontSize: '0.85rem' }}
+                        >
+                          {SIDECAR_MODES.map(m => (
+                            <MenuItem key={m.value} value={m.value}>{m.label}</MenuItem>
+                          ))}
+                        </Select>
                         <Typography variant="caption" color="text.secondary">
                           Last scanned: {formatDate(folder.last_scanned_at)}
                         </Typography>
@@ -464,6 +1521,13 @@ export default function AdminPage() {
                           />
                         </Stack>
                         <Stack direction="row" spacing={0.5}>
+                          <IconButton
+                            onClick={() => setEditingFolder(folder)}
+                            title="Folder settings"
+                            size="small"
+                          >
+                            <SettingsIcon fontSize="small" />
+                          </IconButton>
                           <IconButton
                             onClick={() => scanMutation.mutate(folder.id)}
                             disabled={scanMutation.isPending}
@@ -498,15 +1562,21 @@ export default function AdminPage() {
               </Paper>
             )}
           </Box>
+
+          {editingFolder && (
+            <FolderSettingsDialog
+              folder={editingFolder}
+              saving={updateMutation.isPending}
+              onSave={(updates) => updateMutation.mutate({ id: editingFolder.id, updates })}
+              onClose={() => setEditingFolder(null)}
+            />
+          )}
         </>
       )}
 
       {/* Plugins Tab */}
-      {activeTab === 1 && (
+      {activeTab === 1 && isAdmin && (
         <Box>
-          <Alert severity="info" sx={{ mb: 3 }}>
-            Plugin management is only available from localhost for security.
-          </Alert>
 
           {/* Upload zone */}
           <Paper
@@ -678,6 +1748,115 @@ export default function AdminPage() {
           )}
         </Box>
       )}
+
+      {/* Tags Tab */}
+      {activeTab === 2 && isAdmin && (
+        <Box>
+          <Alert severity="info" sx={{ mb: 3 }}>
+            Tag rules are applied whenever tags are added. Use "Apply to existing images" after adding rules
+            to update images that are already tagged.
+          </Alert>
+
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+
+          {applyRulesMutation.isSuccess && (
+            <Alert severity="success" sx={{ mb: 2 }} onClose={() => applyRulesMutation.reset()}>
+              Applying tag rules in the background.
+            </Alert>
+          )}
+
+          <TagMergeSection onError={setError} />
+
+          <Grid container spacing={2} sx={{ mb: 2 }}>
+            <Grid size={{ xs: 12, md: 6 }}>
+              <TagRuleSection<TagAlias>
+                title="Aliases"
+                description="The alias is replaced by the target tag when tagging, and searching for it finds the target."
+                fromLabel="Alias"
+                toLabel="Target tag"
+                rules={tagAliases}
+                isLoading={aliasesLoading}
+                getFrom={(rule) => rule.alias}
+                getTo={(rule) => rule.target}
+                onAdd={(alias, target, reset) => addAliasMutation.mutate({ alias, target, reset })}
+                onDelete={(id) => deleteAliasMutation.mutate(id)}
+                isAdding={addAliasMutation.isPending}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, md: 6 }}>
+              <TagRuleSection<TagImplication>
+                title="Implications"
+                description="Images with the tag automatically get the implied tag. Implications chain."
+                fromLabel="Tag"
+                toLabel="Implied tag"
+                rules={tagImplications}
+                isLoading={implicationsLoading}
+                getFrom={(rule) => rule.tag}
+                getTo={(rule) => rule.implied_tag}
+                onAdd={(tag, impliedTag, reset) => addImplicationMutation.mutate({ tag, impliedTag, reset })}
+                onDelete={(id) => deleteImplicationMutation.mutate(id)}
+                isAdding={addImplicationMutation.isPending}
+              />
+            </Grid>
+          </Grid>
+
+          <Button
+            variant="outlined"
+            startIcon={<ScanIcon />}
+            onClick={() => applyRulesMutation.mutate()}
+            disabled={applyRulesMutation.isPending}
+          >
+            Apply to existing images
+          </Button>
+        </Box>
+      )}
+
+      {/* Users Tab */}
+      {activeTab === 3 && isAdmin && (
+        <Box>
+          <Alert severity="info" sx={{ mb: 3 }}>
+            Viewers can keep favorites, editors can also edit tags, ratings and pools, and admins can manage everything on this page.
+          </Alert>
+
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+
+          <UserSection onError={setError} />
+        </Box>
+      )}
+
+      {/* Jobs Tab */}
+      {activeTab === 4 && isAdmin && (
+        <Box>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+
+          <JobSection folders={folders || []} onError={setError} />
+        </Box>
+      )}
+
+      {/* Backup Tab */}
+      {activeTab === 5 && isAdmin && (
+        <Box>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+
+          <BackupSection onError={setError} />
+        </Box>
+      )}
     </Box>
   );
 }
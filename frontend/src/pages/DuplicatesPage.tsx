@@ -0,0 +1,249 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  Box,
+  Typography,
+  Stack,
+  Paper,
+  Button,
+  Alert,
+  Chip,
+  Grid,
+  Select,
+  MenuItem,
+  IconButton,
+  FormControlLabel,
+  Checkbox,
+  CircularProgress,
+} from '@mui/material';
+import {
+  Star as PrimeIcon,
+  StarBorder as MakePrimeIcon,
+} from '@mui/icons-material';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { getDuplicateGroups, resolveDuplicateGroup, getThumbnailUrl } from '../api/client';
+import { useAuth } from '../auth';
+import type { DuplicateGroup } from '../types/api';
+
+type ImageAction = 'keep' | 'delete' | 'not_duplicate';
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// One duplicate group, side by side, with a decision per image
+function DuplicateGroupCard({ group, onResolved }: { group: DuplicateGroup; onResolved: () => void }) {
+  const [primeId, setPrimeId] = useState(group.prime_id);
+  const [actions, setActions] = useState<Record<number, ImageAction>>({});
+  const [mergeTags, setMergeTags] = useState(true);
+  const [deleteFiles, setDeleteFiles] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Tags on every image are shown once; the rest are listed under the images that have them
+  const sharedTags = group.images[0].tags.filter(tag => group.images.every(img => img.tags.includes(tag)));
+  const sharedSet = new Set(sharedTags);
+
+  const actionFor = (id: number): ImageAction => (id === primeId ? 'keep' : actions[id] || 'keep');
+  const idsWith = (action: ImageAction) => group.images.map(img => img.id).filter(id => actionFor(id) === action);
+  const deleteIds = idsWith('delete');
+
+  const apply = async () => {
+    setError(null);
+    setIsSaving(true);
+    try {
+      await resolveDuplicateGroup(group.prime_id, {
+        prime_id: primeId,
+        not_duplicates: idsWith('not_duplicate'),
+        merge_tags: mergeTags,
+        delete_ids: deleteIds,
+        delete_files: deleteFiles,
+      });
+      onResolved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resolve duplicates');
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Paper sx={{ p: 2 }}>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Grid container spacing={2}>
+        {group.images.map(img => {
+          const isPrime = img.id === primeId;
+          const uniqueTags = img.tags.filter(tag => !sharedSet.has(tag));
+
+          return (
+            <Grid key={img.id} size={{ xs: 12, sm: 6, md: 4, lg: 3 }}>
+              <Box
+                sx={{
+                  border: 2,
+                  borderColor: isPrime ? 'warning.main' : 'divider',
+                  borderRadius: 1,
+                  opacity: actionFor(img.id) === 'delete' ? 0.5 : 1,
+                  overflow: 'hidden',
+                }}
+              >
+                <Box component={Link} to={`/image/${img.id}`} sx={{ display: 'block' }}>
+                  <Box
+                    component="img"
+                    src={getThumbnailUrl(img.id)}
+                    alt={`#${img.id}`}
+                    loading="lazy"
+                    sx={{ width: '100%', height: 200, objectFit: 'contain', display: 'block', bgcolor: 'action.hover' }}
+                  />
+                </Box>
+                <Stack spacing={1} sx={{ p: 1 }}>
+                  <Stack direction="row" alignItems="center" justifyContent="space-between">
+                    <Typography variant="subtitle2">#{img.id}</Typography>
+                    <IconButton
+                      size="small"
+                      onClick={() => setPrimeId(img.id)}
+                      disabled={actionFor(img.id) === 'not_duplicate'}
+                      title={isPrime ? 'Best version' : 'Make this the best version'}
+                    >
+                      {isPrime ? <PrimeIcon fontSize="small" color="warning" /> : <MakePrimeIcon fontSize="small" />}
+                    </IconButton>
+                  </Stack>
+                  <Typography variant="body2">
+                    {img.width} × {img.height} · {formatFileSize(img.file_size)} · {img.file_type.toUpperCase()}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                    {img.file_path}
+                  </Typography>
+                  <Select
+                    size="small"
+                    value={actionFor(img.id)}
+                    onChange={(e) => setActions({ ...actions, [img.id]: e.target.value as ImageAction })}
+                    disabled={isPrime}
+                  >
+                    <MenuItem value="keep">Keep</MenuItem>
+                    <MenuItem value="delete">Delete</MenuItem>
+                    <MenuItem value="not_duplicate">Not a duplicate</MenuItem>
+                  </Select>
+                  {uniqueTags.length > 0 && (
+                    <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap>
+                      {uniqueTags.map(tag => (
+                        <Chip key={tag} label={tag.replace(/_/g, ' ')} size="small" variant="outlined" color="info" />
+                      ))}
+                    </Stack>
+                  )}
+                </Stack>
+              </Box>
+            </Grid>
+          );
+        })}
+      </Grid>
+
+      {sharedTags.length > 0 && (
+        <Typography variant="caption" color="text.secondary" component="div" sx={{ mt: 1 }}>
+          Shared tags: {sharedTags.map(tag => tag.replace(/_/g, ' ')).join(', ')}
+        </Typography>
+      )}
+
+      <Stack direction={{ xs: 'column', sm: 'row' }} alignItems={{ sm: 'center' }} spacing={1} sx={{ mt: 2 }}>
+        <FormControlLabel
+          control={<Checkbox checked={mergeTags} onChange={(e) => setMergeTags(e.target.checked)} />}
+          label="Merge tags into the best version"
+        />
+        <FormControlLabel
+          control={<Checkbox checked={deleteFiles} onChange={(e) => setDeleteFiles(e.target.checked)} disabled={deleteIds.length === 0} />}
+          label="Delete files from disk"
+        />
+        <Box sx={{ flexGrow: 1 }} />
+        <Button variant="contained" onClick={apply} disabled={isSaving}>
+          {deleteIds.length > 0 ? `Apply and delete ${deleteIds.length}` : 'Apply'}
+        </Button>
+      </Stack>
+    </Paper>
+  );
+}
+
+// Queue of duplicate groups waiting for review
+export default function DuplicatesPage() {
+  const queryClient = useQueryClient();
+  const { user, hasRole, showLogin } = useAuth();
+  const canReview = hasRole('editor');
+  const [page, setPage] = useState(1);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['duplicateGroups', page],
+    queryFn: () => getDuplicateGroups(page),
+    enabled: canReview,
+  });
+
+  const handleResolved = () => {
+    queryClient.invalidateQueries({ queryKey: ['duplicateGroups'] });
+    queryClient.invalidateQueries({ queryKey: ['search'] });
+    queryClient.invalidateQueries({ queryKey: ['image'] });
+    queryClient.invalidateQueries({ queryKey: ['stats'] });
+  };
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Stack direction="row" alignItems="center" justifyContent="space-between" spacing={2} sx={{ mb: 2 }}>
+        <Typography variant="h4">Duplicate Review</Typography>
+        {data && (
+          <Typography color="text.secondary">
+            {data.total.toLocaleString()} group{data.total === 1 ? '' : 's'} to review
+          </Typography>
+        )}
+      </Stack>
+
+      {!canReview ? (
+        <Alert
+          severity="info"
+          action={!user && (
+            <Button color="inherit" size="small" onClick={() => showLogin()}>
+              Log In
+            </Button>
+          )}
+        >
+          Reviewing duplicates requires an editor account.
+        </Alert>
+      ) : isLoading ? (
+        <Box sx={{ p: 4, textAlign: 'center' }}>
+          <CircularProgress />
+        </Box>
+      ) : error ? (
+        <Alert severity="error">{error instanceof Error ? error.message : 'Failed to load duplicates'}</Alert>
+      ) : data && data.groups.length > 0 ? (
+        <>
+          <Stack spacing={2}>
+            {data.groups.map(group => (
+              <DuplicateGroupCard key={group.prime_id} group={group} onResolved={handleResolved} />
+            ))}
+          </Stack>
+
+          {data.total_pages > 1 && (
+            <Stack direction="row" justifyContent="center" alignItems="center" spacing={2} sx={{ mt: 3 }}>
+              <Button onClick={() => setPage(page - 1)} disabled={page <= 1}>
+                Previous
+              </Button>
+              <Typography variant="body2">
+                Page {page} of {data.total_pages}
+              </Typography>
+              <Button onClick={() => setPage(page + 1)} disabled={page >= data.total_pages}>
+                Next
+              </Button>
+            </Stack>
+          )}
+        </>
+      ) : (
+        <Paper sx={{ p: 4, textAlign: 'center' }}>
+          <Typography color="text.secondary">
+            No duplicates waiting for review.
+          </Typography>
+        </Paper>
+      )}
+    </Box>
+  );
+}
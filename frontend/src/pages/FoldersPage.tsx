@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  Box,
+  Typography,
+  Paper,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  IconButton,
+  Collapse,
+  Skeleton,
+} from '@mui/material';
+import {
+  Folder as FolderIcon,
+  FolderOpen as FolderOpenIcon,
+  ExpandMore as ExpandMoreIcon,
+  ChevronRight as ChevronRightIcon,
+  PhotoLibrary as DirectOnlyIcon,
+} from '@mui/icons-material';
+import { useQuery } from '@tanstack/react-query';
+import { getDirectories } from '../api/client';
+import type { DirectoryNode } from '../types/api';
+
+// Search for a directory's images, quoting paths the search box would otherwise split
+function getSearchLink(metatag: 'path' | 'folder', directory: string): string {
+  const value = /[\s{}]/.test(directory) ? `"${directory}"` : directory;
+  return `/search?q=${encodeURIComponent(`${metatag}:${value}`)}`;
+}
+
+function formatImageCount(count: number): string {
+  return `${count.toLocaleString()} ${count === 1 ? 'image' : 'images'}`;
+}
+
+function DirectoryItem({ node, depth, toggled, onToggle }: {
+  node: DirectoryNode;
+  depth: number;
+  toggled: Set<string>;
+  onToggle: (path: string) => void;
+}) {
+  // Folders start expanded, the directories in them collapsed
+  const isExpanded = depth === 0 ? !toggled.has(node.path) : toggled.has(node.path);
+  const hasChildren = node.children.length > 0;
+
+  return (
+    <>
+      <ListItem
+        disablePadding
+        secondaryAction={hasChildren && node.count > 0 && (
+          <IconButton
+            component={Link}
+            to={getSearchLink('path', node.path)}
+            title={`Only the ${formatImageCount(node.count)} directly in this folder`}
+            size="small"
+          >
+            <DirectOnlyIcon fontSize="small" />
+          </IconButton>
+        )}
+      >
+        <ListItemButton component={Link} to={getSearchLink('folder', node.path)} sx={{ pl: 1 + depth * 3 }}>
+          <IconButton
+            size="small"
+            onClick={(e) => {
+              e.preventDefault();
+              e.stopPropagation();
+              onToggle(node.path);
+            }}
+            sx={{ visibility: hasChildren ? 'visible' : 'hidden', mr: 0.5 }}
+            title={isExpanded ? 'Collapse' : 'Expand'}
+          >
+            {isExpanded ? <ExpandMoreIcon fontSize="small" /> : <ChevronRightIcon fontSize="small" />}
+          </IconButton>
+          <ListItemIcon sx={{ minWidth: 36 }}>
+            {isExpanded && hasChildren ? <FolderOpenIcon /> : <FolderIcon />}
+          </ListItemIcon>
+          <ListItemText
+            primary={node.name}
+            secondary={formatImageCount(node.total)}
+            primaryTypographyProps={{ sx: { wordBreak: 'break-all', fontFamily: depth === 0 ? 'monospace' : undefined } }}
+          />
+        </ListItemButton>
+      </ListItem>
+      {hasChildren && (
+        <Collapse in={isExpanded} unmountOnExit>
+          <List disablePadding dense>
+            {node.children.map(child => (
+              <DirectoryItem key={child.path} node={child} depth={depth + 1} toggled={toggled} onToggle={onToggle} />
+            ))}
+          </List>
+        </Collapse>
+      )}
+    </>
+  );
+}
+
+// Browse the directories under each folder and open the gallery on one of them
+export default function FoldersPage() {
+  const [toggled, setToggled] = useState<Set<string>>(new Set());
+
+  const { data: directories, isLoading, error } = useQuery({
+    queryKey: ['directories'],
+    queryFn: getDirectories,
+  });
+
+  const toggle = (path: string) => {
+    setToggled(prev => {
+      const next = new Set(prev);
+      if (!next.delete(path)) next.add(path);
+      return next;
+    });
+  };
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Typography variant="h4" sx={{ mb: 2 }}>Folders</Typography>
+
+      {isLoading ? (
+        <Paper>
+          {[...Array(5)].map((_, i) => (
+            <Skeleton key={i} variant="text" height={48} sx={{ mx: 2 }} />
+          ))}
+        </Paper>
+      ) : error ? (
+        <Typography color="error">Failed to load folders</Typography>
+      ) : !directories || directories.length === 0 ? (
+        <Box sx={{ p: 4, textAlign: 'center' }}>
+          <FolderIcon sx={{ fontSize: 48, color: 'text.secondary', mb: 1 }} />
+          <Typography color="text.secondary">No folders with images yet</Typography>
+        </Box>
+      ) : (
+        <Paper>
+          <List dense>
+            {directories.map(node => (
+              <DirectoryItem key={node.path} node={node} depth={0} toggled={toggled} onToggle={toggle} />
+            ))}
+          </List>
+        </Paper>
+      )}
+    </Box>
+  );
+}
@@ -166,6 +166,22 @@ export default function HelpPage() {
 
         <Divider sx={{ my: 2 }} />
 
+        {/* Path / Folder */}
+        <Typography variant="h6" gutterBottom>
+          path: / folder:
+        </Typography>
+        <Typography variant="body2" paragraph>
+          Filter by directory. <CodeExample>path:</CodeExample> matches images directly in a directory, <CodeExample>folder:</CodeExample> also includes
+          its subdirectories (as does ending a path with <CodeExample>/**</CodeExample>). Absolute paths start at the filesystem root, other
+          values match a directory of that name anywhere. Supports wildcards (*) within a directory name; quote paths with spaces.
+          The Folders page in the header browses the directory tree and opens these searches.
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          Examples: <CodeExample>path:/mnt/pics/2024</CodeExample> (only that directory), <CodeExample>folder:/mnt/pics</CodeExample> (and everything below it), <CodeExample>path:/mnt/pics/**</CodeExample> (same as folder:), <CodeExample>folder:screenshots</CodeExample> (any directory named "screenshots"), <CodeExample>{'path:"/mnt/my pics"'}</CodeExample>
+        </Typography>
+
+        <Divider sx={{ my: 2 }} />
+
         {/* Date */}
         <Typography variant="h6" gutterBottom>
           date:
@@ -250,6 +266,86 @@ export default function HelpPage() {
         <Typography variant="body2" color="text.secondary">
           Examples: <CodeExample>tags:0</CodeExample> (untagged), <CodeExample>tags:&gt;10</CodeExample> (more than 10 tags), <CodeExample>tags:&lt;3</CodeExample> (needs tagging)
         </Typography>
+
+        <Divider sx={{ my: 2 }} />
+
+        {/* Fav */}
+        <Typography variant="h6" gutterBottom>
+          fav:
+        </Typography>
+        <Typography variant="body2" paragraph>
+          Filter by a user's favorites. Click the heart on an image to add it to your favorites (you need to be logged in).
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          Examples: <CodeExample>fav:alice</CodeExample>, <CodeExample>fav:*</CodeExample> (favorited by anyone), <CodeExample>cat -fav:alice</CodeExample>
+        </Typography>
+
+        <Divider sx={{ my: 2 }} />
+
+        {/* Similar */}
+        <Typography variant="h6" gutterBottom>
+          similar:
+        </Typography>
+        <Typography variant="body2" paragraph>
+          Find images that look like the image with the given ID, such as resized, cropped or recompressed copies.
+          Add a second number to set how different they may be (0 to 24, default 10). Needs duplicate scanning to be enabled.
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          Examples: <CodeExample>similar:123</CodeExample>, <CodeExample>similar:123:4</CodeExample> (only very close matches), <CodeExample>similar:123 -duplicate_image</CodeExample>
+        </Typography>
+
+        <Divider sx={{ my: 2 }} />
+
+        {/* Video */}
+        <Typography variant="h6" gutterBottom>
+          duration: fps: audio:
+        </Typography>
+        <Typography variant="body2" paragraph>
+          Filter videos and animated GIFs by length in seconds (or minutes:seconds), by frame rate, or by whether they have sound.
+          Supports comparison operators (&gt;, &lt;, &gt;=, &lt;=). Images never match these.
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          Examples: <CodeExample>duration:&gt;30</CodeExample>, <CodeExample>duration:&lt;=1:30</CodeExample>, <CodeExample>fps:60</CodeExample>, <CodeExample>audio:yes</CodeExample>, <CodeExample>audio:no sort:duration</CodeExample>
+        </Typography>
+
+        <Divider sx={{ my: 2 }} />
+
+        {/* Pool */}
+        <Typography variant="h6" gutterBottom>
+          pool:
+        </Typography>
+        <Typography variant="body2" paragraph>
+          Filter by pool, using the pool's ID or name. Supports wildcards (*) and NOT/OR operators.
+          Combine with <CodeExample>sort:pool</CodeExample> to get the images in pool order.
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          Examples: <CodeExample>pool:12</CodeExample>, <CodeExample>pool:my_comic sort:pool</CodeExample>, <CodeExample>pool:*</CodeExample> (in any pool), <CodeExample>-pool:*</CodeExample> (not in a pool)
+        </Typography>
+
+        <Divider sx={{ my: 2 }} />
+
+        {/* Tag categories */}
+        <Typography variant="h6" gutterBottom>
+          Tag categories
+        </Typography>
+        <Typography variant="body2" paragraph>
+          Tags belong to one of <CodeExample>artist</CodeExample>, <CodeExample>character</CodeExample>, <CodeExample>copyright</CodeExample>, <CodeExample>general</CodeExample> or <CodeExample>meta</CodeExample>.
+          Use the category as a prefix to only match tags in that category. Supports wildcards (*) and NOT/OR operators.
+          When editing tags, the same prefix sets a tag's category. <CodeExample>artist:</CodeExample> also matches the artist field from file metadata.
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          Examples: <CodeExample>character:*</CodeExample> (has any character tag), <CodeExample>character:miku*</CodeExample> (wildcard), <CodeExample>-copyright:original</CodeExample> (exclude)
+        </Typography>
+
+        {/* Aliases */}
+        <Typography variant="h6" gutterBottom sx={{ mt: 3 }}>
+          Aliases and implications
+        </Typography>
+        <Typography variant="body2" paragraph>
+          Aliases and implications are set up in the admin page. Searching for an alias finds images tagged with its target,
+          so if <CodeExample>kitty</CodeExample> is an alias of <CodeExample>cat</CodeExample>, both searches return the same images.
+          Implied tags are added to images automatically, so they can be searched like any other tag.
+        </Typography>
       </Paper>
 
       {/* Sorting */}
@@ -306,6 +402,16 @@ export default function HelpPage() {
                 <TableCell>Filename (alphabetical)</TableCell>
                 <TableCell><CodeExample>sort:file</CodeExample></TableCell>
               </TableRow>
+              <TableRow>
+                <TableCell>duration</TableCell>
+                <TableCell>Video length</TableCell>
+                <TableCell><CodeExample>sort:duration_desc</CodeExample></TableCell>
+              </TableRow>
+              <TableRow>
+                <TableCell>pool</TableCell>
+                <TableCell>Position in the searched pool (ascending by default)</TableCell>
+                <TableCell><CodeExample>pool:my_comic sort:pool</CodeExample></TableCell>
+              </TableRow>
               <TableRow>
                 <TableCell>random</TableCell>
                 <TableCell>Random order</TableCell>
@@ -1,14 +1,18 @@
-import { useState, useMemo, useCallback, useEffect } from 'react';
+import { useState, useMemo, useCallback, useEffect, useRef } from 'react';
 import { useSearchParams } from 'react-router-dom';
-import { Box, Typography, Stack, Chip } from '@mui/material';
+import { Box, Typography, Stack, Chip, Button } from '@mui/material';
+import { LibraryAddCheck as SelectIcon, CloudUpload as UploadIcon, Link as LinkIcon } from '@mui/icons-material';
 import { useQuery } from '@tanstack/react-query';
 import SearchBar from '../components/Search/SearchBar';
 import MasonryGallery from '../components/Gallery/MasonryGallery';
+import BulkEditToolbar from '../components/Gallery/BulkEditToolbar';
+import UploadDialog from '../components/Gallery/UploadDialog';
 import { useSearch } from '../hooks/useSearch';
 import { useScrollRestore } from '../hooks/useScrollRestore';
 import { useGalleryNavigation } from '../hooks/useGalleryNavigation';
-import { getStats } from '../api/client';
+import { getStats, getUploadStatus } from '../api/client';
 import { usePlugins, PluginButton } from '../plugins';
+import { useAuth } from '../auth';
 
 export default function HomePage() {
   const [searchParams, setSearchParams] = useSearchParams();
@@ -29,6 +33,57 @@ export default function HomePage() {
 
   const { getButtonsForLocation } = usePlugins();
 
+  // Editors can drop files or links anywhere on the page (or pick them) to upload into the inbox folder
+  const { hasRole } = useAuth();
+  const canEdit = hasRole('editor');
+  const { data: uploadStatus } = useQuery({
+    queryKey: ['uploadStatus'],
+    queryFn: getUploadStatus,
+    enabled: canEdit,
+  });
+  const uploadsEnabled = canEdit && !!uploadStatus?.enabled;
+  const [pendingUploads, setPendingUploads] = useState<File[] | null>(null);
+  const [pendingUrl, setPendingUrl] = useState<string | null>(null);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  // Thumbnails dragged around this page are links too, but aren't uploads
+  const isInternalDrag = useRef(false);
+
+  const pickFiles = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.multiple = true;
+    input.onchange = () => {
+      if (input.files && input.files.length > 0) setPendingUploads(Array.from(input.files));
+    };
+    input.click();
+  };
+
+  // Multi-select mode for bulk editing
+  const [selectMode, setSelectMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+
+  // Selection doesn't carry over to a different search
+  useEffect(() => {
+    setSelectedIds(new Set());
+  }, [query, sort]);
+
+  const handleToggleSelect = useCallback((id: number) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  }, []);
+
+  const handleCloseSelectMode = useCallback(() => {
+    setSelectMode(false);
+    setSelectedIds(new Set());
+  }, []);
+
   const {
     data,
     isLoading,
@@ -139,7 +194,72 @@ export default function HomePage() {
   const queryTokens = parseQueryTokens(query);
 
   return (
-    <Box sx={{ minHeight: '100%' }}>
+    <Box
+      sx={{ minHeight: '100%', position: 'relative' }}
+      onDragStart={() => { isInternalDrag.current = true; }}
+      onDragEnd={() => { isInternalDrag.current = false; }}
+      onDragOver={(e) => {
+        if (!uploadsEnabled || isInternalDrag.current) return;
+        if (!e.dataTransfer.types.includes('Files') && !e.dataTransfer.types.includes('text/uri-list')) return;
+        e.preventDefault();
+        setIsDraggingFiles(true);
+      }}
+      onDragLeave={(e) => {
+        // Moving between child elements also fires dragleave
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingFiles(false);
+      }}
+      onDrop={(e) => {
+        if (!uploadsEnabled || isInternalDrag.current) return;
+        e.preventDefault();
+        setIsDraggingFiles(false);
+        if (e.dataTransfer.files.length > 0) {
+          setPendingUploads(Array.from(e.dataTransfer.files));
+        } else {
+          // Images and links dragged from another tab, one URL per line with # comments
+          const url = e.dataTransfer.getData('text/uri-list').split(/\r?\n/).find(line => line && !line.startsWith('#'));
+          if (url) setPendingUrl(url);
+        }
+      }}
+    >
+      {isDraggingFiles && (
+        <Box
+          sx={{
+            position: 'fixed',
+            inset: 16,
+            zIndex: 'modal',
+            border: 3,
+            borderStyle: 'dashed',
+            borderColor: 'primary.main',
+            borderRadius: 2,
+            bgcolor: 'rgba(0, 0, 0, 0.6)',
+            display: 'flex',
+            flexDirection: 'column',
+            alignItems: 'center',
+            justifyContent: 'center',
+            pointerEvents: 'none',
+          }}
+        >
+          <UploadIcon sx={{ fontSize: 64, color: 'primary.main' }} />
+          <Typography variant="h6">Drop files or links to upload</Typography>
+        </Box>
+      )}
+
+      {pendingUploads && uploadStatus && (
+        <UploadDialog
+          files={pendingUploads}
+          maxSizeMb={uploadStatus.max_size_mb}
+          onClose={() => setPendingUploads(null)}
+        />
+      )}
+      {pendingUrl !== null && uploadStatus && (
+        <UploadDialog
+          files={[]}
+          url={pendingUrl}
+          maxSizeMb={uploadStatus.max_size_mb}
+          onClose={() => setPendingUrl(null)}
+        />
+      )}
+
       {/* Hero section with search */}
       <Box
         sx={{
@@ -261,16 +381,55 @@ export default function HomePage() {
             <Box /> /* Empty spacer while loading */
           )}
 
-          {/* Gallery toolbar - plugin buttons (right-aligned) */}
-          {getButtonsForLocation('gallery-toolbar').length > 0 && (
-            <Stack direction="row" spacing={1} flexWrap="wrap" justifyContent="flex-end">
-              {getButtonsForLocation('gallery-toolbar').map((btn) => (
-                <PluginButton key={`${btn.pluginId}-${btn.id}`} button={btn} variant="outlined" />
-              ))}
-            </Stack>
-          )}
+          {/* Gallery toolbar - select mode toggle and plugin buttons (right-aligned) */}
+          <Stack direction="row" spacing={1} flexWrap="wrap" justifyContent="flex-end">
+            {uploadsEnabled && !selectMode && (
+              <Button
+                variant="outlined"
+                size="small"
+                startIcon={<UploadIcon />}
+                onClick={pickFiles}
+              >
+                Upload
+              </Button>
+            )}
+            {uploadsEnabled && !selectMode && (
+              <Button
+                variant="outlined"
+                size="small"
+                startIcon={<LinkIcon />}
+                onClick={() => setPendingUrl('')}
+              >
+                From URL
+              </Button>
+            )}
+            {!selectMode && images.length > 0 && (
+              <Button
+                variant="outlined"
+                size="small"
+                startIcon={<SelectIcon />}
+                onClick={() => setSelectMode(true)}
+              >
+                Select
+              </Button>
+            )}
+            {getButtonsForLocation('gallery-toolbar').map((btn) => (
+              <PluginButton key={`${btn.pluginId}-${btn.id}`} button={btn} variant="outlined" />
+            ))}
+          </Stack>
         </Stack>
 
+        {selectMode && (
+          <BulkEditToolbar
+            selectedIds={[...selectedIds]}
+            query={query}
+            totalCount={totalCount}
+            onSelectAll={() => setSelectedIds(new Set(images.map(img => img.id)))}
+            onClearSelection={() => setSelectedIds(new Set())}
+            onClose={handleCloseSelectMode}
+          />
+        )}
+
         <MasonryGallery
           images={images}
           hasMore={!!hasNextPage}
@@ -278,6 +437,9 @@ export default function HomePage() {
           isFetchingMore={isFetchingNextPage}
           onLoadMore={handleLoadMore}
           onNavigate={handleNavigate}
+          selectable={selectMode}
+          selectedIds={selectedIds}
+          onToggleSelect={handleToggleSelect}
         />
       </Box>
     </Box>
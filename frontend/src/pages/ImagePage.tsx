@@ -38,19 +38,23 @@ import {
   Stop as StopIcon,
   Slideshow as SlideshowIcon,
 } from '@mui/icons-material';
-import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useQueryClient } from '@tanstack/react-query';
 import { useImage } from '../hooks/useImage';
 import { useGalleryNavigation } from '../hooks/useGalleryNavigation';
 import {
   getImageFileUrl,
+  getHlsUrl,
   searchImages,
   updateImage,
   deleteImageById,
-  getEditPassword,
-  setEditPassword,
-  getStats,
 } from '../api/client';
 import { usePlugins, PluginButton } from '../plugins';
+import ImagePools from '../components/Image/ImagePools';
+import ImageHistory from '../components/Image/ImageHistory';
+import SimilarImages from '../components/Image/SimilarImages';
+import FavoriteButton from '../components/Image/FavoriteButton';
+import { useAuth } from '../auth';
+import type { Image, TagCategory } from '../types/api';
 
 function formatRating(rating: number | null | undefined): string {
   switch (rating) {
@@ -61,6 +65,26 @@ function formatRating(rating: number | null | undefined): string {
   }
 }
 
+// Big or high-bitrate videos (and ones browsers can't open directly) play from the segmented HLS
+// stream where the browser supports it, mostly phones. Others fall back to the original file.
+const HLS_MIN_FILE_SIZE = 200 * 1024 * 1024;
+const HLS_MIN_BITRATE = 15_000_000; // Bits per second
+
+function prefersHls(image: Image): boolean {
+  if (['mkv', 'mov'].includes(image.file_type)) return true;
+  if (image.file_size >= HLS_MIN_FILE_SIZE) return true;
+  return !!image.duration && (image.file_size * 8) / image.duration >= HLS_MIN_BITRATE;
+}
+
+// Display order and headings for tag category groups
+const TAG_CATEGORY_GROUPS: { category: TagCategory; label: string }[] = [
+  { category: 'artist', label: 'Artist' },
+  { category: 'copyright', label: 'Copyright' },
+  { category: 'character', label: 'Character' },
+  { category: 'general', label: 'General' },
+  { category: 'meta', label: 'Meta' },
+];
+
 // Matches URLs with or without protocol (e.g., example.com/path, https://example.com)
 const URL_REGEX = /[-a-zA-Z0-9@:%._+~#=]{1,256}\.(?=\D)[a-zA-Z0-9()]{2,6}\b([-a-zA-Z0-9()@:%_+.~#?&\/=]*)/;
 
@@ -103,14 +127,7 @@ export default function ImagePage() {
   const { data: image, isLoading, error } = useImage(imageId);
   const { getAdjacentImages, getNavigationContext, appendToNavigationContext, removeFromNavigationContext } = useGalleryNavigation();
   const { getButtonsForLocation, setTagEditorCallback, setCurrentImage } = usePlugins();
-
-  // Fetch config to check if password is required
-  const { data: stats } = useQuery({
-    queryKey: ['stats'],
-    queryFn: getStats,
-    staleTime: 60 * 60 * 1000, // Cache for 1 hour
-  });
-  const requirePassword = stats?.require_edit_password !== false;
+  const { ensureRole, hasRole } = useAuth();
 
   // Get prev/next images from navigation context
   const { prev, next, canLoadMore } = imageId
@@ -126,12 +143,6 @@ export default function ImagePage() {
   const [isSaving, setIsSaving] = useState(false);
   const [editError, setEditError] = useState<string | null>(null);
 
-  // Password dialog state
-  const [showPasswordDialog, setShowPasswordDialog] = useState(false);
-  const [passwordInput, setPasswordInput] = useState('');
-  const [passwordError, setPasswordError] = useState<string | null>(null);
-  const [pendingAction, setPendingAction] = useState<'save' | 'delete' | null>(null);
-
   // Delete dialog state
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [deleteFile, setDeleteFile] = useState(true);
@@ -264,28 +275,7 @@ export default function ImagePage() {
     navigate('/');
   }, [navigate]);
 
-  // Handle password submission - then retry the pending action
-  const handlePasswordSubmit = useCallback(() => {
-    if (!passwordInput.trim()) {
-      setPasswordError('Password is required');
-      return;
-    }
-    setEditPassword(passwordInput.trim());
-    setPasswordError(null);
-    setShowPasswordDialog(false);
-    setPasswordInput('');
-
-    // Retry the pending action
-    if (pendingAction === 'save') {
-      // Will be called after state updates
-      setTimeout(() => saveEdits(), 0);
-    } else if (pendingAction === 'delete') {
-      setTimeout(() => confirmDelete(), 0);
-    }
-    setPendingAction(null);
-  }, [passwordInput, pendingAction]);
-
-  // Start editing tags and rating - no password required yet
+  // Start editing tags and rating - no login required yet
   const startEditing = useCallback(() => {
     if (!image) return;
     setEditedTags(image.tags.join(' '));
@@ -302,16 +292,11 @@ export default function ImagePage() {
     setEditError(null);
   }, []);
 
-  // Save edited tags and rating - prompts for password if needed
+  // Save edited tags and rating - prompts for login if needed
   const saveEdits = useCallback(async () => {
     if (!imageId || !image) return;
 
-    // Check if we have a password, prompt if not (skip if password not required)
-    if (requirePassword && !getEditPassword()) {
-      setPendingAction('save');
-      setShowPasswordDialog(true);
-      return;
-    }
+    if (!(await ensureRole('editor'))) return;
 
     // Split by whitespace, filter empty, sanitize
     const newTags = editedTags
@@ -344,42 +329,30 @@ export default function ImagePage() {
 
       // Invalidate cache to refetch
       queryClient.invalidateQueries({ queryKey: ['image', imageId] });
+      queryClient.invalidateQueries({ queryKey: ['imageHistory', imageId] });
       queryClient.invalidateQueries({ queryKey: ['search'] });
 
       setIsEditing(false);
       setEditedTags('');
       setEditedRating(null);
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'Failed to save';
-      // If password was wrong, prompt for new password
-      if (message === 'Invalid password') {
-        setPendingAction('save');
-        setShowPasswordDialog(true);
-        setPasswordError('Incorrect password');
-      } else {
-        setEditError(message);
-      }
+      setEditError(err instanceof Error ? err.message : 'Failed to save');
     } finally {
       setIsSaving(false);
     }
-  }, [imageId, image, editedTags, editedRating, queryClient, requirePassword]);
+  }, [imageId, image, editedTags, editedRating, queryClient, ensureRole]);
 
-  // Start delete flow - no password required yet
+  // Start delete flow - no login required yet
   const startDelete = useCallback(() => {
     setDeleteError(null);
     setShowDeleteDialog(true);
   }, []);
 
-  // Confirm delete - prompts for password if needed
+  // Confirm delete - prompts for login if needed
   const confirmDelete = useCallback(async () => {
     if (!imageId) return;
 
-    // Check if we have a password, prompt if not (skip if password not required)
-    if (requirePassword && !getEditPassword()) {
-      setPendingAction('delete');
-      setShowPasswordDialog(true);
-      return;
-    }
+    if (!(await ensureRole('editor'))) return;
 
     setIsDeleting(true);
     setDeleteError(null);
@@ -412,19 +385,11 @@ export default function ImagePage() {
         goBack();
       }
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'Failed to delete image';
-      // If password was wrong, prompt for new password
-      if (message === 'Invalid password') {
-        setPendingAction('delete');
-        setShowPasswordDialog(true);
-        setPasswordError('Incorrect password');
-      } else {
-        setDeleteError(message);
-      }
+      setDeleteError(err instanceof Error ? err.message : 'Failed to delete image');
     } finally {
       setIsDeleting(false);
     }
-  }, [imageId, deleteFile, queryClient, next, prev, navigate, goBack, requirePassword, removeFromNavigationContext]);
+  }, [imageId, deleteFile, queryClient, next, prev, navigate, goBack, ensureRole, removeFromNavigationContext]);
 
   // Slideshow auto-advance (only after image loads)
   useEffect(() => {
@@ -489,6 +454,12 @@ export default function ImagePage() {
     return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
   };
 
+  const formatDuration = (seconds: number) => {
+    const minutes = Math.floor(seconds / 60);
+    const secs = Math.floor(seconds % 60);
+    return `${minutes}:${String(secs).padStart(2, '0')}`;
+  };
+
   const formatDate = (dateStr: string) => {
     return new Date(dateStr).toLocaleDateString(undefined, {
       year: 'numeric',
@@ -604,6 +575,13 @@ export default function ImagePage() {
                 <SlideshowIcon />
               </IconButton>
             )}
+            {image && (
+              <FavoriteButton
+                imageId={image.id}
+                isFavorite={!!image.is_favorite}
+                sx={{ color: 'imageViewer.controls' }}
+              />
+            )}
             <IconButton
               component="a"
               href={fileUrl}
@@ -642,9 +620,9 @@ export default function ImagePage() {
               height="60%"
               sx={{ bgcolor: 'grey.900' }}
             />
-          ) : image && ['mp4', 'webm', 'mkv'].includes(image.file_type) ? (
+          ) : image && ['mp4', 'webm', 'mkv', 'mov'].includes(image.file_type) ? (
             <video
-              src={fileUrl}
+              key={image.id} // Sources are only picked when the element loads
               controls
               autoPlay
               loop
@@ -654,7 +632,10 @@ export default function ImagePage() {
                 maxHeight: '100%',
                 objectFit: 'contain',
               }}
-            />
+            >
+              {prefersHls(image) && <source src={getHlsUrl(image.id)} type="application/vnd.apple.mpegurl" />}
+              <source src={fileUrl} />
+            </video>
           ) : (
             <img
               src={fileUrl}
@@ -718,7 +699,7 @@ export default function ImagePage() {
                     onChange={(e) => setEditedTags(e.target.value)}
                     placeholder="Tags separated by spaces"
                     disabled={isSaving}
-                    helperText="Use underscores for multi-word tags (e.g., brown_hair)"
+                    helperText="Use underscores for multi-word tags (e.g., brown_hair). Prefix with artist:, character:, copyright: or meta: to set a category"
                   />
                   <Stack direction="row" spacing={1} alignItems="center">
                     <Typography variant="body2" color="text.secondary">
@@ -764,18 +745,36 @@ export default function ImagePage() {
                   </Stack>
                 </Stack>
               ) : image.tags.length > 0 ? (
-                <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap sx={{ mt: 1 }}>
-                  {image.tags.map((tag) => (
-                    <Chip
-                      key={tag}
-                      label={tag}
-                      size="small"
-                      component={Link}
-                      to={`/search?q=${encodeURIComponent(tag)}`}
-                      clickable
-                      sx={{ mb: 0.5 }}
-                    />
-                  ))}
+                <Stack spacing={1} sx={{ mt: 1 }}>
+                  {TAG_CATEGORY_GROUPS.map(({ category, label }) => {
+                    const groupTags = image.tags.filter(
+                      (tag) => (image.tag_categories?.[tag] ?? 'general') === category
+                    );
+                    if (groupTags.length === 0) return null;
+                    return (
+                      <Box key={category}>
+                        {/* Only label groups when the image has categorized tags */}
+                        {groupTags.length !== image.tags.length && (
+                          <Typography variant="caption" sx={{ color: `tagCategory.${category}` }}>
+                            {label}
+                          </Typography>
+                        )}
+                        <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap>
+                          {groupTags.map((tag) => (
+                            <Chip
+                              key={tag}
+                              label={tag}
+                              size="small"
+                              component={Link}
+                              to={`/search?q=${encodeURIComponent(tag)}`}
+                              clickable
+                              sx={{ mb: 0.5, color: `tagCategory.${category}` }}
+                            />
+                          ))}
+                        </Stack>
+                      </Box>
+                    );
+                  })}
                 </Stack>
               ) : (
                 <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
@@ -789,9 +788,16 @@ export default function ImagePage() {
               <>
                 <Divider />
                 <Box>
-                  <Typography variant="overline" color="text.secondary">
-                    Duplicates
-                  </Typography>
+                  <Stack direction="row" alignItems="center" justifyContent="space-between">
+                    <Typography variant="overline" color="text.secondary">
+                      Duplicates
+                    </Typography>
+                    {hasRole('editor') && (
+                      <Typography variant="caption">
+                        <Link to="/duplicates">Review</Link>
+                      </Typography>
+                    )}
+                  </Stack>
                   <Stack spacing={1} sx={{ mt: 1 }}>
                     {image.duplicates.is_prime ? (
                       <Stack direction="row" alignItems="center" spacing={0.5}>
@@ -838,6 +844,19 @@ export default function ImagePage() {
               </>
             )}
 
+            {/* Near-duplicates and lookalikes */}
+            <SimilarImages imageId={image.id} />
+
+            <Divider />
+
+            {/* Pools */}
+            <ImagePools imageId={image.id} pools={image.pools || []} />
+
+            <Divider />
+
+            {/* Tag/rating history */}
+            <ImageHistory imageId={image.id} />
+
             <Divider />
 
             {/* Image info */}
@@ -854,7 +873,28 @@ export default function ImagePage() {
                 </Typography>
                 <Typography variant="body2">
                   <strong>Type:</strong> {image.file_type}
+                  {image.video_codec && ` (${image.video_codec})`}
                 </Typography>
+                {image.duration != null && (
+                  <Typography variant="body2">
+                    <strong>Duration:</strong> {formatDuration(image.duration)}
+                  </Typography>
+                )}
+                {image.fps != null && (
+                  <Typography variant="body2">
+                    <strong>Frame rate:</strong> {image.fps} fps
+                  </Typography>
+                )}
+                {image.has_audio != null && (
+                  <Typography variant="body2">
+                    <strong>Audio:</strong> {image.has_audio ? 'Yes' : 'No'}
+                  </Typography>
+                )}
+                {!!image.favorite_count && (
+                  <Typography variant="body2">
+                    <strong>Favorites:</strong> {image.favorite_count}
+                  </Typography>
+                )}
                 {image.artist && (
                   <Typography variant="body2">
                     <strong>Artist:</strong> {image.artist}
@@ -963,31 +1003,6 @@ export default function ImagePage() {
         </Box>
       )}
 
-      {/* Password Dialog */}
-      <Dialog open={showPasswordDialog} onClose={() => setShowPasswordDialog(false)}>
-        <DialogTitle>Enter Edit Password</DialogTitle>
-        <DialogContent>
-          <TextField
-            autoFocus
-            fullWidth
-            type="password"
-            label="Password"
-            value={passwordInput}
-            onChange={(e) => setPasswordInput(e.target.value)}
-            onKeyDown={(e) => e.key === 'Enter' && handlePasswordSubmit()}
-            error={!!passwordError}
-            helperText={passwordError}
-            sx={{ mt: 1 }}
-          />
-        </DialogContent>
-        <DialogActions>
-          <Button onClick={() => setShowPasswordDialog(false)}>Cancel</Button>
-          <Button onClick={handlePasswordSubmit} variant="contained">
-            Continue
-          </Button>
-        </DialogActions>
-      </Dialog>
-
       {/* Delete Confirmation Dialog */}
       <Dialog open={showDeleteDialog} onClose={() => !isDeleting && setShowDeleteDialog(false)}>
         <DialogTitle>Delete Image</DialogTitle>
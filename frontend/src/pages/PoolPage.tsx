@@ -0,0 +1,274 @@
+import { useState } from 'react';
+import { Link, useParams, useNavigate } from 'react-router-dom';
+import {
+  Box,
+  Typography,
+  Stack,
+  Paper,
+  TextField,
+  Button,
+  IconButton,
+  Alert,
+  Grid,
+  Skeleton,
+} from '@mui/material';
+import {
+  ArrowBack as BackIcon,
+  ChevronLeft as MoveLeftIcon,
+  ChevronRight as MoveRightIcon,
+  Close as RemoveIcon,
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  Save as SaveIcon,
+} from '@mui/icons-material';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useGalleryNavigation } from '../hooks/useGalleryNavigation';
+import {
+  getPool,
+  updatePool,
+  deletePool,
+  reorderPool,
+  removeImageFromPool,
+  getThumbnailUrl,
+} from '../api/client';
+import { useAuth } from '../auth';
+import type { PoolDetail } from '../types/api';
+
+export default function PoolPage() {
+  const { id } = useParams<{ id: string }>();
+  const poolId = id ? parseInt(id) : undefined;
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { saveNavigationContext } = useGalleryNavigation();
+
+  // Edit mode works on a local copy of the order until saved
+  const [isEditing, setIsEditing] = useState(false);
+  const [editedName, setEditedName] = useState('');
+  const [editedDescription, setEditedDescription] = useState('');
+  const [editedOrder, setEditedOrder] = useState<number[]>([]);
+  const [removedIds, setRemovedIds] = useState<number[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: pool, isLoading, error: loadError } = useQuery({
+    queryKey: ['pool', poolId],
+    queryFn: () => getPool(poolId!),
+    enabled: poolId !== undefined && !isNaN(poolId),
+  });
+
+  const { ensureRole } = useAuth();
+
+  const startEditing = (current: PoolDetail) => {
+    setEditedName(current.name);
+    setEditedDescription(current.description || '');
+    setEditedOrder(current.image_ids);
+    setRemovedIds([]);
+    setError(null);
+    setIsEditing(true);
+  };
+
+  const moveImage = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= editedOrder.length) return;
+    const order = [...editedOrder];
+    [order[index], order[target]] = [order[target], order[index]];
+    setEditedOrder(order);
+  };
+
+  const removeImage = (imageId: number) => {
+    setEditedOrder(editedOrder.filter(i => i !== imageId));
+    setRemovedIds([...removedIds, imageId]);
+  };
+
+  const saveEdits = async () => {
+    if (!pool || !(await ensureRole('editor'))) return;
+
+    setError(null);
+    setIsSaving(true);
+    try {
+      if (editedName.trim() !== pool.name || editedDescription.trim() !== (pool.description || '')) {
+        await updatePool(pool.id, { name: editedName.trim(), description: editedDescription.trim() || null });
+      }
+      for (const imageId of removedIds) {
+        await removeImageFromPool(pool.id, imageId);
+      }
+      if (editedOrder.length > 0) {
+        await reorderPool(pool.id, editedOrder);
+      }
+      queryClient.invalidateQueries({ queryKey: ['pool', pool.id] });
+      queryClient.invalidateQueries({ queryKey: ['pools'] });
+      queryClient.invalidateQueries({ queryKey: ['image'] });
+      setIsEditing(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save pool');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!pool) return;
+    if (!confirm(`Delete pool "${pool.name}"? Images are not affected.`)) return;
+    if (!(await ensureRole('editor'))) return;
+
+    try {
+      await deletePool(pool.id);
+      queryClient.invalidateQueries({ queryKey: ['pools'] });
+      queryClient.invalidateQueries({ queryKey: ['image'] });
+      navigate('/pools');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete pool');
+    }
+  };
+
+  // Let the image page step through the pool in order
+  const openImage = (imageIds: number[]) => {
+    saveNavigationContext(imageIds, `pool:${poolId} sort:pool`, 1, false);
+  };
+
+  if (isLoading) {
+    return (
+      <Box sx={{ p: 3 }}>
+        <Skeleton variant="text" width={300} height={48} />
+        <Skeleton variant="rectangular" height={300} sx={{ mt: 2 }} />
+      </Box>
+    );
+  }
+
+  if (loadError || !pool) {
+    return (
+      <Box sx={{ p: 3 }}>
+        <Alert severity="error">Pool not found</Alert>
+      </Box>
+    );
+  }
+
+  const imageIds = isEditing ? editedOrder : pool.image_ids;
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Stack direction="row" alignItems="center" spacing={1} sx={{ mb: 2 }}>
+        <IconButton component={Link} to="/pools" title="All pools">
+          <BackIcon />
+        </IconButton>
+        {isEditing ? (
+          <TextField
+            label="Name"
+            value={editedName}
+            onChange={(e) => setEditedName(e.target.value)}
+            size="small"
+            sx={{ flex: 1 }}
+          />
+        ) : (
+          <Typography variant="h4" sx={{ flex: 1, minWidth: 0 }} noWrap>
+            {pool.name.replace(/_/g, ' ')}
+          </Typography>
+        )}
+        {isEditing ? (
+          <>
+            <Button onClick={() => setIsEditing(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button variant="contained" startIcon={<SaveIcon />} onClick={saveEdits} disabled={isSaving || !editedName.trim()}>
+              Save
+            </Button>
+          </>
+        ) : (
+          <>
+            <IconButton onClick={() => startEditing(pool)} title="Edit pool">
+              <EditIcon />
+            </IconButton>
+            <IconButton onClick={handleDelete} title="Delete pool" color="error">
+              <DeleteIcon />
+            </IconButton>
+          </>
+        )}
+      </Stack>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {isEditing ? (
+        <TextField
+          label="Description"
+          value={editedDescription}
+          onChange={(e) => setEditedDescription(e.target.value)}
+          size="small"
+          fullWidth
+          multiline
+          sx={{ mb: 2 }}
+        />
+      ) : pool.description && (
+        <Typography variant="body1" color="text.secondary" sx={{ mb: 2, whiteSpace: 'pre-wrap' }}>
+          {pool.description}
+        </Typography>
+      )}
+
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        {imageIds.length.toLocaleString()} {imageIds.length === 1 ? 'image' : 'images'}
+        {!isEditing && imageIds.length > 0 && (
+          <> · <Link to={`/?q=${encodeURIComponent(`pool:${pool.id} sort:pool`)}`}>View as search</Link></>
+        )}
+      </Typography>
+
+      {imageIds.length === 0 ? (
+        <Paper sx={{ p: 4, textAlign: 'center' }}>
+          <Typography color="text.secondary">
+            This pool is empty. Add images from their image page.
+          </Typography>
+        </Paper>
+      ) : (
+        <Grid container spacing={2}>
+          {imageIds.map((imageId, index) => (
+            <Grid key={imageId} size={{ xs: 6, sm: 4, md: 3, lg: 2 }}>
+              <Paper sx={{ overflow: 'hidden', position: 'relative' }}>
+                <Box
+                  component={Link}
+                  to={`/image/${imageId}`}
+                  onClick={() => openImage(imageIds)}
+                  sx={{ display: 'block' }}
+                >
+                  <Box
+                    component="img"
+                    src={getThumbnailUrl(imageId)}
+                    alt={`#${imageId}`}
+                    loading="lazy"
+                    sx={{ width: '100%', height: 200, objectFit: 'cover', display: 'block' }}
+                  />
+                </Box>
+                <Stack direction="row" alignItems="center" justifyContent="space-between" sx={{ px: 1, py: 0.5 }}>
+                  {isEditing && (
+                    <IconButton size="small" onClick={() => moveImage(index, -1)} disabled={index === 0} title="Move earlier">
+                      <MoveLeftIcon fontSize="small" />
+                    </IconButton>
+                  )}
+                  <Typography variant="caption" color="text.secondary">
+                    {index + 1}
+                  </Typography>
+                  {isEditing && (
+                    <Stack direction="row">
+                      <IconButton size="small" onClick={() => removeImage(imageId)} title="Remove from pool">
+                        <RemoveIcon fontSize="small" />
+                      </IconButton>
+                      <IconButton
+                        size="small"
+                        onClick={() => moveImage(index, 1)}
+                        disabled={index === imageIds.length - 1}
+                        title="Move later"
+                      >
+                        <MoveRightIcon fontSize="small" />
+                      </IconButton>
+                    </Stack>
+                  )}
+                </Stack>
+              </Paper>
+            </Grid>
+          ))}
+        </Grid>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import {
+  Box,
+  Typography,
+  Stack,
+  Paper,
+  TextField,
+  Button,
+  Alert,
+  Card,
+  CardActionArea,
+  CardMedia,
+  CardContent,
+  Grid,
+  Skeleton,
+} from '@mui/material';
+import { Collections as PoolsIcon } from '@mui/icons-material';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  getPools,
+  createPool,
+  getThumbnailUrl,
+} from '../api/client';
+import { useAuth } from '../auth';
+
+export default function PoolsPage() {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [filter, setFilter] = useState('');
+  const [newName, setNewName] = useState('');
+  const [newDescription, setNewDescription] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: pools, isLoading } = useQuery({
+    queryKey: ['pools'],
+    queryFn: () => getPools(),
+  });
+
+  const { ensureRole } = useAuth();
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+
+    if (!(await ensureRole('editor'))) return;
+
+    setError(null);
+    setIsCreating(true);
+    try {
+      const pool = await createPool(newName.trim(), newDescription.trim() || undefined);
+      queryClient.invalidateQueries({ queryKey: ['pools'] });
+      navigate(`/pool/${pool.id}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create pool');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  // Pool names use underscores for spaces, so match either
+  const normalizedFilter = filter.trim().toLowerCase().replace(/\s+/g, '_');
+  const visiblePools = (pools || []).filter(p => p.name.toLowerCase().includes(normalizedFilter));
+
+  return (
+    <Box sx={{ p: 3 }}>
+      <Stack direction="row" alignItems="center" justifyContent="space-between" spacing={2} sx={{ mb: 2 }}>
+        <Typography variant="h4">Pools</Typography>
+        <TextField
+          size="small"
+          placeholder="Filter pools"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+        />
+      </Stack>
+
+      <Paper sx={{ p: 2, mb: 3 }}>
+        <Typography variant="h6" gutterBottom>
+          New Pool
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} alignItems="flex-start">
+          <TextField
+            label="Name"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="my_comic"
+            size="small"
+            fullWidth
+          />
+          <TextField
+            label="Description"
+            value={newDescription}
+            onChange={(e) => setNewDescription(e.target.value)}
+            size="small"
+            fullWidth
+          />
+          <Button
+            variant="contained"
+            onClick={handleCreate}
+            disabled={!newName.trim() || isCreating}
+            sx={{ flexShrink: 0 }}
+          >
+            Create
+          </Button>
+        </Stack>
+      </Paper>
+
+      {isLoading ? (
+        <Grid container spacing={2}>
+          {[...Array(6)].map((_, i) => (
+            <Grid key={i} size={{ xs: 6, sm: 4, md: 3, lg: 2 }}>
+              <Skeleton variant="rectangular" height={220} />
+            </Grid>
+          ))}
+        </Grid>
+      ) : visiblePools.length === 0 ? (
+        <Box sx={{ p: 4, textAlign: 'center' }}>
+          <PoolsIcon sx={{ fontSize: 48, color: 'text.secondary', mb: 1 }} />
+          <Typography color="text.secondary">
+            {pools && pools.length > 0 ? 'No pools match this filter' : 'No pools yet'}
+          </Typography>
+        </Box>
+      ) : (
+        <Grid container spacing={2}>
+          {visiblePools.map(pool => (
+            <Grid key={pool.id} size={{ xs: 6, sm: 4, md: 3, lg: 2 }}>
+              <Card>
+                <CardActionArea component={Link} to={`/pool/${pool.id}`}>
+                  {pool.cover_id ? (
+                    <CardMedia
+                      component="img"
+                      image={getThumbnailUrl(pool.cover_id)}
+                      alt={pool.name}
+                      sx={{ height: 180, objectFit: 'cover' }}
+                    />
+                  ) : (
+                    <Box sx={{ height: 180, display: 'flex', alignItems: 'center', justifyContent: 'center', bgcolor: 'action.hover' }}>
+                      <PoolsIcon sx={{ fontSize: 48, color: 'text.secondary' }} />
+                    </Box>
+                  )}
+                  <CardContent sx={{ py: 1 }}>
+                    <Typography variant="subtitle2" noWrap>
+                      {pool.name.replace(/_/g, ' ')}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      {pool.image_count.toLocaleString()} {pool.image_count === 1 ? 'image' : 'images'}
+                    </Typography>
+                  </CardContent>
+                </CardActionArea>
+              </Card>
+            </Grid>
+          ))}
+        </Grid>
+      )}
+    </Box>
+  );
+}
@@ -1,4 +1,5 @@
 import { createTheme } from '@mui/material/styles';
+import type { TagCategory } from '../types/api';
 
 // Extend MUI theme with custom palette values
 declare module '@mui/material/styles' {
@@ -8,6 +9,7 @@ declare module '@mui/material/styles' {
       controls: string;
       gradient: string;
     };
+    tagCategory: Record<TagCategory, string>;
   }
   interface PaletteOptions {
     imageViewer?: {
@@ -15,6 +17,7 @@ declare module '@mui/material/styles' {
       controls: string;
       gradient: string;
     };
+    tagCategory?: Record<TagCategory, string>;
   }
 }
 
@@ -78,6 +81,13 @@ export const darkTheme = createTheme({
       controls: '#ffffff',
       gradient: 'linear-gradient(to bottom, rgba(0,0,0,0.7) 0%, transparent 100%)',
     },
+    tagCategory: {
+      general: '#f1f5f9',
+      artist: '#f87171', // Red 400
+      character: '#4ade80', // Green 400
+      copyright: '#c084fc', // Purple 400
+      meta: '#fb923c', // Orange 400
+    },
   },
   components: {
     ...baseTheme.components,
@@ -129,6 +139,13 @@ export const lightTheme = createTheme({
       controls: '#334155', // Slate 700
       gradient: 'linear-gradient(to bottom, rgba(255,255,255,0.9) 0%, transparent 100%)',
     },
+    tagCategory: {
+      general: '#1e293b',
+      artist: '#dc2626', // Red 600
+      character: '#16a34a', // Green 600
+      copyright: '#9333ea', // Purple 600
+      meta: '#ea580c', // Orange 600
+    },
   },
   components: {
     ...baseTheme.components,
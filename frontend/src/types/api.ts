@@ -7,6 +7,10 @@ export interface Image {
   file_hash: string;
   width: number;
   height: number;
+  duration?: number | null;  // Seconds (videos and animated GIFs only, like the fields below)
+  fps?: number | null;
+  video_codec?: string | null;
+  has_audio?: boolean | number | null;
   artist?: string;
   rating?: number;
   source?: string;
@@ -14,9 +18,114 @@ export interface Image {
   updated_at: string;
 }
 
+export type TagCategory = 'general' | 'artist' | 'character' | 'copyright' | 'meta';
+
 export interface ImageWithTags extends Image {
   tags: string[];
+  tag_categories?: Record<string, TagCategory>;  // Category of each tag, keyed by name
   duplicates?: DuplicateInfo;
+  pools?: ImagePoolInfo[];
+  favorite_count?: number;
+  is_favorite?: boolean;  // Only set when logged in
+}
+
+export interface Pool {
+  id: number;
+  name: string;
+  description: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PoolWithCount extends Pool {
+  image_count: number;
+  cover_id: number | null;
+}
+
+export interface PoolDetail extends Pool {
+  image_count: number;
+  image_ids: number[];  // In pool order
+}
+
+// An image's place in one of its pools
+export interface ImagePoolInfo {
+  id: number;
+  name: string;
+  position: number;
+  count: number;
+  prev_id: number | null;
+  next_id: number | null;
+}
+
+// A visually similar image, by Hamming distance between content hashes (0-64, lower is closer)
+export interface SimilarImage {
+  id: number;
+  distance: number;
+}
+
+// Web uploads into the inbox folder
+export interface UploadStatus {
+  enabled: boolean;
+  max_size_mb: number;
+}
+
+export interface UploadMetadata {
+  tags: string;            // Space-separated, like the search bar
+  rating: number | null;
+  source: string;
+}
+
+export type UploadResult =
+  | { filename: string; status: 'added'; image_id: number }
+  | { filename: string; status: 'duplicate'; image_id: number }  // image_id is the existing copy
+  | { filename: string; status: 'failed'; error: string };
+
+// Metadata import: what a GET /api/export file changes on one image
+export interface ImportChange {
+  image_id: number;
+  path: string;
+  matched_by: 'hash' | 'path';
+  add_tags: string[];
+  remove_tags: string[];
+  rating?: { from: number | null; to: number | null };
+  artist?: { from: string | null; to: string | null };
+  source?: { from: string | null; to: string | null };
+  add_pools: { name: string; position: number }[];
+  duplicate_of?: number;
+}
+
+// Lists are cut off after 500 entries, the counts cover everything
+export interface ImportReport {
+  records: number;
+  matched: number;
+  changed: number;
+  unchanged: number;
+  unmatched_count: number;
+  unmatched: { line: number; path: string | null; file_hash: string | null }[];
+  invalid: { line: number; error: string }[];
+  changes: ImportChange[];
+}
+
+export interface ImportResult {
+  dry_run: boolean;
+  report: ImportReport;
+  job: BulkEditJob | null;  // The running import (null for dry runs and files that change nothing)
+}
+
+// One tag/rating change, as recorded in an image's history
+export interface ImageHistoryEntry {
+  id: number;
+  image_id: number;
+  source: 'user' | 'plugin' | 'scanner';
+  source_name: string | null;  // Username or plugin id
+  user_id: number | null;
+  added_tags: string[];
+  removed_tags: string[];
+  rating_changed: boolean;
+  rating_before: number | null;
+  rating_after: number | null;
+  reverted_from: number | null;
+  created_at: string;
 }
 
 export interface SearchResult {
@@ -27,25 +136,137 @@ export interface SearchResult {
   total_pages: number;
 }
 
+// Bulk edits, tag renames and merges and metadata imports run in the job queue
+export type BulkEditJob = Job;
+
 export interface Stats {
   total_images: number;
   total_tags: number;
   total_folders: number;
   last_scan?: string;
-  require_edit_password?: boolean;
 }
 
+// Roles from least to most privileged: viewer (favorites), editor (tags, pools), admin (folders, plugins, users)
+export type UserRole = 'viewer' | 'editor' | 'admin';
+
+export interface User {
+  id: number;
+  username: string;
+  role: UserRole;
+}
+
+export interface UserWithStats extends User {
+  created_at: string;
+  favorite_count: number;
+}
+
+export interface AuthStatus {
+  user: User | null;
+  guest_role: UserRole | null;  // Role for visitors who aren't logged in
+}
+
+export interface TagAlias {
+  id: number;
+  alias: string;
+  target: string;
+  created_at: string;
+}
+
+export interface TagImplication {
+  id: number;
+  tag: string;
+  implied_tag: string;
+  created_at: string;
+}
+
+// Whether a folder's sidecar files (image.jpg.txt, image.json, image.xmp) are read, and also written on edits
+export type SidecarMode = 'off' | 'read' | 'write';
+
 export interface Folder {
   id: number;
   path: string;
   do_recurse: boolean;
   enabled: boolean;
+  sidecars: SidecarMode;
+  default_tags: string[];        // Added to every image indexed from the folder
+  default_rating: number | null; // Given to new images that have no rating of their own
+  include_patterns: string[];    // Globs relative to the folder; if any, only matching files are indexed
+  exclude_patterns: string[];    // Globs for files to leave out
+  read_only: boolean;            // Edits stay in the database, files are never written
   last_scanned_at?: string;
   created_at: string;
 }
 
+// A directory in the folder browser, with its image counts
+export interface DirectoryNode {
+  name: string;
+  path: string;
+  count: number;   // Images directly in this directory
+  total: number;   // Images here and in every subdirectory
+  children: DirectoryNode[];
+}
+
+export type FolderSettings = Pick<
+  Folder,
+  'do_recurse' | 'enabled' | 'sidecars' | 'default_tags' | 'default_rating' | 'include_patterns' | 'exclude_patterns' | 'read_only'
+>;
+
+export type JobType =
+  | 'scan' | 'cleanup' | 'thumbnails' | 'duplicates' | 'sidecars'
+  | 'bulk_edit' | 'tag_merge' | 'tag_rules' | 'import';
+
+// Background job (maintenance like scans and cleanups, or an edit over many images)
+export interface Job {
+  id: number;
+  type: JobType;
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  folder_id: number | null;   // null = all folders
+  folder_path: string | null;
+  total: number;
+  processed: number;
+  failed: number;
+  error: string | null;
+  eta_seconds: number | null; // Only while running
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
 export interface DuplicateInfo {
   prime_id: number;
   is_prime: boolean;
   group?: number[];  // All image IDs in the duplicate group
 }
+
+// One image in a duplicate group waiting for review
+export interface DuplicateGroupImage {
+  id: number;
+  file_path: string;
+  filename: string;
+  file_type: string;
+  file_size: number;
+  width: number;
+  height: number;
+  tags: string[];
+}
+
+export interface DuplicateGroup {
+  prime_id: number;
+  images: DuplicateGroupImage[];  // Prime first, then best quality first
+}
+
+export interface DuplicateGroupsResult {
+  groups: DuplicateGroup[];
+  total: number;
+  page: number;
+  total_pages: number;
+}
+
+// Review decision for a duplicate group
+export interface DuplicateDecision {
+  prime_id: number;
+  not_duplicates: number[];  // Split off the group for good
+  merge_tags: boolean;       // Give the prime the tags of every image staying in the group
+  delete_ids: number[];
+  delete_files: boolean;     // Also delete the files from disk
+}